@@ -0,0 +1,33 @@
+'use client';
+
+import { Suspense } from 'react';
+import {
+  VStack,
+  Text,
+  Center,
+  Spinner,
+} from '@chakra-ui/react';
+import DeploymentDiff from '@/app/components/DeploymentDiff';
+
+function ComparePageContent() {
+  return (
+    <VStack gap={6} align="stretch">
+      <DeploymentDiff />
+    </VStack>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <Suspense fallback={
+      <Center py={12}>
+        <VStack>
+          <Spinner size="lg" />
+          <Text color="gray.600">Loading...</Text>
+        </VStack>
+      </Center>
+    }>
+      <ComparePageContent />
+    </Suspense>
+  );
+}
@@ -11,7 +11,7 @@ import EventLogsExplorer from '@/app/components/EventLogsExplorer';
 import { useContract } from '@/app/context/ContractContext';
 
 function EventsPageContent() {
-  const { contractAbi, contractAddress, activeChain } = useContract();
+  const { contractAbi, contractAddress, activeChain, selectorRegistry } = useContract();
 
   return (
     <VStack gap={6} align="stretch">
@@ -20,6 +20,7 @@ function EventsPageContent() {
           contractAddress={contractAddress}
           contractAbi={contractAbi}
           chain={activeChain}
+          selectorRegistry={selectorRegistry}
         />
       ) : (
         <Center py={12}>
@@ -11,8 +11,14 @@ import {
   Center,
   Heading,
   Spinner,
+  HStack,
+  Button,
 } from '@chakra-ui/react';
 import FunctionCard from '@/app/components/FunctionCard';
+import RawCalldataCard from '@/app/components/RawCalldataCard';
+import ProxyPanel from '@/app/components/ProxyPanel';
+import DiamondFunctions from '@/app/components/DiamondFunctions';
+import AbiInferencePanel from '@/app/components/AbiInferencePanel';
 import { mainnet } from '@/app/wagmi';
 import { useContract } from '@/app/context/ContractContext';
 import type { AbiFunction } from '@/app/types';
@@ -29,7 +35,17 @@ const chainsByName = {
 } as const;
 
 function FunctionsPageContent() {
-  const { contractAbi, contractAddress, loadingAbiList, activeChain } = useContract();
+  const {
+    contractAbi,
+    contractAddress,
+    selectedContract,
+    loadingAbiList,
+    activeChain,
+    rawCalldataMode,
+    setRawCalldataMode,
+    diamondFacets,
+    selectorRegistry,
+  } = useContract();
   const [searchTerm, setSearchTerm] = useState('');
   const searchInputRef = useRef<HTMLInputElement>(null);
   const searchParams = useSearchParams();
@@ -58,7 +74,11 @@ function FunctionsPageContent() {
   }, [searchTerm]);
 
   // Get all functions from ABI
-  const allFunctions: AbiFunction[] = contractAbi
+  // Diamonds list the functions of their facets instead of their own ABI
+  const isDiamond = diamondFacets !== null;
+  const allFunctions: AbiFunction[] = isDiamond
+    ? diamondFacets.flatMap((facet) => facet.functions)
+    : contractAbi
     ? contractAbi.filter((item): item is AbiFunction => item.type === 'function')
     : [];
 
@@ -80,10 +100,34 @@ function FunctionsPageContent() {
   const readFunctions = filterBySearch(allReadFunctions);
   const writeFunctions = filterBySearch(allWriteFunctions);
 
+  // Contracts without a usable ABI can still be called with hand-written calldata
+  const showRawCalldata = Boolean(contractAddress && selectedContract && (rawCalldataMode || (!contractAbi && !isDiamond)));
+
+  if (showRawCalldata) {
+    return (
+      <VStack gap={6} align="stretch">
+        <HStack justify="space-between">
+          <Heading size="lg">Raw Calldata</Heading>
+          {(contractAbi || isDiamond) && (
+            <Button size="sm" variant="outline" onClick={() => setRawCalldataMode(false)}>
+              Back to functions
+            </Button>
+          )}
+        </HStack>
+        <ProxyPanel key={contractAddress} />
+        {!contractAbi && !isDiamond && <AbiInferencePanel key={contractAddress} address={contractAddress} />}
+        <RawCalldataCard contractAddress={contractAddress} chain={selectedChain} selectorRegistry={selectorRegistry} />
+      </VStack>
+    );
+  }
+
   return (
     <VStack gap={6} align="stretch">
+      {/* Proxy relationship of the selected contract */}
+      {contractAddress && <ProxyPanel key={contractAddress} />}
+
       {/* Search Bar */}
-      {contractAbi && contractAddress && allFunctions.length > 0 && (
+      {(contractAbi || isDiamond) && contractAddress && allFunctions.length > 0 && (
         <Box>
           <Field.Root>
             <Field.Label fontWeight="semibold">
@@ -100,11 +144,14 @@ function FunctionsPageContent() {
               size="lg"
               fontFamily="mono"
             />
-            {searchTerm && (
-              <Text fontSize="xs" color="gray.600" mt={1}>
-                Showing {readFunctions.length + writeFunctions.length} of {allFunctions.length} function{allFunctions.length !== 1 ? 's' : ''}
+            <HStack justify="space-between" mt={1}>
+              <Text fontSize="xs" color="gray.600">
+                {searchTerm && `Showing ${readFunctions.length + writeFunctions.length} of ${allFunctions.length} function${allFunctions.length !== 1 ? 's' : ''}`}
               </Text>
-            )}
+              <Button size="xs" variant="ghost" onClick={() => setRawCalldataMode(true)}>
+                Raw calldata
+              </Button>
+            </HStack>
           </Field.Root>
         </Box>
       )}
@@ -119,8 +166,13 @@ function FunctionsPageContent() {
         </Center>
       )}
 
+      {/* Facet functions of a diamond */}
+      {isDiamond && contractAddress && (
+        <DiamondFunctions searchTerm={searchTerm} chain={selectedChain} />
+      )}
+
       {/* Function List */}
-      {contractAbi && contractAddress && allFunctions.length > 0 && (
+      {!isDiamond && contractAbi && contractAddress && allFunctions.length > 0 && (
         <>
           {readFunctions.length === 0 && writeFunctions.length === 0 ? (
             <Center py={12}>
@@ -149,6 +201,7 @@ function FunctionsPageContent() {
                       contractAddress={contractAddress}
                       contractAbi={contractAbi}
                       chain={selectedChain}
+                      selectorRegistry={selectorRegistry}
                     />
                   ))}
                 </Box>
@@ -168,6 +221,7 @@ function FunctionsPageContent() {
                       contractAddress={contractAddress}
                       contractAbi={contractAbi}
                       chain={selectedChain}
+                      selectorRegistry={selectorRegistry}
                     />
                   ))}
                 </Box>
@@ -178,7 +232,7 @@ function FunctionsPageContent() {
       )}
 
       {/* No functions message */}
-      {contractAbi && contractAddress && allFunctions.length === 0 && (
+      {!isDiamond && contractAbi && contractAddress && allFunctions.length === 0 && (
         <Center py={12}>
           <Text color="gray.600">
             No functions found in this contract&apos;s ABI
@@ -187,7 +241,7 @@ function FunctionsPageContent() {
       )}
 
       {/* Empty state when no contract selected */}
-      {!loadingAbiList && !contractAbi && (
+      {!loadingAbiList && !contractAbi && !isDiamond && (
         <Center py={12}>
           <VStack gap={2}>
             <Text color="gray.500" fontSize="lg">
@@ -0,0 +1,78 @@
+'use client';
+
+import { Suspense } from 'react';
+import {
+  VStack,
+  Text,
+  Center,
+  Spinner,
+} from '@chakra-ui/react';
+import StorageExplorer from '@/app/components/StorageExplorer';
+import { useContract } from '@/app/context/ContractContext';
+
+function StoragePageContent() {
+  const { selectedContract, contractAddress, activeChain, implementationContract, lookupStorageLayout, matchAbi } = useContract();
+
+  // A proxy's storage follows the layout of its implementation
+  const layoutContract = implementationContract && lookupStorageLayout(implementationContract)
+    ? implementationContract
+    : selectedContract;
+  const storageLayout = layoutContract ? lookupStorageLayout(layoutContract) : null;
+
+  if (!selectedContract || !contractAddress) {
+    return (
+      <Center py={12}>
+        <VStack gap={2}>
+          <Text color="gray.500" fontSize="lg">
+            Select a contract from the sidebar
+          </Text>
+          <Text color="gray.400" fontSize="sm">
+            Configure your deployment and contract settings on the left to inspect its storage
+          </Text>
+        </VStack>
+      </Center>
+    );
+  }
+
+  return (
+    <VStack gap={6} align="stretch">
+      {storageLayout ? (
+        <StorageExplorer
+          key={`${contractAddress}-${layoutContract}`}
+          contractAddress={contractAddress}
+          storageLayout={storageLayout}
+          chain={activeChain}
+          layoutName={matchAbi(layoutContract)?.abiName ?? layoutContract}
+        />
+      ) : (
+        <Center py={12}>
+          <VStack gap={2} maxW="lg" textAlign="center">
+            <Text color="gray.500" fontSize="lg">
+              No storage layout for {selectedContract}
+            </Text>
+            <Text color="gray.400" fontSize="sm">
+              Storage layouts come from foundry artifacts built with `extra_output = [&quot;storageLayout&quot;]`,
+              Hardhat build-info compiled with `storageLayout` in the solc `outputSelection`, or hardhat-deploy
+              deployments saved with their layout
+            </Text>
+          </VStack>
+        </Center>
+      )}
+    </VStack>
+  );
+}
+
+export default function StoragePage() {
+  return (
+    <Suspense fallback={
+      <Center py={12}>
+        <VStack>
+          <Spinner size="lg" />
+          <Text color="gray.600">Loading...</Text>
+        </VStack>
+      </Center>
+    }>
+      <StoragePageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { Box, VStack, HStack, Text, Button, Badge } from '@chakra-ui/react';
+import { toaster } from '@/components/ui/toaster';
+import { useContract } from '@/app/context/ContractContext';
+import { contractNameOf } from '@/app/utils/abiMatcher';
+import { adHocContractKey } from '@/app/utils/adHocContracts';
+import { AUTO_APPLY_MIN_SCORE, type AbiCandidate } from '@/app/utils/abiInference';
+
+const MAX_CANDIDATES = 5;
+
+/**
+ * Identify a contract without a usable ABI from its bytecode. Using a candidate saves
+ * it as an ad-hoc contract, so reads, events and transactions decode with it.
+ */
+export default function AbiInferencePanel({ address }: { address: string }) {
+  const { inferAbi, lookupAbi, adHocContracts, addAdHocContract, setSelectedContract } = useContract();
+  const [candidates, setCandidates] = useState<AbiCandidate[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  const identify = async () => {
+    setLoading(true);
+    try {
+      setCandidates(await inferAbi(address));
+    } catch (err) {
+      toaster.error({
+        title: 'Failed to read bytecode',
+        description: err instanceof Error ? err.message : 'Unknown error',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyCandidate = (candidate: AbiCandidate) => {
+    const abi = lookupAbi(candidate.abiName);
+    if (!abi) return;
+
+    // Keep labels of other addresses that happen to share the contract name
+    let name = contractNameOf(candidate.abiName);
+    if (adHocContracts.some((contract) => contract.name === name && contract.address.toLowerCase() !== address.toLowerCase())) {
+      name = `${name} ${address.slice(0, 6)}`;
+    }
+
+    addAdHocContract({ name, address, abi, source: 'json' });
+    setSelectedContract(adHocContractKey(name));
+  };
+
+  return (
+    <Box layerStyle="card">
+      <Box layerStyle="cardSection">
+        <HStack justify="space-between">
+          <Text textStyle="cardHeading">Identify from bytecode</Text>
+          <Button size="xs" variant="outline" onClick={identify} loading={loading}>
+            {candidates ? 'Retry' : 'Match loaded ABIs'}
+          </Button>
+        </HStack>
+
+        {candidates && candidates.length === 0 && (
+          <Text textStyle="helperText" mt={2}>No loaded ABI matches the selectors in this contract&apos;s bytecode</Text>
+        )}
+
+        {candidates && candidates.length > 0 && (
+          <VStack gap={1} align="stretch" mt={2}>
+            {candidates.slice(0, MAX_CANDIDATES).map((candidate) => (
+              <HStack key={candidate.abiName} justify="space-between" gap={2}>
+                <HStack gap={2} minW={0}>
+                  <Text fontSize="sm" truncate title={candidate.abiName}>{contractNameOf(candidate.abiName)}</Text>
+                  <Badge colorScheme={candidate.score >= AUTO_APPLY_MIN_SCORE ? 'green' : 'gray'}>
+                    {Math.round(candidate.score * 100)}%
+                  </Badge>
+                  <Text textStyle="helperText">{candidate.matched}/{candidate.functionCount} functions</Text>
+                </HStack>
+                <Button size="xs" onClick={() => applyCandidate(candidate)}>Use</Button>
+              </HStack>
+            ))}
+          </VStack>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { VStack, HStack, Text, Badge, NativeSelectRoot, NativeSelectField } from '@chakra-ui/react';
+import { useContract } from '@/app/context/ContractContext';
+import { ABI_MATCH_LABELS, getAbiPin } from '@/app/utils/abiMatcher';
+
+/**
+ * Which ABI a deployment contract resolved to and how, with a picker to pin another one
+ */
+export default function AbiMatchInfo({ contractName }: { contractName: string }) {
+  const {
+    availableAbis,
+    matchAbi,
+    abiPins,
+    pinAbi,
+    selectedNetwork,
+    selectedDeployment,
+  } = useContract();
+
+  const match = matchAbi(contractName);
+  const pinned = getAbiPin(abiPins, selectedNetwork, selectedDeployment, contractName);
+  const abiNames = Array.from(availableAbis).sort();
+
+  return (
+    <VStack gap={1} align="stretch" mt={2}>
+      <HStack gap={2}>
+        <Text fontSize="xs" color="gray.600">ABI:</Text>
+        {match ? (
+          <>
+            <Text fontSize="xs" fontFamily="mono" truncate title={match.abiName}>{match.abiName}</Text>
+            <Badge size="sm" colorScheme={match.score <= 1 ? 'green' : 'orange'}>
+              {ABI_MATCH_LABELS[match.score]}
+            </Badge>
+          </>
+        ) : (
+          <Text fontSize="xs" color="gray.500">none</Text>
+        )}
+      </HStack>
+      {pinned && match?.abiName !== pinned && (
+        <Text fontSize="xs" color="orange.600">
+          Pinned ABI {pinned} is no longer in the ABIs folder
+        </Text>
+      )}
+      <NativeSelectRoot size="xs">
+        <NativeSelectField
+          value={pinned ?? ''}
+          onChange={(e) => pinAbi(contractName, e.target.value || null)}
+          bg={{ base: 'white' }}
+          _dark={{ bg: 'gray.800' }}
+          aria-label={`ABI for ${contractName}`}
+        >
+          <option value="">Automatic (best match)</option>
+          {pinned && !availableAbis.has(pinned) && (
+            <option value={pinned}>{pinned} (missing)</option>
+          )}
+          {abiNames.map((abiName) => (
+            <option key={abiName} value={abiName}>{abiName}</option>
+          ))}
+        </NativeSelectField>
+      </NativeSelectRoot>
+    </VStack>
+  );
+}
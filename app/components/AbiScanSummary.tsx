@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { Box, VStack, HStack, Text, Button } from '@chakra-ui/react';
+import type { ArtifactScanReport } from '@/app/utils/abiFolderWatcher';
+
+/**
+ * What the last ABIs folder scan found (per loader) and skipped, with reasons
+ */
+export default function AbiScanSummary({ abiCount, report }: { abiCount: number; report: ArtifactScanReport | null }) {
+  const [showDetails, setShowDetails] = useState<boolean>(false);
+
+  const loaderCounts = new Map<string, number>();
+  for (const found of report?.found ?? []) {
+    loaderCounts.set(found.loader, (loaderCounts.get(found.loader) ?? 0) + found.contracts.length);
+  }
+  const skipped = report?.skipped ?? [];
+
+  return (
+    <VStack gap={1} align="stretch" mt={1}>
+      <HStack justify="space-between">
+        <Text fontSize="xs" color="green.600">
+          ✓ Found {abiCount} ABI{abiCount !== 1 ? 's' : ''}
+          {loaderCounts.size > 0 && ` (${Array.from(loaderCounts, ([loader, count]) => `${count} ${loader}`).join(', ')})`}
+        </Text>
+        {skipped.length > 0 && (
+          <Button size="2xs" variant="ghost" onClick={() => setShowDetails(!showDetails)}>
+            {showDetails ? 'Hide' : `${skipped.length} skipped`}
+          </Button>
+        )}
+      </HStack>
+      {showDetails && (
+        <Box maxH="160px" overflowY="auto" borderWidth="1px" borderRadius="md" p={2}>
+          {skipped.map(({ path, reason }) => (
+            <Text key={`${path}:${reason}`} fontSize="2xs" fontFamily="mono" color="gray.600" wordBreak="break-all">
+              {path} — {reason}
+            </Text>
+          ))}
+        </Box>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Heading,
+  Button,
+  Field,
+  Input,
+  Textarea,
+  NativeSelectRoot,
+  NativeSelectField,
+  Text,
+  IconButton,
+} from '@chakra-ui/react';
+import { LuX } from 'react-icons/lu';
+import { useContract } from '@/app/context/ContractContext';
+import {
+  adHocContractKey,
+  createAdHocContract,
+  STANDARD_ABIS,
+  type AdHocAbiSource,
+  type StandardAbiName,
+} from '@/app/utils/adHocContracts';
+
+const SOURCE_PLACEHOLDERS: Record<Exclude<AdHocAbiSource, 'standard'>, string> = {
+  json: '[{"type":"function","name":"balanceOf",...}]',
+  signatures: 'function balanceOf(address) view returns (uint256)\nevent Transfer(address indexed from, address indexed to, uint256 value)',
+};
+
+/**
+ * Sidebar section for contracts defined by an address and a pasted ABI
+ */
+export default function AdHocContractsPanel() {
+  const {
+    adHocContracts,
+    addAdHocContract,
+    removeAdHocContract,
+    selectedContract,
+    setSelectedContract,
+  } = useContract();
+
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [address, setAddress] = useState<string>('');
+  const [source, setSource] = useState<AdHocAbiSource>('signatures');
+  const [abiInput, setAbiInput] = useState<string>('');
+  const [standard, setStandard] = useState<StandardAbiName>('ERC20');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setName('');
+    setAddress('');
+    setAbiInput('');
+    setFormError(null);
+    setIsAdding(false);
+  };
+
+  const handleAdd = () => {
+    try {
+      const contract = createAdHocContract(name, address, source, source === 'standard' ? standard : abiInput);
+      addAdHocContract(contract);
+      setSelectedContract(adHocContractKey(contract.name));
+      resetForm();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  return (
+    <VStack gap={2} align="stretch">
+      <HStack justify="space-between" align="center" mt={2}>
+        <Heading size="sm">Ad-hoc Contracts</Heading>
+        <Button size="xs" variant="ghost" onClick={() => isAdding ? resetForm() : setIsAdding(true)}>
+          {isAdding ? 'Cancel' : '+ Add'}
+        </Button>
+      </HStack>
+
+      {adHocContracts.length === 0 && !isAdding && (
+        <Text fontSize="xs" color="gray.600">
+          Interact with any address by pasting its ABI or function signatures
+        </Text>
+      )}
+
+      {adHocContracts.map((contract) => {
+        const key = adHocContractKey(contract.name);
+        const isSelected = selectedContract === key;
+        return (
+          <HStack key={key} gap={1}>
+            <Button
+              size="xs"
+              variant={isSelected ? 'solid' : 'outline'}
+              flex={1}
+              justifyContent="space-between"
+              onClick={() => setSelectedContract(key)}
+              title={contract.address}
+            >
+              <Text truncate>{contract.name}</Text>
+              <Text fontFamily="mono" fontSize="2xs" opacity={0.7}>
+                {contract.address.slice(0, 6)}…{contract.address.slice(-4)}
+              </Text>
+            </Button>
+            <IconButton
+              size="xs"
+              variant="ghost"
+              aria-label={`Remove ${contract.name}`}
+              onClick={() => removeAdHocContract(contract.name)}
+            >
+              <LuX />
+            </IconButton>
+          </HStack>
+        );
+      })}
+
+      {isAdding && (
+        <Box borderWidth="1px" borderRadius="md" p={2}>
+          <VStack gap={2} align="stretch">
+            <Field.Root>
+              <Field.Label fontSize="sm" fontWeight="semibold">Name:</Field.Label>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="USDC"
+                bg={{ base: 'white' }}
+                _dark={{ bg: 'gray.800' }}
+                fontSize="sm"
+              />
+            </Field.Root>
+
+            <Field.Root>
+              <Field.Label fontSize="sm" fontWeight="semibold">Address:</Field.Label>
+              <Input
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="0x..."
+                bg={{ base: 'white' }}
+                _dark={{ bg: 'gray.800' }}
+                fontSize="xs"
+                fontFamily="mono"
+              />
+            </Field.Root>
+
+            <Field.Root>
+              <Field.Label fontSize="sm" fontWeight="semibold">ABI:</Field.Label>
+              <NativeSelectRoot size="sm">
+                <NativeSelectField
+                  value={source}
+                  onChange={(e) => setSource(e.target.value as AdHocAbiSource)}
+                  bg={{ base: 'white' }}
+                  _dark={{ bg: 'gray.800' }}
+                >
+                  <option value="signatures">Human-readable signatures</option>
+                  <option value="json">JSON ABI</option>
+                  <option value="standard">Standard interface</option>
+                </NativeSelectField>
+              </NativeSelectRoot>
+            </Field.Root>
+
+            {source === 'standard' ? (
+              <NativeSelectRoot size="sm">
+                <NativeSelectField
+                  value={standard}
+                  onChange={(e) => setStandard(e.target.value as StandardAbiName)}
+                  bg={{ base: 'white' }}
+                  _dark={{ bg: 'gray.800' }}
+                >
+                  {(Object.keys(STANDARD_ABIS) as StandardAbiName[]).map((standardName) => (
+                    <option key={standardName} value={standardName}>{standardName}</option>
+                  ))}
+                </NativeSelectField>
+              </NativeSelectRoot>
+            ) : (
+              <Textarea
+                value={abiInput}
+                onChange={(e) => setAbiInput(e.target.value)}
+                placeholder={SOURCE_PLACEHOLDERS[source]}
+                rows={5}
+                bg={{ base: 'white' }}
+                _dark={{ bg: 'gray.800' }}
+                fontSize="xs"
+                fontFamily="mono"
+              />
+            )}
+
+            {formError && (
+              <Text fontSize="xs" color="red.500">{formError}</Text>
+            )}
+
+            <Button size="sm" colorScheme="blue" onClick={handleAdd}>
+              Add Contract
+            </Button>
+          </VStack>
+        </Box>
+      )}
+    </VStack>
+  );
+}
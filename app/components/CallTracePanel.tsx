@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createPublicClient, http, type Transaction } from 'viem';
+import { Box, VStack, HStack, Text, Code, Badge, Button, Alert, Spinner, Collapsible } from '@chakra-ui/react';
+import { useContract } from '@/app/context/ContractContext';
+import { contractNameOf } from '@/app/utils/abiMatcher';
+import { findContractByAddress, serializeBigInts } from '@/app/utils/transactionDecoder';
+import { fetchCallTrace, type CallFrame, type CallTraceResult, type CallType } from '@/app/utils/callTrace';
+import RevertReason from './RevertReason';
+
+const CALL_TYPE_COLORS: Record<CallType, string> = {
+  CALL: 'blue',
+  STATICCALL: 'gray',
+  DELEGATECALL: 'purple',
+  CALLCODE: 'purple',
+  CREATE: 'green',
+  CREATE2: 'green',
+  SELFDESTRUCT: 'red',
+};
+
+function CallFrameRow({ frame, depth, labelOf }: { frame: CallFrame; depth: number; labelOf: (address: string | null) => string | null }) {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [showCalls, setShowCalls] = useState<boolean>(true);
+  const label = labelOf(frame.to);
+  const target = label ?? (frame.call?.abiName ? contractNameOf(frame.call.abiName) : frame.to ?? 'new contract');
+  const method = frame.call ? frame.call.functionName : frame.input.length >= 10 ? frame.input.slice(0, 10) : frame.type.startsWith('CREATE') ? 'constructor' : 'fallback';
+
+  return (
+    <Box pl={depth > 0 ? 4 : 0} borderLeftWidth={depth > 0 ? '1px' : 0}>
+      <HStack gap={2} py={1} wrap="wrap">
+        {frame.calls.length > 0 ? (
+          <Button size="2xs" variant="ghost" onClick={() => setShowCalls(!showCalls)} aria-label={showCalls ? 'Collapse calls' : 'Expand calls'}>
+            {showCalls ? '▼' : '▶'}
+          </Button>
+        ) : (
+          <Box w={6} />
+        )}
+        <Badge colorScheme={CALL_TYPE_COLORS[frame.type]}>{frame.type}</Badge>
+        <Text
+          as="button"
+          fontSize="sm"
+          fontFamily="mono"
+          textAlign="left"
+          onClick={() => setIsExpanded(!isExpanded)}
+          title={frame.to ?? undefined}
+          _hover={{ textDecoration: 'underline' }}
+        >
+          {target}.{method}()
+        </Text>
+        {frame.value > BigInt(0) && <Text textStyle="helperText">{frame.value.toString()} wei</Text>}
+        {frame.error && <Badge colorScheme="red">{frame.revert?.summary ?? frame.error}</Badge>}
+        <Text textStyle="helperText" ml="auto">{frame.gasUsed.toString()} gas</Text>
+      </HStack>
+
+      <Collapsible.Root open={isExpanded}>
+        <Collapsible.Content>
+          <VStack gap={2} align="stretch" pl={8} pb={2}>
+            <Text textStyle="monoCode" color="fg.muted" wordBreak="break-all">
+              {frame.from} → {frame.to ?? 'new contract'}
+            </Text>
+            {frame.call ? (
+              <>
+                <Code layerStyle="codeInline" whiteSpace="pre-wrap" wordBreak="break-all">
+                  {frame.call.signature}
+                  {'\n'}
+                  {JSON.stringify(serializeBigInts(frame.call.args), null, 2)}
+                </Code>
+                {frame.call.alternatives && frame.call.alternatives.length > 0 && (
+                  <Text fontSize="xs" color="orange.fg">Selector collision, also: {frame.call.alternatives.join(', ')}</Text>
+                )}
+              </>
+            ) : (
+              <Box>
+                <Text textStyle="label">Input:</Text>
+                <Code layerStyle="codeInline" wordBreak="break-all">{frame.input}</Code>
+              </Box>
+            )}
+            {frame.result !== undefined ? (
+              <Box>
+                <Text textStyle="label">Returned:</Text>
+                <Code layerStyle="codeInline" whiteSpace="pre-wrap" wordBreak="break-all">
+                  {JSON.stringify(serializeBigInts(frame.result), null, 2)}
+                </Code>
+              </Box>
+            ) : !frame.error && frame.output !== '0x' && (
+              <Box>
+                <Text textStyle="label">Output:</Text>
+                <Code layerStyle="codeInline" wordBreak="break-all">{frame.output}</Code>
+              </Box>
+            )}
+            {frame.revert && <RevertReason revert={frame.revert} />}
+            <Text textStyle="helperText">Gas limit {frame.gas.toString()}, used {frame.gasUsed.toString()}</Text>
+          </VStack>
+        </Collapsible.Content>
+      </Collapsible.Root>
+
+      {showCalls && frame.calls.map((child, index) => (
+        <CallFrameRow key={index} frame={child} depth={depth + 1} labelOf={labelOf} />
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Call tree of a mined transaction from debug_traceTransaction, decoded with the loaded ABIs
+ */
+export default function CallTracePanel({ transaction }: { transaction: Transaction }) {
+  const { activeChain, selectorRegistry, deploymentsFile, selectedNetwork, selectedDeployment, adHocContracts } = useContract();
+  const [outcome, setOutcome] = useState<{ result: CallTraceResult | null; error: string | null } | null>(null);
+  const [attempt, setAttempt] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const client = createPublicClient({ chain: activeChain, transport: http() });
+
+    fetchCallTrace(client, transaction, selectorRegistry)
+      .then((result) => {
+        if (!cancelled) setOutcome({ result, error: null });
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setOutcome({ result: null, error: 'Failed to trace transaction: ' + (err instanceof Error ? err.message : 'Unknown error') });
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [transaction, activeChain, selectorRegistry, attempt]);
+
+  const labelOf = (address: string | null): string | null => {
+    if (!address) return null;
+    const adHoc = adHocContracts.find((contract) => contract.address.toLowerCase() === address.toLowerCase());
+    return findContractByAddress(address, deploymentsFile, selectedNetwork, selectedDeployment) ?? adHoc?.name ?? null;
+  };
+
+  const retry = () => {
+    setOutcome(null);
+    setAttempt(attempt + 1);
+  };
+
+  if (!outcome) {
+    return (
+      <HStack gap={2} py={4}>
+        <Spinner size="sm" />
+        <Text fontSize="sm" color="fg.muted">Tracing transaction...</Text>
+      </HStack>
+    );
+  }
+
+  if (outcome.error || !outcome.result) {
+    return (
+      <Alert.Root status="error" size="sm">
+        <Alert.Indicator />
+        <Alert.Title fontSize="xs" flex={1}>{outcome.error}</Alert.Title>
+        <Button size="xs" variant="outline" onClick={retry}>Retry</Button>
+      </Alert.Root>
+    );
+  }
+
+  if (!outcome.result.supported) {
+    return (
+      <Alert.Root status="info" size="sm">
+        <Alert.Indicator />
+        <Alert.Content>
+          <Alert.Title fontSize="xs">This RPC doesn&apos;t support debug_traceTransaction</Alert.Title>
+          <Alert.Description fontSize="xs">
+            Call traces need a node with the debug API, e.g. anvil, hardhat or geth with `--http.api debug`. {outcome.result.reason}
+          </Alert.Description>
+        </Alert.Content>
+      </Alert.Root>
+    );
+  }
+
+  return (
+    <VStack gap={2} align="stretch">
+      {outcome.result.source === 'structLogs' && (
+        <Text textStyle="helperText">
+          Rebuilt from an opcode trace: the node has no call tracer. Gas per call includes the call overhead.
+        </Text>
+      )}
+      <Box layerStyle="codeBlock" overflowX="auto">
+        <CallFrameRow frame={outcome.result.trace} depth={0} labelOf={labelOf} />
+      </Box>
+    </VStack>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, VStack, Text, Code, Heading } from '@chakra-ui/react';
+import { DialogRoot, DialogContent, DialogHeader, DialogTitle, DialogBody, DialogFooter, DialogBackdrop } from '@chakra-ui/react';
+import { useContract } from '@/app/context/ContractContext';
+
+/**
+ * Blocks the explorer when the RPC endpoint serves a different chain than the
+ * selected network expects, until the user fixes the chain id or explicitly continues.
+ */
+export default function ChainMismatchDialog() {
+  const {
+    rpcUrl,
+    rpcStatus,
+    rpcChainMismatch,
+    activeChainConfig,
+    selectedNetwork,
+    updateChainConfig,
+  } = useContract();
+
+  // Mismatches the user chose to ignore, keyed by URL and both chain ids
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const mismatchKey = `${rpcUrl}:${rpcStatus.chainId}:${activeChainConfig.chainId}`;
+  const open = rpcChainMismatch && !dismissed.has(mismatchKey);
+
+  const handleContinue = () => {
+    setDismissed((prev) => new Set(prev).add(mismatchKey));
+  };
+
+  const handleUseRpcChainId = () => {
+    if (rpcStatus.chainId !== null) {
+      updateChainConfig(selectedNetwork, { chainId: rpcStatus.chainId });
+    }
+  };
+
+  return (
+    <DialogRoot open={open} size="md">
+      <DialogBackdrop
+        position="fixed"
+        top={0}
+        left={0}
+        right={0}
+        bottom={0}
+        bg="blackAlpha.600"
+        zIndex={1000}
+      />
+      <DialogContent
+        position="fixed"
+        top="50%"
+        left="50%"
+        transform="translate(-50%, -50%)"
+        zIndex={1001}
+        bg="white"
+        maxW="md"
+        w="full"
+        mx={4}
+      >
+        <DialogHeader>
+          <DialogTitle>
+            <Heading size="md">RPC chain mismatch</Heading>
+          </DialogTitle>
+        </DialogHeader>
+
+        <DialogBody>
+          <VStack gap={3} align="stretch">
+            <Text fontSize="sm">
+              The RPC endpoint <Code fontSize="xs" wordBreak="break-all">{rpcUrl}</Code> reports
+              chain id <strong>{rpcStatus.chainId}</strong>, but{' '}
+              {selectedNetwork ? <>network <strong>{selectedNetwork}</strong></> : 'the default chain'} is
+              configured for chain id <strong>{activeChainConfig.chainId}</strong> ({activeChainConfig.name}).
+            </Text>
+            <Text fontSize="sm" color="fg.muted">
+              Reads would go to the wrong chain and wallet transactions would be rejected.
+              Change the RPC URL in the sidebar, or update the network&apos;s chain id if the endpoint is correct.
+            </Text>
+          </VStack>
+        </DialogBody>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={handleContinue} mr={2}>
+            Continue Anyway
+          </Button>
+          {selectedNetwork && (
+            <Button colorScheme="blue" onClick={handleUseRpcChainId}>
+              Use Chain ID {rpcStatus.chainId}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </DialogRoot>
+  );
+}
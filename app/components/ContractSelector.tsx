@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { Field, HStack, Text, Alert, Button, createListCollection } from '@chakra-ui/react';
+import {
+  ComboboxContent,
+  ComboboxInput,
+  ComboboxItem,
+  ComboboxRoot,
+} from '@/components/ui/combobox';
+import AbiMatchInfo from '@/app/components/AbiMatchInfo';
+import { useContract } from '@/app/context/ContractContext';
+import { contractNameOf } from '@/app/utils/abiMatcher';
+import {
+  CONTRACT_ISSUE_LABELS,
+  filterContractOptions,
+  listContractOptions,
+} from '@/app/utils/contractOptions';
+
+function shortAddress(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+}
+
+/**
+ * Searchable list of every contract in the selected deployment. Contracts that can't
+ * be used are greyed out with the reason; selecting one offers to pin an ABI or to
+ * talk to it with raw calldata.
+ */
+export default function ContractSelector() {
+  const {
+    deploymentsFile,
+    selectedNetwork,
+    selectedDeployment,
+    selectedContract,
+    setSelectedContract,
+    setRawCalldataMode,
+    matchAbi,
+    loadingAbiList,
+    abisFolderHandle,
+    hardhatDeployHandle,
+  } = useContract();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const options = useMemo(
+    () => listContractOptions(deploymentsFile[selectedNetwork]?.[selectedDeployment] ?? {}, matchAbi),
+    [deploymentsFile, selectedNetwork, selectedDeployment, matchAbi]
+  );
+  const usableCount = options.filter((option) => option.issue === null).length;
+  const selectedOption = options.find((option) => option.name === selectedContract) ?? null;
+
+  // Show the selected contract in the input, and let typing filter the list.
+  // Adjusted during render when the selection changes elsewhere (URL, ad-hoc panel).
+  const selectedName = selectedOption?.name ?? '';
+  const [inputValue, setInputValue] = useState<string>(selectedName);
+  const [prevSelectedName, setPrevSelectedName] = useState<string>(selectedName);
+  if (selectedName !== prevSelectedName) {
+    setPrevSelectedName(selectedName);
+    setInputValue(selectedName);
+  }
+
+  const shouldFilter = inputValue && inputValue !== selectedName;
+  const collection = createListCollection({
+    items: (shouldFilter ? filterContractOptions(options, inputValue) : options).map((option) => ({
+      label: option.name,
+      value: option.name,
+      // A malformed address can't be used in any mode
+      disabled: option.issue === 'malformed-address',
+      option,
+    })),
+  });
+
+  const openRawCalldata = () => {
+    setRawCalldataMode(true);
+    if (pathname !== '/functions') {
+      router.push(`/functions${window.location.search}`);
+    }
+  };
+
+  const placeholder = !abisFolderHandle && !hardhatDeployHandle
+    ? 'Select ABIs folder first'
+    : loadingAbiList
+    ? 'Loading...'
+    : options.length === 0
+    ? 'No contracts in this deployment'
+    : 'Search by name or address...';
+
+  return (
+    <Field.Root>
+      <Field.Label fontSize="sm" fontWeight="semibold">
+        Select Contract:
+        {loadingAbiList && (
+          <Text as="span" ml={2} fontSize="xs" color="gray.500" fontWeight="normal">
+            (Loading...)
+          </Text>
+        )}
+      </Field.Label>
+      <ComboboxRoot
+        collection={collection}
+        size="sm"
+        disabled={loadingAbiList}
+        value={selectedOption ? [selectedOption.name] : []}
+        onValueChange={(details) => setSelectedContract(details.value[0] || '')}
+        inputValue={inputValue}
+        onInputValueChange={(details) => setInputValue(details.inputValue)}
+        openOnClick
+      >
+        <ComboboxInput placeholder={placeholder} bg={{ base: 'white' }} _dark={{ bg: 'gray.800' }} />
+        <ComboboxContent>
+          {collection.items.map((item) => (
+            <ComboboxItem item={item} key={item.value}>
+              <HStack as="span" justify="space-between" gap={2} w="full" color={item.option.issue ? 'fg.muted' : undefined}>
+                <Text as="span" truncate>{item.option.name}</Text>
+                <Text as="span" fontFamily="mono" fontSize="2xs" opacity={0.7} flexShrink={0}>
+                  {item.option.issue ? CONTRACT_ISSUE_LABELS[item.option.issue] : shortAddress(item.option.address)}
+                </Text>
+              </HStack>
+            </ComboboxItem>
+          ))}
+        </ComboboxContent>
+      </ComboboxRoot>
+      {!loadingAbiList && options.length > 0 && (
+        <Text fontSize="xs" color="gray.600" mt={1}>
+          {usableCount} of {options.length} contract{options.length !== 1 ? 's' : ''} usable
+        </Text>
+      )}
+
+      {selectedOption && selectedOption.issue === null && (
+        <AbiMatchInfo contractName={selectedOption.name} />
+      )}
+
+      {selectedOption && selectedOption.issue !== null && (
+        <Alert.Root status="warning" size="sm" mt={2}>
+          <Alert.Indicator />
+          <Alert.Content>
+            <Alert.Title fontSize="xs">
+              {selectedOption.issue === 'ambiguous-abi'
+                ? `${contractNameOf(selectedOption.name)} matches ${selectedOption.abiMatch!.candidates!.length} artifacts`
+                : `${selectedOption.name}: ${CONTRACT_ISSUE_LABELS[selectedOption.issue]}`}
+            </Alert.Title>
+            <Alert.Description fontSize="xs">
+              {selectedOption.issue === 'ambiguous-abi' && selectedOption.abiMatch!.candidates!.map((candidate) => (
+                <Text key={candidate} fontFamily="mono" wordBreak="break-all">{candidate}</Text>
+              ))}
+              Pin an ABI below, use the fully-qualified name in the deployments file, or call
+              the contract with raw calldata.
+              <AbiMatchInfo contractName={selectedOption.name} />
+              {selectedOption.issue !== 'malformed-address' && (
+                <Button size="xs" variant="outline" mt={2} onClick={openRawCalldata}>
+                  Open with raw calldata
+                </Button>
+              )}
+            </Alert.Description>
+          </Alert.Content>
+        </Alert.Root>
+      )}
+    </Field.Root>
+  );
+}
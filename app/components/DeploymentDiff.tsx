@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useMemo, useEffect } from 'react';
+import { createPublicClient, http, type Hex } from 'viem';
+import {
+  Box,
+  VStack,
+  HStack,
+  Grid,
+  Heading,
+  Text,
+  Code,
+  Badge,
+  Button,
+  Field,
+  NativeSelectRoot,
+  NativeSelectField,
+} from '@chakra-ui/react';
+import { toaster } from '@/components/ui/toaster';
+import { useContract } from '@/app/context/ContractContext';
+import { isAmbiguousMatch } from '@/app/utils/abiMatcher';
+import {
+  diffDeployments,
+  diffAbis,
+  compareBytecode,
+  type ContractChange,
+  type AbiEntryDiff,
+  type BytecodeComparison,
+} from '@/app/utils/deploymentDiff';
+
+interface DeploymentRef {
+  network: string;
+  deployment: string;
+}
+
+const CHANGE_COLORS: Record<ContractChange, string> = {
+  added: 'green',
+  removed: 'red',
+  moved: 'orange',
+  unchanged: 'gray',
+};
+
+const BYTECODE_LABELS: Record<BytecodeComparison | 'error', { label: string; color: string }> = {
+  identical: { label: 'Bytecode identical', color: 'green' },
+  different: { label: 'Bytecode differs', color: 'orange' },
+  missing: { label: 'No code on one side', color: 'red' },
+  error: { label: 'Bytecode check failed', color: 'red' },
+};
+
+const ABI_CHANGE_PREFIX: Record<AbiEntryDiff['change'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+// Network + deployment pickers for one side of the comparison
+function DeploymentPicker({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: DeploymentRef;
+  onChange: (value: DeploymentRef) => void;
+}) {
+  const { deploymentsFile } = useContract();
+  const networkNames = Object.keys(deploymentsFile);
+  const deploymentNames = Object.keys(deploymentsFile[value.network] || {});
+
+  return (
+    <Box layerStyle="card">
+      <Box layerStyle="cardSection">
+        <Text textStyle="cardHeading" mb={2}>{label}</Text>
+        <VStack gap={2} align="stretch">
+          <Field.Root>
+            <Field.Label textStyle="label">Network:</Field.Label>
+            <NativeSelectRoot size="sm">
+              <NativeSelectField
+                value={value.network}
+                onChange={(e) => onChange({ network: e.target.value, deployment: '' })}
+              >
+                <option value="">-- Select a network --</option>
+                {networkNames.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </NativeSelectField>
+            </NativeSelectRoot>
+          </Field.Root>
+          <Field.Root>
+            <Field.Label textStyle="label">Deployment:</Field.Label>
+            <NativeSelectRoot size="sm" disabled={!value.network}>
+              <NativeSelectField
+                value={value.deployment}
+                onChange={(e) => onChange({ ...value, deployment: e.target.value })}
+              >
+                <option value="">-- Select a deployment --</option>
+                {deploymentNames.map((name) => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </NativeSelectField>
+            </NativeSelectRoot>
+          </Field.Root>
+        </VStack>
+      </Box>
+    </Box>
+  );
+}
+
+export default function DeploymentDiff() {
+  const {
+    deploymentsFile,
+    selectedNetwork,
+    selectedDeployment,
+    abiCache,
+    matchAbi,
+    getChainForNetwork,
+  } = useContract();
+
+  const [left, setLeft] = useState<DeploymentRef>({ network: '', deployment: '' });
+  const [right, setRight] = useState<DeploymentRef>({ network: '', deployment: '' });
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+  const [bytecode, setBytecode] = useState<Record<string, BytecodeComparison | 'error'>>({});
+  const [checkingBytecode, setCheckingBytecode] = useState<boolean>(false);
+
+  // Default: compare the selected deployment with the next one on the same network
+  useEffect(() => {
+    if (left.network || !selectedNetwork) return;
+
+    const deployments = Object.keys(deploymentsFile[selectedNetwork] || {});
+    const base = selectedDeployment || deployments[0] || '';
+    const other = deployments.find((name) => name !== base) || base;
+    setLeft({ network: selectedNetwork, deployment: base });
+    setRight({ network: selectedNetwork, deployment: other });
+  }, [deploymentsFile, selectedNetwork, selectedDeployment, left.network]);
+
+  const leftDeployment = deploymentsFile[left.network]?.[left.deployment];
+  const rightDeployment = deploymentsFile[right.network]?.[right.deployment];
+
+  const diffs = useMemo(
+    () => leftDeployment && rightDeployment ? diffDeployments(leftDeployment, rightDeployment) : [],
+    [leftDeployment, rightDeployment]
+  );
+
+  // Bytecode results belong to one pair of deployments
+  useEffect(() => {
+    setBytecode({});
+  }, [leftDeployment, rightDeployment]);
+
+  const counts = useMemo(() => {
+    const result: Record<ContractChange, number> = { added: 0, removed: 0, moved: 0, unchanged: 0 };
+    for (const diff of diffs) result[diff.change]++;
+    return result;
+  }, [diffs]);
+
+  const visibleDiffs = showUnchanged ? diffs : diffs.filter((diff) => diff.change !== 'unchanged');
+
+  // The ABI name a side resolved to: its pin, else the artifact matched by contract name
+  const resolveAbiName = (contractName: string, side: DeploymentRef): string | null => {
+    const match = matchAbi(contractName, side.network, side.deployment);
+    return match && !isAmbiguousMatch(match) && abiCache.has(match.abiName) ? match.abiName : null;
+  };
+
+  const handleCompareBytecode = async () => {
+    setCheckingBytecode(true);
+    try {
+      const leftClient = createPublicClient({ chain: getChainForNetwork(left.network), transport: http() });
+      const rightClient = createPublicClient({ chain: getChainForNetwork(right.network), transport: http() });
+      const results: Record<string, BytecodeComparison | 'error'> = {};
+
+      for (const diff of diffs) {
+        if (!diff.leftAddress || !diff.rightAddress) continue;
+        try {
+          const [leftCode, rightCode] = await Promise.all([
+            leftClient.getCode({ address: diff.leftAddress as Hex }),
+            rightClient.getCode({ address: diff.rightAddress as Hex }),
+          ]);
+          results[diff.name] = compareBytecode(leftCode, rightCode);
+        } catch (err) {
+          console.error(`Failed to fetch bytecode for ${diff.name}:`, err);
+          results[diff.name] = 'error';
+        }
+      }
+
+      setBytecode(results);
+      const differing = Object.values(results).filter((result) => result !== 'identical').length;
+      toaster.info({
+        title: 'Bytecode compared',
+        description: `${differing} of ${Object.keys(results).length} contract${Object.keys(results).length !== 1 ? 's' : ''} differ or could not be compared`,
+      });
+    } finally {
+      setCheckingBytecode(false);
+    }
+  };
+
+  return (
+    <VStack gap={6} align="stretch">
+      <Grid templateColumns="1fr 1fr" gap={4}>
+        <DeploymentPicker label="Base" value={left} onChange={setLeft} />
+        <DeploymentPicker label="Compare with" value={right} onChange={setRight} />
+      </Grid>
+
+      {!leftDeployment || !rightDeployment ? (
+        <Text color="gray.500" textAlign="center" py={8}>
+          Select two deployments to compare
+        </Text>
+      ) : (
+        <Box layerStyle="card">
+          <Box layerStyle="cardSection">
+            <HStack justify="space-between" mb={4} wrap="wrap" gap={2}>
+              <HStack gap={2}>
+                <Heading size="md">Contracts</Heading>
+                {(Object.keys(counts) as ContractChange[]).map((change) => (
+                  <Badge key={change} colorScheme={CHANGE_COLORS[change]}>
+                    {counts[change]} {change}
+                  </Badge>
+                ))}
+              </HStack>
+              <HStack gap={2}>
+                <Button size="sm" variant="ghost" onClick={() => setShowUnchanged(!showUnchanged)}>
+                  {showUnchanged ? 'Hide unchanged' : 'Show unchanged'}
+                </Button>
+                <Button size="sm" onClick={handleCompareBytecode} loading={checkingBytecode}>
+                  Compare Bytecode
+                </Button>
+              </HStack>
+            </HStack>
+
+            {visibleDiffs.length === 0 ? (
+              <Text color="gray.500" fontSize="sm">No differences between these deployments</Text>
+            ) : (
+              <VStack gap={3} align="stretch">
+                {visibleDiffs.map((diff) => {
+                  const leftAbiName = diff.leftAddress ? resolveAbiName(diff.name, left) : null;
+                  const rightAbiName = diff.rightAddress ? resolveAbiName(diff.name, right) : null;
+                  // Both sides reading the same loaded ABI says nothing about whether the ABI changed
+                  const isSameAbi = leftAbiName !== null && leftAbiName === rightAbiName;
+                  const abiDiffs = (leftAbiName || rightAbiName) && !isSameAbi
+                    ? diffAbis(abiCache.get(leftAbiName ?? '') ?? [], abiCache.get(rightAbiName ?? '') ?? [])
+                    : [];
+                  const bytecodeResult = bytecode[diff.name];
+
+                  return (
+                    <Box key={diff.name} borderWidth="1px" borderRadius="md" p={3}>
+                      <HStack gap={2} mb={2} wrap="wrap">
+                        <Text fontWeight="semibold">{diff.name}</Text>
+                        <Badge colorScheme={CHANGE_COLORS[diff.change]}>{diff.change}</Badge>
+                        {bytecodeResult && (
+                          <Badge colorScheme={BYTECODE_LABELS[bytecodeResult].color} variant="outline">
+                            {BYTECODE_LABELS[bytecodeResult].label}
+                          </Badge>
+                        )}
+                        {!leftAbiName && !rightAbiName && (
+                          <Badge variant="outline">No ABI</Badge>
+                        )}
+                      </HStack>
+
+                      <Grid templateColumns="1fr 1fr" gap={2}>
+                        <Code layerStyle="codeInline" wordBreak="break-all">
+                          {diff.leftAddress ?? '—'}
+                        </Code>
+                        <Code layerStyle="codeInline" wordBreak="break-all">
+                          {diff.rightAddress ?? '—'}
+                        </Code>
+                        {(leftAbiName || rightAbiName) && (
+                          <>
+                            <Text textStyle="helperText">{diff.leftAddress ? `ABI: ${leftAbiName ?? 'none'}` : ''}</Text>
+                            <Text textStyle="helperText">{diff.rightAddress ? `ABI: ${rightAbiName ?? 'none'}` : ''}</Text>
+                          </>
+                        )}
+                      </Grid>
+
+                      {isSameAbi && (
+                        <Text textStyle="helperText" mt={2}>
+                          Both deployments use the loaded {leftAbiName} ABI, so ABI changes between them can&apos;t be detected.
+                          Pin a different ABI to one side, or compare bytecode.
+                        </Text>
+                      )}
+
+                      {abiDiffs.length > 0 && (
+                        <VStack gap={1} align="stretch" mt={2}>
+                          {abiDiffs.map((entry) => (
+                            <Box key={`${entry.kind}:${entry.name}`} textStyle="monoCode">
+                              <Text
+                                color={entry.change === 'added' ? 'green.solid' : entry.change === 'removed' ? 'red.solid' : 'orange.solid'}
+                              >
+                                {ABI_CHANGE_PREFIX[entry.change]} {entry.kind} {entry.name}
+                              </Text>
+                              {entry.leftSignatures.map((signature) => (
+                                <Text key={`-${signature}`} pl={4} color="red.solid">- {signature}</Text>
+                              ))}
+                              {entry.rightSignatures.map((signature) => (
+                                <Text key={`+${signature}`} pl={4} color="green.solid">+ {signature}</Text>
+                              ))}
+                            </Box>
+                          ))}
+                        </VStack>
+                      )}
+                    </Box>
+                  );
+                })}
+              </VStack>
+            )}
+          </Box>
+        </Box>
+      )}
+    </VStack>
+  );
+}
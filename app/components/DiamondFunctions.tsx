@@ -0,0 +1,77 @@
+'use client';
+
+import type { Chain } from 'viem';
+import { Box, VStack, HStack, Heading, Text, Code, Badge, Alert } from '@chakra-ui/react';
+import FunctionCard from '@/app/components/FunctionCard';
+import { useContract } from '@/app/context/ContractContext';
+import { contractNameOf } from '@/app/utils/abiMatcher';
+
+function isReadFunction(stateMutability: string): boolean {
+  return stateMutability === 'view' || stateMutability === 'pure';
+}
+
+/**
+ * Functions of an EIP-2535 diamond, grouped by facet. All calls go to the diamond
+ * address; selectors no loaded ABI explains are listed at the end.
+ */
+export default function DiamondFunctions({ searchTerm, chain }: { searchTerm: string; chain: Chain }) {
+  const { diamondFacets, contractAddress, selectorRegistry } = useContract();
+  if (!diamondFacets) return null;
+
+  const lowerSearch = searchTerm.trim().toLowerCase();
+  const unexplained = diamondFacets.filter((facet) => facet.unknownSelectors.length > 0);
+
+  return (
+    <VStack gap={8} align="stretch">
+      {diamondFacets.map((facet) => {
+        const functions = facet.functions
+          .filter((func) => !lowerSearch || func.name.toLowerCase().includes(lowerSearch))
+          // Read functions first, like the regular function list
+          .sort((a, b) => Number(isReadFunction(b.stateMutability)) - Number(isReadFunction(a.stateMutability)));
+        if (lowerSearch && functions.length === 0) return null;
+
+        return (
+          <Box key={facet.address}>
+            <HStack gap={2} mb={2} wrap="wrap">
+              <Heading size="lg">{facet.name ? contractNameOf(facet.name) : 'Unknown facet'}</Heading>
+              <Badge>{facet.functions.length} function{facet.functions.length !== 1 ? 's' : ''}</Badge>
+              {facet.unknownSelectors.length > 0 && (
+                <Badge colorScheme="orange">{facet.unknownSelectors.length} unexplained</Badge>
+              )}
+            </HStack>
+            <Code layerStyle="codeInline" mb={4} display="inline-block">{facet.address}</Code>
+            {functions.map((func, index) => (
+              <FunctionCard
+                key={`${facet.address}-${index}`}
+                func={func}
+                contractAddress={contractAddress}
+                contractAbi={facet.functions}
+                chain={chain}
+                selectorRegistry={selectorRegistry}
+              />
+            ))}
+          </Box>
+        );
+      })}
+
+      {unexplained.length > 0 && (
+        <Alert.Root status="warning" size="sm">
+          <Alert.Indicator />
+          <Alert.Content>
+            <Alert.Title>Selectors not found in any loaded ABI</Alert.Title>
+            <Alert.Description>
+              {unexplained.map((facet) => (
+                <Box key={facet.address} mt={1}>
+                  <Text fontSize="xs" fontWeight="semibold">
+                    {facet.name ? contractNameOf(facet.name) : facet.address}
+                  </Text>
+                  <Text textStyle="monoCode">{facet.unknownSelectors.join(' ')}</Text>
+                </Box>
+              ))}
+            </Alert.Description>
+          </Alert.Content>
+        </Alert.Root>
+      )}
+    </VStack>
+  );
+}
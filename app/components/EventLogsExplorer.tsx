@@ -33,6 +33,11 @@ import { JsonEditor } from 'json-edit-react';
 import { toaster } from '@/components/ui/toaster';
 import { LuCopy } from 'react-icons/lu';
 import type { EventLogsExplorerProps, DecodedEventLog, SerializableValue, AbiEvent } from '../types';
+import { contractNameOf } from '../utils/abiMatcher';
+import { decodeLogWithRegistry } from '../utils/selectorRegistry';
+
+// Combobox value fetching every log of the contract
+const ALL_EVENTS = '*';
 
 // Utility function to convert BigInts to strings for JSON display
 function serializeBigInts(obj: unknown): SerializableValue {
@@ -96,7 +101,8 @@ function generateZksyncCommand(
 export default function EventLogsExplorer({
   contractAddress,
   contractAbi,
-  chain
+  chain,
+  selectorRegistry,
 }: EventLogsExplorerProps) {
   const [selectedEvent, setSelectedEvent] = useState<string>('');
   const [inputValue, setInputValue] = useState<string>('');
@@ -113,10 +119,13 @@ export default function EventLogsExplorer({
   const events = contractAbi.filter((item): item is AbiEvent => item.type === 'event');
 
   // Create collection for Combobox component
-  const allEventItems = events.map((event) => ({
-    label: `${event.name}(${event.inputs?.map((input) => `${input.type} ${input.name}`).join(', ')})`,
-    value: event.name,
-  }));
+  const allEventItems = [
+    { label: 'All events (decoded with any loaded ABI)', value: ALL_EVENTS },
+    ...events.map((event) => ({
+      label: `${event.name}(${event.inputs?.map((input) => `${input.type} ${input.name}`).join(', ')})`,
+      value: event.name,
+    })),
+  ];
 
   // Filter items based on input value
   // Show all items if no input or if input exactly matches the selected event
@@ -179,13 +188,12 @@ export default function EventLogsExplorer({
 
       // Find the selected event in the ABI
       const selectedEventAbi = events.find((e) => e.name === selectedEvent);
-      if (!selectedEventAbi) {
+      if (!selectedEventAbi && selectedEvent !== ALL_EVENTS) {
         throw new Error('Event not found in ABI');
       }
 
       interface FilterParams {
         address: `0x${string}`;
-        event: AbiEvent;
         fromBlock?: bigint;
         toBlock?: bigint;
       }
@@ -193,7 +201,6 @@ export default function EventLogsExplorer({
       // Build the filter parameters
       const filterParams: FilterParams = {
         address: contractAddress as `0x${string}`,
-        event: selectedEventAbi,
       };
 
       // Add block range if specified
@@ -205,7 +212,9 @@ export default function EventLogsExplorer({
       }
 
       // Fetch logs
-      const fetchedLogs = await client.getLogs(filterParams);
+      const fetchedLogs = selectedEventAbi
+        ? await client.getLogs({ ...filterParams, event: selectedEventAbi })
+        : await client.getLogs(filterParams);
 
       if (fetchedLogs.length === 0) {
         toaster.info({
@@ -220,10 +229,11 @@ export default function EventLogsExplorer({
       }
 
       // Decode the logs
+      // The selected event, or for all events the contract's own, then any loaded ABI
       const decodedLogs: DecodedEventLog[] = fetchedLogs.map((log, index: number) => {
         try {
           const decoded = decodeEventLog({
-            abi: [selectedEventAbi],
+            abi: selectedEventAbi ? [selectedEventAbi] : events,
             data: log.data,
             topics: log.topics,
           });
@@ -239,6 +249,22 @@ export default function EventLogsExplorer({
             decoded: true,
           };
         } catch {
+          const match = selectorRegistry && decodeLogWithRegistry(selectorRegistry, log);
+          if (match) {
+            return {
+              index,
+              blockNumber: log.blockNumber,
+              transactionHash: log.transactionHash,
+              logIndex: log.logIndex,
+              address: log.address,
+              eventName: match.eventName,
+              args: match.args,
+              decoded: true,
+              abiName: match.abiName,
+              alternatives: match.alternatives,
+            };
+          }
+
           return {
             index,
             blockNumber: log.blockNumber,
@@ -350,7 +376,7 @@ export default function EventLogsExplorer({
           {events.length === 0 && (
             <Alert.Root status="info" size="sm" mt={2}>
               <Alert.Indicator />
-              <Alert.Title fontSize="xs">No events found in the contract ABI</Alert.Title>
+              <Alert.Title fontSize="xs">No events found in the contract ABI. Search all events to decode its logs with the other loaded ABIs.</Alert.Title>
             </Alert.Root>
           )}
 
@@ -401,7 +427,7 @@ export default function EventLogsExplorer({
             <Button
               onClick={() => setIsCommandsModalOpen(true)}
               variant="outline"
-              disabled={!selectedEvent || !contractAddress}
+              disabled={!selectedEvent || selectedEvent === ALL_EVENTS || !contractAddress}
             >
               CLI Commands
             </Button>
@@ -461,6 +487,9 @@ export default function EventLogsExplorer({
                           <Text fontWeight="bold" fontFamily="mono" fontSize="sm">
                             {log.eventName || 'Unknown Event'} #{log.index + 1}
                           </Text>
+                          {log.abiName && (
+                            <Text fontSize="xs" color="fg.muted">via {contractNameOf(log.abiName)}</Text>
+                          )}
                         </HStack>
                         <Text fontSize="xs" color="fg.muted" fontFamily="mono">
                           Block: {log.blockNumber?.toString()} | Tx: {log.transactionHash?.slice(0, 10)}...
@@ -507,6 +536,16 @@ export default function EventLogsExplorer({
                               </Code>
                             </Box>
 
+                            {log.alternatives && log.alternatives.length > 0 && (
+                              <Alert.Root status="warning" size="sm">
+                                <Alert.Indicator />
+                                <Alert.Content>
+                                  <Alert.Title fontSize="xs">Selector collision: the log also decodes as</Alert.Title>
+                                  <Alert.Description textStyle="monoCode" whiteSpace="pre-line">{log.alternatives.join('\n')}</Alert.Description>
+                                </Alert.Content>
+                              </Alert.Root>
+                            )}
+
                             {log.args && (
                               <Box>
                                 <Text textStyle="monoCode" fontWeight="semibold" color="fg.muted" mb={1}>Arguments:</Text>
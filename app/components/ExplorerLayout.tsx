@@ -13,6 +13,7 @@ import {
 import { Button } from '@chakra-ui/react';
 import Sidebar from '@/app/components/Sidebar';
 import SetupModal from '@/app/components/SetupModal';
+import ChainMismatchDialog from '@/app/components/ChainMismatchDialog';
 import { useContract } from '@/app/context/ContractContext';
 
 interface ExplorerLayoutProps {
@@ -26,8 +27,10 @@ export default function ExplorerLayout({ children }: ExplorerLayoutProps) {
     showSetupModal,
     setShowSetupModal,
     handleSetupComplete,
+    importConfigBundle,
     deploymentsFileHandle,
     abisFolderHandle,
+    hardhatDeployHandle,
   } = useContract();
 
   const isActive = (path: string) => pathname === path;
@@ -45,10 +48,14 @@ export default function ExplorerLayout({ children }: ExplorerLayoutProps) {
         open={showSetupModal}
         onComplete={handleSetupComplete}
         onSkip={() => setShowSetupModal(false)}
-        hasDeploymentsFile={deploymentsFileHandle !== null}
-        hasFolderHandle={abisFolderHandle !== null}
+        onImportBundle={importConfigBundle}
+        hasDeploymentsFile={deploymentsFileHandle !== null || hardhatDeployHandle !== null}
+        hasFolderHandle={abisFolderHandle !== null || hardhatDeployHandle !== null}
       />
 
+      {/* Blocking warning when the RPC serves another chain */}
+      {!showSetupModal && <ChainMismatchDialog />}
+
       {/* Main Layout */}
       <Grid templateColumns="350px 1fr" h="100vh">
         {/* Sidebar */}
@@ -101,6 +108,24 @@ export default function ExplorerLayout({ children }: ExplorerLayoutProps) {
                   Event Logs
                 </Button>
               </Link>
+              <Link href={buildUrlWithParams('/storage')} passHref>
+                <Button
+                  variant={isActive('/storage') ? 'solid' : 'ghost'}
+                  colorScheme={isActive('/storage') ? 'blue' : 'gray'}
+                  size="sm"
+                >
+                  Storage
+                </Button>
+              </Link>
+              <Link href={buildUrlWithParams('/compare')} passHref>
+                <Button
+                  variant={isActive('/compare') ? 'solid' : 'ghost'}
+                  colorScheme={isActive('/compare') ? 'blue' : 'gray'}
+                  size="sm"
+                >
+                  Compare Deployments
+                </Button>
+              </Link>
             </HStack>
           </Box>
 
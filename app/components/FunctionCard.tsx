@@ -1,8 +1,8 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { createPublicClient, http } from 'viem';
-import { useWriteContract, useWaitForTransactionReceipt, useAccount } from 'wagmi';
+import { createPublicClient, http, type Chain, type Hex } from 'viem';
+import { useWriteContract, useAccount } from 'wagmi';
 import {
   Box,
   Button,
@@ -19,13 +19,17 @@ import {
   Dialog,
   Portal,
   IconButton,
+  Link,
 } from '@chakra-ui/react';
 import { useColorMode } from '@/components/ui/color-mode';
 import { JsonEditor, githubDarkTheme, githubLightTheme } from 'json-edit-react';
 import { toaster } from '@/components/ui/toaster';
 import { validateSolidityType, getPlaceholderForType } from '@/app/utils/validation';
 import { getArgsArray } from '@/app/utils/argumentParser';
+import { switchWalletChain } from '@/app/utils/walletChain';
+import { decodeRevertData, decodeRevertError, fetchRevertData, type DecodedRevert } from '@/app/utils/revertDecoder';
 import AddressInput from './AddressInput';
+import RevertReason from './RevertReason';
 import { LuCopy } from 'react-icons/lu';
 import type { FunctionCardProps, AbiFunction, SerializableValue, ContractAbi } from '../types';
 
@@ -123,6 +127,9 @@ interface WriteHookState {
   isWritePending: boolean;
   isConfirming: boolean;
   isConfirmed: boolean;
+  writeError: Error | null; // Rejected by the wallet, or reverted when simulated
+  isReverted: boolean;
+  revertData: Hex | null; // Recovered by replaying a reverted transaction
 }
 
 const defaultWriteState: WriteHookState = {
@@ -131,36 +138,94 @@ const defaultWriteState: WriteHookState = {
   isWritePending: false,
   isConfirming: false,
   isConfirmed: false,
+  writeError: null,
+  isReverted: false,
+  revertData: null,
 };
 
 // Deferred wagmi hooks — only mounted when a write function card is expanded.
-// This avoids calling useWriteContract/useWaitForTransactionReceipt/useAccount
+// This avoids calling useWriteContract/useAccount and the receipt watcher
 // for every collapsed card, which was the main performance bottleneck during
 // contract switching (50 cards × 3 hooks each = ~190ms).
 function WriteHooksProvider({
   onStateChange,
   writeContractRef,
   funcName,
+  chain,
 }: {
   onStateChange: (state: WriteHookState) => void;
-  writeContractRef: React.MutableRefObject<((params: Record<string, unknown>) => void) | null>;
+  writeContractRef: React.MutableRefObject<((params: Record<string, unknown>) => Promise<void>) | null>;
   funcName: string;
+  chain: Chain;
 }) {
-  const { isConnected } = useAccount();
-  const { writeContract, data: hash, isPending: isWritePending } = useWriteContract();
-  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
-
-  // Expose writeContract to parent via ref
+  const { isConnected, chainId: walletChainId, connector } = useAccount();
+  const { writeContract, data: hash, isPending: isWritePending, error: writeError } = useWriteContract();
+  const [isConfirming, setIsConfirming] = useState<boolean>(false);
+  const [isConfirmed, setIsConfirmed] = useState<boolean>(false);
+  const [isReverted, setIsReverted] = useState<boolean>(false);
+  const [revertData, setRevertData] = useState<Hex | null>(null);
+
+  // Expose writeContract to parent via ref. The active chain may not be part of the
+  // static wagmi config, so switch the wallet over the raw provider and pin the
+  // chain id to make wagmi reject the write if the wallet is still elsewhere.
   useEffect(() => {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    writeContractRef.current = writeContract as any;
+    writeContractRef.current = async (params) => {
+      if (walletChainId !== chain.id && connector) {
+        const provider = await connector.getProvider();
+        await switchWalletChain(provider as Parameters<typeof switchWalletChain>[0], chain);
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      writeContract({ ...params, chainId: chain.id } as any);
+    };
     return () => { writeContractRef.current = null; };
-  }, [writeContract, writeContractRef]);
+  }, [writeContract, writeContractRef, walletChainId, connector, chain]);
+
+  // Wait for the receipt on the active chain rather than wagmi's configured chains
+  useEffect(() => {
+    if (!hash) return;
+
+    let cancelled = false;
+    setIsConfirming(true);
+    setIsConfirmed(false);
+    setIsReverted(false);
+    setRevertData(null);
+
+    const client = createPublicClient({
+      chain,
+      transport: http(),
+    });
+
+    client.waitForTransactionReceipt({ hash })
+      .then((receipt) => {
+        if (cancelled) return;
+        setIsConfirmed(true);
+        if (receipt.status !== 'reverted') return;
+
+        setIsReverted(true);
+        // Receipts carry no revert data: replay the transaction to recover it
+        client.getTransaction({ hash })
+          .then((transaction) => fetchRevertData(client, transaction))
+          .then((data) => {
+            if (!cancelled) setRevertData(data);
+          })
+          .catch((err) => {
+            console.error('Failed to replay reverted transaction:', err);
+          });
+      })
+      .catch((err) => {
+        console.error('Failed to wait for transaction receipt:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsConfirming(false);
+      });
+
+    return () => { cancelled = true; };
+  }, [hash, chain]);
 
   // Report hook state to parent
   useEffect(() => {
-    onStateChange({ isConnected, hash, isWritePending, isConfirming, isConfirmed });
-  }, [isConnected, hash, isWritePending, isConfirming, isConfirmed, onStateChange]);
+    onStateChange({ isConnected, hash, isWritePending, isConfirming, isConfirmed, writeError, isReverted, revertData });
+  }, [isConnected, hash, isWritePending, isConfirming, isConfirmed, writeError, isReverted, revertData, onStateChange]);
 
   // Toast: transaction sent
   useEffect(() => {
@@ -173,15 +238,20 @@ function WriteHooksProvider({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [hash]);
 
-  // Toast: transaction confirmed
+  // Toast: transaction confirmed or reverted
   useEffect(() => {
-    if (isConfirmed && hash) {
+    if (isConfirmed && hash && isReverted) {
+      toaster.error({
+        title: 'Transaction reverted',
+        description: `${funcName}() reverted in ${hash.slice(0, 10)}...`,
+      });
+    } else if (isConfirmed && hash) {
       toaster.success({
         title: 'Transaction confirmed',
         description: `${funcName}() executed successfully`,
       });
     }
-  }, [isConfirmed, hash, funcName]);
+  }, [isConfirmed, isReverted, hash, funcName]);
 
   return null;
 }
@@ -211,7 +281,8 @@ export default function FunctionCard({
   func,
   contractAddress,
   contractAbi,
-  chain
+  chain,
+  selectorRegistry,
 }: FunctionCardProps) {
   const [isExpanded, setIsExpanded] = useState<boolean>(false);
   const [args, setArgs] = useState<Record<string, string>>({});
@@ -220,6 +291,7 @@ export default function FunctionCard({
   const [result, setResult] = useState<unknown>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [revert, setRevert] = useState<DecodedRevert | null>(null);
   const [isCommandsModalOpen, setIsCommandsModalOpen] = useState<boolean>(false);
   const [blockNumber, setBlockNumber] = useState<string>('');
   const [value, setValue] = useState<string>('');
@@ -241,12 +313,13 @@ export default function FunctionCard({
     setResult(null);
     setLoading(false);
     setError(null);
+    setRevert(null);
     setIsCommandsModalOpen(false);
     setBlockNumber('');
     setValue('');
     setWriteState(defaultWriteState);
   }
-  const writeContractRef = useRef<((params: Record<string, unknown>) => void) | null>(null);
+  const writeContractRef = useRef<((params: Record<string, unknown>) => Promise<void>) | null>(null);
 
   const isReadFunction = func.stateMutability === 'view' || func.stateMutability === 'pure';
 
@@ -348,6 +421,7 @@ export default function FunctionCard({
 
     setLoading(true);
     setError(null);
+    setRevert(null);
     setResult(null);
 
     try {
@@ -386,7 +460,9 @@ export default function FunctionCard({
         description: `${func.name}() completed`,
       });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to call function';
+      const decodedRevert = decodeRevertError(err, selectorRegistry, contractAbi);
+      const errorMessage = decodedRevert?.summary ?? (err instanceof Error ? err.message : 'Failed to call function');
+      setRevert(decodedRevert);
       setError(errorMessage);
       toaster.error({
         title: 'Function execution failed',
@@ -419,6 +495,7 @@ export default function FunctionCard({
     }
 
     setError(null);
+    setRevert(null);
     setResult(null);
 
     try {
@@ -444,7 +521,7 @@ export default function FunctionCard({
         writeParams.value = BigInt(value);
       }
 
-      writeContractRef.current?.(writeParams as unknown as Record<string, unknown>);
+      await writeContractRef.current?.(writeParams as unknown as Record<string, unknown>);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to send transaction';
       setError(errorMessage);
@@ -456,8 +533,23 @@ export default function FunctionCard({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [writeState.isConnected, func, args, contractAddress, contractAbi, value]);
 
+  const explorerTxUrl = writeState.hash && chain.blockExplorers?.default.url
+    ? `${chain.blockExplorers.default.url.replace(/\/$/, '')}/tx/${writeState.hash}`
+    : null;
+
   const callFunction = isReadFunction ? callReadFunction : callWriteFunction;
 
+  // Writes fail in the wallet hooks: when simulated, or once mined and replayed
+  const writeRevert = isReadFunction
+    ? null
+    : writeState.revertData
+    ? decodeRevertData(writeState.revertData, selectorRegistry, contractAbi)
+    : decodeRevertError(writeState.writeError, selectorRegistry, contractAbi);
+  const displayedRevert = revert ?? writeRevert;
+  const writeErrorMessage = !isReadFunction && writeState.writeError && !writeRevert
+    ? (writeState.writeError as Error & { shortMessage?: string }).shortMessage ?? writeState.writeError.message
+    : null;
+
   const getStateMutabilityColorScheme = () => {
     switch (func.stateMutability) {
       case 'view': return 'blue';
@@ -505,6 +597,7 @@ export default function FunctionCard({
           onStateChange={setWriteState}
           writeContractRef={writeContractRef}
           funcName={func.name}
+          chain={chain}
         />
       )}
 
@@ -682,24 +775,31 @@ export default function FunctionCard({
 
         {/* Write Function Status */}
         {!isReadFunction && writeState.hash && (
-          <Alert.Root status={writeState.isConfirmed ? "success" : "info"} borderRadius="md" mb={4}>
+          <Alert.Root status={writeState.isReverted ? "error" : writeState.isConfirmed ? "success" : "info"} borderRadius="md" mb={4}>
             <Alert.Indicator />
             <Box width="full">
               <Text fontWeight="bold" mb={1}>
-                {writeState.isConfirming ? 'Transaction Pending' : writeState.isConfirmed ? 'Transaction Confirmed' : 'Transaction Sent'}
+                {writeState.isConfirming ? 'Transaction Pending' : writeState.isReverted ? 'Transaction Reverted' : writeState.isConfirmed ? 'Transaction Confirmed' : 'Transaction Sent'}
               </Text>
               <Code layerStyle="codeInline" display="block" whiteSpace="pre-wrap" wordBreak="break-all">
                 {writeState.hash}
               </Code>
+              {explorerTxUrl && (
+                <Link href={explorerTxUrl} target="_blank" rel="noopener noreferrer" fontSize="sm" mt={1}>
+                  View on {chain.name} explorer ↗
+                </Link>
+              )}
             </Box>
           </Alert.Root>
         )}
 
         {/* Error Display */}
-        {error && (
+        {displayedRevert ? (
+          <RevertReason revert={displayedRevert} mb={4} />
+        ) : (error || writeErrorMessage) && (
           <Alert.Root status="error" borderRadius="md" mb={4}>
             <Alert.Indicator />
-            <Alert.Title textStyle="label">{error}</Alert.Title>
+            <Alert.Title textStyle="label">{error ?? writeErrorMessage}</Alert.Title>
           </Alert.Root>
         )}
 
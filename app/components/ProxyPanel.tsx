@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { createPublicClient, http, type Address } from 'viem';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Code,
+  Badge,
+  Button,
+  Alert,
+  NativeSelectRoot,
+  NativeSelectField,
+} from '@chakra-ui/react';
+import { useContract } from '@/app/context/ContractContext';
+import { contractNameOf } from '@/app/utils/abiMatcher';
+import { fetchUpgradeHistory, PROXY_KIND_LABELS, type UpgradeEvent } from '@/app/utils/proxyDetection';
+
+const MAX_INFERRED_CANDIDATES = 5;
+
+const UPGRADE_EVENT_COLORS: Record<UpgradeEvent['kind'], string> = {
+  Upgraded: 'blue',
+  BeaconUpgraded: 'purple',
+  AdminChanged: 'orange',
+};
+
+function AddressRow({ label, address, name }: { label: string; address: Address; name?: string | null }) {
+  return (
+    <HStack gap={2} wrap="wrap">
+      <Text textStyle="label" minW="110px">{label}:</Text>
+      <Code layerStyle="codeInline" wordBreak="break-all">{address}</Code>
+      {name && <Badge colorScheme="green">{contractNameOf(name)}</Badge>}
+    </HStack>
+  );
+}
+
+/**
+ * Proxy relationship of the selected contract (implementation, admin, beacon) and
+ * its upgrade history, loaded on demand
+ */
+export default function ProxyPanel() {
+  const {
+    proxyInfo,
+    implementationContract,
+    isImplementationInferred,
+    implementationCandidates,
+    selectImplementationAbi,
+    abiCache,
+    contractAddress,
+    activeChain,
+  } = useContract();
+  const [history, setHistory] = useState<UpgradeEvent[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!proxyInfo) return null;
+
+  const isKnownImplementation = implementationContract !== null && !isImplementationInferred;
+  const shownCandidates = implementationCandidates.slice(0, MAX_INFERRED_CANDIDATES);
+  const otherAbiNames = Array.from(abiCache.keys())
+    .filter((name) => !shownCandidates.some((candidate) => candidate.abiName === name))
+    .sort();
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const client = createPublicClient({ chain: activeChain, transport: http() });
+      setHistory(await fetchUpgradeHistory(client, contractAddress as Address));
+    } catch (err) {
+      setError('Failed to load upgrade history: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Box layerStyle="card">
+      <Box layerStyle="cardSection">
+        <HStack justify="space-between" mb={2}>
+          <Text textStyle="cardHeading">{PROXY_KIND_LABELS[proxyInfo.kind]}</Text>
+          <Button size="xs" variant="outline" onClick={loadHistory} loading={loading}>
+            {history ? 'Reload history' : 'Upgrade history'}
+          </Button>
+        </HStack>
+
+        <VStack gap={1} align="stretch">
+          <AddressRow label="Implementation" address={proxyInfo.implementation} name={implementationContract} />
+          {proxyInfo.beacon && <AddressRow label="Beacon" address={proxyInfo.beacon} />}
+          {proxyInfo.admin && <AddressRow label="Admin" address={proxyInfo.admin} />}
+          <Text textStyle="helperText">
+            {isKnownImplementation
+              ? 'Functions below combine the implementation ABI with the proxy ABI.'
+              : implementationContract
+              ? 'The implementation is not in this deployment or the ad-hoc contracts; its ABI was chosen by matching its bytecode against the loaded ABIs. Pick another one below if it is wrong.'
+              : 'The implementation is not in this deployment or the ad-hoc contracts, so only the proxy ABI is used. Pick its ABI below, or add it as an ad-hoc contract.'}
+          </Text>
+          {!isKnownImplementation && abiCache.size > 0 && (
+            <NativeSelectRoot size="sm" mt={1}>
+              <NativeSelectField
+                value={implementationContract ?? ''}
+                onChange={(e) => selectImplementationAbi(e.target.value || null)}
+                bg={{ base: 'white' }}
+                _dark={{ bg: 'gray.800' }}
+              >
+                <option value="">-- Proxy ABI only --</option>
+                {shownCandidates.length > 0 && (
+                  <optgroup label="Inferred from bytecode">
+                    {shownCandidates.map((candidate) => (
+                      <option key={candidate.abiName} value={candidate.abiName}>
+                        {contractNameOf(candidate.abiName)} ({Math.round(candidate.score * 100)}%, {candidate.matched}/{candidate.functionCount} functions)
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="All ABIs">
+                  {otherAbiNames.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </optgroup>
+              </NativeSelectField>
+            </NativeSelectRoot>
+          )}
+        </VStack>
+
+        {error && (
+          <Alert.Root status="error" size="sm" mt={3}>
+            <Alert.Indicator />
+            <Alert.Title fontSize="xs">{error}</Alert.Title>
+          </Alert.Root>
+        )}
+
+        {history && (
+          <VStack gap={1} align="stretch" mt={3} borderLeftWidth="2px" pl={3}>
+            {history.length === 0 && (
+              <Text textStyle="helperText">No upgrade events found</Text>
+            )}
+            {history.map((event) => (
+              <HStack key={`${event.transactionHash}:${event.logIndex}`} gap={2} wrap="wrap">
+                <Text textStyle="monoCode" color="fg.muted">#{event.blockNumber.toString()}</Text>
+                <Badge colorScheme={UPGRADE_EVENT_COLORS[event.kind]}>{event.kind}</Badge>
+                <Code layerStyle="codeInline" wordBreak="break-all">
+                  {event.previousAdmin ? `${event.previousAdmin} → ${event.address}` : event.address}
+                </Code>
+              </HStack>
+            ))}
+          </VStack>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useState } from 'react';
+import { createPublicClient, http, isHex, type Chain, type Hex } from 'viem';
+import { useAccount, useSendTransaction } from 'wagmi';
+import {
+  Box,
+  Button,
+  Text,
+  Input,
+  Textarea,
+  Field,
+  VStack,
+  HStack,
+  Grid,
+  Code,
+  Alert,
+} from '@chakra-ui/react';
+import { toaster } from '@/components/ui/toaster';
+import { switchWalletChain } from '@/app/utils/walletChain';
+import { decodeRevertError, type DecodedRevert } from '@/app/utils/revertDecoder';
+import type { SelectorRegistry } from '@/app/utils/selectorRegistry';
+import RevertReason from './RevertReason';
+
+interface RawCalldataCardProps {
+  contractAddress: string;
+  chain: Chain;
+  selectorRegistry?: SelectorRegistry;
+}
+
+/**
+ * Call or send hand-written calldata, for contracts without a usable ABI
+ */
+export default function RawCalldataCard({ contractAddress, chain, selectorRegistry }: RawCalldataCardProps) {
+  const { isConnected, chainId: walletChainId, connector } = useAccount();
+  const { sendTransactionAsync, data: hash, isPending } = useSendTransaction();
+  const [calldata, setCalldata] = useState<string>('0x');
+  const [value, setValue] = useState<string>('');
+  const [blockNumber, setBlockNumber] = useState<string>('');
+  const [result, setResult] = useState<Hex | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revert, setRevert] = useState<DecodedRevert | null>(null);
+
+  const data = calldata.trim();
+  const calldataError = isHex(data) && data.length % 2 === 0 ? null : 'Calldata must be 0x-prefixed hex bytes';
+
+  const handleCall = async () => {
+    setLoading(true);
+    setError(null);
+    setRevert(null);
+    setResult(null);
+
+    try {
+      const client = createPublicClient({ chain, transport: http() });
+      const response = await client.call({
+        to: contractAddress as Hex,
+        data: data as Hex,
+        value: value.trim() ? BigInt(value) : undefined,
+        blockNumber: blockNumber.trim() ? BigInt(blockNumber) : undefined,
+      });
+      setResult(response.data ?? '0x');
+    } catch (err) {
+      const decodedRevert = decodeRevertError(err, selectorRegistry);
+      const errorMessage = decodedRevert?.summary ?? (err instanceof Error ? err.message : 'Failed to call contract');
+      setRevert(decodedRevert);
+      setError(errorMessage);
+      toaster.error({
+        title: 'Call failed',
+        description: errorMessage,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!isConnected) {
+      setError('Please connect your wallet first');
+      return;
+    }
+
+    setError(null);
+    setRevert(null);
+    try {
+      if (walletChainId !== chain.id && connector) {
+        const provider = await connector.getProvider();
+        await switchWalletChain(provider as Parameters<typeof switchWalletChain>[0], chain);
+      }
+      const txHash = await sendTransactionAsync({
+        to: contractAddress as Hex,
+        data: data as Hex,
+        value: value.trim() ? BigInt(value) : undefined,
+        chainId: chain.id,
+      });
+      toaster.info({
+        title: 'Transaction sent',
+        description: `Transaction ${txHash.slice(0, 10)}... has been sent`,
+      });
+    } catch (err) {
+      const decodedRevert = decodeRevertError(err, selectorRegistry);
+      const errorMessage = decodedRevert?.summary ?? (err instanceof Error ? err.message : 'Failed to send transaction');
+      setRevert(decodedRevert);
+      setError(errorMessage);
+      toaster.error({
+        title: 'Transaction failed',
+        description: errorMessage,
+      });
+    }
+  };
+
+  return (
+    <Box layerStyle="card">
+      <Box layerStyle="cardSection">
+        <VStack gap={3} align="stretch">
+          <Text textStyle="helperText">
+            Raw calldata for <Code layerStyle="codeInline">{contractAddress}</Code>
+          </Text>
+
+          <Field.Root invalid={data.length > 2 && calldataError !== null}>
+            <Field.Label textStyle="label">Calldata:</Field.Label>
+            <Textarea
+              value={calldata}
+              onChange={(e) => setCalldata(e.target.value)}
+              placeholder="0x70a08231000000000000000000000000..."
+              rows={4}
+              textStyle="mono"
+            />
+            {data.length > 2 && calldataError && <Field.ErrorText>{calldataError}</Field.ErrorText>}
+          </Field.Root>
+
+          <Grid templateColumns="1fr 1fr" gap={3}>
+            <Field.Root>
+              <Field.Label textStyle="label">Value (wei):</Field.Label>
+              <Input value={value} onChange={(e) => setValue(e.target.value)} placeholder="0" type="number" size="sm" />
+            </Field.Root>
+            <Field.Root>
+              <Field.Label textStyle="label">Block (calls only):</Field.Label>
+              <Input value={blockNumber} onChange={(e) => setBlockNumber(e.target.value)} placeholder="latest" type="number" size="sm" />
+            </Field.Root>
+          </Grid>
+
+          <HStack gap={2}>
+            <Button size="sm" colorScheme="blue" onClick={handleCall} loading={loading} disabled={calldataError !== null}>
+              Call
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleSend} loading={isPending} disabled={calldataError !== null}>
+              Send Transaction
+            </Button>
+          </HStack>
+
+          {result !== null && (
+            <Box>
+              <Text textStyle="label" mb={1}>Returned data:</Text>
+              <Code layerStyle="codeInline" wordBreak="break-all" display="block">{result}</Code>
+            </Box>
+          )}
+
+          {hash && (
+            <Text textStyle="helperText">
+              Transaction: <Code layerStyle="codeInline">{hash}</Code>
+            </Text>
+          )}
+
+          {revert ? (
+            <RevertReason revert={revert} />
+          ) : error && (
+            <Alert.Root status="error" size="sm">
+              <Alert.Indicator />
+              <Alert.Title fontSize="xs">{error}</Alert.Title>
+            </Alert.Root>
+          )}
+        </VStack>
+      </Box>
+    </Box>
+  );
+}
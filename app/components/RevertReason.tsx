@@ -0,0 +1,49 @@
+'use client';
+
+import { Alert, Code, Text, VStack } from '@chakra-ui/react';
+import { contractNameOf } from '@/app/utils/abiMatcher';
+import { serializeBigInts } from '@/app/utils/transactionDecoder';
+import type { DecodedRevert } from '@/app/utils/revertDecoder';
+
+const REVERT_KIND_LABELS: Record<DecodedRevert['kind'], string> = {
+  reason: 'Reverted',
+  panic: 'Panicked',
+  custom: 'Reverted with custom error',
+  unknown: 'Reverted with an unknown error',
+  empty: 'Reverted',
+};
+
+/**
+ * A decoded revert: the reason string, panic code or custom error with its arguments
+ */
+export default function RevertReason({ revert, mb }: { revert: DecodedRevert; mb?: number }) {
+  return (
+    <Alert.Root status="error" size="sm" mb={mb}>
+      <Alert.Indicator />
+      <Alert.Content>
+        <Alert.Title fontSize="xs">{REVERT_KIND_LABELS[revert.kind]}: {revert.summary}</Alert.Title>
+        <Alert.Description>
+          <VStack gap={1} align="stretch" mt={1}>
+            {revert.kind === 'custom' && revert.signature && (
+              <Text textStyle="monoCode">{revert.signature}</Text>
+            )}
+            {revert.kind === 'custom' && revert.args && revert.args.length > 0 && (
+              <Code layerStyle="codeInline" whiteSpace="pre-wrap" wordBreak="break-all">
+                {JSON.stringify(serializeBigInts(revert.args), null, 2)}
+              </Code>
+            )}
+            {revert.abiName && (
+              <Text fontSize="xs">Declared by {contractNameOf(revert.abiName)}, not by this contract&apos;s ABI</Text>
+            )}
+            {revert.alternatives && revert.alternatives.length > 0 && (
+              <Text fontSize="xs">Also matches: {revert.alternatives.join(', ')}</Text>
+            )}
+            {revert.kind === 'unknown' && (
+              <Code layerStyle="codeInline" wordBreak="break-all">{revert.data}</Code>
+            )}
+          </VStack>
+        </Alert.Description>
+      </Alert.Content>
+    </Alert.Root>
+  );
+}
@@ -12,11 +12,27 @@ import {
 } from '@chakra-ui/react';
 import { DialogRoot, DialogContent, DialogHeader, DialogTitle, DialogBody, DialogFooter, DialogBackdrop } from '@chakra-ui/react';
 import { Tooltip } from '@chakra-ui/react';
+import { importDeployments, type DeploymentsFormat } from '@/app/utils/deploymentImporters';
+import { openJsonFile, openDirectory, handleFromDrop, supportsFileSystemAccess } from '@/app/utils/fileFallback';
+import { parseConfigBundle, type ConfigBundle } from '@/app/utils/configBundle';
+
+const FORMAT_LABELS: Record<DeploymentsFormat, string> = {
+  'deployments': 'Deployments map',
+  'foundry-broadcast': 'Foundry broadcast',
+  'hardhat-ignition': 'Hardhat Ignition',
+};
+
+type DropTargetKind = 'deploymentsFile' | 'abisFolder' | 'hardhatDeployFolder';
 
 interface SetupModalProps {
   open: boolean;
-  onComplete: (fileHandle: FileSystemFileHandle | null, folderHandle: FileSystemDirectoryHandle | null) => void;
+  onComplete: (
+    fileHandle: FileSystemFileHandle | null,
+    folderHandle: FileSystemDirectoryHandle | null,
+    hardhatDeployFolder: FileSystemDirectoryHandle | null
+  ) => void;
   onSkip: () => void;
+  onImportBundle: (bundle: ConfigBundle, fileName: string) => void;
   hasDeploymentsFile: boolean;
   hasFolderHandle: boolean;
 }
@@ -25,49 +41,118 @@ export default function SetupModal({
   open,
   onComplete,
   onSkip,
+  onImportBundle,
   hasDeploymentsFile,
   hasFolderHandle,
 }: SetupModalProps) {
   const [fileHandle, setFileHandle] = useState<FileSystemFileHandle | null>(null);
+  const [fileFormat, setFileFormat] = useState<DeploymentsFormat | null>(null);
   const [folderHandle, setFolderHandle] = useState<FileSystemDirectoryHandle | null>(null);
+  const [hardhatDeployFolder, setHardhatDeployFolder] = useState<FileSystemDirectoryHandle | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  const [dropTarget, setDropTarget] = useState<DropTargetKind | null>(null);
+
   const handleSelectFile = async () => {
     try {
       setLoading(true);
-      // @ts-expect-error - File System Access API
-      const [handle] = await window.showOpenFilePicker({
-        types: [{
-          description: 'JSON Files',
-          accept: { 'application/json': ['.json'] }
-        }],
-        multiple: false
-      });
-
-      // Validate it's a valid JSON file
-      const file = await handle.getFile();
-      const text = await file.text();
-      JSON.parse(text); // Will throw if invalid
-
-      setFileHandle(handle);
-      setError(null);
+      await applyDeploymentsFile(await openJsonFile());
     } catch (err) {
       if ((err as Error).name !== 'AbortError') {
-        setError('Invalid JSON file: ' + (err instanceof Error ? err.message : 'Unknown error'));
+        setError('Invalid deployments file: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applyDeploymentsFile = async (handle: FileSystemFileHandle) => {
+    // Validate it's a JSON file in one of the supported formats
+    const file = await handle.getFile();
+    const text = await file.text();
+    const { format } = importDeployments(JSON.parse(text)); // Will throw if invalid
+
+    setFileHandle(handle);
+    setFileFormat(format);
+    setHardhatDeployFolder(null);
+    setError(null);
+  };
+
+  const applyAbisFolder = (dirHandle: FileSystemDirectoryHandle) => {
+    setFolderHandle(dirHandle);
+    setHardhatDeployFolder(null);
+    setError(null);
+  };
+
+  const applyHardhatDeployFolder = (dirHandle: FileSystemDirectoryHandle) => {
+    setHardhatDeployFolder(dirHandle);
+    setFileHandle(null);
+    setFileFormat(null);
+    setFolderHandle(null);
+    setError(null);
+  };
+
+  // Drag-and-drop works in every browser and is the easiest way to load a folder without the File System Access API
+  const handleDrop = async (e: React.DragEvent, target: DropTargetKind) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    try {
+      setLoading(true);
+      const handle = await handleFromDrop(e.dataTransfer);
+      if (!handle) return;
+
+      if (target === 'deploymentsFile') {
+        if (handle.kind !== 'file') throw new Error('Drop a JSON file, not a folder');
+        await applyDeploymentsFile(handle as FileSystemFileHandle);
+      } else {
+        if (handle.kind !== 'directory') throw new Error('Drop a folder, not a file');
+        if (target === 'abisFolder') {
+          applyAbisFolder(handle as FileSystemDirectoryHandle);
+        } else {
+          applyHardhatDeployFolder(handle as FileSystemDirectoryHandle);
+        }
       }
+    } catch (err) {
+      setError('Failed to load dropped item: ' + (err instanceof Error ? err.message : 'Unknown error'));
     } finally {
       setLoading(false);
     }
   };
 
+  // Props that turn a field into a drop zone
+  const dropZoneProps = (target: DropTargetKind) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, target),
+    borderWidth: '2px',
+    borderStyle: 'dashed',
+    borderColor: dropTarget === target ? 'blue.solid' : 'transparent',
+    borderRadius: 'md',
+    p: 1,
+  });
+
   const handleSelectFolder = async () => {
     try {
       setLoading(true);
-      // @ts-expect-error - File System Access API
-      const dirHandle = await window.showDirectoryPicker();
-      setFolderHandle(dirHandle);
-      setError(null);
+      applyAbisFolder(await openDirectory());
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        setError('Failed to select folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectHardhatDeployFolder = async () => {
+    try {
+      setLoading(true);
+      applyHardhatDeployFolder(await openDirectory());
     } catch (err) {
       if ((err as Error).name !== 'AbortError') {
         setError('Failed to select folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -77,7 +162,27 @@ export default function SetupModal({
     }
   };
 
+  // A bundle restores deployments, ABIs and chain settings in one go
+  const handleImportBundle = async () => {
+    try {
+      setLoading(true);
+      const handle = await openJsonFile();
+      const file = await handle.getFile();
+      onImportBundle(parseConfigBundle(await file.text()), handle.name);
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        setError('Invalid config bundle: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleComplete = () => {
+    if (hardhatDeployFolder) {
+      onComplete(null, null, hardhatDeployFolder);
+      return;
+    }
     if (!fileHandle && !hasDeploymentsFile) {
       setError('Please select a deployments file');
       return;
@@ -87,10 +192,11 @@ export default function SetupModal({
       return;
     }
 
-    onComplete(fileHandle, folderHandle);
+    onComplete(fileHandle, folderHandle, null);
   };
 
-  const canComplete = (fileHandle || hasDeploymentsFile) && (folderHandle || hasFolderHandle);
+  const canComplete = hardhatDeployFolder !== null
+    || ((fileHandle || hasDeploymentsFile) && (folderHandle || hasFolderHandle));
 
   // Add keyboard shortcuts
   useEffect(() => {
@@ -144,10 +250,20 @@ export default function SetupModal({
             <Text color="fg.muted">
               To get started, please configure your deployment file and ABIs folder.
               This only needs to be done once - your configuration will be saved.
+              You can also drag and drop files and folders onto each field.
             </Text>
 
+            {!supportsFileSystemAccess() && (
+              <Box p={3} bg="orange.subtle" borderRadius="md">
+                <Text textStyle="label" color="orange.fg">
+                  This browser can&apos;t keep access to local files, so a snapshot of what you load is
+                  saved instead. Load the files again to pick up changes.
+                </Text>
+              </Box>
+            )}
+
             {/* Deployments File */}
-            <Box>
+            <Box {...dropZoneProps('deploymentsFile')}>
               <Field.Root>
                 <Field.Label fontWeight="semibold">
                   <HStack gap={2} display="inline-flex" align="center">
@@ -194,7 +310,8 @@ export default function SetupModal({
 }`}
                           </Box>
                           <Text fontSize="xs">
-                            Example: Hardhat deployments file or custom JSON with contract addresses
+                            Foundry broadcast/&lt;Script&gt;/&lt;chainId&gt;/run-latest.json and Hardhat Ignition
+                            deployed_addresses.json files are also accepted and converted automatically
                           </Text>
                         </Tooltip.Content>
                       </Tooltip.Positioner>
@@ -222,6 +339,7 @@ export default function SetupModal({
                 {fileHandle && (
                   <Text textStyle="helperText" color="green.solid" mt={1}>
                     ✓ File selected: {fileHandle.name}
+                    {fileFormat && ` (${FORMAT_LABELS[fileFormat]})`}
                   </Text>
                 )}
                 {hasDeploymentsFile && !fileHandle && (
@@ -233,7 +351,7 @@ export default function SetupModal({
             </Box>
 
             {/* ABIs Folder */}
-            <Box>
+            <Box {...dropZoneProps('abisFolder')}>
               <Field.Root>
                 <Field.Label fontWeight="semibold">
                   <HStack gap={2} display="inline-flex" align="center">
@@ -279,7 +397,8 @@ export default function SetupModal({
 └── ...`}
                           </Box>
                           <Text fontSize="xs">
-                            Compatible with Hardhat artifacts or Foundry out/ directory structure
+                            Compatible with Hardhat artifacts/, Foundry out/, Truffle build/contracts/,
+                            Vyper outputs and bare .abi files, at any depth
                           </Text>
                         </Tooltip.Content>
                       </Tooltip.Positioner>
@@ -317,6 +436,107 @@ export default function SetupModal({
               </Field.Root>
             </Box>
 
+            {/* hardhat-deploy Folder */}
+            <Box>
+              <Text textAlign="center" fontSize="sm" color="fg.muted" mb={4}>
+                — or —
+              </Text>
+              <Box {...dropZoneProps('hardhatDeployFolder')}>
+                <Field.Root>
+                  <Field.Label fontWeight="semibold">
+                    <HStack gap={2} display="inline-flex" align="center">
+                      <Text>Use a hardhat-deploy Folder</Text>
+                      <Tooltip.Root openDelay={200} closeDelay={100}>
+                        <Tooltip.Trigger asChild>
+                          <Box
+                            as="span"
+                            cursor="help"
+                            color="fg.subtle"
+                            fontSize="xs"
+                            display="inline-flex"
+                            alignItems="center"
+                          >
+                            ℹ️
+                          </Box>
+                        </Tooltip.Trigger>
+                        <Tooltip.Positioner>
+                          <Tooltip.Content
+                            bg="bg.inverted"
+                            color="fg.inverted"
+                            p={3}
+                            borderRadius="md"
+                            maxW="320px"
+                            boxShadow="lg"
+                            zIndex={9999}
+                          >
+                            <Text fontWeight="semibold" mb={2} fontSize="sm">Expected folder structure:</Text>
+                            <Box
+                              as="pre"
+                              fontSize="xs"
+                              whiteSpace="pre-wrap"
+                              bg="gray.900"
+                              p={2}
+                              borderRadius="sm"
+                              mb={2}
+                            >
+{`deployments/
+├── network-name/
+│   ├── Contract1.json
+│   └── Contract2.json
+└── ...`}
+                            </Box>
+                            <Text fontSize="xs">
+                              Each JSON file holds both the address and the ABI, so no separate
+                              deployments file or ABIs folder is needed
+                            </Text>
+                          </Tooltip.Content>
+                        </Tooltip.Positioner>
+                      </Tooltip.Root>
+                    </HStack>
+                  </Field.Label>
+                  <Button
+                    onClick={handleSelectHardhatDeployFolder}
+                    width="full"
+                    variant="outline"
+                    disabled={loading}
+                    loading={loading}
+                  >
+                    {hardhatDeployFolder
+                      ? `📁 ${hardhatDeployFolder.name}`
+                      : 'Select hardhat-deploy Folder'}
+                  </Button>
+                  {hardhatDeployFolder && (
+                    <Text textStyle="helperText" color="green.solid" mt={1}>
+                      ✓ Folder selected: {hardhatDeployFolder.name} (replaces steps 1 and 2)
+                    </Text>
+                  )}
+                </Field.Root>
+              </Box>
+            </Box>
+
+            {/* Config Bundle */}
+            <Box>
+              <Text textAlign="center" fontSize="sm" color="fg.muted" mb={4}>
+                — or —
+              </Text>
+              <Field.Root>
+                <Field.Label fontWeight="semibold">Import a Config Bundle</Field.Label>
+                <Button
+                  onClick={handleImportBundle}
+                  width="full"
+                  variant="outline"
+                  disabled={loading}
+                  loading={loading}
+                >
+                  Import Bundle
+                </Button>
+                <Text textStyle="helperText" mt={1}>
+                  A bundle exported from the sidebar holds deployments, ABIs, chain settings and
+                  address labels, so no files or folders are needed
+                </Text>
+              </Field.Root>
+            </Box>
+
             {/* Error Message */}
             {error && (
               <Box p={3} bg="red.subtle" borderRadius="md" borderWidth="1px" borderColor="red.muted">
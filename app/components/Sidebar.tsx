@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import {
   Box,
   VStack,
@@ -17,9 +18,48 @@ import {
 } from '@chakra-ui/react';
 import { Tooltip } from '@chakra-ui/react';
 import { ConnectButton } from '@/app/components/ConnectButton';
+import AdHocContractsPanel from '@/app/components/AdHocContractsPanel';
+import AbiScanSummary from '@/app/components/AbiScanSummary';
+import ContractSelector from '@/app/components/ContractSelector';
+import WorkspaceSwitcher from '@/app/components/WorkspaceSwitcher';
 import { ThemeToggle } from '@/components/ui/theme-selector';
 import { useContract } from '@/app/context/ContractContext';
-import { findBestAbiMatch } from '@/app/utils/abiMatcher';
+
+// The chain ID is only saved once it is a valid number, so the field can be cleared while retyping it
+function ChainIdField({ chainId, onSave }: { chainId: number; onSave: (chainId: number) => void }) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    if (draft === null) return;
+    const value = draft.trim();
+    if (!/^\d+$/.test(value) || Number(value) <= 0 || !Number.isSafeInteger(Number(value))) {
+      setError('Must be a positive integer');
+      return;
+    }
+    setError(null);
+    setDraft(null);
+    if (Number(value) !== chainId) onSave(Number(value));
+  };
+
+  return (
+    <Field.Root invalid={error !== null}>
+      <Field.Label fontSize="sm" fontWeight="semibold">Chain ID:</Field.Label>
+      <Input
+        value={draft ?? chainId.toString()}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={save}
+        onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+        inputMode="numeric"
+        bg={{ base: 'white' }}
+        _dark={{ bg: 'gray.800' }}
+        fontSize="xs"
+        fontFamily="mono"
+      />
+      {error && <Field.ErrorText textStyle="helperText">{error}</Field.ErrorText>}
+    </Field.Root>
+  );
+}
 
 export default function Sidebar() {
   const {
@@ -29,7 +69,6 @@ export default function Sidebar() {
     setSelectedNetwork,
     selectedDeployment,
     setSelectedDeployment,
-    selectedContract,
     setSelectedContract,
     contractAddress,
     setContractAddress,
@@ -39,28 +78,33 @@ export default function Sidebar() {
     isInitializing,
     handleSelectDeploymentsFile,
     handleSelectAbisFolder,
+    handleSelectHardhatDeployFolder,
     handleReconfigure,
     abisFolderHandle,
+    hardhatDeployHandle,
     rpcUrl,
     setRpcUrl,
     wsUrl,
     setWsUrl,
+    chainRegistry,
+    activeChainConfig,
+    updateChainConfig,
+    resetChainConfig,
+    rpcStatus,
+    isCheckingRpc,
+    rpcChainMismatch,
+    refreshRpcStatus,
+    sourceStatus,
+    snapshotSavedAt,
+    refreshFromSources,
+    exportConfigBundle,
+    abiScanReport,
   } = useContract();
 
   const networkNames = Object.keys(deploymentsFile);
   const deploymentNames = selectedNetwork
     ? Object.keys(deploymentsFile[selectedNetwork] || {})
     : [];
-  const contractNames = selectedNetwork && selectedDeployment
-    ? Object.keys(deploymentsFile[selectedNetwork]?.[selectedDeployment] || {}).filter(
-        (key) => {
-          const hasAddress = deploymentsFile[selectedNetwork][selectedDeployment][key]?.startsWith('0x');
-          const hasAbi = findBestAbiMatch(key, availableAbis) !== null;
-          return hasAddress && hasAbi;
-        }
-      )
-    : [];
-
   return (
     <Box
       bg={{ base: 'gray.50' }}
@@ -81,16 +125,29 @@ export default function Sidebar() {
 
         <HStack justify="space-between" align="center">
           <Heading size="md">Configuration</Heading>
-          <Button
-            size="xs"
-            variant="ghost"
-            onClick={handleReconfigure}
-            title="Reconfigure settings"
-          >
-            ⚙️ Setup
-          </Button>
+          <HStack gap={1}>
+            <Button
+              size="xs"
+              variant="ghost"
+              onClick={exportConfigBundle}
+              disabled={isInitializing || Object.keys(deploymentsFile).length === 0}
+              title="Export deployments, ABIs and chain settings to one file"
+            >
+              ⬇️ Export
+            </Button>
+            <Button
+              size="xs"
+              variant="ghost"
+              onClick={handleReconfigure}
+              title="Reconfigure settings"
+            >
+              ⚙️ Setup
+            </Button>
+          </HStack>
         </HStack>
 
+        <WorkspaceSwitcher />
+
         {/* Initialization Loading */}
         {isInitializing && (
           <Center py={4}>
@@ -103,44 +160,94 @@ export default function Sidebar() {
           </Center>
         )}
 
+        {/* Snapshot in use because the sources couldn't be re-read without a permission prompt */}
+        {!isInitializing && sourceStatus === 'needs-permission' && (
+          <Alert.Root status="info" size="sm">
+            <Alert.Indicator />
+            <VStack align="stretch" gap={2} flex={1}>
+              <Alert.Title fontSize="xs">
+                Showing saved snapshot
+                {snapshotSavedAt ? ` from ${new Date(snapshotSavedAt).toLocaleString()}` : ''}
+              </Alert.Title>
+              <Button size="xs" variant="outline" onClick={refreshFromSources}>
+                Refresh from disk
+              </Button>
+            </VStack>
+          </Alert.Root>
+        )}
+
+        {/* Sources linked through ?config=, ?deployments= or ?abis= */}
+        {!isInitializing && sourceStatus === 'remote' && (
+          <Alert.Root status="info" size="sm">
+            <Alert.Indicator />
+            <Alert.Title fontSize="xs">
+              Loaded from the URL. Remove the config parameters to use your saved setup.
+            </Alert.Title>
+          </Alert.Root>
+        )}
+
         {!isInitializing && (
           <>
-            <Field.Root>
-              <Field.Label fontSize="sm" fontWeight="semibold">
-                <HStack gap={1} display="inline-flex" align="center">
-                  <Text>Deployments File:</Text>
-                  <Tooltip.Root openDelay={200} closeDelay={100}>
-                    <Tooltip.Trigger asChild>
-                      <Box
-                        as="span"
-                        cursor="help"
-                        color="gray.500"
-                        fontSize="xs"
-                        display="inline-flex"
-                        alignItems="center"
-                      >
-                        ℹ️
-                      </Box>
-                    </Tooltip.Trigger>
-                    <Tooltip.Positioner>
-                      <Tooltip.Content
-                        bg="gray.800"
-                        color="white"
-                        p={3}
-                        borderRadius="md"
-                        maxW="320px"
-                        boxShadow="lg"
-                        zIndex={9999}
-                      >
-                        <Text fontWeight="semibold" mb={2} fontSize="sm">Expected JSON format:</Text>
+            {hardhatDeployHandle ? (
+              <Field.Root>
+                <Field.Label fontSize="sm" fontWeight="semibold">hardhat-deploy Folder:</Field.Label>
+                <Button
+                  onClick={handleSelectHardhatDeployFolder}
+                  size="sm"
+                  width="full"
+                  variant="outline"
+                >
+                  📁 {hardhatDeployHandle.name}
+                </Button>
+                {loadingAbiList && (
+                  <Text fontSize="xs" color="gray.600" mt={1}>
+                    Scanning folder...
+                  </Text>
+                )}
+                {!loadingAbiList && Object.keys(deploymentsFile).length > 0 && (
+                  <Text fontSize="xs" color="green.600" mt={1}>
+                    ✓ Loaded ({Object.keys(deploymentsFile).length} network{Object.keys(deploymentsFile).length !== 1 ? 's' : ''}, {availableAbis.size} ABI{availableAbis.size !== 1 ? 's' : ''})
+                  </Text>
+                )}
+              </Field.Root>
+            ) : (
+              <>
+              <Field.Root>
+                <Field.Label fontSize="sm" fontWeight="semibold">
+                  <HStack gap={1} display="inline-flex" align="center">
+                    <Text>Deployments File:</Text>
+                    <Tooltip.Root openDelay={200} closeDelay={100}>
+                      <Tooltip.Trigger asChild>
                         <Box
-                          as="pre"
+                          as="span"
+                          cursor="help"
+                          color="gray.500"
                           fontSize="xs"
-                          whiteSpace="pre-wrap"
-                          bg="gray.900"
-                          p={2}
-                          borderRadius="sm"
+                          display="inline-flex"
+                          alignItems="center"
                         >
+                          ℹ️
+                        </Box>
+                      </Tooltip.Trigger>
+                      <Tooltip.Positioner>
+                        <Tooltip.Content
+                          bg="gray.800"
+                          color="white"
+                          p={3}
+                          borderRadius="md"
+                          maxW="320px"
+                          boxShadow="lg"
+                          zIndex={9999}
+                        >
+                          <Text fontWeight="semibold" mb={2} fontSize="sm">Expected JSON format:</Text>
+                          <Box
+                            as="pre"
+                            fontSize="xs"
+                            whiteSpace="pre-wrap"
+                            bg="gray.900"
+                            p={2}
+                            borderRadius="sm"
+                          >
 {`{
   "network-name": {
     "deployment-name": {
@@ -148,98 +255,100 @@ export default function Sidebar() {
     }
   }
 }`}
-                        </Box>
-                      </Tooltip.Content>
-                    </Tooltip.Positioner>
-                  </Tooltip.Root>
-                </HStack>
-              </Field.Label>
-              <Button
-                onClick={handleSelectDeploymentsFile}
-                size="sm"
-                width="full"
-                variant="outline"
-              >
-                {deploymentsFileHandle ? `📄 ${deploymentsFileHandle.name}` : 'Select Deployments File'}
-              </Button>
-              {deploymentsFileHandle && Object.keys(deploymentsFile).length > 0 && (
-                <Text fontSize="xs" color="green.600" mt={1}>
-                  ✓ Loaded ({Object.keys(deploymentsFile).length} network{Object.keys(deploymentsFile).length !== 1 ? 's' : ''})
-                </Text>
-              )}
-            </Field.Root>
+                          </Box>
+                        </Tooltip.Content>
+                      </Tooltip.Positioner>
+                    </Tooltip.Root>
+                  </HStack>
+                </Field.Label>
+                <Button
+                  onClick={handleSelectDeploymentsFile}
+                  size="sm"
+                  width="full"
+                  variant="outline"
+                >
+                  {deploymentsFileHandle ? `📄 ${deploymentsFileHandle.name}` : 'Select Deployments File'}
+                </Button>
+                {deploymentsFileHandle && Object.keys(deploymentsFile).length > 0 && (
+                  <Text fontSize="xs" color="green.600" mt={1}>
+                    ✓ Loaded ({Object.keys(deploymentsFile).length} network{Object.keys(deploymentsFile).length !== 1 ? 's' : ''})
+                  </Text>
+                )}
+              </Field.Root>
 
-            <Field.Root>
-              <Field.Label fontSize="sm" fontWeight="semibold">
-                <HStack gap={1} display="inline-flex" align="center">
-                  <Text>ABIs Folder:</Text>
-                  <Tooltip.Root openDelay={200} closeDelay={100}>
-                    <Tooltip.Trigger asChild>
-                      <Box
-                        as="span"
-                        cursor="help"
-                        color="gray.500"
-                        fontSize="xs"
-                        display="inline-flex"
-                        alignItems="center"
-                      >
-                        ℹ️
-                      </Box>
-                    </Tooltip.Trigger>
-                    <Tooltip.Positioner>
-                      <Tooltip.Content
-                        bg="gray.800"
-                        color="white"
-                        p={3}
-                        borderRadius="md"
-                        maxW="320px"
-                        boxShadow="lg"
-                        zIndex={9999}
-                      >
-                        <Text fontWeight="semibold" mb={2} fontSize="sm">Expected folder structure:</Text>
+              <Field.Root>
+                <Field.Label fontSize="sm" fontWeight="semibold">
+                  <HStack gap={1} display="inline-flex" align="center">
+                    <Text>ABIs Folder:</Text>
+                    <Tooltip.Root openDelay={200} closeDelay={100}>
+                      <Tooltip.Trigger asChild>
                         <Box
-                          as="pre"
+                          as="span"
+                          cursor="help"
+                          color="gray.500"
                           fontSize="xs"
-                          whiteSpace="pre-wrap"
-                          bg="gray.900"
-                          p={2}
-                          borderRadius="sm"
-                          mb={2}
+                          display="inline-flex"
+                          alignItems="center"
                         >
+                          ℹ️
+                        </Box>
+                      </Tooltip.Trigger>
+                      <Tooltip.Positioner>
+                        <Tooltip.Content
+                          bg="gray.800"
+                          color="white"
+                          p={3}
+                          borderRadius="md"
+                          maxW="320px"
+                          boxShadow="lg"
+                          zIndex={9999}
+                        >
+                          <Text fontWeight="semibold" mb={2} fontSize="sm">Expected folder structure:</Text>
+                          <Box
+                            as="pre"
+                            fontSize="xs"
+                            whiteSpace="pre-wrap"
+                            bg="gray.900"
+                            p={2}
+                            borderRadius="sm"
+                            mb={2}
+                          >
 {`artifacts/
 ├── Contract1.sol/
 │   └── Contract1.json
-├── Contract2.sol/
-│   └── Contract2.json
+├── Tokens.sol/
+│   ├── TokenA.json
+│   └── TokenB.json
 └── ...`}
-                        </Box>
-                        <Text fontSize="xs">
-                          Each .sol directory should contain a JSON file with the contract&apos;s ABI.
-                        </Text>
-                      </Tooltip.Content>
-                    </Tooltip.Positioner>
-                  </Tooltip.Root>
-                </HStack>
-              </Field.Label>
-              <Button
-                onClick={handleSelectAbisFolder}
-                size="sm"
-                width="full"
-                variant="outline"
-              >
-                {abisFolderHandle ? `📁 ${abisFolderHandle.name}` : 'Select ABIs Folder'}
-              </Button>
-              {loadingAbiList && (
-                <Text fontSize="xs" color="gray.600" mt={1}>
-                  Scanning folder...
-                </Text>
-              )}
-              {!loadingAbiList && availableAbis.size > 0 && (
-                <Text fontSize="xs" color="green.600" mt={1}>
-                  ✓ Found {availableAbis.size} ABI{availableAbis.size !== 1 ? 's' : ''}
-                </Text>
-              )}
-            </Field.Root>
+                          </Box>
+                          <Text fontSize="xs">
+                            Scanned recursively: Hardhat, Foundry, Truffle and Vyper outputs, plus bare
+                            .abi files. build-info is only read for storage layouts; .dbg.json files are skipped.
+                          </Text>
+                        </Tooltip.Content>
+                      </Tooltip.Positioner>
+                    </Tooltip.Root>
+                  </HStack>
+                </Field.Label>
+                <Button
+                  onClick={handleSelectAbisFolder}
+                  size="sm"
+                  width="full"
+                  variant="outline"
+                >
+                  {abisFolderHandle ? `📁 ${abisFolderHandle.name}` : 'Select ABIs Folder'}
+                </Button>
+                {loadingAbiList && (
+                  <Text fontSize="xs" color="gray.600" mt={1}>
+                    Scanning folder...
+                  </Text>
+                )}
+                {!loadingAbiList && availableAbis.size > 0 && (
+                  <AbiScanSummary abiCount={availableAbis.size} report={abiScanReport} />
+                )}
+              </Field.Root>
+              </>
+            )}
 
             <Field.Root>
               <Field.Label fontSize="sm" fontWeight="semibold">Select Network:</Field.Label>
@@ -288,48 +397,7 @@ export default function Sidebar() {
               </Field.Root>
             )}
 
-            {selectedNetwork && selectedDeployment && (
-              <Field.Root>
-                <Field.Label fontSize="sm" fontWeight="semibold">
-                  Select Contract:
-                  {loadingAbiList && (
-                    <Text as="span" ml={2} fontSize="xs" color="gray.500" fontWeight="normal">
-                      (Loading...)
-                    </Text>
-                  )}
-                </Field.Label>
-                <NativeSelectRoot size="sm" disabled={loadingAbiList}>
-                  <NativeSelectField
-                    value={selectedContract}
-                    onChange={(e) => {
-                      setSelectedContract(e.target.value);
-                    }}
-                    bg={{ base: 'white' }}
-                    _dark={{ bg: 'gray.800' }}
-                  >
-                    <option value="">
-                      {!abisFolderHandle
-                        ? 'Select ABIs folder first'
-                        : loadingAbiList
-                        ? 'Loading...'
-                        : contractNames.length === 0
-                        ? 'No contracts with ABIs found'
-                        : '-- Select a contract --'}
-                    </option>
-                    {contractNames.map((name) => (
-                      <option key={name} value={name}>
-                        {name}
-                      </option>
-                    ))}
-                  </NativeSelectField>
-                </NativeSelectRoot>
-                {!loadingAbiList && contractNames.length > 0 && (
-                  <Text fontSize="xs" color="gray.600" mt={1}>
-                    {contractNames.length} contract{contractNames.length !== 1 ? 's' : ''} available
-                  </Text>
-                )}
-              </Field.Root>
-            )}
+            {selectedNetwork && selectedDeployment && <ContractSelector />}
 
             <Field.Root>
               <Field.Label fontSize="sm" fontWeight="semibold">Contract Address:</Field.Label>
@@ -344,7 +412,60 @@ export default function Sidebar() {
               />
             </Field.Root>
 
-            <Heading size="sm" mt={2}>RPC Endpoints</Heading>
+            <AdHocContractsPanel />
+
+            <HStack justify="space-between" align="center" mt={2}>
+              <Heading size="sm">
+                Chain{selectedNetwork ? ` (${selectedNetwork})` : ''}
+              </Heading>
+              {selectedNetwork && chainRegistry[selectedNetwork] && (
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => resetChainConfig(selectedNetwork)}
+                  title="Reset chain settings for this network"
+                >
+                  Reset
+                </Button>
+              )}
+            </HStack>
+
+            {selectedNetwork && (
+              <>
+                <HStack gap={2} align="start">
+                  <ChainIdField
+                    key={selectedNetwork}
+                    chainId={activeChainConfig.chainId}
+                    onSave={(chainId) => updateChainConfig(selectedNetwork, { chainId })}
+                  />
+                  <Field.Root>
+                    <Field.Label fontSize="sm" fontWeight="semibold">Currency:</Field.Label>
+                    <Input
+                      value={activeChainConfig.nativeCurrency.symbol}
+                      onChange={(e) => updateChainConfig(selectedNetwork, {
+                        nativeCurrency: { ...activeChainConfig.nativeCurrency, symbol: e.target.value },
+                      })}
+                      placeholder="ETH"
+                      bg={{ base: 'white' }}
+                      _dark={{ bg: 'gray.800' }}
+                      fontSize="xs"
+                      fontFamily="mono"
+                    />
+                  </Field.Root>
+                </HStack>
+
+                <Field.Root>
+                  <Field.Label fontSize="sm" fontWeight="semibold">Chain Name:</Field.Label>
+                  <Input
+                    value={activeChainConfig.name}
+                    onChange={(e) => updateChainConfig(selectedNetwork, { name: e.target.value })}
+                    bg={{ base: 'white' }}
+                    _dark={{ bg: 'gray.800' }}
+                    fontSize="xs"
+                  />
+                </Field.Root>
+              </>
+            )}
 
             <Field.Root>
               <Field.Label fontSize="sm" fontWeight="semibold">RPC URL:</Field.Label>
@@ -357,8 +478,38 @@ export default function Sidebar() {
                 fontSize="xs"
                 fontFamily="mono"
               />
+              <HStack justify="space-between" w="full" mt={1}>
+                {isCheckingRpc ? (
+                  <HStack gap={1}>
+                    <Spinner size="xs" />
+                    <Text fontSize="xs" color="gray.600">Checking endpoint...</Text>
+                  </HStack>
+                ) : rpcStatus.connected ? (
+                  <Text fontSize="xs" color={rpcChainMismatch ? 'orange.500' : 'green.600'}>
+                    ● Chain {rpcStatus.chainId} · block #{rpcStatus.headBlock?.toString()} · {rpcStatus.latencyMs}ms
+                    {rpcStatus.netVersion === null ? ' · no net_version' : ''}
+                  </Text>
+                ) : (
+                  <Text fontSize="xs" color="red.500" lineClamp={1} title={rpcStatus.error ?? undefined}>
+                    ● Not connected{rpcStatus.error ? `: ${rpcStatus.error}` : ''}
+                  </Text>
+                )}
+                <Button size="xs" variant="ghost" onClick={refreshRpcStatus} disabled={isCheckingRpc}>
+                  Check
+                </Button>
+              </HStack>
             </Field.Root>
 
+            {rpcChainMismatch && (
+              <Alert.Root status="warning" size="sm">
+                <Alert.Indicator />
+                <Alert.Title fontSize="xs">
+                  RPC serves chain {rpcStatus.chainId}, but {selectedNetwork || 'the default chain'} expects
+                  chain {activeChainConfig.chainId}
+                </Alert.Title>
+              </Alert.Root>
+            )}
+
             <Field.Root>
               <Field.Label fontSize="sm" fontWeight="semibold">WebSocket URL:</Field.Label>
               <Input
@@ -371,6 +522,21 @@ export default function Sidebar() {
                 fontFamily="mono"
               />
             </Field.Root>
+
+            {selectedNetwork && (
+              <Field.Root>
+                <Field.Label fontSize="sm" fontWeight="semibold">Block Explorer URL:</Field.Label>
+                <Input
+                  value={activeChainConfig.blockExplorerUrl}
+                  onChange={(e) => updateChainConfig(selectedNetwork, { blockExplorerUrl: e.target.value })}
+                  placeholder="https://..."
+                  bg={{ base: 'white' }}
+                  _dark={{ bg: 'gray.800' }}
+                  fontSize="xs"
+                  fontFamily="mono"
+                />
+              </Field.Root>
+            )}
           </>
         )}
 
@@ -0,0 +1,225 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { createPublicClient, formatEther, http, type Transaction } from 'viem';
+import { Box, VStack, HStack, Text, Code, Badge, Button, Alert, Spinner, Grid } from '@chakra-ui/react';
+import { useContract } from '@/app/context/ContractContext';
+import { findContractByAddress } from '@/app/utils/transactionDecoder';
+import { fetchStateDiff, labelStorageChanges, type AccountDiff, type StateDiffResult, type StorageChange } from '@/app/utils/stateDiff';
+import { addressMappingKeys, formatStorageValue } from '@/app/utils/storageLayout';
+import { detectProxy } from '@/app/utils/proxyDetection';
+
+function formatBalanceDelta(before: bigint, after: bigint): string {
+  const delta = after - before;
+  return `${delta >= BigInt(0) ? '+' : '-'}${formatEther(delta >= BigInt(0) ? delta : -delta)} ETH`;
+}
+
+function StorageChangeRow({ change }: { change: StorageChange }) {
+  return (
+    <Box py={2} borderTopWidth="1px">
+      <Text textStyle="monoCode" color="fg.muted" wordBreak="break-all">slot {change.slot}</Text>
+      {change.variables.length > 0 ? (
+        <VStack gap={1} align="stretch" mt={1}>
+          {change.variables.map((variable) => {
+            const before = formatStorageValue(change.before, variable);
+            const after = formatStorageValue(change.after, variable);
+            return (
+              <HStack key={`${variable.name}-${variable.offset}`} gap={2} wrap="wrap" opacity={before === after ? 0.6 : 1}>
+                <Text textStyle="mono" fontWeight="semibold">{variable.name}</Text>
+                <Text textStyle="helperText">{variable.type}</Text>
+                <Code layerStyle="codeInline" wordBreak="break-all">{before}</Code>
+                <Text fontSize="sm">→</Text>
+                <Code layerStyle="codeInline" wordBreak="break-all">{after}</Code>
+              </HStack>
+            );
+          })}
+        </VStack>
+      ) : (
+        <VStack gap={1} align="stretch" mt={1}>
+          <Code layerStyle="codeInline" wordBreak="break-all">{change.before}</Code>
+          <Code layerStyle="codeInline" wordBreak="break-all">→ {change.after}</Code>
+        </VStack>
+      )}
+    </Box>
+  );
+}
+
+function AccountDiffCard({ account, label, hasLayout }: { account: AccountDiff; label: string | null; hasLayout: boolean }) {
+  return (
+    <Box layerStyle="card">
+      <Box layerStyle="cardSection">
+        <HStack gap={2} mb={3} wrap="wrap">
+          {label && <Text fontWeight="bold">{label}</Text>}
+          <Text textStyle="monoCode" wordBreak="break-all">{account.address}</Text>
+          {account.created && <Badge colorScheme="green">created</Badge>}
+          {account.destroyed && <Badge colorScheme="red">self-destructed</Badge>}
+        </HStack>
+
+        <Grid templateColumns="80px 1fr" gap={2} alignItems="center">
+          {account.balance && (
+            <>
+              <Text textStyle="cardHeading">Balance</Text>
+              <Text textStyle="mono" wordBreak="break-all">
+                {formatEther(account.balance.before)} → {formatEther(account.balance.after)} ETH
+                {' '}({formatBalanceDelta(account.balance.before, account.balance.after)})
+              </Text>
+            </>
+          )}
+          {account.nonce && (
+            <>
+              <Text textStyle="cardHeading">Nonce</Text>
+              <Text textStyle="mono">{account.nonce.before} → {account.nonce.after}</Text>
+            </>
+          )}
+          {account.code && (
+            <>
+              <Text textStyle="cardHeading">Code</Text>
+              <Text textStyle="mono">
+                {(account.code.before.length - 2) / 2} → {(account.code.after.length - 2) / 2} bytes
+              </Text>
+            </>
+          )}
+        </Grid>
+
+        {account.storage.length > 0 && (
+          <Box mt={3}>
+            <Text textStyle="label" mb={1}>
+              Storage ({account.storage.length} slot{account.storage.length !== 1 ? 's' : ''})
+              {!hasLayout && ' — no storage layout in the artifact, slots are unlabelled'}
+            </Text>
+            {account.storage.map((change) => (
+              <StorageChangeRow key={change.slot} change={change} />
+            ))}
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+/**
+ * Balance, nonce, code and storage changes of a mined transaction, from
+ * debug_traceTransaction's prestateTracer. Storage slots are named with the
+ * storage layouts of the loaded artifacts, a proxy's with its implementation's.
+ */
+export default function StateDiffPanel({ transaction }: { transaction: Transaction }) {
+  const { activeChain, deploymentsFile, selectedNetwork, selectedDeployment, adHocContracts, lookupStorageLayout } = useContract();
+  const [outcome, setOutcome] = useState<{
+    result: StateDiffResult | null;
+    implementations: Map<string, string>; // Lowercase proxy address -> implementation address
+    error: string | null;
+  } | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const loadStateDiff = async () => {
+    setIsLoading(true);
+    try {
+      const client = createPublicClient({ chain: activeChain, transport: http() });
+      const result = await fetchStateDiff(client, transaction.hash);
+
+      // A proxy's storage follows the layout of its implementation
+      const implementations = new Map<string, string>();
+      if (result.supported) {
+        await Promise.all(result.accounts.filter((account) => account.storage.length > 0).map(async (account) => {
+          const proxy = await detectProxy(client, account.address).catch(() => null);
+          if (proxy) implementations.set(account.address.toLowerCase(), proxy.implementation);
+        }));
+      }
+      setOutcome({ result, implementations, error: null });
+    } catch (err) {
+      setOutcome({
+        result: null,
+        implementations: new Map(),
+        error: 'Failed to trace state changes: ' + (err instanceof Error ? err.message : 'Unknown error'),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const accounts = useMemo(() => {
+    if (!outcome?.result?.supported) return [];
+
+    // Mapping keys can't be recovered from slots: try every address the transaction or the deployment involves
+    const deployment = deploymentsFile[selectedNetwork]?.[selectedDeployment] ?? {};
+    const keys = addressMappingKeys([
+      transaction.from,
+      ...(transaction.to ? [transaction.to] : []),
+      ...outcome.result.accounts.map((account) => account.address),
+      ...Object.values(deployment).filter((value): value is string => typeof value === 'string'),
+    ]);
+
+    const layoutAt = (address: string) => {
+      const contractName = findContractByAddress(address, deploymentsFile, selectedNetwork, selectedDeployment);
+      return contractName ? lookupStorageLayout(contractName) : null;
+    };
+
+    return outcome.result.accounts.map((account) => {
+      const implementation = outcome.implementations.get(account.address.toLowerCase());
+      const layout = (implementation ? layoutAt(implementation) : null) ?? layoutAt(account.address);
+      return { account: layout ? labelStorageChanges(account, layout, keys) : account, hasLayout: layout !== null };
+    });
+  }, [outcome, transaction, deploymentsFile, selectedNetwork, selectedDeployment, lookupStorageLayout]);
+
+  const labelOf = (address: string): string | null => {
+    const adHoc = adHocContracts.find((contract) => contract.address.toLowerCase() === address.toLowerCase());
+    if (address.toLowerCase() === transaction.from.toLowerCase()) return 'Sender';
+    return findContractByAddress(address, deploymentsFile, selectedNetwork, selectedDeployment) ?? adHoc?.name ?? null;
+  };
+
+  if (!outcome) {
+    return (
+      <HStack gap={3}>
+        <Button size="sm" variant="outline" onClick={loadStateDiff} loading={isLoading}>
+          Trace state changes
+        </Button>
+        <Text textStyle="helperText">Needs a node with debug_traceTransaction and the prestateTracer</Text>
+      </HStack>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <HStack gap={2} py={4}>
+        <Spinner size="sm" />
+        <Text fontSize="sm" color="fg.muted">Tracing state changes...</Text>
+      </HStack>
+    );
+  }
+
+  if (outcome.error || !outcome.result) {
+    return (
+      <Alert.Root status="error" size="sm">
+        <Alert.Indicator />
+        <Alert.Title fontSize="xs" flex={1}>{outcome.error}</Alert.Title>
+        <Button size="xs" variant="outline" onClick={loadStateDiff}>Retry</Button>
+      </Alert.Root>
+    );
+  }
+
+  if (!outcome.result.supported) {
+    return (
+      <Alert.Root status="info" size="sm">
+        <Alert.Indicator />
+        <Alert.Content>
+          <Alert.Title fontSize="xs">This RPC doesn&apos;t support the prestateTracer</Alert.Title>
+          <Alert.Description fontSize="xs">
+            State diffs need a node with the debug API and geth&apos;s built-in tracers, e.g. anvil or geth with `--http.api debug`. {outcome.result.reason}
+          </Alert.Description>
+        </Alert.Content>
+      </Alert.Root>
+    );
+  }
+
+  if (accounts.length === 0) {
+    return <Text fontSize="sm" color="fg.muted">The transaction changed no state</Text>;
+  }
+
+  return (
+    <VStack gap={3} align="stretch">
+      {accounts.map(({ account, hasLayout }) => (
+        <AccountDiffCard key={account.address} account={account} label={labelOf(account.address)} hasLayout={hasLayout} />
+      ))}
+    </VStack>
+  );
+}
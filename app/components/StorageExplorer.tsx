@@ -0,0 +1,242 @@
+'use client';
+
+import { useState } from 'react';
+import { createPublicClient, http, toHex, type Hex } from 'viem';
+import {
+  Box,
+  Text,
+  Input,
+  Field,
+  VStack,
+  HStack,
+  Code,
+  Heading,
+  Button,
+  Grid,
+  Alert,
+  Collapsible,
+} from '@chakra-ui/react';
+import type { StorageExplorerProps } from '../types';
+import type { StorageLayout } from '../utils/storageLayout';
+import {
+  createStorageReader,
+  readMappingEntry,
+  readStorageVariables,
+  MAX_ARRAY_ELEMENTS,
+  type MappingStorageValue,
+  type StorageNode,
+  type StorageSlotReader,
+} from '../utils/storageReader';
+import { parseArgumentValue } from '../utils/argumentParser';
+import { getPlaceholderForType, validateSolidityType } from '../utils/validation';
+
+interface StorageRead {
+  nodes: StorageNode[];
+  read: StorageSlotReader;
+  block: string; // block number, or "latest"
+  id: number; // increments with every read
+}
+
+// Small slots read better in decimal, hashed ones (mappings, dynamic data) in hex
+function formatSlot(slot: bigint): string {
+  return slot < BigInt(2 ** 32) ? slot.toString() : toHex(slot);
+}
+
+function MappingLookup({ mapping, layout, read, depth }: {
+  mapping: MappingStorageValue;
+  layout: StorageLayout;
+  read: StorageSlotReader;
+  depth: number;
+}) {
+  const [key, setKey] = useState<string>('');
+  const [entries, setEntries] = useState<StorageNode[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const handleLookup = async () => {
+    const validation = validateSolidityType(key, mapping.keyType);
+    if (!validation.isValid) {
+      setError(validation.error ?? 'Invalid key');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const entry = await readMappingEntry(read, layout, mapping, parseArgumentValue(key.trim(), mapping.keyType));
+      setEntries((prev) => [entry, ...prev.filter((existing) => existing.name !== entry.name)]);
+      setKey('');
+    } catch (err) {
+      setError('Failed to read mapping entry: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <VStack gap={1} align="stretch" pl={4}>
+      <HStack gap={2}>
+        <Input
+          size="xs"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleLookup(); }}
+          placeholder={`${mapping.keyType} key, e.g. ${getPlaceholderForType(mapping.keyType)}`}
+          textStyle="mono"
+        />
+        <Button size="xs" variant="outline" onClick={handleLookup} loading={isLoading}>
+          Look up
+        </Button>
+      </HStack>
+      {error && <Text fontSize="xs" color="red.solid">{error}</Text>}
+      {entries.map((entry) => (
+        <StorageNodeRow key={entry.name} node={entry} layout={layout} read={read} depth={depth + 1} />
+      ))}
+    </VStack>
+  );
+}
+
+function StorageNodeRow({ node, layout, read, depth }: {
+  node: StorageNode;
+  layout: StorageLayout;
+  read: StorageSlotReader;
+  depth: number;
+}) {
+  const { value } = node;
+  const [isExpanded, setIsExpanded] = useState<boolean>(depth === 0 && value.kind === 'struct');
+  const children = value.kind === 'struct' ? value.members : value.kind === 'array' ? value.elements : [];
+  const isExpandable = value.kind === 'struct' || value.kind === 'array' || value.kind === 'mapping';
+
+  return (
+    <Box pl={depth > 0 ? 4 : 0} borderLeftWidth={depth > 0 ? '1px' : 0} py={1}>
+      <HStack gap={2} wrap="wrap" align="baseline">
+        {isExpandable ? (
+          <Button size="2xs" variant="ghost" onClick={() => setIsExpanded(!isExpanded)} aria-label={isExpanded ? 'Collapse' : 'Expand'}>
+            {isExpanded ? '▼' : '▶'}
+          </Button>
+        ) : (
+          <Box w={6} />
+        )}
+        <Text textStyle="mono" fontWeight="semibold">{node.name}</Text>
+        <Text textStyle="helperText">{value.type}</Text>
+        <Text textStyle="helperText" title={toHex(value.slot, { size: 32 })}>
+          slot {formatSlot(value.slot)}{value.kind === 'value' && value.offset > 0 ? `, offset ${value.offset}` : ''}
+        </Text>
+        {value.kind === 'value' && (
+          <Code layerStyle="codeInline" wordBreak="break-all" title={value.raw}>{value.display}</Code>
+        )}
+        {value.kind === 'bytes' && (
+          <Code layerStyle="codeInline" wordBreak="break-all" whiteSpace="pre-wrap" title={value.raw}>
+            {value.type === 'string' ? JSON.stringify(value.display) : value.display}
+            {value.truncated && ` … (${value.length.toString()} bytes)`}
+          </Code>
+        )}
+        {value.kind === 'array' && (
+          <Text fontSize="sm" color="fg.muted">
+            length {value.length.toString()}
+            {value.length > BigInt(value.elements.length) && `, showing the first ${MAX_ARRAY_ELEMENTS}`}
+          </Text>
+        )}
+      </HStack>
+
+      {isExpandable && (
+        <Collapsible.Root open={isExpanded}>
+          <Collapsible.Content>
+            {value.kind === 'mapping' ? (
+              <MappingLookup mapping={value} layout={layout} read={read} depth={depth} />
+            ) : (
+              children.map((child) => (
+                <StorageNodeRow key={child.name} node={child} layout={layout} read={read} depth={depth + 1} />
+              ))
+            )}
+          </Collapsible.Content>
+        </Collapsible.Root>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * State variables of a contract read from its storage layout with eth_getStorageAt
+ */
+export default function StorageExplorer({ contractAddress, storageLayout, chain, layoutName }: StorageExplorerProps) {
+  const [blockNumber, setBlockNumber] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<StorageRead | null>(null);
+
+  const handleRead = async () => {
+    const block = blockNumber.trim();
+    if (block && !/^\d+$/.test(block)) {
+      setError('Block number must be a positive integer, or empty for the latest block');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const client = createPublicClient({ chain, transport: http() });
+      const read = createStorageReader(client, contractAddress as Hex, block ? BigInt(block) : undefined);
+      const nodes = await readStorageVariables(read, storageLayout);
+      setResult((prev) => ({ nodes, read, block: block || 'latest', id: (prev?.id ?? 0) + 1 }));
+    } catch (err) {
+      setError('Failed to read storage: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <VStack gap={6} align="stretch">
+      <Box layerStyle="card">
+        <Box layerStyle="cardSection">
+          <Heading size="md" mb={1}>Storage</Heading>
+          <Text textStyle="helperText" mb={4}>
+            {storageLayout.storage.length} state variable{storageLayout.storage.length !== 1 ? 's' : ''} from the storage layout of {layoutName}
+          </Text>
+          <Field.Root>
+            <Grid templateColumns="120px 1fr auto" gap={3} alignItems="center">
+              <Field.Label textStyle="cardHeading">Block</Field.Label>
+              <Input
+                value={blockNumber}
+                onChange={(e) => setBlockNumber(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleRead(); }}
+                placeholder="latest"
+                textStyle="mono"
+                size="sm"
+              />
+              <Button size="sm" colorScheme="blue" onClick={handleRead} loading={loading}>
+                Read storage
+              </Button>
+            </Grid>
+          </Field.Root>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert.Root status="error" size="sm">
+          <Alert.Indicator />
+          <Alert.Title fontSize="xs">{error}</Alert.Title>
+        </Alert.Root>
+      )}
+
+      {result && (
+        <Box layerStyle="card">
+          <Box layerStyle="cardSection">
+            <Text textStyle="label" mb={2}>At block {result.block}</Text>
+            {result.nodes.length === 0 ? (
+              <Text fontSize="sm" color="fg.muted">The contract has no state variables</Text>
+            ) : (
+              <Box layerStyle="codeBlock" overflowX="auto">
+                {/* Keyed by read so mapping lookups don't outlive the read they belong to */}
+                {result.nodes.map((node) => (
+                  <StorageNodeRow key={`${result.id}-${node.name}`} node={node} layout={storageLayout} read={result.read} depth={0} />
+                ))}
+              </Box>
+            )}
+          </Box>
+        </Box>
+      )}
+    </VStack>
+  );
+}
@@ -10,8 +10,9 @@ import {
   NativeSelectRoot,
   NativeSelectField,
   Field,
+  Tabs,
 } from '@chakra-ui/react';
-import { Transaction, TransactionReceipt } from 'viem';
+import { createPublicClient, http, Transaction, TransactionReceipt, type Hash, type Hex } from 'viem';
 import { toaster } from '@/components/ui/toaster';
 import { useContract } from '../context/ContractContext';
 import type { DecodedEventLog, DecodedFunctionData } from '../types';
@@ -20,7 +21,15 @@ import {
   decodeTransactionWithAbi,
   getAvailableContracts,
 } from '../utils/transactionDecoder';
+import { adHocContractKey, findAdHocContractByAddress } from '../utils/adHocContracts';
+import { contractNameOf, isAmbiguousMatch } from '../utils/abiMatcher';
+import { shouldAutoApply, type AbiCandidate } from '../utils/abiInference';
+import { decodeRevertData, fetchRevertData } from '../utils/revertDecoder';
 import TransactionDetails from './TransactionDetails';
+import CallTracePanel from './CallTracePanel';
+
+// Bytecode matches offered in the contract dropdown
+const MAX_INFERRED_CANDIDATES = 5;
 
 interface TransactionCardProps {
   transaction: Transaction;
@@ -40,7 +49,13 @@ export default function TransactionCard({
     selectedNetwork,
     selectedDeployment,
     availableAbis,
+    matchAbi,
     lookupAbi,
+    abiPins,
+    adHocContracts,
+    inferAbi,
+    selectorRegistry,
+    activeChain,
   } = useContract();
 
   const [selectedContract, setSelectedContract] = useState<string>('');
@@ -49,65 +64,100 @@ export default function TransactionCard({
   const [expandedEvents, setExpandedEvents] = useState<Record<number, boolean>>({});
   const [wasAutoInferred, setWasAutoInferred] = useState<boolean>(false);
   const [initialized, setInitialized] = useState<boolean>(false);
+  const [inferredCandidates, setInferredCandidates] = useState<AbiCandidate[]>([]);
+  const [replay, setReplay] = useState<{ hash: Hash; data: Hex | null } | null>(null);
 
   const availableContracts = getAvailableContracts(
     deploymentsFile,
     selectedNetwork,
     selectedDeployment,
-    availableAbis
+    availableAbis,
+    abiPins
   );
+  const selectedCandidate = inferredCandidates.find((candidate) => candidate.abiName === selectedContract);
 
   // Auto-detect contract on mount or when transaction changes
   useEffect(() => {
     const autoDetectContract = async () => {
       if (!transaction.to || initialized) return;
 
+      const matchingAdHocContract = findAdHocContractByAddress(transaction.to, adHocContracts);
       const matchingContract = findContractByAddress(
         transaction.to,
         deploymentsFile,
         selectedNetwork,
         selectedDeployment
-      );
+      ) ?? (matchingAdHocContract ? adHocContractKey(matchingAdHocContract.name) : null);
 
-      if (matchingContract) {
-        setSelectedContract(matchingContract);
+      // Unknown addresses: rank the loaded ABIs against the contract's bytecode
+      let contractName = matchingContract;
+      if (!contractName) {
+        const candidates = await inferAbi(transaction.to).catch((err) => {
+          console.error('Failed to infer ABI:', err);
+          return [];
+        });
+        setInferredCandidates(candidates);
+        if (shouldAutoApply(candidates)) contractName = candidates[0].abiName;
+      }
+
+      if (contractName) {
+        setSelectedContract(contractName);
         setWasAutoInferred(true);
+      }
 
-        const abi = lookupAbi(matchingContract);
-        if (abi) {
-          const { decodedInput: newDecodedInput, decodedEvents: newDecodedEvents } =
-            await decodeTransactionWithAbi(transaction, receipt, abi);
-          setDecodedInput(newDecodedInput);
-          setDecodedEvents(newDecodedEvents);
-
-          const initialExpandedState: Record<number, boolean> = {};
-          newDecodedEvents.forEach((event) => {
-            initialExpandedState[event.index] = event.decoded;
-          });
-          setExpandedEvents(initialExpandedState);
-        }
+      // Without a contract, anything a loaded ABI explains is still decoded
+      const abi = contractName ? lookupAbi(contractName) : [];
+      if (abi) {
+        const { decodedInput: newDecodedInput, decodedEvents: newDecodedEvents } =
+          await decodeTransactionWithAbi(transaction, receipt, abi, selectorRegistry);
+        setDecodedInput(newDecodedInput);
+        setDecodedEvents(newDecodedEvents);
+
+        const initialExpandedState: Record<number, boolean> = {};
+        newDecodedEvents.forEach((event) => {
+          initialExpandedState[event.index] = event.decoded;
+        });
+        setExpandedEvents(initialExpandedState);
       }
       setInitialized(true);
     };
 
     autoDetectContract();
-  }, [transaction, receipt, deploymentsFile, selectedNetwork, selectedDeployment, lookupAbi, initialized]);
+  }, [transaction, receipt, deploymentsFile, selectedNetwork, selectedDeployment, lookupAbi, inferAbi, adHocContracts, selectorRegistry, initialized]);
+
+  // Failed transactions: replay them to recover the revert data the receipt lacks
+  const isReverted = receipt.status === 'reverted';
+  useEffect(() => {
+    if (!isReverted) return;
+
+    let cancelled = false;
+    const client = createPublicClient({ chain: activeChain, transport: http() });
+    fetchRevertData(client, transaction)
+      .catch((err) => {
+        console.error('Failed to replay transaction:', err);
+        return null;
+      })
+      .then((data) => {
+        if (!cancelled) setReplay({ hash: transaction.hash, data });
+      });
+
+    return () => { cancelled = true; };
+  }, [isReverted, transaction, activeChain]);
+
+  const replayed = replay?.hash === transaction.hash ? replay : null;
+  const revert = replayed?.data
+    ? decodeRevertData(replayed.data, selectorRegistry, (selectedContract && lookupAbi(selectedContract)) || [])
+    : null;
 
   const handleContractChange = async (contractName: string) => {
     setSelectedContract(contractName);
     setWasAutoInferred(false);
 
-    if (!contractName) {
-      setDecodedInput(null);
-      setDecodedEvents([]);
-      return;
-    }
-
-    const abi = lookupAbi(contractName);
+    const abi = contractName ? lookupAbi(contractName) : [];
 
     if (abi) {
       const { decodedInput: newDecodedInput, decodedEvents: newDecodedEvents } =
-        await decodeTransactionWithAbi(transaction, receipt, abi);
+        await decodeTransactionWithAbi(transaction, receipt, abi, selectorRegistry);
       setDecodedInput(newDecodedInput);
       setDecodedEvents(newDecodedEvents);
 
@@ -117,9 +167,12 @@ export default function TransactionCard({
       });
       setExpandedEvents(initialExpandedState);
     } else {
+      const match = matchAbi(contractName);
       toaster.error({
         title: 'Failed to load ABI',
-        description: `Could not load ABI for ${contractName}`,
+        description: isAmbiguousMatch(match)
+          ? `${contractName} matches several artifacts:\n${match!.candidates!.join('\n')}`
+          : `Could not load ABI for ${contractName}`,
       });
     }
   };
@@ -169,6 +222,11 @@ export default function TransactionCard({
                 ({selectedContract})
               </Text>
             )}
+            {decodedInput && !('error' in decodedInput) && (
+              <Text fontSize="xs" color="fg.muted" fontFamily="mono">
+                {decodedInput.functionName}()
+              </Text>
+            )}
           </HStack>
           <Text fontSize="xs" color="gray.600" fontFamily="mono">
             {transaction.hash}
@@ -190,11 +248,13 @@ export default function TransactionCard({
                   Contract:
                   {wasAutoInferred && selectedContract && (
                     <Text as="span" ml={2} fontSize="xs" color="blue.fg" fontWeight="normal">
-                      (auto-detected)
+                      {selectedCandidate
+                        ? `(inferred from bytecode, ${Math.round(selectedCandidate.score * 100)}% match)`
+                        : '(auto-detected)'}
                     </Text>
                   )}
                 </Field.Label>
-                <NativeSelectRoot size="sm" disabled={!selectedNetwork || !selectedDeployment}>
+                <NativeSelectRoot size="sm" disabled={(!selectedNetwork || !selectedDeployment) && adHocContracts.length === 0 && inferredCandidates.length === 0}>
                   <NativeSelectField
                     value={selectedContract}
                     onChange={(e) => handleContractChange(e.target.value)}
@@ -202,9 +262,9 @@ export default function TransactionCard({
                     _dark={{ bg: 'gray.800' }}
                   >
                     <option value="">
-                      {!selectedNetwork || !selectedDeployment
+                      {(!selectedNetwork || !selectedDeployment) && adHocContracts.length === 0
                         ? 'Select network/deployment first'
-                        : availableContracts.length === 0
+                        : availableContracts.length === 0 && adHocContracts.length === 0
                         ? 'No contracts available'
                         : '-- Select a contract --'}
                     </option>
@@ -213,6 +273,20 @@ export default function TransactionCard({
                         {name}
                       </option>
                     ))}
+                    {adHocContracts.map((contract) => (
+                      <option key={contract.name} value={adHocContractKey(contract.name)}>
+                        {contract.name} (ad-hoc)
+                      </option>
+                    ))}
+                    {inferredCandidates.length > 0 && (
+                      <optgroup label="Inferred from bytecode">
+                        {inferredCandidates.slice(0, MAX_INFERRED_CANDIDATES).map((candidate) => (
+                          <option key={candidate.abiName} value={candidate.abiName}>
+                            {contractNameOf(candidate.abiName)} ({Math.round(candidate.score * 100)}%, {candidate.matched}/{candidate.functionCount} functions)
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
                   </NativeSelectField>
                 </NativeSelectRoot>
                 {availableContracts.length > 0 && !selectedContract && (
@@ -223,15 +297,29 @@ export default function TransactionCard({
               </Field.Root>
             </Box>
 
-            <TransactionDetails
-              transaction={transaction}
-              receipt={receipt}
-              decodedInput={decodedInput}
-              decodedEvents={decodedEvents}
-              expandedEvents={expandedEvents}
-              onToggleEvent={toggleEvent}
-              showHeader={true}
-            />
+            <Tabs.Root defaultValue="details" size="sm" lazyMount>
+              <Tabs.List mb={4}>
+                <Tabs.Trigger value="details">Details</Tabs.Trigger>
+                <Tabs.Trigger value="trace">Trace</Tabs.Trigger>
+              </Tabs.List>
+              <Tabs.Content value="details">
+                <TransactionDetails
+                  transaction={transaction}
+                  receipt={receipt}
+                  decodedInput={decodedInput}
+                  decodedEvents={decodedEvents}
+                  expandedEvents={expandedEvents}
+                  onToggleEvent={toggleEvent}
+                  revert={revert}
+                  isReplaying={isReverted && !replayed}
+                  showHeader={true}
+                />
+              </Tabs.Content>
+              {/* Traced on first open only: debug_traceTransaction is slow on large transactions */}
+              <Tabs.Content value="trace">
+                <CallTracePanel key={transaction.hash} transaction={transaction} />
+              </Tabs.Content>
+            </Tabs.Root>
           </Box>
         </Collapsible.Content>
       </Collapsible.Root>
@@ -15,6 +15,23 @@ import { JsonEditor } from 'json-edit-react';
 import { Transaction, TransactionReceipt } from 'viem';
 import type { DecodedEventLog, DecodedFunctionData } from '../types';
 import { serializeBigInts } from '../utils/transactionDecoder';
+import { contractNameOf } from '../utils/abiMatcher';
+import type { DecodedRevert } from '../utils/revertDecoder';
+import RevertReason from './RevertReason';
+import StateDiffPanel from './StateDiffPanel';
+
+function SelectorCollision({ alternatives }: { alternatives?: string[] }) {
+  if (!alternatives || alternatives.length === 0) return null;
+  return (
+    <Alert.Root status="warning" size="sm">
+      <Alert.Indicator />
+      <Alert.Content>
+        <Alert.Title fontSize="xs">Selector collision: the data also decodes as</Alert.Title>
+        <Alert.Description textStyle="monoCode" whiteSpace="pre-line">{alternatives.join('\n')}</Alert.Description>
+      </Alert.Content>
+    </Alert.Root>
+  );
+}
 
 interface TransactionDetailsProps {
   transaction: Transaction;
@@ -23,6 +40,9 @@ interface TransactionDetailsProps {
   decodedEvents: DecodedEventLog[];
   expandedEvents: Record<number, boolean>;
   onToggleEvent: (index: number) => void;
+  // Failed transactions: the revert recovered by replaying it, if any
+  revert?: DecodedRevert | null;
+  isReplaying?: boolean;
   showHeader?: boolean;
 }
 
@@ -33,6 +53,8 @@ export default function TransactionDetails({
   decodedEvents,
   expandedEvents,
   onToggleEvent,
+  revert = null,
+  isReplaying = false,
   showHeader = true,
 }: TransactionDetailsProps) {
   const handleEventKeyDown = (e: React.KeyboardEvent, index: number) => {
@@ -84,6 +106,24 @@ export default function TransactionDetails({
         </Box>
       )}
 
+      {/* Revert Reason */}
+      {receipt?.status === 'reverted' && (
+        <Box layerStyle="card">
+          <Box layerStyle="cardSection">
+            <Heading size="md" mb={4}>Revert Reason</Heading>
+            {revert ? (
+              <RevertReason revert={revert} />
+            ) : (
+              <Text fontSize="sm" color="fg.muted">
+                {isReplaying
+                  ? 'Replaying the transaction to recover the revert reason...'
+                  : 'The revert reason could not be recovered: replaying the transaction did not revert, or the node returned no revert data.'}
+              </Text>
+            )}
+          </Box>
+        </Box>
+      )}
+
       {/* Decoded Input */}
       {decodedInput && (
         <Box layerStyle="card">
@@ -101,7 +141,13 @@ export default function TransactionDetails({
                   <Code layerStyle="codeBlock">
                     {decodedInput.signature || decodedInput.functionName}
                   </Code>
+                  {decodedInput.abiName && (
+                    <Text textStyle="helperText" mt={1}>
+                      Decoded with {contractNameOf(decodedInput.abiName)} from the loaded ABIs
+                    </Text>
+                  )}
                 </Box>
+                <SelectorCollision alternatives={decodedInput.alternatives} />
                 {decodedInput.args && (
                   <Box>
                     <Text textStyle="cardHeading" mb={2}>Arguments:</Text>
@@ -158,6 +204,9 @@ export default function TransactionDetails({
                             Event #{event.index + 1}
                             {event.eventName && `: ${event.eventName}`}
                           </Text>
+                          {event.abiName && (
+                            <Text fontSize="xs" color="fg.muted">via {contractNameOf(event.abiName)}</Text>
+                          )}
                         </HStack>
                       </VStack>
                       {event.decoded && (
@@ -180,6 +229,8 @@ export default function TransactionDetails({
                               </Code>
                             </Box>
 
+                            <SelectorCollision alternatives={event.alternatives} />
+
                             {event.args && (
                               <Box>
                                 <Text textStyle="monoCode" fontWeight="semibold" color="fg.muted" mb={1}>Arguments:</Text>
@@ -321,6 +372,16 @@ export default function TransactionDetails({
           </Box>
         </Box>
       )}
+
+      {/* State Changes */}
+      {receipt && (
+        <Box layerStyle="card">
+          <Box layerStyle="cardSection">
+            <Heading size="md" mb={4}>State Changes</Heading>
+            <StateDiffPanel key={transaction.hash} transaction={transaction} />
+          </Box>
+        </Box>
+      )}
     </VStack>
   );
 }
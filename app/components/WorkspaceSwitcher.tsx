@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  VStack,
+  HStack,
+  Button,
+  Field,
+  Input,
+  NativeSelectRoot,
+  NativeSelectField,
+} from '@chakra-ui/react';
+import { useWorkspaces } from '@/app/context/WorkspaceContext';
+import { DEFAULT_WORKSPACE_ID } from '@/app/utils/workspaces';
+
+type EditMode = 'create' | 'rename' | null;
+
+/**
+ * Sidebar workspace picker with create / rename / delete
+ */
+export default function WorkspaceSwitcher() {
+  const {
+    workspaces,
+    activeWorkspace,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+  } = useWorkspaces();
+
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [name, setName] = useState<string>('');
+
+  const startEditing = (mode: EditMode) => {
+    setName(mode === 'rename' ? activeWorkspace.name : '');
+    setEditMode(mode);
+  };
+
+  const handleSave = () => {
+    if (editMode === 'create') {
+      createWorkspace(name);
+    } else if (editMode === 'rename') {
+      renameWorkspace(activeWorkspace.id, name);
+    }
+    setEditMode(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete workspace "${activeWorkspace.name}" and its saved configuration?`)) {
+      deleteWorkspace(activeWorkspace.id);
+    }
+  };
+
+  return (
+    <Field.Root>
+      <Field.Label fontSize="sm" fontWeight="semibold">Workspace:</Field.Label>
+      {editMode ? (
+        <VStack gap={2} align="stretch" w="full">
+          <Input
+            size="sm"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setEditMode(null);
+            }}
+            placeholder="Workspace name"
+            autoFocus
+            bg={{ base: 'white' }}
+            _dark={{ bg: 'gray.800' }}
+          />
+          <HStack gap={2}>
+            <Button size="xs" colorScheme="blue" onClick={handleSave}>
+              {editMode === 'create' ? 'Create' : 'Rename'}
+            </Button>
+            <Button size="xs" variant="ghost" onClick={() => setEditMode(null)}>
+              Cancel
+            </Button>
+          </HStack>
+        </VStack>
+      ) : (
+        <VStack gap={1} align="stretch" w="full">
+          <NativeSelectRoot size="sm">
+            <NativeSelectField
+              value={activeWorkspace.id}
+              onChange={(e) => switchWorkspace(e.target.value)}
+              bg={{ base: 'white' }}
+              _dark={{ bg: 'gray.800' }}
+            >
+              {workspaces.map((workspace) => (
+                <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+              ))}
+            </NativeSelectField>
+          </NativeSelectRoot>
+          <HStack gap={1}>
+            <Button size="xs" variant="ghost" onClick={() => startEditing('create')}>
+              + New
+            </Button>
+            <Button size="xs" variant="ghost" onClick={() => startEditing('rename')}>
+              Rename
+            </Button>
+            {activeWorkspace.id !== DEFAULT_WORKSPACE_ID && (
+              <Button size="xs" variant="ghost" colorScheme="red" onClick={handleDelete}>
+                Delete
+              </Button>
+            )}
+          </HStack>
+        </VStack>
+      )}
+    </Field.Root>
+  );
+}
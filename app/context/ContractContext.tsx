@@ -2,6 +2,7 @@
 
 import { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode, useCallback } from 'react';
 import { useSearchParams, usePathname } from 'next/navigation';
+import { createPublicClient, http, isAddress, type Address } from 'viem';
 import {
   saveFolderHandle,
   getFolderHandle,
@@ -11,69 +12,408 @@ import {
   getFileHandle,
   requestFilePermission,
   clearFileHandle,
-  readJsonFile
+  saveHardhatDeployHandle,
+  getHardhatDeployHandle,
+  clearHardhatDeployHandle,
+  saveAdHocContracts,
+  getAdHocContracts,
+  saveAbiPins,
+  getAbiPins,
+  saveUploadedSource,
+  getUploadedSource,
+  clearUploadedSource,
+  saveConfigSnapshot,
+  getConfigSnapshot,
+  hasHandlePermission,
 } from '../utils/storage';
+import { fingerprintSources } from '../utils/sourceFingerprint';
+import {
+  openJsonFile,
+  openDirectory,
+  isVirtualHandle,
+  createVirtualDirectoryHandle,
+  createVirtualJsonFileHandle,
+  createVirtualAbisDirectoryHandle,
+} from '../utils/fileFallback';
 import { toaster } from '@/components/ui/toaster';
-import { genlayerTestnet, createGenlayerChain, DEFAULT_RPC_URL, DEFAULT_WS_URL } from '../wagmi';
-import type { ContractContextType, DeploymentsFile, ContractAbi } from '../types';
-import { findBestAbiMatch } from '../utils/abiMatcher';
+import { createChainFromConfig, DEFAULT_RPC_URL, DEFAULT_WS_URL } from '../wagmi';
+import type { ContractContextType, DeploymentsFile, ContractAbi, ScannedAbis, SourceStatus } from '../types';
+import {
+  contractNameOf,
+  findBestAbiMatch,
+  getAbiPin,
+  isAmbiguousMatch,
+  mergeAbiPins,
+  setAbiPin,
+  type AbiMatch,
+  type AbiPins,
+} from '../utils/abiMatcher';
 import { getAutoSelectedNetwork, getAutoSelectedDeployment } from '../utils/autoSelection';
+import { readDeploymentsFile } from '../utils/deploymentImporters';
+import {
+  createHardhatDeployWatcher,
+  type HardhatDeployContents,
+  type HardhatDeployWatcher,
+} from '../utils/hardhatDeploy';
+import {
+  GENLAYER_TESTNET_CONFIG,
+  parseChainRegistry,
+  resolveChainConfig,
+  type ChainConfig,
+  type ChainRegistry,
+} from '../utils/chainRegistry';
+import {
+  adHocContractKey,
+  findAdHocContractByAddress,
+  getAdHocContract,
+  isAdHocContractKey,
+  mergeAdHocContracts,
+  type AdHocContract,
+} from '../utils/adHocContracts';
+import { findContractByAddress } from '../utils/transactionDecoder';
+import { detectProxy, mergeProxyAbi, type ProxyInfo } from '../utils/proxyDetection';
+import { readDiamondFacets, resolveDiamondFacets, type DiamondFacet } from '../utils/diamond';
+import { inferAbiCandidates, shouldAutoApply, type AbiCandidate } from '../utils/abiInference';
+import { buildSelectorRegistry } from '../utils/selectorRegistry';
+import { isSameStorageLayouts, storageLayoutsOf, type StorageLayout } from '../utils/storageLayout';
+import { workspaceKey } from '../utils/workspaces';
+import { diffDeploymentsFiles, formatDeploymentsFileChanges } from '../utils/deploymentDiff';
+import {
+  createAbiFolderWatcher,
+  formatAbiChanges,
+  type AbiFolderWatcher,
+  type ArtifactScanReport,
+} from '../utils/abiFolderWatcher';
+import { startPolling } from '../utils/polling';
+import { createConfigBundle, downloadConfigBundle, type ConfigBundle } from '../utils/configBundle';
+import { getRemoteConfigParams, loadRemoteConfig, remoteSourceName } from '../utils/remoteConfig';
+import { useWorkspaces } from './WorkspaceContext';
+import { checkRpcEndpoint, isChainIdMismatch, UNKNOWN_RPC_STATUS, type RpcStatus } from '../utils/rpcStatus';
+
+interface SourceHandles {
+  fileHandle: FileSystemFileHandle | null;
+  folderHandle: FileSystemDirectoryHandle | null;
+  hardhatDeployHandle: FileSystemDirectoryHandle | null;
+}
+
+// Sources backed by the file system; uploaded (virtual) sources are snapshots already
+function liveSourceHandles(sources: SourceHandles): FileSystemHandle[] {
+  return [sources.hardhatDeployHandle, sources.fileHandle, sources.folderHandle].filter(
+    (handle): handle is FileSystemFileHandle | FileSystemDirectoryHandle => handle !== null && !isVirtualHandle(handle)
+  );
+}
 
 const ContractContext = createContext<ContractContextType | undefined>(undefined);
 
 export function ContractProvider({ children }: { children: ReactNode }) {
   const searchParams = useSearchParams();
   const pathname = usePathname();
+  const workspaceId = useWorkspaces().activeWorkspace.id;
 
   const [deploymentsFile, setDeploymentsFile] = useState<DeploymentsFile>({});
   const [deploymentsFileHandle, setDeploymentsFileHandle] = useState<FileSystemFileHandle | null>(null);
   const [selectedNetworkState, setSelectedNetworkState] = useState<string>('');
   const [selectedDeploymentState, setSelectedDeploymentState] = useState<string>('');
   const [selectedContractState, setSelectedContractState] = useState<string>('');
+  const [rawCalldataMode, setRawCalldataMode] = useState<boolean>(false);
   const [contractAddress, setContractAddress] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [abisFolderHandle, setAbisFolderHandle] = useState<FileSystemDirectoryHandle | null>(null);
+  const [hardhatDeployHandle, setHardhatDeployHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [abiCache, setAbiCache] = useState<Map<string, ContractAbi>>(new Map());
+  const [adHocContracts, setAdHocContracts] = useState<AdHocContract[]>([]);
+  const [abiPins, setAbiPins] = useState<AbiPins>({});
   const availableAbis = useMemo(() => new Set(abiCache.keys()), [abiCache]);
+  const selectorRegistry = useMemo(() => buildSelectorRegistry(abiCache), [abiCache]);
+  // Storage layouts of the scanned artifacts that have one, by ABI name
+  const [storageLayouts, setStorageLayouts] = useState<Map<string, StorageLayout>>(new Map());
   const [loadingAbiList, setLoadingAbiList] = useState<boolean>(false);
+  const [abiScanReport, setAbiScanReport] = useState<ArtifactScanReport | null>(null);
   const [isInitializing, setIsInitializing] = useState<boolean>(true);
   const [showSetupModal, setShowSetupModal] = useState<boolean>(false);
-  const [rpcUrl, setRpcUrlState] = useState<string>(DEFAULT_RPC_URL);
-  const [wsUrl, setWsUrlState] = useState<string>(DEFAULT_WS_URL);
+  const [sourceStatus, setSourceStatus] = useState<SourceStatus>('checking');
+  const [snapshotSavedAt, setSnapshotSavedAt] = useState<number | null>(null);
+  const [defaultRpcUrl, setDefaultRpcUrl] = useState<string>(DEFAULT_RPC_URL);
+  const [defaultWsUrl, setDefaultWsUrl] = useState<string>(DEFAULT_WS_URL);
+  const [chainRegistry, setChainRegistry] = useState<ChainRegistry>({});
+  const [rpcStatus, setRpcStatus] = useState<RpcStatus>(UNKNOWN_RPC_STATUS);
+  const [isCheckingRpc, setIsCheckingRpc] = useState<boolean>(false);
+  const [rpcCheckNonce, setRpcCheckNonce] = useState<number>(0);
+
+  // Chain used when no network is selected or the network has no registry entry/preset
+  const defaultChainConfig = useMemo<ChainConfig>(
+    () => ({ ...GENLAYER_TESTNET_CONFIG, rpcUrl: defaultRpcUrl, wsUrl: defaultWsUrl }),
+    [defaultRpcUrl, defaultWsUrl]
+  );
+
+  // The active chain follows the selected network through the chain registry
+  const activeChainConfig = useMemo(
+    () => resolveChainConfig(chainRegistry, selectedNetworkState, defaultChainConfig),
+    [chainRegistry, selectedNetworkState, defaultChainConfig]
+  );
 
-  // Create a dynamic chain definition based on current RPC URLs
   const activeChain = useMemo(
-    () => (rpcUrl === DEFAULT_RPC_URL && wsUrl === DEFAULT_WS_URL)
-      ? genlayerTestnet
-      : createGenlayerChain(rpcUrl, wsUrl),
-    [rpcUrl, wsUrl]
+    () => createChainFromConfig(activeChainConfig, selectedNetworkState || undefined),
+    [activeChainConfig, selectedNetworkState]
   );
 
+  // Chain of any network in the deployments file, e.g. to compare deployments across networks
+  const getChainForNetwork = useCallback(
+    (network: string) => createChainFromConfig(
+      resolveChainConfig(chainRegistry, network, defaultChainConfig),
+      network || undefined
+    ),
+    [chainRegistry, defaultChainConfig]
+  );
+
+  const rpcUrl = activeChainConfig.rpcUrl;
+  const wsUrl = activeChainConfig.wsUrl;
+
+  // Edit the chain config of a network and persist the registry
+  const updateChainConfig = useCallback((network: string, changes: Partial<ChainConfig>) => {
+    const next = {
+      ...chainRegistry,
+      [network]: { ...resolveChainConfig(chainRegistry, network, defaultChainConfig), ...changes },
+    };
+    setChainRegistry(next);
+    localStorage.setItem(workspaceKey(workspaceId, 'chainRegistry'), JSON.stringify(next));
+  }, [chainRegistry, defaultChainConfig, workspaceId]);
+
+  // Drop a network's registry entry so it falls back to its preset or the default chain
+  const resetChainConfig = useCallback((network: string) => {
+    const next = { ...chainRegistry };
+    delete next[network];
+    setChainRegistry(next);
+    localStorage.setItem(workspaceKey(workspaceId, 'chainRegistry'), JSON.stringify(next));
+  }, [chainRegistry, workspaceId]);
+
+  // Without a selected network the URLs edit the default chain, as before the registry existed
   const setRpcUrl = useCallback((url: string) => {
-    setRpcUrlState(url);
-    localStorage.setItem('rpcUrl', url);
-  }, []);
+    if (selectedNetworkState) {
+      updateChainConfig(selectedNetworkState, { rpcUrl: url });
+    } else {
+      setDefaultRpcUrl(url);
+      localStorage.setItem(workspaceKey(workspaceId, 'rpcUrl'), url);
+    }
+  }, [selectedNetworkState, updateChainConfig, workspaceId]);
 
   const setWsUrl = useCallback((url: string) => {
-    setWsUrlState(url);
-    localStorage.setItem('wsUrl', url);
-  }, []);
+    if (selectedNetworkState) {
+      updateChainConfig(selectedNetworkState, { wsUrl: url });
+    } else {
+      setDefaultWsUrl(url);
+      localStorage.setItem(workspaceKey(workspaceId, 'wsUrl'), url);
+    }
+  }, [selectedNetworkState, updateChainConfig, workspaceId]);
 
-  // Look up an ABI from the cache, using fuzzy matching as fallback
-  const lookupAbi = useCallback((contractName: string): ContractAbi | null => {
-    const direct = abiCache.get(contractName);
-    if (direct) return direct;
+  // Verify the RPC endpoint whenever its URL changes (debounced while typing)
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsCheckingRpc(true);
 
-    const match = findBestAbiMatch(contractName, availableAbis);
-    return match ? abiCache.get(match.abiName) ?? null : null;
-  }, [abiCache, availableAbis]);
+    const timeout = setTimeout(async () => {
+      try {
+        const status = await checkRpcEndpoint(rpcUrl, controller.signal);
+        setRpcStatus(status);
+        setIsCheckingRpc(false);
+      } catch {
+        // Aborted by a newer URL
+      }
+    }, 500);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [rpcUrl, rpcCheckNonce]);
+
+  const refreshRpcStatus = useCallback(() => setRpcCheckNonce((n) => n + 1), []);
+
+  // Only the settled status of the current URL counts: after a network switch the previous
+  // endpoint's status is still around until the new check completes
+  const rpcChainMismatch = !isCheckingRpc && isChainIdMismatch(rpcStatus, activeChainConfig.chainId, rpcUrl);
+
+  // Resolve the ABI name of a deployment contract: the pinned ABI, else fuzzy matching
+  const matchAbi = useCallback((
+    contractName: string,
+    network: string = selectedNetworkState,
+    deployment: string = selectedDeploymentState
+  ): AbiMatch | null => {
+    const pinned = getAbiPin(abiPins, network, deployment, contractName);
+    return findBestAbiMatch(contractName, availableAbis, pinned);
+  }, [availableAbis, abiPins, selectedNetworkState, selectedDeploymentState]);
+
+  // Look up an ABI from the cache, using the pin or fuzzy matching
+  const lookupAbi = useCallback((contractName: string, network?: string, deployment?: string): ContractAbi | null => {
+    if (isAdHocContractKey(contractName)) {
+      return getAdHocContract(contractName, adHocContracts)?.abi ?? null;
+    }
+
+    // An ambiguous short name (same contract name in several sources) resolves to nothing
+    const match = matchAbi(contractName, network, deployment);
+    return match && !isAmbiguousMatch(match) ? abiCache.get(match.abiName) ?? null : null;
+  }, [abiCache, adHocContracts, matchAbi]);
+
+  // Look up the storage layout of a deployment contract, matched like its ABI
+  const lookupStorageLayout = useCallback((contractName: string, network?: string, deployment?: string): StorageLayout | null => {
+    if (isAdHocContractKey(contractName)) return null;
+    const match = matchAbi(contractName, network, deployment);
+    return match && !isAmbiguousMatch(match) ? storageLayouts.get(match.abiName) ?? null : null;
+  }, [storageLayouts, matchAbi]);
+
+  // Pin an ABI for a contract of the selected deployment, or clear the pin with null
+  const pinAbi = useCallback((contractName: string, abiName: string | null) => {
+    const next = setAbiPin(abiPins, selectedNetworkState, selectedDeploymentState, contractName, abiName);
+    setAbiPins(next);
+    saveAbiPins(workspaceId, next).catch((err) => console.error('Failed to save ABI pins:', err));
+  }, [abiPins, selectedNetworkState, selectedDeploymentState, workspaceId]);
+
+  // Add an ad-hoc contract, replacing any existing one with the same name
+  const addAdHocContract = useCallback((contract: AdHocContract) => {
+    const next = mergeAdHocContracts(adHocContracts, [contract]);
+    setAdHocContracts(next);
+    saveAdHocContracts(workspaceId, next).catch((err) => console.error('Failed to save ad-hoc contracts:', err));
+  }, [adHocContracts, workspaceId]);
+
+  const removeAdHocContract = useCallback((name: string) => {
+    const next = adHocContracts.filter((existing) => existing.name !== name);
+    setAdHocContracts(next);
+    saveAdHocContracts(workspaceId, next).catch((err) => console.error('Failed to save ad-hoc contracts:', err));
+    setSelectedContractState((current) => current === adHocContractKey(name) ? '' : current);
+  }, [adHocContracts, workspaceId]);
+
+  // Detect whether the selected contract is a proxy or a diamond. Results are tagged with the
+  // address and chain they were read for, so a stale result is never shown for another contract.
+  const [contractDetection, setContractDetection] = useState<{
+    key: string;
+    proxy: ProxyInfo | null;
+    facets: DiamondFacet[] | null;
+  } | null>(null);
+  const detectionKey = `${activeChain.id}:${contractAddress.toLowerCase()}`;
+  const currentDetection = contractDetection?.key === detectionKey ? contractDetection : null;
+  const proxyInfo = currentDetection?.proxy ?? null;
+
+  useEffect(() => {
+    if (!isAddress(contractAddress, { strict: false })) return;
+
+    let cancelled = false;
+    const client = createPublicClient({ chain: activeChain, transport: http() });
+    const logFailure = (what: string) => (err: unknown) => {
+      console.error(`Failed to detect ${what}:`, err);
+      return null;
+    };
+    Promise.all([
+      detectProxy(client, contractAddress).catch(logFailure('proxy')),
+      readDiamondFacets(client, contractAddress).catch(logFailure('diamond facets')),
+    ]).then(([proxy, facets]) => {
+      if (!cancelled) setContractDetection({ key: detectionKey, proxy, facets });
+    });
+
+    return () => { cancelled = true; };
+  }, [contractAddress, activeChain, detectionKey]);
 
-  // Derive contractAbi synchronously from cache — no useEffect delay
-  const contractAbi = useMemo(
-    () => selectedContractState ? lookupAbi(selectedContractState) : null,
-    [selectedContractState, lookupAbi]
+  // Rank the loaded ABIs against the bytecode of an unknown address. Results are cached
+  // per address until the ABIs or the chain change.
+  const abiInferenceCache = useMemo(
+    () => new Map<string, Promise<AbiCandidate[]>>(),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [abiCache, activeChain]
   );
 
+  const inferAbi = useCallback((address: string): Promise<AbiCandidate[]> => {
+    const key = address.toLowerCase();
+    let candidates = abiInferenceCache.get(key);
+    if (!candidates) {
+      const client = createPublicClient({ chain: activeChain, transport: http() });
+      candidates = inferAbiCandidates(client, address as Address, abiCache);
+      // Failed lookups may succeed later, e.g. once the RPC is reachable
+      candidates.catch(() => abiInferenceCache.delete(key));
+      abiInferenceCache.set(key, candidates);
+    }
+    return candidates;
+  }, [abiInferenceCache, activeChain, abiCache]);
+
+  // Diamond facets with their functions, explained by the deployment contracts and loaded ABIs
+  const diamondFacets = useMemo(() => {
+    if (!currentDetection?.facets) return null;
+
+    const deployment = deploymentsFile[selectedNetworkState]?.[selectedDeploymentState] ?? {};
+    // Deployments files may hold non-address values (e.g. nested metadata) next to the addresses
+    const facetNames = new Map(
+      Object.entries(deployment)
+        .filter(([, address]) => typeof address === 'string')
+        .map(([name, address]) => [address.toLowerCase(), name])
+    );
+    return resolveDiamondFacets(currentDetection.facets, abiCache, facetNames, lookupAbi);
+  }, [currentDetection, deploymentsFile, selectedNetworkState, selectedDeploymentState, abiCache, lookupAbi]);
+
+  // The implementation behind a proxy, found by address among the deployment and ad-hoc contracts
+  const knownImplementationContract = useMemo(() => {
+    if (!proxyInfo) return null;
+
+    const deploymentContract = findContractByAddress(
+      proxyInfo.implementation,
+      deploymentsFile,
+      selectedNetworkState,
+      selectedDeploymentState
+    );
+    if (deploymentContract) return deploymentContract;
+
+    const adHocContract = findAdHocContractByAddress(proxyInfo.implementation, adHocContracts);
+    return adHocContract ? adHocContractKey(adHocContract.name) : null;
+  }, [proxyInfo, deploymentsFile, selectedNetworkState, selectedDeploymentState, adHocContracts]);
+
+  // Otherwise the loaded ABIs are ranked against the implementation's bytecode: a clear
+  // winner is used, and any ABI can be picked instead. Both belong to one implementation address.
+  const implementationKey = proxyInfo ? `${activeChain.id}:${proxyInfo.implementation.toLowerCase()}` : '';
+  const [implementationInference, setImplementationInference] = useState<{
+    key: string;
+    candidates: AbiCandidate[];
+  } | null>(null);
+  const [pickedImplementationAbi, setPickedImplementationAbi] = useState<{
+    key: string;
+    abiName: string | null; // null: use the proxy ABI alone
+  } | null>(null);
+
+  useEffect(() => {
+    if (!proxyInfo || knownImplementationContract) return;
+
+    let cancelled = false;
+    inferAbi(proxyInfo.implementation)
+      .catch((err) => {
+        console.error('Failed to infer implementation ABI:', err);
+        return [];
+      })
+      .then((candidates) => {
+        if (!cancelled) setImplementationInference({ key: implementationKey, candidates });
+      });
+
+    return () => { cancelled = true; };
+  }, [proxyInfo, knownImplementationContract, implementationKey, inferAbi]);
+
+  const implementationCandidates = !knownImplementationContract && implementationInference?.key === implementationKey
+    ? implementationInference.candidates
+    : [];
+  const inferredImplementationAbi = knownImplementationContract
+    ? null
+    : pickedImplementationAbi?.key === implementationKey
+    ? pickedImplementationAbi.abiName
+    : shouldAutoApply(implementationCandidates) ? implementationCandidates[0].abiName : null;
+  const implementationContract = knownImplementationContract ?? inferredImplementationAbi;
+
+  const selectImplementationAbi = useCallback((abiName: string | null) => {
+    setPickedImplementationAbi({ key: implementationKey, abiName });
+  }, [implementationKey]);
+
+  // Derive contractAbi synchronously from cache — no useEffect delay.
+  // Proxies get the implementation ABI merged with their own.
+  const contractAbi = useMemo(() => {
+    const ownAbi = selectedContractState ? lookupAbi(selectedContractState) : null;
+    const implementationAbi = implementationContract ? lookupAbi(implementationContract) : null;
+    if (!implementationAbi) return ownAbi;
+    return mergeProxyAbi(ownAbi ?? [], implementationAbi);
+  }, [selectedContractState, implementationContract, lookupAbi]);
+
   // Helper function to update URL params
   const updateURLParams = useCallback((network: string, deployment: string, contract: string) => {
     const params = new URLSearchParams(searchParams?.toString());
@@ -117,6 +457,7 @@ export function ContractProvider({ children }: { children: ReactNode }) {
 
   const setSelectedContract = useCallback((contract: string) => {
     setSelectedContractState(contract);
+    setRawCalldataMode(false);
     // Use the setter function form to get the latest state
     setSelectedNetworkState((currentNetwork) => {
       setSelectedDeploymentState((currentDeployment) => {
@@ -134,85 +475,208 @@ export function ContractProvider({ children }: { children: ReactNode }) {
       let hasDeployments = false;
       let hasFolderHandle = false;
 
-      // Restore RPC/WS URLs from localStorage
-      const savedRpcUrl = localStorage.getItem('rpcUrl');
-      const savedWsUrl = localStorage.getItem('wsUrl');
-      if (savedRpcUrl) setRpcUrlState(savedRpcUrl);
-      if (savedWsUrl) setWsUrlState(savedWsUrl);
+      // Restore RPC/WS URLs and the chain registry from localStorage
+      const savedRpcUrl = localStorage.getItem(workspaceKey(workspaceId, 'rpcUrl'));
+      const savedWsUrl = localStorage.getItem(workspaceKey(workspaceId, 'wsUrl'));
+      if (savedRpcUrl) setDefaultRpcUrl(savedRpcUrl);
+      if (savedWsUrl) setDefaultWsUrl(savedWsUrl);
+      setChainRegistry(parseChainRegistry(localStorage.getItem(workspaceKey(workspaceId, 'chainRegistry'))));
+
+      // Restore ad-hoc contracts; they can be selected without a deployment
+      const savedAdHocContracts = await getAdHocContracts(workspaceId);
+      setAdHocContracts(savedAdHocContracts);
+      const savedAbiPins = await getAbiPins(workspaceId);
+      setAbiPins(savedAbiPins);
+      const urlContractKey = searchParams?.get('contract');
+      if (urlContractKey && getAdHocContract(urlContractKey, savedAdHocContracts)) {
+        setSelectedContractState(urlContractKey);
+      }
+
+      // Restore network/deployment/contract selections: URL params first, then localStorage
+      const restoreSelection = (data: DeploymentsFile) => {
+        const networks = Object.keys(data);
+        if (networks.length > 0) {
+          // Priority 1: URL params
+          const urlNetwork = searchParams?.get('network');
+          const urlDeployment = searchParams?.get('deployment');
+          const urlContract = searchParams?.get('contract');
+
+          if (urlNetwork && data[urlNetwork]) {
+            setSelectedNetworkState(urlNetwork);
+            if (urlDeployment && data[urlNetwork]?.[urlDeployment]) {
+              setSelectedDeploymentState(urlDeployment);
+              if (urlContract && data[urlNetwork][urlDeployment]?.[urlContract]) {
+                setSelectedContractState(urlContract);
+              } else if (urlContract && !isAdHocContractKey(urlContract)) {
+                // Contract in URL but not found
+                toaster.error({
+                  title: 'Contract not found',
+                  description: `Contract "${urlContract}" not found in the selected deployment`,
+                });
+              }
+            } else if (urlDeployment) {
+              // Deployment in URL but not found
+              toaster.error({
+                title: 'Deployment not found',
+                description: `Deployment "${urlDeployment}" not found in the selected network`,
+              });
+            }
+          }
+          // Priority 2: localStorage fallback
+          else {
+            const savedNetwork = localStorage.getItem(workspaceKey(workspaceId, 'selectedNetwork'));
+            const savedDeployment = localStorage.getItem(workspaceKey(workspaceId, 'selectedDeployment'));
+
+            if (savedNetwork && data[savedNetwork]) {
+              setSelectedNetworkState(savedNetwork);
+              if (savedDeployment && data[savedNetwork]?.[savedDeployment]) {
+                setSelectedDeploymentState(savedDeployment);
+              }
+            } else if (networks.length === 1) {
+              setSelectedNetworkState(networks[0]);
+            }
+          }
+        }
+      };
+
+      // Handles restored from a snapshot, revalidated in the background once initialized
+      const snapshotSources: SourceHandles = { fileHandle: null, folderHandle: null, hardhatDeployHandle: null };
 
       try {
+        // -1. Deployments/ABIs linked through ?config=, ?deployments= or ?abis= take precedence
+        //     over the saved sources, and are not persisted
+        const remoteParams = getRemoteConfigParams(searchParams);
+        let loadedRemote = false;
+        if (remoteParams) {
+          try {
+            const remote = await loadRemoteConfig(remoteParams, window.location.href);
+
+            if (remote.deployments) {
+              setDeploymentsFile(remote.deployments);
+              setDeploymentsFileHandle(createVirtualJsonFileHandle(
+                remoteSourceName(remoteParams.deployments ?? remoteParams.config, window.location.href),
+                remote.deployments
+              ));
+              restoreSelection(remote.deployments);
+              hasDeployments = true;
+            }
+            if (remote.abis) {
+              setAbiCache(remote.abis);
+              setAbisFolderHandle(createVirtualAbisDirectoryHandle(
+                remoteSourceName(remoteParams.abis ?? remoteParams.config, window.location.href),
+                remote.abis
+              ));
+              hasFolderHandle = true;
+            }
+            if (remote.bundle) {
+              const { chains, addressLabels, storageLayouts: layouts, abiPins: bundlePins } = remote.bundle;
+              setStorageLayouts(new Map(Object.entries(layouts)));
+              if (chains.defaultRpcUrl) setDefaultRpcUrl(chains.defaultRpcUrl);
+              if (chains.defaultWsUrl) setDefaultWsUrl(chains.defaultWsUrl);
+              setChainRegistry((prev) => ({ ...prev, ...chains.registry }));
+              setAdHocContracts(mergeAdHocContracts(savedAdHocContracts, addressLabels));
+              setAbiPins(mergeAbiPins(savedAbiPins, bundlePins));
+            }
+            setSourceStatus('remote');
+            loadedRemote = true;
+          } catch (err) {
+            console.error('Failed to load remote config:', err);
+            setError('Failed to load remote config: ' + (err instanceof Error ? err.message : 'Unknown error'));
+          }
+        }
+
+        // Start from the last snapshot right away instead of rescanning (and re-granting access to) the sources
+        const snapshot = hasDeployments || hasFolderHandle ? null : await getConfigSnapshot(workspaceId);
+        if (snapshot) {
+          setDeploymentsFile(snapshot.deployments);
+          setAbiCache(snapshot.abis);
+          setStorageLayouts(snapshot.storageLayouts ?? new Map());
+          setSnapshotSavedAt(snapshot.savedAt);
+          restoreSelection(snapshot.deployments);
+        }
+
+        // 0. A hardhat-deploy folder provides both deployments and ABIs
+        const savedHardhatDeployHandle = hasDeployments || hasFolderHandle ? null : await getHardhatDeployHandle(workspaceId);
+        if (savedHardhatDeployHandle && snapshot) {
+          setHardhatDeployHandle(savedHardhatDeployHandle);
+          snapshotSources.hardhatDeployHandle = savedHardhatDeployHandle;
+          hasDeployments = true;
+          hasFolderHandle = true;
+        } else if (savedHardhatDeployHandle) {
+          const hasPermission = await requestFolderPermission(savedHardhatDeployHandle);
+
+          if (hasPermission) {
+            setHardhatDeployHandle(savedHardhatDeployHandle);
+            const contents = await scanHardhatDeployFolder(savedHardhatDeployHandle);
+            if (contents) {
+              restoreSelection(contents.deployments);
+              hasDeployments = true;
+              hasFolderHandle = true;
+            }
+          } else {
+            await clearHardhatDeployHandle(workspaceId);
+            console.warn('Permission denied for saved hardhat-deploy folder');
+          }
+        }
+
+        // 0b. Or the parsed contents of an uploaded hardhat-deploy folder
+        const uploadedHardhatDeploy = hasDeployments ? null : await getUploadedSource(workspaceId, 'hardhatDeployFolder');
+        if (uploadedHardhatDeploy?.deployments && uploadedHardhatDeploy.abis) {
+          setHardhatDeployHandle(createVirtualDirectoryHandle(uploadedHardhatDeploy.name, []));
+          setDeploymentsFile(uploadedHardhatDeploy.deployments);
+          setAbiCache(uploadedHardhatDeploy.abis);
+          setStorageLayouts(uploadedHardhatDeploy.storageLayouts ?? new Map());
+          restoreSelection(uploadedHardhatDeploy.deployments);
+          hasDeployments = true;
+          hasFolderHandle = true;
+        }
+
         // 1. Try to restore deployments file handle from IndexedDB
-        const savedFileHandle = await getFileHandle();
-        if (savedFileHandle) {
+        const savedFileHandle = hasDeployments ? null : await getFileHandle(workspaceId);
+        if (savedFileHandle && snapshot) {
+          setDeploymentsFileHandle(savedFileHandle);
+          snapshotSources.fileHandle = savedFileHandle;
+          hasDeployments = true;
+        } else if (savedFileHandle) {
           // Request permission for the saved file
           const hasPermission = await requestFilePermission(savedFileHandle);
 
           if (hasPermission) {
             try {
               // Read and parse the file
-              const data = await readJsonFile<DeploymentsFile>(savedFileHandle);
+              const { deployments: data } = await readDeploymentsFile(savedFileHandle);
               setDeploymentsFile(data);
               setDeploymentsFileHandle(savedFileHandle);
               hasDeployments = true;
 
-              // Restore network/deployment/contract selections
-              const networks = Object.keys(data);
-              if (networks.length > 0) {
-                // Priority 1: URL params
-                const urlNetwork = searchParams?.get('network');
-                const urlDeployment = searchParams?.get('deployment');
-                const urlContract = searchParams?.get('contract');
-
-                if (urlNetwork && data[urlNetwork]) {
-                  setSelectedNetworkState(urlNetwork);
-                  if (urlDeployment && data[urlNetwork]?.[urlDeployment]) {
-                    setSelectedDeploymentState(urlDeployment);
-                    if (urlContract && data[urlNetwork][urlDeployment]?.[urlContract]) {
-                      setSelectedContractState(urlContract);
-                    } else if (urlContract) {
-                      // Contract in URL but not found
-                      toaster.error({
-                        title: 'Contract not found',
-                        description: `Contract "${urlContract}" not found in the selected deployment`,
-                      });
-                    }
-                  } else if (urlDeployment) {
-                    // Deployment in URL but not found
-                    toaster.error({
-                      title: 'Deployment not found',
-                      description: `Deployment "${urlDeployment}" not found in the selected network`,
-                    });
-                  }
-                }
-                // Priority 2: localStorage fallback
-                else {
-                  const savedNetwork = localStorage.getItem('selectedNetwork');
-                  const savedDeployment = localStorage.getItem('selectedDeployment');
-
-                  if (savedNetwork && data[savedNetwork]) {
-                    setSelectedNetworkState(savedNetwork);
-                    if (savedDeployment && data[savedNetwork]?.[savedDeployment]) {
-                      setSelectedDeploymentState(savedDeployment);
-                    }
-                  } else if (networks.length === 1) {
-                    setSelectedNetworkState(networks[0]);
-                  }
-                }
-              }
+              restoreSelection(data);
             } catch (err) {
               console.error('Failed to read deployments file:', err);
-              await clearFileHandle();
+              await clearFileHandle(workspaceId);
             }
           } else {
             // Permission denied, clear the saved handle
-            await clearFileHandle();
+            await clearFileHandle(workspaceId);
             console.warn('Permission denied for saved deployments file');
           }
         }
 
+        // 1b. Or the parsed contents of an uploaded deployments file
+        const uploadedDeployments = hasDeployments ? null : await getUploadedSource(workspaceId, 'deploymentsFile');
+        if (uploadedDeployments?.deployments) {
+          setDeploymentsFile(uploadedDeployments.deployments);
+          setDeploymentsFileHandle(createVirtualJsonFileHandle(uploadedDeployments.name, uploadedDeployments.deployments));
+          restoreSelection(uploadedDeployments.deployments);
+          hasDeployments = true;
+        }
+
         // 2. Try to restore folder handle from IndexedDB
-        const savedHandle = await getFolderHandle();
-        if (savedHandle) {
+        const savedHandle = hasFolderHandle ? null : await getFolderHandle(workspaceId);
+        if (savedHandle && snapshot) {
+          setAbisFolderHandle(savedHandle);
+          snapshotSources.folderHandle = savedHandle;
+          hasFolderHandle = true;
+        } else if (savedHandle) {
           // Request permission for the saved handle
           const hasPermission = await requestFolderPermission(savedHandle);
 
@@ -222,20 +686,41 @@ export function ContractProvider({ children }: { children: ReactNode }) {
             hasFolderHandle = true;
           } else {
             // Permission denied, clear the saved handle
-            await clearFolderHandle();
+            await clearFolderHandle(workspaceId);
             console.warn('Permission denied for saved folder');
           }
         }
 
+        // 2b. Or the parsed contents of an uploaded ABIs folder
+        const uploadedAbis = hasFolderHandle ? null : await getUploadedSource(workspaceId, 'abisFolder');
+        if (uploadedAbis?.abis) {
+          setAbiCache(uploadedAbis.abis);
+          setStorageLayouts(uploadedAbis.storageLayouts ?? new Map());
+          setAbisFolderHandle(createVirtualAbisDirectoryHandle(uploadedAbis.name, uploadedAbis.abis));
+          hasFolderHandle = true;
+        }
+
         // 3. Show setup modal if missing configuration
         if (!hasDeployments || !hasFolderHandle) {
           setShowSetupModal(true);
+        } else if (loadedRemote) {
+          toaster.success({
+            title: 'Configuration loaded',
+            description: 'Deployments and ABIs were loaded from the linked URL',
+          });
         } else {
           toaster.success({
             title: 'Configuration restored',
             description: 'Successfully restored your settings',
           });
         }
+
+        // 4. Check the snapshot against the live sources without blocking startup
+        if (snapshot) {
+          revalidateSources(snapshotSources, snapshot.fingerprint, false);
+        } else if (!loadedRemote) {
+          setSourceStatus('live');
+        }
       } catch (err) {
         console.error('Initialization error:', err);
         setError('Failed to initialize: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -248,26 +733,76 @@ export function ContractProvider({ children }: { children: ReactNode }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Revalidate the snapshot against the live sources, rescanning only when their fingerprint
+  // changed. Permission is only checked, unless this is an explicit refresh by the user.
+  const revalidateSources = async (
+    sources: SourceHandles,
+    fingerprint: string | null,
+    askPermission: boolean
+  ) => {
+    const handles = liveSourceHandles(sources);
+
+    for (const handle of handles) {
+      const granted = !askPermission
+        ? await hasHandlePermission(handle)
+        : handle.kind === 'file'
+        ? await requestFilePermission(handle as FileSystemFileHandle)
+        : await requestFolderPermission(handle as FileSystemDirectoryHandle);
+
+      if (!granted) {
+        setSourceStatus('needs-permission');
+        return;
+      }
+    }
+
+    try {
+      if (fingerprint && await fingerprintSources(handles) === fingerprint) {
+        setSourceStatus('live');
+        return;
+      }
+
+      if (sources.hardhatDeployHandle) {
+        await scanHardhatDeployFolder(sources.hardhatDeployHandle);
+      } else {
+        if (sources.fileHandle) {
+          const { deployments } = await readDeploymentsFile(sources.fileHandle);
+          setDeploymentsFile(deployments);
+        }
+        if (sources.folderHandle) {
+          await scanAbisFolder(sources.folderHandle);
+        }
+      }
+      setSourceStatus('live');
+    } catch (err) {
+      console.error('Failed to revalidate sources:', err);
+      setError('Failed to refresh from disk: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    }
+  };
+
+  // Re-read all sources, asking for permission if needed
+  const refreshFromSources = async () => {
+    await revalidateSources(
+      { fileHandle: deploymentsFileHandle, folderHandle: abisFolderHandle, hardhatDeployHandle },
+      null,
+      true
+    );
+  };
+
   // Handle deployments file selection
   const handleSelectDeploymentsFile = async () => {
     try {
-      // @ts-expect-error - File System Access API
-      const [fileHandle] = await window.showOpenFilePicker({
-        types: [{
-          description: 'JSON Files',
-          accept: { 'application/json': ['.json'] }
-        }],
-        multiple: false
-      });
+      const fileHandle = await openJsonFile();
+      await confirmSourcesLive();
 
-      // Read and parse the file
-      const data = await readJsonFile<DeploymentsFile>(fileHandle);
+      // Read and parse the file, converting Foundry/Ignition outputs on the fly
+      const { deployments: data } = await readDeploymentsFile(fileHandle);
 
       setDeploymentsFile(data);
       setDeploymentsFileHandle(fileHandle);
 
       // Save to IndexedDB for persistence
-      await saveFileHandle(fileHandle);
+      await persistDeploymentsFile(fileHandle, data);
+      await leaveHardhatDeployMode();
 
       setSelectedNetwork('');
       setSelectedDeployment('');
@@ -284,15 +819,33 @@ export function ContractProvider({ children }: { children: ReactNode }) {
   // Handle ABIs folder selection
   const handleSelectAbisFolder = async () => {
     try {
-      // @ts-expect-error - File System Access API
-      const dirHandle = await window.showDirectoryPicker();
+      const dirHandle = await openDirectory();
+      await confirmSourcesLive();
       setAbisFolderHandle(dirHandle);
+      await leaveHardhatDeployMode();
 
-      // Save to IndexedDB for persistence
-      await saveFolderHandle(dirHandle);
+      // Scan the folder for available ABIs, then save to IndexedDB for persistence
+      const contents = await scanAbisFolder(dirHandle);
+      await persistAbisFolder(dirHandle, contents);
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        setError('Failed to open folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      }
+    }
+  };
 
-      // Scan the folder for available ABIs
-      await scanAbisFolder(dirHandle);
+  // Handle hardhat-deploy folder selection (provides both deployments and ABIs)
+  const handleSelectHardhatDeployFolder = async () => {
+    try {
+      const dirHandle = await openDirectory();
+      await confirmSourcesLive();
+      await enterHardhatDeployMode(dirHandle);
+
+      setSelectedNetwork('');
+      setSelectedDeployment('');
+      setSelectedContract('');
+      setContractAddress('');
+      setError(null);
     } catch (err) {
       if ((err as Error).name !== 'AbortError') {
         setError('Failed to open folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
@@ -300,21 +853,101 @@ export function ContractProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Switch to a hardhat-deploy folder, replacing the separate file and folder sources
+  const enterHardhatDeployMode = async (dirHandle: FileSystemDirectoryHandle) => {
+    setHardhatDeployHandle(dirHandle);
+    setDeploymentsFileHandle(null);
+    setAbisFolderHandle(null);
+
+    await clearFileHandle(workspaceId);
+    await clearFolderHandle(workspaceId);
+    await clearUploadedSource(workspaceId, 'deploymentsFile');
+    await clearUploadedSource(workspaceId, 'abisFolder');
+
+    // Scan, then save to IndexedDB for persistence
+    const contents = await scanHardhatDeployFolder(dirHandle);
+    if (isVirtualHandle(dirHandle)) {
+      if (contents) await saveUploadedSource(workspaceId, 'hardhatDeployFolder', { name: dirHandle.name, ...contents });
+      await clearHardhatDeployHandle(workspaceId);
+    } else {
+      await saveHardhatDeployHandle(workspaceId, dirHandle);
+      await clearUploadedSource(workspaceId, 'hardhatDeployFolder');
+    }
+  };
+
+  // Picking a separate deployments file or ABIs folder ends hardhat-deploy mode,
+  // otherwise its polling would overwrite the newly selected source
+  const leaveHardhatDeployMode = async () => {
+    if (!hardhatDeployHandle) return;
+    setHardhatDeployHandle(null);
+    await clearHardhatDeployHandle(workspaceId);
+    await clearUploadedSource(workspaceId, 'hardhatDeployFolder');
+  };
+
+  // Persist the deployments file: the handle itself, or the parsed contents when it came
+  // from the upload fallback, since virtual handles can't be stored or re-read
+  const persistDeploymentsFile = async (fileHandle: FileSystemFileHandle, data: DeploymentsFile) => {
+    if (isVirtualHandle(fileHandle)) {
+      await saveUploadedSource(workspaceId, 'deploymentsFile', { name: fileHandle.name, deployments: data });
+      await clearFileHandle(workspaceId);
+    } else {
+      await saveFileHandle(workspaceId, fileHandle);
+      await clearUploadedSource(workspaceId, 'deploymentsFile');
+    }
+  };
+
+  // Persist the ABIs folder the same way
+  const persistAbisFolder = async (dirHandle: FileSystemDirectoryHandle, contents: ScannedAbis | null) => {
+    if (isVirtualHandle(dirHandle)) {
+      if (contents) await saveUploadedSource(workspaceId, 'abisFolder', { name: dirHandle.name, ...contents });
+      await clearFolderHandle(workspaceId);
+    } else {
+      await saveFolderHandle(workspaceId, dirHandle);
+      await clearUploadedSource(workspaceId, 'abisFolder');
+    }
+  };
+
+  // A newly picked source replaces part of the snapshot; the other sources must be
+  // readable too before snapshots are saved again, so ask while we have a user gesture
+  const confirmSourcesLive = async () => {
+    if (sourceStatus !== 'needs-permission') return;
+    await refreshFromSources();
+  };
+
   // Handle setup modal completion
-  const handleSetupComplete = async (fileHandle: FileSystemFileHandle | null, folderHandle: FileSystemDirectoryHandle | null) => {
+  const handleSetupComplete = async (
+    fileHandle: FileSystemFileHandle | null,
+    folderHandle: FileSystemDirectoryHandle | null,
+    hardhatDeployFolder: FileSystemDirectoryHandle | null = null
+  ) => {
+    await confirmSourcesLive();
+    if (hardhatDeployFolder) {
+      await enterHardhatDeployMode(hardhatDeployFolder);
+      setShowSetupModal(false);
+      toaster.success({
+        title: 'Configuration saved',
+        description: 'Your settings have been saved successfully',
+      });
+      return;
+    }
+
+    if (fileHandle || folderHandle) {
+      await leaveHardhatDeployMode();
+    }
+
     // Save deployments file handle if provided
     if (fileHandle) {
-      const data = await readJsonFile<DeploymentsFile>(fileHandle);
+      const { deployments: data } = await readDeploymentsFile(fileHandle);
       setDeploymentsFile(data);
       setDeploymentsFileHandle(fileHandle);
-      await saveFileHandle(fileHandle);
+      await persistDeploymentsFile(fileHandle, data);
     }
 
     // Save folder handle if provided
     if (folderHandle) {
       setAbisFolderHandle(folderHandle);
-      await saveFolderHandle(folderHandle);
-      await scanAbisFolder(folderHandle);
+      const contents = await scanAbisFolder(folderHandle);
+      await persistAbisFolder(folderHandle, contents);
     }
 
     setShowSetupModal(false);
@@ -324,75 +957,175 @@ export function ContractProvider({ children }: { children: ReactNode }) {
     });
   };
 
-  // Handle reconfigure (reset and show modal)
-  const handleReconfigure = () => {
-    setShowSetupModal(true);
+  // Write the current setup to one JSON file teammates can import
+  const exportConfigBundle = () => {
+    const bundle = createConfigBundle({
+      deploymentsFile,
+      abiCache,
+      storageLayouts,
+      defaultRpcUrl,
+      defaultWsUrl,
+      chainRegistry,
+      adHocContracts,
+      abiPins,
+    });
+    downloadConfigBundle(bundle, `explorer-bundle-${bundle.exportedAt.slice(0, 10)}.json`);
+    toaster.success({
+      title: 'Bundle exported',
+      description: `${Object.keys(bundle.abis).length} ABIs, ${adHocContracts.length} address labels`,
+    });
   };
 
-  // Parse all ABIs from a folder into a Map
-  type AsyncIterableDirectoryHandle = FileSystemDirectoryHandle & {
-    values(): AsyncIterableIterator<FileSystemHandle>;
-  };
+  // Restore a bundle. Its contents are persisted like uploaded sources, so no file system access is needed.
+  const importConfigBundle = async (bundle: ConfigBundle, fileName: string) => {
+    await confirmSourcesLive();
+    await leaveHardhatDeployMode();
+
+    const fileHandle = createVirtualJsonFileHandle(fileName, bundle.deployments);
+    const abis = new Map(Object.entries(bundle.abis));
+    const folderHandle = createVirtualAbisDirectoryHandle(fileName, abis);
+    setDeploymentsFile(bundle.deployments);
+    setDeploymentsFileHandle(fileHandle);
+    setAbisFolderHandle(folderHandle);
+    const layouts = new Map(Object.entries(bundle.storageLayouts));
+    setAbiCache(abis);
+    setStorageLayouts(layouts);
+    await persistDeploymentsFile(fileHandle, bundle.deployments);
+    await persistAbisFolder(folderHandle, { abis, storageLayouts: layouts });
+
+    if (bundle.chains.defaultRpcUrl) {
+      setDefaultRpcUrl(bundle.chains.defaultRpcUrl);
+      localStorage.setItem(workspaceKey(workspaceId, 'rpcUrl'), bundle.chains.defaultRpcUrl);
+    }
+    if (bundle.chains.defaultWsUrl) {
+      setDefaultWsUrl(bundle.chains.defaultWsUrl);
+      localStorage.setItem(workspaceKey(workspaceId, 'wsUrl'), bundle.chains.defaultWsUrl);
+    }
+    setChainRegistry(bundle.chains.registry);
+    localStorage.setItem(workspaceKey(workspaceId, 'chainRegistry'), JSON.stringify(bundle.chains.registry));
 
-  interface ArtifactFile {
-    abi: ContractAbi;
-    [key: string]: unknown;
-  }
+    // Merged in one go: addAdHocContract per label would start from the same stale list each time
+    const contracts = mergeAdHocContracts(adHocContracts, bundle.addressLabels);
+    setAdHocContracts(contracts);
+    await saveAdHocContracts(workspaceId, contracts);
+    const pins = mergeAbiPins(abiPins, bundle.abiPins);
+    setAbiPins(pins);
+    await saveAbiPins(workspaceId, pins);
 
-  const parseAbisFromFolder = async (dirHandle: FileSystemDirectoryHandle): Promise<Map<string, ContractAbi>> => {
-    const cache = new Map<string, ContractAbi>();
+    setShowSetupModal(false);
+    toaster.success({
+      title: 'Bundle imported',
+      description: `${Object.keys(bundle.deployments).length} networks, ${abis.size} ABIs`,
+    });
+  };
 
-    for await (const entry of (dirHandle as AsyncIterableDirectoryHandle).values()) {
-      if (entry.kind === 'directory' && entry.name.endsWith('.sol')) {
-        const contractName = entry.name.replace('.sol', '');
+  // Handle reconfigure (reset and show modal)
+  const handleReconfigure = () => {
+    setShowSetupModal(true);
+  };
 
-        try {
-          const solDir = entry as FileSystemDirectoryHandle;
-          const jsonFile = await solDir.getFileHandle(`${contractName}.json`);
-          const file = await jsonFile.getFile();
-          const text = await file.text();
+  // One watcher per ABIs folder, so rescans and polls only re-parse artifacts that changed
+  const abiWatcherRef = useRef<AbiFolderWatcher | null>(null);
 
-          const data = JSON.parse(text) as ContractAbi | ArtifactFile;
-          const abi: ContractAbi = Array.isArray(data) ? data : data.abi;
+  const getAbiWatcher = (dirHandle: FileSystemDirectoryHandle, baseline?: Map<string, ContractAbi>) => {
+    if (abiWatcherRef.current?.handle !== dirHandle) {
+      abiWatcherRef.current = createAbiFolderWatcher(dirHandle, baseline);
+    }
+    return abiWatcherRef.current;
+  };
 
-          if (abi && Array.isArray(abi)) {
-            cache.set(contractName, abi);
-          }
-        } catch {
-          // File doesn't exist or parse error, skip
-        }
+  // Scan the ABIs folder for available contracts and load all ABIs
+  const scanAbisFolder = async (dirHandle: FileSystemDirectoryHandle): Promise<ScannedAbis | null> => {
+    setLoadingAbiList(true);
+    try {
+      const { abis, artifacts, report } = await getAbiWatcher(dirHandle).scan();
+      const layouts = storageLayoutsOf(artifacts);
+      setAbiCache(abis);
+      setStorageLayouts(layouts);
+      setAbiScanReport(report);
+      if (report.skipped.length > 0) {
+        console.info('Skipped while scanning ABIs folder:', report.skipped);
       }
+      return { abis, storageLayouts: layouts };
+    } catch (err) {
+      console.error('Error scanning ABIs folder:', err);
+      setError('Failed to scan folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      return null;
+    } finally {
+      setLoadingAbiList(false);
     }
+  };
 
-    return cache;
+  // One watcher per hardhat-deploy folder, so polls only re-read deployment files that changed
+  const hardhatDeployWatcherRef = useRef<HardhatDeployWatcher | null>(null);
+
+  const getHardhatDeployWatcher = (dirHandle: FileSystemDirectoryHandle, baseline?: HardhatDeployContents) => {
+    if (hardhatDeployWatcherRef.current?.handle !== dirHandle) {
+      hardhatDeployWatcherRef.current = createHardhatDeployWatcher(dirHandle, baseline);
+    }
+    return hardhatDeployWatcherRef.current;
   };
 
-  // Scan the ABIs folder for available contracts and load all ABIs
-  const scanAbisFolder = async (dirHandle: FileSystemDirectoryHandle) => {
+  // Scan a hardhat-deploy folder, loading deployments and ABIs in one pass
+  const scanHardhatDeployFolder = async (dirHandle: FileSystemDirectoryHandle): Promise<HardhatDeployContents | null> => {
     setLoadingAbiList(true);
     try {
-      const cache = await parseAbisFromFolder(dirHandle);
-      setAbiCache(cache);
+      const { deployments, abis, storageLayouts: layouts } = await getHardhatDeployWatcher(dirHandle).scan();
+      setDeploymentsFile(deployments);
+      setAbiCache(abis);
+      setStorageLayouts(layouts);
+      return { deployments, abis, storageLayouts: layouts };
     } catch (err) {
-      console.error('Error scanning ABIs folder:', err);
+      console.error('Error scanning hardhat-deploy folder:', err);
       setError('Failed to scan folder: ' + (err instanceof Error ? err.message : 'Unknown error'));
+      return null;
     } finally {
       setLoadingAbiList(false);
     }
   };
 
+  // Snapshot the parsed deployments and ABIs whenever they change, once the sources are known to be live
+  useEffect(() => {
+    if (isInitializing || sourceStatus !== 'live') return;
+    if (!deploymentsFileHandle && !abisFolderHandle && !hardhatDeployHandle) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const fingerprint = await fingerprintSources(liveSourceHandles({
+          fileHandle: deploymentsFileHandle,
+          folderHandle: abisFolderHandle,
+          hardhatDeployHandle,
+        }));
+        const savedAt = Date.now();
+        await saveConfigSnapshot(workspaceId, {
+          deployments: deploymentsFile,
+          abis: abiCache,
+          storageLayouts,
+          savedAt,
+          fingerprint,
+        });
+        setSnapshotSavedAt(savedAt);
+      } catch (err) {
+        // Sources not readable right now, keep the previous snapshot
+        console.warn('Failed to save config snapshot:', err);
+      }
+    }, 1000);
+
+    return () => clearTimeout(timeout);
+  }, [deploymentsFile, abiCache, storageLayouts, deploymentsFileHandle, abisFolderHandle, hardhatDeployHandle, isInitializing, sourceStatus, workspaceId]);
+
   // Save network and deployment to localStorage when changed
   useEffect(() => {
     if (selectedNetworkState) {
-      localStorage.setItem('selectedNetwork', selectedNetworkState);
+      localStorage.setItem(workspaceKey(workspaceId, 'selectedNetwork'), selectedNetworkState);
     }
-  }, [selectedNetworkState]);
+  }, [selectedNetworkState, workspaceId]);
 
   useEffect(() => {
     if (selectedDeploymentState) {
-      localStorage.setItem('selectedDeployment', selectedDeploymentState);
+      localStorage.setItem(workspaceKey(workspaceId, 'selectedDeployment'), selectedDeploymentState);
     }
-  }, [selectedDeploymentState]);
+  }, [selectedDeploymentState, workspaceId]);
 
   // Auto-select network when there's only one option
   useEffect(() => {
@@ -416,52 +1149,124 @@ export function ContractProvider({ children }: { children: ReactNode }) {
 
   // Update contract address when deployment or contract is selected
   useEffect(() => {
+    const adHocContract = getAdHocContract(selectedContractState, adHocContracts);
+    if (adHocContract) {
+      setContractAddress(adHocContract.address);
+      return;
+    }
+
     if (selectedNetworkState && selectedDeploymentState && selectedContractState) {
       const address = deploymentsFile[selectedNetworkState]?.[selectedDeploymentState]?.[selectedContractState];
       if (address && address.startsWith('0x')) {
         setContractAddress(address);
       }
     }
-  }, [selectedNetworkState, selectedDeploymentState, selectedContractState, deploymentsFile]);
+  }, [selectedNetworkState, selectedDeploymentState, selectedContractState, deploymentsFile, adHocContracts]);
 
-  // Poll the ABIs folder for changes
-  const abisFolderHandleRef = useRef(abisFolderHandle);
-  abisFolderHandleRef.current = abisFolderHandle;
+  // Poll the ABIs folder for changes, less often while the tab is hidden
+  const abiCacheRef = useRef(abiCache);
+  abiCacheRef.current = abiCache;
 
   useEffect(() => {
-    if (!abisFolderHandle) return;
-
-    const poll = async () => {
-      const handle = abisFolderHandleRef.current;
-      if (!handle) return;
+    // Uploaded folders are snapshots, there is nothing to poll
+    if (!abisFolderHandle || isVirtualHandle(abisFolderHandle)) return;
 
+    return startPolling(async () => {
       try {
-        const newCache = await parseAbisFromFolder(handle);
-
-        setAbiCache(prev => {
-          // Only update if something changed to avoid unnecessary re-renders
-          if (prev.size !== newCache.size) return newCache;
-          for (const [key, value] of newCache) {
-            const existing = prev.get(key);
-            if (!existing || JSON.stringify(existing) !== JSON.stringify(value)) {
-              return newCache;
-            }
-          }
-          for (const key of prev.keys()) {
-            if (!newCache.has(key)) return newCache;
-          }
-          return prev;
+        // The cache loaded so far (e.g. from a snapshot) is the baseline of a new watcher
+        const { abis, artifacts, changes, report } = await getAbiWatcher(abisFolderHandle, abiCacheRef.current).scan();
+        // Layouts can be added without changing any ABI, e.g. by enabling them in foundry.toml
+        const layouts = storageLayoutsOf(artifacts);
+        setStorageLayouts(prev => isSameStorageLayouts(prev, layouts) ? prev : layouts);
+        if (changes.length === 0) return;
+
+        setAbiCache(abis);
+        setAbiScanReport(report);
+        toaster.info({
+          title: `ABIs changed (${changes.length} contract${changes.length !== 1 ? 's' : ''})`,
+          description: formatAbiChanges(changes),
         });
       } catch {
         // Silently fail on poll errors
       }
-    };
-
-    const interval = setInterval(poll, 5000);
-    return () => clearInterval(interval);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, { interval: 5000, maxHiddenInterval: 60000 });
   }, [abisFolderHandle]);
 
+  // Poll the deployments file for changes, e.g. when a deploy script rewrites the addresses.
+  // Only the data is replaced, so the current selection is kept unless its contract is gone.
+  const deploymentsFileRef = useRef(deploymentsFile);
+  deploymentsFileRef.current = deploymentsFile;
+  const selectionRef = useRef({ network: selectedNetworkState, deployment: selectedDeploymentState, contract: selectedContractState });
+  selectionRef.current = { network: selectedNetworkState, deployment: selectedDeploymentState, contract: selectedContractState };
+
+  // The address of a removed contract would otherwise stay selected
+  const clearRemovedContract = useCallback((deployments: DeploymentsFile) => {
+    const { network, deployment, contract } = selectionRef.current;
+    if (contract && !isAdHocContractKey(contract) && network && deployment && !deployments[network]?.[deployment]?.[contract]) {
+      setSelectedContract('');
+      setContractAddress('');
+    }
+  }, [setSelectedContract]);
+
+  useEffect(() => {
+    if (!deploymentsFileHandle || isVirtualHandle(deploymentsFileHandle)) return;
+
+    let lastModified: number | null = null;
+
+    return startPolling(async () => {
+      try {
+        const file = await deploymentsFileHandle.getFile();
+        if (file.lastModified === lastModified) return;
+        lastModified = file.lastModified;
+
+        const { deployments } = await readDeploymentsFile(deploymentsFileHandle);
+        const changes = diffDeploymentsFiles(deploymentsFileRef.current, deployments);
+        if (changes.length === 0) return;
+
+        setDeploymentsFile(deployments);
+        toaster.info({
+          title: `Deployments file changed (${changes.length} contract${changes.length !== 1 ? 's' : ''})`,
+          description: formatDeploymentsFileChanges(changes),
+        });
+        clearRemovedContract(deployments);
+      } catch {
+        // Silently fail on poll errors (e.g. the file is being rewritten)
+      }
+    }, { interval: 5000, maxHiddenInterval: 60000 });
+  }, [deploymentsFileHandle, clearRemovedContract]);
+
+  // Poll the hardhat-deploy folder for changes to addresses and ABIs; only changed files are read again
+  const storageLayoutsRef = useRef(storageLayouts);
+  storageLayoutsRef.current = storageLayouts;
+
+  useEffect(() => {
+    if (!hardhatDeployHandle || isVirtualHandle(hardhatDeployHandle)) return;
+
+    return startPolling(async () => {
+      try {
+        // What is loaded so far (e.g. from a snapshot) is the baseline of a new watcher
+        const baseline = { deployments: deploymentsFileRef.current, abis: abiCacheRef.current, storageLayouts: storageLayoutsRef.current };
+        const { deployments, abis, storageLayouts: layouts, deploymentChanges, abiChanges } =
+          await getHardhatDeployWatcher(hardhatDeployHandle, baseline).scan();
+        setStorageLayouts(prev => isSameStorageLayouts(prev, layouts) ? prev : layouts);
+        if (deploymentChanges.length === 0 && abiChanges.length === 0) return;
+
+        setDeploymentsFile(deployments);
+        setAbiCache(abis);
+        const lines = deploymentChanges.length > 0 ? [formatDeploymentsFileChanges(deploymentChanges)] : [];
+        if (abiChanges.length > 0) lines.push(`ABIs: ${formatAbiChanges(abiChanges)}`);
+        const count = new Set([...deploymentChanges.map(({ name }) => name), ...abiChanges.map(({ name }) => contractNameOf(name))]).size;
+        toaster.info({
+          title: `Deployments folder changed (${count} contract${count !== 1 ? 's' : ''})`,
+          description: lines.join('\n'),
+        });
+        clearRemovedContract(deployments);
+      } catch {
+        // Silently fail on poll errors
+      }
+    }, { interval: 5000, maxHiddenInterval: 60000 });
+  }, [hardhatDeployHandle, clearRemovedContract]);
+
   // Update document title based on selected contract
   useEffect(() => {
     if (selectedContractState) {
@@ -482,16 +1287,35 @@ export function ContractProvider({ children }: { children: ReactNode }) {
     setSelectedDeployment,
     selectedContract: selectedContractState,
     setSelectedContract,
+    rawCalldataMode,
+    setRawCalldataMode,
     contractAddress,
     setContractAddress,
     contractAbi,
+    proxyInfo,
+    implementationContract,
+    isImplementationInferred: inferredImplementationAbi !== null,
+    implementationCandidates,
+    selectImplementationAbi,
+    diamondFacets,
+    inferAbi,
+    selectorRegistry,
     error,
     setError,
     abisFolderHandle,
     setAbisFolderHandle,
+    hardhatDeployHandle,
     abiCache,
     availableAbis,
+    matchAbi,
     lookupAbi,
+    storageLayouts,
+    lookupStorageLayout,
+    abiPins,
+    pinAbi,
+    adHocContracts,
+    addAdHocContract,
+    removeAdHocContract,
     loadingAbiList,
     setLoadingAbiList,
     isInitializing,
@@ -501,12 +1325,28 @@ export function ContractProvider({ children }: { children: ReactNode }) {
     setRpcUrl,
     wsUrl,
     setWsUrl,
+    chainRegistry,
+    activeChainConfig,
+    updateChainConfig,
+    resetChainConfig,
+    rpcStatus,
+    isCheckingRpc,
+    rpcChainMismatch,
+    refreshRpcStatus,
     activeChain,
+    getChainForNetwork,
     handleSelectDeploymentsFile,
     handleSelectAbisFolder,
+    handleSelectHardhatDeployFolder,
     handleSetupComplete,
+    exportConfigBundle,
+    importConfigBundle,
     handleReconfigure,
     scanAbisFolder,
+    abiScanReport,
+    sourceStatus,
+    snapshotSavedAt,
+    refreshFromSources,
   };
 
   // Expose test helpers for E2E testing
@@ -0,0 +1,117 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, Fragment, ReactNode } from 'react';
+import { toaster } from '@/components/ui/toaster';
+import { clearWorkspaceData, getWorkspaceList, saveWorkspaceList } from '../utils/storage';
+import {
+  createWorkspaceId,
+  DEFAULT_WORKSPACE_ID,
+  normalizeWorkspaceList,
+  workspaceKey,
+  type WorkspaceList,
+} from '../utils/workspaces';
+import type { WorkspaceContextType } from '../types';
+
+// localStorage values kept per workspace by ContractProvider
+const WORKSPACE_LOCAL_STORAGE_KEYS = ['rpcUrl', 'wsUrl', 'chainRegistry', 'selectedNetwork', 'selectedDeployment'];
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+/**
+ * Holds the named workspaces. Children are remounted when the active workspace changes,
+ * so ContractProvider re-initializes from the new workspace's storage.
+ */
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const [list, setList] = useState<WorkspaceList | null>(null);
+
+  useEffect(() => {
+    getWorkspaceList().then((saved) => {
+      const normalized = normalizeWorkspaceList(saved);
+      setList(normalized);
+    });
+  }, []);
+
+  const updateList = useCallback((next: WorkspaceList) => {
+    setList(next);
+    saveWorkspaceList(next).catch((err) => console.error('Error saving workspaces:', err));
+  }, []);
+
+  const switchWorkspace = useCallback((id: string) => {
+    if (!list || id === list.activeWorkspaceId) return;
+
+    // Selections in the URL belong to the previous workspace
+    window.history.replaceState(null, '', window.location.pathname);
+    updateList({ ...list, activeWorkspaceId: id });
+  }, [list, updateList]);
+
+  const createWorkspace = useCallback((name: string) => {
+    if (!list) return;
+
+    const workspace = { id: createWorkspaceId(), name: name.trim() || `Workspace ${list.workspaces.length + 1}` };
+    window.history.replaceState(null, '', window.location.pathname);
+    updateList({ workspaces: [...list.workspaces, workspace], activeWorkspaceId: workspace.id });
+  }, [list, updateList]);
+
+  const renameWorkspace = useCallback((id: string, name: string) => {
+    if (!list || !name.trim()) return;
+
+    updateList({
+      ...list,
+      workspaces: list.workspaces.map((workspace) => workspace.id === id ? { ...workspace, name: name.trim() } : workspace),
+    });
+  }, [list, updateList]);
+
+  const deleteWorkspace = useCallback(async (id: string) => {
+    if (!list || id === DEFAULT_WORKSPACE_ID) return;
+
+    const workspace = list.workspaces.find((candidate) => candidate.id === id);
+    if (id === list.activeWorkspaceId) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+    updateList({
+      workspaces: list.workspaces.filter((candidate) => candidate.id !== id),
+      activeWorkspaceId: id === list.activeWorkspaceId ? DEFAULT_WORKSPACE_ID : list.activeWorkspaceId,
+    });
+
+    for (const key of WORKSPACE_LOCAL_STORAGE_KEYS) {
+      localStorage.removeItem(workspaceKey(id, key));
+    }
+    try {
+      await clearWorkspaceData(id);
+    } catch (err) {
+      console.error('Error clearing workspace data:', err);
+    }
+    toaster.info({ title: 'Workspace deleted', description: workspace?.name });
+  }, [list, updateList]);
+
+  const value = useMemo<WorkspaceContextType | null>(() => {
+    if (!list) return null;
+    const activeWorkspace = list.workspaces.find((workspace) => workspace.id === list.activeWorkspaceId)
+      ?? list.workspaces[0];
+    return {
+      workspaces: list.workspaces,
+      activeWorkspace,
+      switchWorkspace,
+      createWorkspace,
+      renameWorkspace,
+      deleteWorkspace,
+    };
+  }, [list, switchWorkspace, createWorkspace, renameWorkspace, deleteWorkspace]);
+
+  // Nothing renders until the active workspace is known
+  if (!value) return null;
+
+  return (
+    <WorkspaceContext.Provider value={value}>
+      <Fragment key={value.activeWorkspace.id}>{children}</Fragment>
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspaces() {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspaces must be used within a WorkspaceProvider');
+  }
+  return context;
+}
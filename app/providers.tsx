@@ -10,6 +10,7 @@ import { Toaster } from '@/components/ui/toaster'
 import { ColorModeProvider } from '@/components/ui/color-mode'
 import { system } from './theme'
 import { ContractProvider } from './context/ContractContext'
+import { WorkspaceProvider } from './context/WorkspaceContext'
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient())
@@ -24,10 +25,12 @@ export function Providers({ children }: { children: React.ReactNode }) {
             themes={['light', 'dark']}
           >
             <Suspense fallback={<div>Loading...</div>}>
-              <ContractProvider>
-                {children}
-                <Toaster />
-              </ContractProvider>
+              <WorkspaceProvider>
+                <ContractProvider>
+                  {children}
+                </ContractProvider>
+              </WorkspaceProvider>
+              <Toaster />
             </Suspense>
           </ColorModeProvider>
         </ChakraProvider>
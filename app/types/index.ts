@@ -3,6 +3,18 @@
  */
 
 import type { Chain, Hash, TransactionReceipt, Transaction } from 'viem';
+import type { ChainConfig, ChainRegistry } from '../utils/chainRegistry';
+import type { RpcStatus } from '../utils/rpcStatus';
+import type { AdHocContract } from '../utils/adHocContracts';
+import type { Workspace } from '../utils/workspaces';
+import type { ConfigBundle } from '../utils/configBundle';
+import type { ArtifactScanReport } from '../utils/abiFolderWatcher';
+import type { AbiMatch, AbiPins } from '../utils/abiMatcher';
+import type { ProxyInfo } from '../utils/proxyDetection';
+import type { ResolvedFacet } from '../utils/diamond';
+import type { AbiCandidate } from '../utils/abiInference';
+import type { SelectorRegistry } from '../utils/selectorRegistry';
+import type { StorageLayout } from '../utils/storageLayout';
 
 // ============================================================================
 // ABI Types
@@ -79,6 +91,8 @@ export interface DecodedFunctionData {
   functionName: string;
   args?: readonly unknown[] | Record<string, unknown>;
   signature?: string;
+  abiName?: string; // Set when decoded through the selector registry rather than the chosen contract
+  alternatives?: string[]; // Other declarations with the same selector that also decode it
 }
 
 export interface DecodedEventLog {
@@ -93,6 +107,8 @@ export interface DecodedEventLog {
   data?: string;
   decoded: boolean;
   error?: string;
+  abiName?: string; // Set when decoded through the selector registry rather than the chosen contract
+  alternatives?: string[];
 }
 
 // Type aliases for viem's transaction types
@@ -112,21 +128,34 @@ export interface FunctionCardProps {
   contractAddress: string;
   contractAbi: ContractAbi;
   chain: Chain;
+  // Explains custom errors the contract ABI doesn't declare
+  selectorRegistry?: SelectorRegistry;
 }
 
 export interface EventLogsExplorerProps {
   contractAddress: string;
   contractAbi: ContractAbi;
   chain: Chain;
+  // Decodes logs the contract ABI doesn't declare, e.g. events of linked libraries
+  selectorRegistry?: SelectorRegistry;
+}
+
+export interface StorageExplorerProps {
+  contractAddress: string;
+  storageLayout: StorageLayout;
+  chain: Chain;
+  layoutName: string; // ABI name of the artifact the layout comes from
 }
 
 export interface SetupModalProps {
   open: boolean;
   onComplete: (
     fileHandle: FileSystemFileHandle | null,
-    folderHandle: FileSystemDirectoryHandle | null
+    folderHandle: FileSystemDirectoryHandle | null,
+    hardhatDeployFolder: FileSystemDirectoryHandle | null
   ) => void;
   onSkip: () => void;
+  onImportBundle: (bundle: ConfigBundle, fileName: string) => void;
   hasDeploymentsFile: boolean;
   hasFolderHandle: boolean;
 }
@@ -154,16 +183,42 @@ export interface ContractContextType {
   setSelectedDeployment: (deployment: string) => void;
   selectedContract: string;
   setSelectedContract: (contract: string) => void;
+  // Show a raw calldata form instead of the ABI functions; reset when the contract changes
+  rawCalldataMode: boolean;
+  setRawCalldataMode: (enabled: boolean) => void;
   contractAddress: string;
   setContractAddress: (address: string) => void;
+  // For proxies: the implementation ABI merged with the proxy ABI
   contractAbi: ContractAbi | null;
+  proxyInfo: ProxyInfo | null;
+  implementationContract: string | null;
+  // The implementation's ABI was inferred from its bytecode or picked, not found by address
+  isImplementationInferred: boolean;
+  implementationCandidates: AbiCandidate[];
+  selectImplementationAbi: (abiName: string | null) => void;
+  // For EIP-2535 diamonds: the facets with the functions the loaded ABIs explain
+  diamondFacets: ResolvedFacet[] | null;
+  // Loaded ABIs ranked by how well they match the bytecode at an address
+  inferAbi: (address: string) => Promise<AbiCandidate[]>;
+  // Selectors and event topics of every loaded ABI, for decoding data from any contract
+  selectorRegistry: SelectorRegistry;
   error: string | null;
   setError: (error: string | null) => void;
   abisFolderHandle: FileSystemDirectoryHandle | null;
   setAbisFolderHandle: (handle: FileSystemDirectoryHandle | null) => void;
+  hardhatDeployHandle: FileSystemDirectoryHandle | null;
   abiCache: Map<string, ContractAbi>;
   availableAbis: Set<string>;
-  lookupAbi: (contractName: string) => ContractAbi | null;
+  // network/deployment default to the selected ones
+  matchAbi: (contractName: string, network?: string, deployment?: string) => AbiMatch | null;
+  lookupAbi: (contractName: string, network?: string, deployment?: string) => ContractAbi | null;
+  storageLayouts: Map<string, StorageLayout>;
+  lookupStorageLayout: (contractName: string, network?: string, deployment?: string) => StorageLayout | null;
+  abiPins: AbiPins;
+  pinAbi: (contractName: string, abiName: string | null) => void;
+  adHocContracts: AdHocContract[];
+  addAdHocContract: (contract: AdHocContract) => void;
+  removeAdHocContract: (name: string) => void;
   loadingAbiList: boolean;
   setLoadingAbiList: (loading: boolean) => void;
   isInitializing: boolean;
@@ -173,15 +228,51 @@ export interface ContractContextType {
   setRpcUrl: (url: string) => void;
   wsUrl: string;
   setWsUrl: (url: string) => void;
+  chainRegistry: ChainRegistry;
+  activeChainConfig: ChainConfig;
+  updateChainConfig: (network: string, changes: Partial<ChainConfig>) => void;
+  resetChainConfig: (network: string) => void;
+  rpcStatus: RpcStatus;
+  isCheckingRpc: boolean;
+  rpcChainMismatch: boolean;
+  refreshRpcStatus: () => void;
   activeChain: Chain;
+  getChainForNetwork: (network: string) => Chain;
   handleSelectDeploymentsFile: () => Promise<void>;
   handleSelectAbisFolder: () => Promise<void>;
+  handleSelectHardhatDeployFolder: () => Promise<void>;
   handleSetupComplete: (
     fileHandle: FileSystemFileHandle | null,
-    folderHandle: FileSystemDirectoryHandle | null
+    folderHandle: FileSystemDirectoryHandle | null,
+    hardhatDeployFolder?: FileSystemDirectoryHandle | null
   ) => Promise<void>;
   handleReconfigure: () => void;
-  scanAbisFolder: (dirHandle: FileSystemDirectoryHandle) => Promise<void>;
+  exportConfigBundle: () => void;
+  importConfigBundle: (bundle: ConfigBundle, fileName: string) => Promise<void>;
+  scanAbisFolder: (dirHandle: FileSystemDirectoryHandle) => Promise<ScannedAbis | null>;
+  abiScanReport: ArtifactScanReport | null;
+  sourceStatus: SourceStatus;
+  snapshotSavedAt: number | null;
+  refreshFromSources: () => Promise<void>;
+}
+
+// ABIs and storage layouts read from an ABIs folder
+export interface ScannedAbis {
+  abis: Map<string, ContractAbi>;
+  storageLayouts: Map<string, StorageLayout>;
+}
+
+// Whether the loaded data reflects the live sources, a snapshot that couldn't be checked yet,
+// or files linked through the URL (which are never snapshotted)
+export type SourceStatus = 'checking' | 'live' | 'needs-permission' | 'remote';
+
+export interface WorkspaceContextType {
+  workspaces: Workspace[];
+  activeWorkspace: Workspace;
+  switchWorkspace: (id: string) => void;
+  createWorkspace: (name: string) => void;
+  renameWorkspace: (id: string, name: string) => void;
+  deleteWorkspace: (id: string) => Promise<void>;
 }
 
 // ============================================================================
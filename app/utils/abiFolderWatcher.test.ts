@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAbiFolderWatcher, diffAbiCaches, formatAbiChanges } from './abiFolderWatcher';
+import type { ContractAbi } from '../types';
+
+const TOKEN_ABI = [{ type: 'function', name: 'totalSupply', inputs: [], outputs: [], stateMutability: 'view' }] as ContractAbi;
+const VAULT_ABI = [{ type: 'function', name: 'deposit', inputs: [], outputs: [], stateMutability: 'payable' }] as ContractAbi;
+
+// Folder whose files (by relative path) can be rewritten between scans
+function createFolder(initial: Record<string, unknown>) {
+  const files = new Map<string, File>();
+  const write = (path: string, data: unknown, lastModified: number) => {
+    files.set(path, new File([JSON.stringify(data)], path.split('/').pop()!, { lastModified }));
+  };
+  for (const [path, data] of Object.entries(initial)) write(path, data, 1);
+
+  const textSpy = vi.fn();
+  const directory = (prefix: string): FileSystemDirectoryHandle => ({
+    kind: 'directory',
+    name: prefix.split('/').filter(Boolean).pop() ?? 'out',
+    async *values() {
+      const children = new Set<string>();
+      for (const path of files.keys()) {
+        if (path.startsWith(prefix)) children.add(path.slice(prefix.length).split('/')[0]);
+      }
+      for (const child of children) {
+        const path = `${prefix}${child}`;
+        if (!files.has(path)) {
+          yield directory(`${path}/`);
+          continue;
+        }
+        yield {
+          kind: 'file',
+          name: child,
+          getFile: async () => {
+            const file = files.get(path)!;
+            return {
+              size: file.size,
+              lastModified: file.lastModified,
+              text: () => {
+                textSpy(path);
+                return file.text();
+              },
+            };
+          },
+        };
+      }
+    },
+  } as unknown as FileSystemDirectoryHandle);
+
+  return { handle: directory(''), write, textSpy };
+}
+
+describe('createAbiFolderWatcher', () => {
+  it('only re-parses files whose stamp changed', async () => {
+    const folder = createFolder({ 'Token.sol/Token.json': { abi: TOKEN_ABI }, 'Vault.sol/Vault.json': VAULT_ABI });
+    const watcher = createAbiFolderWatcher(folder.handle);
+
+    const first = await watcher.scan();
+    expect(first.changes).toEqual([
+      { name: 'Token.sol:Token', change: 'added' },
+      { name: 'Vault.sol:Vault', change: 'added' },
+    ]);
+
+    folder.textSpy.mockClear();
+    folder.write('Vault.sol/Vault.json', [...VAULT_ABI, ...TOKEN_ABI], 2);
+    const second = await watcher.scan();
+
+    expect(folder.textSpy.mock.calls).toEqual([['Vault.sol/Vault.json']]);
+    expect(second.changes).toEqual([{ name: 'Vault.sol:Vault', change: 'changed' }]);
+    expect(second.abis).not.toBe(first.abis);
+    expect(second.abis.get('Token.sol:Token')).toBe(first.abis.get('Token.sol:Token'));
+  });
+
+  it('returns the same Map when nothing changed', async () => {
+    const folder = createFolder({ 'Token.sol/Token.json': TOKEN_ABI });
+    const watcher = createAbiFolderWatcher(folder.handle);
+    const first = await watcher.scan();
+
+    // Touched but identical content is not a change
+    folder.write('Token.sol/Token.json', TOKEN_ABI, 3);
+    const second = await watcher.scan();
+
+    expect(second.changes).toEqual([]);
+    expect(second.abis).toBe(first.abis);
+  });
+
+  it('compares the first scan against a baseline and reports removals', async () => {
+    const baseline = new Map([['Token.sol:Token', TOKEN_ABI], ['Old', VAULT_ABI]]);
+    const folder = createFolder({ 'Token.sol/Token.json': TOKEN_ABI });
+    const watcher = createAbiFolderWatcher(folder.handle, baseline);
+
+    const scan = await watcher.scan();
+    expect(scan.changes).toEqual([{ name: 'Old', change: 'removed' }]);
+    expect(scan.abis.get('Token.sol:Token')).toBe(TOKEN_ABI);
+  });
+});
+
+describe('scan report', () => {
+  it('scans nested layouts and reports skipped files', async () => {
+    const folder = createFolder({
+      'contracts/Tokens.sol/TokenA.json': { abi: TOKEN_ABI },
+      'contracts/Tokens.sol/TokenA.dbg.json': { buildInfo: '../build-info/1.json' },
+      'build-info/1.json': { output: {} },
+      'legacy/Vault.abi': VAULT_ABI,
+      'notes.json': { title: 'not an artifact' },
+    });
+
+    const { abis, artifacts, report } = await createAbiFolderWatcher(folder.handle).scan();
+
+    expect(Array.from(abis.keys()).sort()).toEqual(['Vault', 'contracts/Tokens.sol:TokenA']);
+    expect(artifacts.get('contracts/Tokens.sol:TokenA')?.name).toBe('TokenA');
+    expect(report.found.map((found) => found.loader).sort()).toEqual(['abi-file', 'foundry']);
+    expect(report.skipped).toEqual([
+      { path: 'contracts/Tokens.sol/TokenA.dbg.json', reason: 'debug file' },
+      { path: 'build-info/1.json', reason: 'build-info without storage layouts' },
+      { path: 'notes.json', reason: 'no ABI found' },
+    ]);
+  });
+
+  it('attaches storage layouts from build-info to Hardhat artifacts', async () => {
+    const layout = { storage: [], types: null };
+    const folder = createFolder({
+      'build-info/1.json': { output: { contracts: { 'contracts/Token.sol': { Token: { storageLayout: layout } } } } },
+      'contracts/Token.sol/Token.json': { _format: 'hh-sol-artifact-1', contractName: 'Token', sourceName: 'contracts/Token.sol', abi: TOKEN_ABI },
+    });
+
+    const { artifacts, report } = await createAbiFolderWatcher(folder.handle).scan();
+
+    expect(artifacts.get('contracts/Token.sol:Token')?.metadata.storageLayout).toEqual(layout);
+    expect(report.skipped).toEqual([]);
+  });
+
+  it('keeps same-named contracts from different sources apart', async () => {
+    const folder = createFolder({
+      'contracts/IERC20.sol/IERC20.json': TOKEN_ABI,
+      '@openzeppelin/IERC20.sol/IERC20.json': VAULT_ABI,
+    });
+
+    const { abis, report } = await createAbiFolderWatcher(folder.handle).scan();
+
+    expect(abis.get('contracts/IERC20.sol:IERC20')).toEqual(TOKEN_ABI);
+    expect(abis.get('@openzeppelin/IERC20.sol:IERC20')).toEqual(VAULT_ABI);
+    expect(report.skipped).toEqual([]);
+  });
+
+  it('reports duplicate fully-qualified names', async () => {
+    const folder = createFolder({
+      'a/Token.json': { _format: 'hh-sol-artifact-1', contractName: 'Token', sourceName: 'Token.sol', abi: TOKEN_ABI },
+      'b/Token.json': { _format: 'hh-sol-artifact-1', contractName: 'Token', sourceName: 'Token.sol', abi: VAULT_ABI },
+    });
+
+    const { abis, report } = await createAbiFolderWatcher(folder.handle).scan();
+
+    expect(abis.get('Token.sol:Token')).toEqual(TOKEN_ABI);
+    expect(report.skipped).toEqual([
+      { path: 'b/Token.json', reason: 'Token.sol:Token already loaded from a/Token.json' },
+    ]);
+  });
+});
+
+describe('diffAbiCaches / formatAbiChanges', () => {
+  it('summarizes per-contract changes', () => {
+    const changes = diffAbiCaches(new Map([['A', TOKEN_ABI]]), new Map([['A', VAULT_ABI], ['src/B.sol:B', TOKEN_ABI]]));
+    expect(formatAbiChanges(changes)).toBe('A changed, B added');
+    expect(formatAbiChanges(changes, 1)).toBe('A changed, and 1 more');
+  });
+});
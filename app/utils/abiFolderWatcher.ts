@@ -0,0 +1,242 @@
+/**
+ * Incremental ABIs folder watching: the folder is scanned recursively and every
+ * artifact file goes through the artifact loaders (see artifactLoaders.ts). Each
+ * file's `lastModified` and size are remembered between scans, and only files whose
+ * stamp changed are read and parsed again. Unchanged ABIs keep their object identity,
+ * and a scan without changes returns the previous Map itself, so React state only
+ * updates on real changes.
+ *
+ * ABIs are keyed by fully-qualified name ("contracts/Token.sol:Token"), so contracts with
+ * the same name from different sources are kept apart (see abiMatcher.ts for lookups).
+ * Build-info files are read for storage layouts only, which are attached to the artifact
+ * with the same fully-qualified name when the artifact has none.
+ */
+
+import type { ContractAbi } from '../types';
+import { contractNameOf } from './abiMatcher';
+import {
+  ARTIFACT_LOADERS,
+  isBuildInfoPath,
+  loadArtifactFile,
+  loadBuildInfoStorageLayouts,
+  skipReason,
+  type ArtifactLoader,
+  type LoadedArtifact,
+} from './artifactLoaders';
+
+export type AbiChangeKind = 'added' | 'removed' | 'changed';
+
+export interface AbiChange {
+  name: string;
+  change: AbiChangeKind;
+}
+
+export interface ArtifactScanReport {
+  found: { path: string; loader: string; contracts: string[] }[];
+  skipped: { path: string; reason: string }[];
+}
+
+export interface AbiFolderScan {
+  abis: Map<string, ContractAbi>;
+  artifacts: Map<string, LoadedArtifact>; // same (fully-qualified) keys as abis
+  changes: AbiChange[];
+  report: ArtifactScanReport;
+}
+
+export interface AbiFolderWatcher {
+  handle: FileSystemDirectoryHandle;
+  scan: () => Promise<AbiFolderScan>;
+}
+
+interface WatchedFile {
+  size: number;
+  lastModified: number;
+  artifacts: LoadedArtifact[];
+  storageLayouts: Map<string, unknown>; // build-info files only
+  skipReason: string | null; // set when the file holds no artifacts (or, for build-info, no layouts)
+}
+
+type AsyncIterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+};
+
+async function parseArtifactFile(path: string, file: File, loaders: ArtifactLoader[]): Promise<WatchedFile> {
+  const stamp = { size: file.size, lastModified: file.lastModified };
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    return { ...stamp, artifacts: [], storageLayouts: new Map(), skipReason: 'invalid JSON' };
+  }
+
+  const artifacts = loadArtifactFile({ path, name: path.split('/').pop() ?? path, data }, loaders);
+  return artifacts
+    ? { ...stamp, artifacts, storageLayouts: new Map(), skipReason: null }
+    : { ...stamp, artifacts: [], storageLayouts: new Map(), skipReason: 'no ABI found' };
+}
+
+async function parseBuildInfoFile(file: File): Promise<WatchedFile> {
+  const stamp = { size: file.size, lastModified: file.lastModified };
+  const none = { ...stamp, artifacts: [], storageLayouts: new Map(), skipReason: 'build-info without storage layouts' };
+
+  // Build-info files can be large; most don't select the layout output and needn't be parsed
+  const text = await file.text();
+  if (!text.includes('"storageLayout"')) return none;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ...none, skipReason: 'invalid JSON' };
+  }
+  const storageLayouts = loadBuildInfoStorageLayouts(data);
+  return storageLayouts.size > 0 ? { ...none, storageLayouts, skipReason: null } : none;
+}
+
+// Every artifact-like file below a folder, in a stable order; skipped entries are reported
+async function collectFiles(
+  dirHandle: FileSystemDirectoryHandle,
+  prefix: string,
+  report: ArtifactScanReport
+): Promise<{ path: string; handle: FileSystemFileHandle }[]> {
+  const entries: FileSystemHandle[] = [];
+  for await (const entry of (dirHandle as AsyncIterableDirectoryHandle).values()) {
+    entries.push(entry);
+  }
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  const files: { path: string; handle: FileSystemFileHandle }[] = [];
+  for (const entry of entries) {
+    const path = `${prefix}${entry.name}`;
+    const reason = skipReason(path, entry.kind);
+    if (reason) {
+      // Unrelated files are too common to be worth reporting
+      if (reason !== 'not JSON' && reason !== 'hidden') report.skipped.push({ path, reason });
+      continue;
+    }
+
+    if (entry.kind === 'directory') {
+      files.push(...await collectFiles(entry as FileSystemDirectoryHandle, `${path}/`, report));
+    } else {
+      files.push({ path, handle: entry as FileSystemFileHandle });
+    }
+  }
+  return files;
+}
+
+/**
+ * Same ABI content; only compares serialized ABIs when the objects differ
+ */
+export function isSameAbi(a: ContractAbi, b: ContractAbi): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Diff two ABI caches by contract name
+ */
+export function diffAbiCaches(prev: Map<string, ContractAbi>, next: Map<string, ContractAbi>): AbiChange[] {
+  const changes: AbiChange[] = [];
+  for (const [name, abi] of next) {
+    const existing = prev.get(name);
+    if (!existing) {
+      changes.push({ name, change: 'added' });
+    } else if (!isSameAbi(existing, abi)) {
+      changes.push({ name, change: 'changed' });
+    }
+  }
+  for (const name of prev.keys()) {
+    if (!next.has(name)) changes.push({ name, change: 'removed' });
+  }
+  return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Watch an ABIs folder. `baseline` is the cache already loaded for this folder (e.g. from
+ * a snapshot): the first scan reports changes against it and returns it when nothing changed.
+ */
+export function createAbiFolderWatcher(
+  handle: FileSystemDirectoryHandle,
+  baseline: Map<string, ContractAbi> = new Map(),
+  loaders: ArtifactLoader[] = ARTIFACT_LOADERS
+): AbiFolderWatcher {
+  let files = new Map<string, WatchedFile>();
+  let abis = baseline;
+
+  const scan = async (): Promise<AbiFolderScan> => {
+    const report: ArtifactScanReport = { found: [], skipped: [] };
+    const nextFiles = new Map<string, WatchedFile>();
+    const nextAbis = new Map<string, ContractAbi>();
+    const nextArtifacts = new Map<string, LoadedArtifact>();
+    const buildInfoLayouts = new Map<string, unknown>();
+
+    for (const { path, handle: fileHandle } of await collectFiles(handle, '', report)) {
+      let file: File;
+      try {
+        file = await fileHandle.getFile();
+      } catch {
+        report.skipped.push({ path, reason: 'unreadable' });
+        continue;
+      }
+
+      const previous = files.get(path);
+      const watched = previous && previous.size === file.size && previous.lastModified === file.lastModified
+        ? previous
+        : isBuildInfoPath(path)
+        ? await parseBuildInfoFile(file)
+        : await parseArtifactFile(path, file, loaders);
+      nextFiles.set(path, watched);
+
+      if (watched.skipReason) {
+        report.skipped.push({ path, reason: watched.skipReason });
+        continue;
+      }
+      for (const [key, layout] of watched.storageLayouts) buildInfoLayouts.set(key, layout);
+
+      const contracts: string[] = [];
+      for (const loaded of watched.artifacts) {
+        const key = loaded.fullyQualifiedName;
+        const duplicate = nextArtifacts.get(key);
+        if (duplicate) {
+          report.skipped.push({ path, reason: `${key} already loaded from ${duplicate.metadata.path}` });
+          continue;
+        }
+
+        // Keep the previous object for unchanged content so consumers can compare by identity.
+        // The cached artifact is updated too, so the next scan compares by reference only.
+        const existing = abis.get(key);
+        const abi = existing && isSameAbi(existing, loaded.abi) ? existing : loaded.abi;
+        loaded.abi = abi;
+
+        nextAbis.set(key, abi);
+        nextArtifacts.set(key, loaded);
+        contracts.push(key);
+      }
+      if (contracts.length > 0) {
+        report.found.push({ path, loader: watched.artifacts[0].metadata.loader, contracts });
+      }
+    }
+
+    for (const [key, loaded] of nextArtifacts) {
+      const layout = buildInfoLayouts.get(key);
+      if (layout !== undefined && loaded.metadata.storageLayout === undefined) {
+        nextArtifacts.set(key, { ...loaded, metadata: { ...loaded.metadata, storageLayout: layout } });
+      }
+    }
+
+    files = nextFiles;
+    const changes = diffAbiCaches(abis, nextAbis);
+    if (changes.length > 0) abis = nextAbis;
+    return { abis, artifacts: nextArtifacts, changes, report };
+  };
+
+  return { handle, scan };
+}
+
+/**
+ * Short summary of a change list, e.g. "Token changed, Vault added"
+ */
+export function formatAbiChanges(changes: AbiChange[], limit = 5): string {
+  const parts = changes.slice(0, limit).map(({ name, change }) => `${contractNameOf(name)} ${change}`);
+  if (changes.length > limit) parts.push(`and ${changes.length - limit} more`);
+  return parts.join(', ');
+}
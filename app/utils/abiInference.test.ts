@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { toFunctionSelector } from 'viem';
+import { extractPush4Selectors, scoreAbiCandidates, shouldAutoApply, inferAbiCandidates } from './abiInference';
+import type { AbiFunction, ContractAbi } from '../types';
+
+function fn(signature: string): AbiFunction {
+  const [, name, params] = signature.match(/^(\w+)\((.*)\)$/)!;
+  return {
+    type: 'function',
+    name,
+    stateMutability: 'view',
+    inputs: params ? params.split(',').map((type, i) => ({ name: `arg${i}`, type })) : [],
+    outputs: [],
+  };
+}
+
+const TRANSFER = 'transfer(address,uint256)';
+const BALANCE_OF = 'balanceOf(address)';
+const TOTAL_SUPPLY = 'totalSupply()';
+const MINT = 'mint(address,uint256)';
+
+// Dispatcher-like bytecode: DUP1 PUSH4 <selector> EQ for each selector
+function dispatcher(signatures: string[]): `0x${string}` {
+  return `0x6080604052${signatures.map((sig) => `8063${toFunctionSelector(sig).slice(2)}14`).join('')}00`;
+}
+
+describe('extractPush4Selectors', () => {
+  it('collects PUSH4 constants', () => {
+    expect(extractPush4Selectors(dispatcher([TRANSFER, BALANCE_OF]))).toEqual([
+      toFunctionSelector(TRANSFER),
+      toFunctionSelector(BALANCE_OF),
+    ]);
+  });
+
+  it('skips the data of other PUSH instructions', () => {
+    // PUSH5 whose data contains 0x63 followed by four bytes
+    expect(extractPush4Selectors('0x64631234567800')).toEqual([]);
+  });
+
+  it('ignores a truncated PUSH4 at the end', () => {
+    expect(extractPush4Selectors('0x63aabb')).toEqual([]);
+  });
+});
+
+describe('scoreAbiCandidates', () => {
+  const abiCache = new Map<string, ContractAbi>([
+    ['IERC20', [fn(TRANSFER), fn(BALANCE_OF), fn(TOTAL_SUPPLY)]],
+    ['MintableToken', [fn(TRANSFER), fn(BALANCE_OF), fn(TOTAL_SUPPLY), fn(MINT)]],
+    ['Unrelated', [fn('foo()')]],
+    ['EventsOnly', [{ type: 'event', name: 'Transfer', inputs: [] }]],
+  ]);
+
+  it('ranks the ABI covering the bytecode best first and drops non-matching ones', () => {
+    const selectors = extractPush4Selectors(dispatcher([TRANSFER, BALANCE_OF, TOTAL_SUPPLY, MINT]));
+    const candidates = scoreAbiCandidates(selectors, abiCache);
+
+    expect(candidates.map((candidate) => candidate.abiName)).toEqual(['MintableToken', 'IERC20']);
+    expect(candidates[0]).toMatchObject({ score: 1, matched: 4, functionCount: 4 });
+    expect(candidates[1].score).toBeCloseTo(0.75);
+  });
+});
+
+describe('shouldAutoApply', () => {
+  const candidate = (score: number) => ({ abiName: `A${score}`, score, matched: 1, functionCount: 1 });
+
+  it('requires a high score and a clear lead', () => {
+    expect(shouldAutoApply([candidate(0.95), candidate(0.5)])).toBe(true);
+    expect(shouldAutoApply([candidate(0.95), candidate(0.9)])).toBe(false);
+    expect(shouldAutoApply([candidate(0.6)])).toBe(false);
+    expect(shouldAutoApply([])).toBe(false);
+  });
+});
+
+describe('inferAbiCandidates', () => {
+  it('returns nothing for accounts without code', async () => {
+    const client = { getCode: vi.fn(async () => undefined) };
+    expect(await inferAbiCandidates(client as never, '0x1111111111111111111111111111111111111111', new Map())).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * ABI inference for unknown addresses: the function dispatcher of Solidity and Vyper
+ * contracts compares the calldata selector against PUSH4 constants, so the runtime
+ * bytecode reveals which functions a contract implements. Every loaded ABI is scored
+ * by how well its function selectors cover the ones found in the bytecode.
+ */
+
+import { toFunctionSelector, type Address, type Hex, type PublicClient } from 'viem';
+import type { ContractAbi } from '../types';
+
+const PUSH1 = 0x60;
+const PUSH4 = 0x63;
+const PUSH32 = 0x7f;
+
+// Candidates scoring at least this much, and clearly ahead of the next one, are applied automatically
+export const AUTO_APPLY_MIN_SCORE = 0.8;
+const AUTO_APPLY_MIN_LEAD = 0.2;
+
+export interface AbiCandidate {
+  abiName: string;
+  score: number; // Jaccard similarity of ABI and bytecode selectors, 0..1
+  matched: number; // ABI functions found in the bytecode
+  functionCount: number; // Functions in the ABI
+}
+
+// The subset of a viem public client used here
+type InferenceClient = Pick<PublicClient, 'getCode'>;
+
+/**
+ * Constants pushed with PUSH4, in order of appearance. Push data of other PUSH
+ * instructions is skipped so it isn't mistaken for opcodes.
+ */
+export function extractPush4Selectors(code: Hex): Hex[] {
+  const bytes = code.slice(2);
+  const selectors = new Set<Hex>();
+
+  for (let i = 0; i < bytes.length; i += 2) {
+    const opcode = parseInt(bytes.slice(i, i + 2), 16);
+    if (opcode < PUSH1 || opcode > PUSH32) continue;
+
+    const size = opcode - PUSH1 + 1;
+    if (opcode === PUSH4 && i + 2 + size * 2 <= bytes.length) {
+      selectors.add(`0x${bytes.slice(i + 2, i + 2 + size * 2).toLowerCase()}`);
+    }
+    i += size * 2;
+  }
+
+  return Array.from(selectors);
+}
+
+/**
+ * Score every ABI with functions against the bytecode selectors, best first.
+ * ABIs without any matching function are left out.
+ */
+export function scoreAbiCandidates(selectors: Hex[], abiCache: Map<string, ContractAbi>): AbiCandidate[] {
+  const found = new Set(selectors);
+  const candidates: AbiCandidate[] = [];
+
+  for (const [abiName, abi] of abiCache) {
+    const abiSelectors = new Set<Hex>();
+    for (const item of abi) {
+      if (item.type === 'function') {
+        abiSelectors.add(toFunctionSelector(item as Parameters<typeof toFunctionSelector>[0]));
+      }
+    }
+    if (abiSelectors.size === 0) continue;
+
+    let matched = 0;
+    for (const selector of abiSelectors) {
+      if (found.has(selector)) matched++;
+    }
+    if (matched === 0) continue;
+
+    // PUSH4 constants also include non-selector values, so the union overestimates a
+    // little; it still ranks a full implementation above an interface it implements
+    const score = matched / (abiSelectors.size + found.size - matched);
+    candidates.push({ abiName, score, matched, functionCount: abiSelectors.size });
+  }
+
+  return candidates.sort((a, b) => b.score - a.score || b.matched - a.matched || a.abiName.localeCompare(b.abiName));
+}
+
+/**
+ * Whether the best candidate is good enough to use without asking
+ */
+export function shouldAutoApply(candidates: AbiCandidate[]): boolean {
+  const [best, next] = candidates;
+  if (!best || best.score < AUTO_APPLY_MIN_SCORE) return false;
+  return !next || best.score - next.score >= AUTO_APPLY_MIN_LEAD;
+}
+
+/**
+ * Fetch the runtime code of an address and rank the loaded ABIs against it.
+ * Returns an empty list for accounts without code.
+ */
+export async function inferAbiCandidates(
+  client: InferenceClient,
+  address: Address,
+  abiCache: Map<string, ContractAbi>
+): Promise<AbiCandidate[]> {
+  const code = await client.getCode({ address });
+  if (!code || code === '0x') return [];
+  return scoreAbiCandidates(extractPush4Selectors(code), abiCache);
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { findBestAbiMatch } from './abiMatcher';
+import { findBestAbiMatch, contractNameOf, isAmbiguousMatch, getAbiPin, setAbiPin } from './abiMatcher';
 
 describe('findBestAbiMatch', () => {
   const abis = new Set([
@@ -81,3 +81,56 @@ describe('findBestAbiMatch', () => {
     expect(result).toEqual({ abiName: 'ERC20', score: 1 });
   });
 });
+
+describe('fully-qualified ABI names', () => {
+  const abis = new Set([
+    'contracts/interfaces/IERC20.sol:IERC20',
+    '@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20',
+    'contracts/Vault.sol:Vault',
+  ]);
+
+  it('resolves short names against the contract-name part', () => {
+    expect(findBestAbiMatch('Vault', abis)).toEqual({ abiName: 'contracts/Vault.sol:Vault', score: 1 });
+  });
+
+  it('resolves a fully-qualified name exactly', () => {
+    expect(findBestAbiMatch('contracts/interfaces/IERC20.sol:IERC20', abis)).toEqual({
+      abiName: 'contracts/interfaces/IERC20.sol:IERC20',
+      score: 1,
+    });
+  });
+
+  it('reports ambiguous short names with all candidates', () => {
+    const result = findBestAbiMatch('IERC20', abis);
+    expect(isAmbiguousMatch(result)).toBe(true);
+    expect(result!.candidates).toEqual([
+      '@openzeppelin/contracts/token/ERC20/IERC20.sol:IERC20',
+      'contracts/interfaces/IERC20.sol:IERC20',
+    ]);
+  });
+
+  it('splits contract names from fully-qualified names', () => {
+    expect(contractNameOf('contracts/Vault.sol:Vault')).toBe('Vault');
+    expect(contractNameOf('Vault')).toBe('Vault');
+  });
+});
+
+describe('pinned ABIs', () => {
+  const abis = new Set(['IGenLayerStaking', 'StakingImpl']);
+
+  it('prefers the pinned ABI over the heuristics', () => {
+    expect(findBestAbiMatch('Staking', abis)).toEqual({ abiName: 'IGenLayerStaking', score: 3 });
+    expect(findBestAbiMatch('Staking', abis, 'StakingImpl')).toEqual({ abiName: 'StakingImpl', score: 0 });
+  });
+
+  it('ignores pins of ABIs that are no longer available', () => {
+    expect(findBestAbiMatch('Staking', abis, 'OldStaking')).toEqual({ abiName: 'IGenLayerStaking', score: 3 });
+  });
+
+  it('stores pins per network, deployment and contract', () => {
+    const pins = setAbiPin({}, 'testnet', 'v1', 'Staking', 'StakingImpl');
+    expect(getAbiPin(pins, 'testnet', 'v1', 'Staking')).toBe('StakingImpl');
+    expect(getAbiPin(pins, 'testnet', 'v2', 'Staking')).toBeNull();
+    expect(setAbiPin(pins, 'testnet', 'v1', 'Staking', null)).toEqual({});
+  });
+});
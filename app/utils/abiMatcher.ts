@@ -2,56 +2,159 @@
  * Fuzzy ABI matching: resolves deployment contract names to ABI folder names
  * when they don't match exactly (e.g., "Staking" -> "IGenLayerStaking").
  *
+ * ABIs may be keyed by fully-qualified name ("contracts/token/Token.sol:Token") or by
+ * bare contract name. A key equal to the looked-up name always wins; otherwise names
+ * are compared against the contract-name part of each key.
+ *
  * Priority order (lower score = better):
  * 1. Exact match
  * 2. Case-insensitive exact match
  * 3. Suffix match (case-insensitive) — contract name is a suffix of ABI name
  * 4. Substring match (case-insensitive) — contract name appears inside ABI name
  *
- * Tie-break at same level: shorter ABI name wins (more specific).
+ * Tie-break at same level: shorter ABI name wins (more specific). ABIs that are still
+ * tied (e.g. the same contract name from two source files) make the match ambiguous:
+ * all of them are returned as candidates instead of picking one.
+ *
+ * Users can pin an ABI for a contract of a deployment, which bypasses the heuristics
+ * (score 0) as long as the pinned ABI is still available.
  */
 
 export interface AbiMatch {
   abiName: string;
   score: number;
+  candidates?: string[]; // Only set when several ABIs match equally well
+}
+
+// Pinned ABI names by network, deployment and contract name
+export type AbiPins = Record<string, Record<string, Record<string, string>>>;
+
+export const ABI_MATCH_LABELS: Record<number, string> = {
+  0: 'pinned',
+  1: 'exact',
+  2: 'case-insensitive',
+  3: 'suffix',
+  4: 'substring',
+};
+
+/**
+ * The ABI pinned for a contract of a deployment, if any
+ */
+export function getAbiPin(pins: AbiPins, network: string, deployment: string, contractName: string): string | null {
+  return pins[network]?.[deployment]?.[contractName] ?? null;
+}
+
+/**
+ * Pin an ABI for a contract of a deployment, or remove the pin when abiName is null.
+ * Returns a new object; empty levels are dropped.
+ */
+export function setAbiPin(
+  pins: AbiPins,
+  network: string,
+  deployment: string,
+  contractName: string,
+  abiName: string | null
+): AbiPins {
+  const contracts = { ...pins[network]?.[deployment] };
+  if (abiName === null) {
+    delete contracts[contractName];
+  } else {
+    contracts[contractName] = abiName;
+  }
+
+  const deployments = { ...pins[network], [deployment]: contracts };
+  if (Object.keys(contracts).length === 0) delete deployments[deployment];
+
+  const next = { ...pins, [network]: deployments };
+  if (Object.keys(deployments).length === 0) delete next[network];
+  return next;
+}
+
+/**
+ * Add pins to a set of pins, replacing existing pins for the same contracts
+ */
+export function mergeAbiPins(pins: AbiPins, added: AbiPins): AbiPins {
+  let next = pins;
+  for (const [network, deployments] of Object.entries(added)) {
+    for (const [deployment, contracts] of Object.entries(deployments)) {
+      for (const [contractName, abiName] of Object.entries(contracts)) {
+        next = setAbiPin(next, network, deployment, contractName, abiName);
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Contract-name part of an ABI key: "contracts/Token.sol:Token" -> "Token"
+ */
+export function contractNameOf(abiName: string): string {
+  const separator = abiName.lastIndexOf(':');
+  return separator === -1 ? abiName : abiName.slice(separator + 1);
+}
+
+/**
+ * Whether an ABI key is a fully-qualified "path/File.sol:Contract" name
+ */
+export function isFullyQualifiedName(abiName: string): boolean {
+  return abiName.includes(':');
+}
+
+/**
+ * Whether a match has several equally good candidates
+ */
+export function isAmbiguousMatch(match: AbiMatch | null): boolean {
+  return (match?.candidates?.length ?? 0) > 1;
 }
 
 export function findBestAbiMatch(
   contractName: string,
-  availableAbiNames: Set<string> | string[]
+  availableAbiNames: Set<string> | string[],
+  pinnedAbiName?: string | null
 ): AbiMatch | null {
   const names = availableAbiNames instanceof Set
     ? Array.from(availableAbiNames)
     : availableAbiNames;
 
   if (!contractName || names.length === 0) return null;
+  // A pin whose ABI disappeared from the folder falls back to the heuristics
+  if (pinnedAbiName && names.includes(pinnedAbiName)) return { abiName: pinnedAbiName, score: 0 };
+  if (names.includes(contractName)) return { abiName: contractName, score: 1 };
 
-  const lowerContract = contractName.toLowerCase();
-  let bestMatch: AbiMatch | null = null;
+  const targetName = contractNameOf(contractName);
+  const lowerContract = targetName.toLowerCase();
+  let bestScore: number | null = null;
+  let bestLength = 0;
+  let tied: string[] = [];
 
   for (const abiName of names) {
+    const name = contractNameOf(abiName);
     let score: number | null = null;
 
-    if (abiName === contractName) {
+    if (name === targetName) {
       score = 1;
-    } else if (abiName.toLowerCase() === lowerContract) {
+    } else if (name.toLowerCase() === lowerContract) {
       score = 2;
-    } else if (abiName.toLowerCase().endsWith(lowerContract)) {
+    } else if (name.toLowerCase().endsWith(lowerContract)) {
       score = 3;
-    } else if (abiName.toLowerCase().includes(lowerContract)) {
+    } else if (name.toLowerCase().includes(lowerContract)) {
       score = 4;
     }
 
     if (score === null) continue;
 
-    if (
-      !bestMatch ||
-      score < bestMatch.score ||
-      (score === bestMatch.score && abiName.length < bestMatch.abiName.length)
-    ) {
-      bestMatch = { abiName, score };
+    if (bestScore === null || score < bestScore || (score === bestScore && name.length < bestLength)) {
+      bestScore = score;
+      bestLength = name.length;
+      tied = [abiName];
+    } else if (score === bestScore && name.length === bestLength) {
+      tied.push(abiName);
     }
   }
 
-  return bestMatch;
+  if (bestScore === null) return null;
+  if (tied.length === 1) return { abiName: tied[0], score: bestScore };
+
+  const candidates = tied.sort();
+  return { abiName: candidates[0], score: bestScore, candidates };
 }
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adHocContractKey,
+  createAdHocContract,
+  findAdHocContractByAddress,
+  getAdHocContract,
+  mergeAdHocContracts,
+  parseAbiInput,
+  STANDARD_ABIS,
+  type AdHocContract,
+} from './adHocContracts';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('parseAbiInput', () => {
+  it('parses human-readable signatures, ignoring blank lines and comments', () => {
+    const abi = parseAbiInput('signatures', [
+      '// token',
+      'function balanceOf(address owner) view returns (uint256);',
+      '',
+      'event Transfer(address indexed from, address indexed to, uint256 value)',
+    ].join('\n'));
+
+    expect(abi).toHaveLength(2);
+    expect(abi[0]).toMatchObject({ type: 'function', name: 'balanceOf', stateMutability: 'view' });
+    expect(abi[1]).toMatchObject({ type: 'event', name: 'Transfer' });
+  });
+
+  it('accepts raw ABI arrays and artifacts', () => {
+    const abi = [{ type: 'function', name: 'totalSupply', stateMutability: 'view', inputs: [], outputs: [] }];
+    expect(parseAbiInput('json', JSON.stringify(abi))).toEqual(abi);
+    expect(parseAbiInput('json', JSON.stringify({ abi }))).toEqual(abi);
+  });
+
+  it('returns the standard ABIs', () => {
+    expect(parseAbiInput('standard', 'ERC20')).toBe(STANDARD_ABIS.ERC20);
+  });
+
+  it('throws readable errors for invalid input', () => {
+    expect(() => parseAbiInput('json', '{not json')).toThrow('ABI is not valid JSON');
+    expect(() => parseAbiInput('json', '{"foo":1}')).toThrow(/ABI array/);
+    expect(() => parseAbiInput('signatures', '  \n')).toThrow('Enter at least one signature');
+    expect(() => parseAbiInput('signatures', 'function (')).toThrow(/Invalid signature/);
+  });
+});
+
+describe('createAdHocContract', () => {
+  it('validates name and address', () => {
+    expect(() => createAdHocContract('', TOKEN, 'standard', 'ERC20')).toThrow('Name is required');
+    expect(() => createAdHocContract('Token', '0x123', 'standard', 'ERC20')).toThrow('Invalid address');
+    expect(createAdHocContract(' Token ', TOKEN, 'standard', 'ERC20')).toMatchObject({ name: 'Token', address: TOKEN });
+  });
+});
+
+describe('lookups', () => {
+  const contracts: AdHocContract[] = [{ name: 'Token', address: TOKEN, abi: [], source: 'standard' }];
+
+  it('resolves contract keys', () => {
+    expect(getAdHocContract(adHocContractKey('Token'), contracts)).toBe(contracts[0]);
+    expect(getAdHocContract('Token', contracts)).toBeNull();
+  });
+
+  it('finds contracts by address case-insensitively', () => {
+    expect(findAdHocContractByAddress(TOKEN.toLowerCase(), contracts)).toBe(contracts[0]);
+  });
+});
+
+describe('mergeAdHocContracts', () => {
+  const OTHER = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+  it('keeps every added contract and replaces existing ones by name', () => {
+    const existing: AdHocContract[] = [
+      { name: 'Token', address: TOKEN, abi: [], source: 'standard' },
+      { name: 'Kept', address: TOKEN, abi: [], source: 'standard' },
+    ];
+    const labels: AdHocContract[] = [
+      { name: 'Token', address: OTHER, abi: [], source: 'json' },
+      { name: 'Treasury', address: OTHER, abi: [], source: 'json' },
+      { name: 'Multisig', address: TOKEN, abi: [], source: 'json' },
+    ];
+
+    expect(mergeAdHocContracts(existing, labels)).toEqual([existing[1], ...labels]);
+  });
+});
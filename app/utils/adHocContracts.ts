@@ -0,0 +1,134 @@
+/**
+ * Ad-hoc contracts: any address paired with an ABI the user provides directly,
+ * without a deployments file or ABIs folder.
+ *
+ * The ABI can be given as:
+ * - JSON (a raw ABI array or an artifact with an `abi` field)
+ * - Human-readable signatures, one per line (`function balanceOf(address) view returns (uint256)`)
+ * - A known standard (ERC20, ERC721, ERC1155)
+ *
+ * Ad-hoc contracts share the contract name namespace with deployment contracts
+ * through the `adhoc:` key prefix, so lookupAbi and the contract selection work
+ * for both.
+ */
+
+import { parseAbi, erc20Abi, erc721Abi, erc1155Abi, isAddress } from 'viem';
+import type { ContractAbi } from '../types';
+
+export type AdHocAbiSource = 'json' | 'signatures' | 'standard';
+
+export type StandardAbiName = 'ERC20' | 'ERC721' | 'ERC1155';
+
+export interface AdHocContract {
+  name: string;
+  address: string;
+  abi: ContractAbi;
+  source: AdHocAbiSource;
+}
+
+export const ADHOC_CONTRACT_PREFIX = 'adhoc:';
+
+export const STANDARD_ABIS: Record<StandardAbiName, ContractAbi> = {
+  ERC20: erc20Abi as unknown as ContractAbi,
+  ERC721: erc721Abi as unknown as ContractAbi,
+  ERC1155: erc1155Abi as unknown as ContractAbi,
+};
+
+/**
+ * Contract key used in selections and lookupAbi, e.g. "adhoc:USDC"
+ */
+export function adHocContractKey(name: string): string {
+  return `${ADHOC_CONTRACT_PREFIX}${name}`;
+}
+
+export function isAdHocContractKey(key: string): boolean {
+  return key.startsWith(ADHOC_CONTRACT_PREFIX);
+}
+
+/**
+ * Find the ad-hoc contract for a key produced by adHocContractKey
+ */
+export function getAdHocContract(key: string, contracts: AdHocContract[]): AdHocContract | null {
+  if (!isAdHocContractKey(key)) return null;
+  const name = key.slice(ADHOC_CONTRACT_PREFIX.length);
+  return contracts.find((contract) => contract.name === name) ?? null;
+}
+
+/**
+ * Find an ad-hoc contract by address (case-insensitive)
+ */
+export function findAdHocContractByAddress(address: string, contracts: AdHocContract[]): AdHocContract | null {
+  const normalizedAddress = address.toLowerCase();
+  return contracts.find((contract) => contract.address.toLowerCase() === normalizedAddress) ?? null;
+}
+
+/**
+ * Add contracts to a list, replacing existing ones with the same name
+ */
+export function mergeAdHocContracts(contracts: AdHocContract[], added: AdHocContract[]): AdHocContract[] {
+  const addedNames = new Set(added.map((contract) => contract.name));
+  return [...contracts.filter((contract) => !addedNames.has(contract.name)), ...added];
+}
+
+/**
+ * Parse user input into an ABI. Throws with a readable message when the input is invalid.
+ */
+export function parseAbiInput(source: AdHocAbiSource, input: string): ContractAbi {
+  switch (source) {
+    case 'standard': {
+      const abi = STANDARD_ABIS[input as StandardAbiName];
+      if (!abi) throw new Error(`Unknown standard "${input}"`);
+      return abi;
+    }
+
+    case 'json': {
+      let data: unknown;
+      try {
+        data = JSON.parse(input);
+      } catch {
+        throw new Error('ABI is not valid JSON');
+      }
+      const abi = Array.isArray(data) ? data : (data as { abi?: unknown })?.abi;
+      if (!Array.isArray(abi)) {
+        throw new Error('JSON must be an ABI array or an object with an "abi" field');
+      }
+      return abi as ContractAbi;
+    }
+
+    case 'signatures': {
+      const signatures = input
+        .split('\n')
+        .map((line) => line.trim().replace(/;$/, ''))
+        .filter((line) => line && !line.startsWith('//'));
+      if (signatures.length === 0) {
+        throw new Error('Enter at least one signature');
+      }
+      try {
+        return parseAbi(signatures) as unknown as ContractAbi;
+      } catch (err) {
+        throw new Error('Invalid signature: ' + (err instanceof Error ? err.message.split('\n')[0] : 'Unknown error'));
+      }
+    }
+  }
+}
+
+/**
+ * Validate and build an ad-hoc contract from the Sidebar form
+ */
+export function createAdHocContract(
+  name: string,
+  address: string,
+  source: AdHocAbiSource,
+  abiInput: string
+): AdHocContract {
+  const trimmedName = name.trim();
+  if (!trimmedName) throw new Error('Name is required');
+  if (!isAddress(address.trim())) throw new Error('Invalid address');
+
+  return {
+    name: trimmedName,
+    address: address.trim(),
+    abi: parseAbiInput(source, abiInput),
+    source,
+  };
+}
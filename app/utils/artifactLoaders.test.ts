@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { isBuildInfoPath, loadArtifactFile, loadBuildInfoStorageLayouts, skipReason } from './artifactLoaders';
+import type { ContractAbi } from '../types';
+
+const ABI = [{ type: 'function', name: 'totalSupply', inputs: [], outputs: [], stateMutability: 'view' }] as ContractAbi;
+
+function load(path: string, data: unknown) {
+  return loadArtifactFile({ path, name: path.split('/').pop()!, data });
+}
+
+describe('loadArtifactFile', () => {
+  it('loads Hardhat artifacts with their source name', () => {
+    const [artifact] = load('contracts/token/Token.sol/Token.json', {
+      _format: 'hh-sol-artifact-1',
+      contractName: 'Token',
+      sourceName: 'contracts/token/Token.sol',
+      abi: ABI,
+      deployedBytecode: '0x6080',
+    })!;
+
+    expect(artifact.fullyQualifiedName).toBe('contracts/token/Token.sol:Token');
+    expect(artifact.metadata).toMatchObject({ loader: 'hardhat', deployedBytecode: '0x6080' });
+  });
+
+  it('loads one of several Foundry contracts of a source file', () => {
+    const [artifact] = load('Tokens.sol/TokenB.json', {
+      abi: ABI,
+      deployedBytecode: { object: '0x60' },
+      metadata: { settings: { compilationTarget: { 'src/Tokens.sol': 'TokenB' } } },
+    })!;
+
+    expect(artifact.name).toBe('TokenB');
+    expect(artifact.fullyQualifiedName).toBe('src/Tokens.sol:TokenB');
+    expect(artifact.metadata.deployedBytecode).toBe('0x60');
+  });
+
+  it('loads Truffle artifacts', () => {
+    const [artifact] = load('build/contracts/Vault.json', {
+      contractName: 'Vault',
+      abi: ABI,
+      sourcePath: '/home/dev/project/contracts/Vault.sol',
+      schemaVersion: '3.4.0',
+    })!;
+
+    expect(artifact.metadata.loader).toBe('truffle');
+    expect(artifact.fullyQualifiedName).toBe('Vault.sol:Vault');
+  });
+
+  it('loads every contract of Vyper combined_json output', () => {
+    const artifacts = load('vyper.json', {
+      'contracts/Pool.vy': { abi: ABI, bytecode_runtime: '0x61' },
+      'contracts/Gauge.vy': { abi: ABI },
+      version: '0.3.10',
+    })!;
+
+    expect(artifacts.map((artifact) => artifact.fullyQualifiedName)).toEqual([
+      'contracts/Pool.vy:Pool',
+      'contracts/Gauge.vy:Gauge',
+    ]);
+    expect(artifacts[0].metadata).toMatchObject({ loader: 'vyper', deployedBytecode: '0x61' });
+  });
+
+  it('loads bare .abi files and plain ABI JSON', () => {
+    expect(load('abis/ERC20.abi', ABI)![0]).toMatchObject({
+      name: 'ERC20',
+      fullyQualifiedName: 'ERC20',
+      metadata: { loader: 'abi-file' },
+    });
+    expect(load('abis/Staking.json', ABI)![0]).toMatchObject({ name: 'Staking', metadata: { loader: 'json' } });
+  });
+
+  it('returns null for files without an ABI', () => {
+    expect(load('package.json', { name: 'app', version: '1.0.0' })).toBeNull();
+  });
+});
+
+describe('loadBuildInfoStorageLayouts', () => {
+  it('reads layouts from the compiler output by fully-qualified name', () => {
+    const layout = { storage: [], types: null };
+    const buildInfo = {
+      _format: 'hh-sol-build-info-1',
+      output: { contracts: { 'contracts/Token.sol': { Token: { abi: ABI, storageLayout: layout }, IToken: { abi: ABI } } } },
+    };
+
+    expect(isBuildInfoPath('artifacts/build-info/0f3c.json')).toBe(true);
+    expect(Array.from(loadBuildInfoStorageLayouts(buildInfo))).toEqual([['contracts/Token.sol:Token', layout]]);
+    expect(loadBuildInfoStorageLayouts({ output: {} }).size).toBe(0);
+  });
+});
+
+describe('skipReason', () => {
+  it('skips debug files and non-JSON files', () => {
+    expect(skipReason('artifacts/build-info', 'directory')).toBeNull();
+    expect(skipReason('Token.sol/Token.dbg.json', 'file')).toBe('debug file');
+    expect(skipReason('README.md', 'file')).toBe('not JSON');
+    expect(skipReason('Token.sol/Token.json', 'file')).toBeNull();
+  });
+});
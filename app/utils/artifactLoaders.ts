@@ -0,0 +1,273 @@
+/**
+ * Artifact loaders: recognise the compiler output layouts an ABIs folder may contain
+ * and turn each artifact file into one or more ABIs.
+ *
+ * Supported layouts (tried in registry order, the first loader that accepts a file wins):
+ * - Hardhat:  artifacts/contracts/.../<File>.sol/<Contract>.json  (`_format: "hh-sol-artifact-1"`)
+ * - Foundry:  out/<File>.sol/<Contract>.json, including several contracts per source file
+ * - Truffle:  build/contracts/<Contract>.json  (`contractName` + `abi`)
+ * - Vyper:    `vyper -f combined_json` output, or artifacts whose source is a .vy file
+ * - Raw ABI:  <Contract>.abi / <Contract>.abi.json files holding a bare ABI array
+ * - Plain JSON: any other .json file holding an ABI array or an object with an `abi` field
+ *
+ * Hardhat `*.dbg.json` debug files are skipped without being read. Files in `build-info` folders
+ * hold no ABIs to load, only the storage layouts Hardhat leaves out of its artifacts (see
+ * loadBuildInfoStorageLayouts).
+ */
+
+import type { ContractAbi } from '../types';
+
+export interface ArtifactMetadata {
+  loader: string;
+  path: string; // path of the artifact file, relative to the scanned folder
+  sourceName?: string; // e.g. "contracts/token/Token.sol"
+  deployedBytecode?: string;
+  storageLayout?: unknown;
+}
+
+export interface LoadedArtifact {
+  name: string; // contract name, e.g. "Token"
+  fullyQualifiedName: string; // "<source path>:<contract name>", or just the name when the source is unknown
+  abi: ContractAbi;
+  metadata: ArtifactMetadata;
+}
+
+export interface ArtifactFile {
+  path: string;
+  name: string;
+  data: unknown; // parsed JSON
+}
+
+export interface ArtifactLoader {
+  name: string;
+  // Artifacts in the file, or null when the loader doesn't recognise it
+  load: (file: ArtifactFile) => LoadedArtifact[] | null;
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isAbi(value: unknown): value is ContractAbi {
+  return Array.isArray(value) && value.every((item) => isObject(item) && typeof item.type === 'string');
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() ?? path;
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/(\.abi)?\.json$/, '').replace(/\.abi$/, '');
+}
+
+// Parent directory name, e.g. "Tokens.sol" for "out/Tokens.sol/TokenA.json"
+function parentName(path: string): string {
+  const parts = path.split('/');
+  return parts.length > 1 ? parts[parts.length - 2] : '';
+}
+
+// Parent directory path, e.g. "out/Tokens.sol" for "out/Tokens.sol/TokenA.json"
+function parentPath(path: string): string {
+  return path.split('/').slice(0, -1).join('/');
+}
+
+// Bytecode is a hex string (Hardhat, Truffle) or `{ object: "0x..." }` (Foundry)
+function bytecodeOf(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (isObject(value) && typeof value.object === 'string') return value.object;
+  return undefined;
+}
+
+function artifact(
+  name: string,
+  sourceName: string | null,
+  abi: ContractAbi,
+  metadata: ArtifactMetadata
+): LoadedArtifact {
+  return sourceName
+    ? { name, fullyQualifiedName: `${sourceName}:${name}`, abi, metadata: { ...metadata, sourceName } }
+    : { name, fullyQualifiedName: name, abi, metadata };
+}
+
+export const hardhatLoader: ArtifactLoader = {
+  name: 'hardhat',
+  load: ({ path, data }) => {
+    if (!isObject(data) || typeof data._format !== 'string' || !data._format.startsWith('hh-')) return null;
+    if (!isAbi(data.abi) || typeof data.contractName !== 'string') return null;
+
+    return [artifact(data.contractName, String(data.sourceName ?? parentPath(path)), data.abi, {
+      loader: 'hardhat',
+      path,
+      deployedBytecode: bytecodeOf(data.deployedBytecode),
+      // Usually only in build-info (matched by the folder watcher), some plugins copy it here
+      storageLayout: data.storageLayout,
+    })];
+  },
+};
+
+// Foundry writes one <Contract>.json per contract into a directory named after the source file
+export const foundryLoader: ArtifactLoader = {
+  name: 'foundry',
+  load: ({ path, name, data }) => {
+    const directory = parentName(path);
+    if (!/\.(sol|vy)$/.test(directory)) return null;
+
+    const abi = Array.isArray(data) ? data : isObject(data) ? data.abi : null;
+    if (!isAbi(abi)) return null;
+
+    // The source path is only in the compiler metadata; fall back to the artifact's folder
+    const compilationTarget = isObject(data) && isObject(data.metadata) && isObject(data.metadata.settings)
+      ? data.metadata.settings.compilationTarget
+      : null;
+    const ast = isObject(data) && isObject(data.ast) ? data.ast : null;
+    const sourceName = isObject(compilationTarget)
+      ? Object.keys(compilationTarget)[0]
+      : typeof ast?.absolutePath === 'string'
+      ? ast.absolutePath
+      : parentPath(path);
+
+    return [artifact(stripExtension(name), sourceName, abi, {
+      loader: 'foundry',
+      path,
+      deployedBytecode: isObject(data) ? bytecodeOf(data.deployedBytecode) : undefined,
+      storageLayout: isObject(data) ? data.storageLayout : undefined,
+    })];
+  },
+};
+
+export const truffleLoader: ArtifactLoader = {
+  name: 'truffle',
+  load: ({ path, data }) => {
+    if (!isObject(data) || typeof data.contractName !== 'string' || !isAbi(data.abi)) return null;
+    if (typeof data.sourcePath !== 'string' && typeof data.schemaVersion !== 'string') return null;
+    // Vyper sources compiled by Truffle/Ape are handled by the Vyper loader
+    if (typeof data.sourcePath === 'string' && data.sourcePath.endsWith('.vy')) return null;
+
+    const sourceName = isObject(data.ast) && typeof data.ast.absolutePath === 'string'
+      ? data.ast.absolutePath
+      : baseName(String(data.sourcePath ?? `${data.contractName}.sol`));
+
+    return [artifact(data.contractName, sourceName, data.abi, {
+      loader: 'truffle',
+      path,
+      deployedBytecode: bytecodeOf(data.deployedBytecode),
+    })];
+  },
+};
+
+export const vyperLoader: ArtifactLoader = {
+  name: 'vyper',
+  load: ({ path, data }) => {
+    if (!isObject(data)) return null;
+
+    // Artifact of a single Vyper contract (Ape, Truffle)
+    const sourceName = [data.sourceId, data.sourceName, data.sourcePath].find(
+      (value): value is string => typeof value === 'string' && value.endsWith('.vy')
+    );
+    if (sourceName && isAbi(data.abi)) {
+      const contractName = typeof data.contractName === 'string'
+        ? data.contractName
+        : baseName(sourceName).replace(/\.vy$/, '');
+      return [artifact(contractName, sourceName, data.abi, {
+        loader: 'vyper',
+        path,
+        deployedBytecode: bytecodeOf(data.deployedBytecode ?? data.bytecode_runtime),
+      })];
+    }
+
+    // `vyper -f combined_json`: { "<source>.vy": { abi, bytecode_runtime, ... }, "version": ... }
+    const sources = Object.entries(data).filter(([key, value]) => key.endsWith('.vy') && isObject(value) && isAbi(value.abi));
+    if (sources.length === 0) return null;
+
+    return sources.map(([source, output]) => {
+      const contract = output as JsonObject;
+      return artifact(baseName(source).replace(/\.vy$/, ''), source, contract.abi as ContractAbi, {
+        loader: 'vyper',
+        path,
+        deployedBytecode: bytecodeOf(contract.bytecode_runtime),
+      });
+    });
+  },
+};
+
+export const abiFileLoader: ArtifactLoader = {
+  name: 'abi-file',
+  load: ({ path, name, data }) => {
+    if (!/\.abi(\.json)?$/.test(name) || !isAbi(data)) return null;
+    return [artifact(stripExtension(name), null, data, { loader: 'abi-file', path })];
+  },
+};
+
+export const plainJsonLoader: ArtifactLoader = {
+  name: 'json',
+  load: ({ path, name, data }) => {
+    const abi = Array.isArray(data) ? data : isObject(data) ? data.abi : null;
+    if (!isAbi(abi)) return null;
+    const contractName = isObject(data) && typeof data.contractName === 'string' ? data.contractName : stripExtension(name);
+    return [artifact(contractName, null, abi, { loader: 'json', path })];
+  },
+};
+
+export const ARTIFACT_LOADERS: ArtifactLoader[] = [
+  hardhatLoader,
+  foundryLoader,
+  truffleLoader,
+  vyperLoader,
+  abiFileLoader,
+  plainJsonLoader,
+];
+
+/**
+ * Whether a file is a compiler build-info file, e.g. "artifacts/build-info/<id>.json"
+ */
+export function isBuildInfoPath(path: string): boolean {
+  return parentName(path) === 'build-info';
+}
+
+/**
+ * Storage layouts in the compiler output of a build-info file, by fully-qualified name
+ * ("<source path>:<contract name>", as in artifacts). Empty when the compilation didn't
+ * select the `storageLayout` output.
+ */
+export function loadBuildInfoStorageLayouts(data: unknown): Map<string, unknown> {
+  const layouts = new Map<string, unknown>();
+  const contracts = isObject(data) && isObject(data.output) && isObject(data.output.contracts) ? data.output.contracts : {};
+
+  for (const [sourceName, sourceContracts] of Object.entries(contracts)) {
+    if (!isObject(sourceContracts)) continue;
+    for (const [contractName, output] of Object.entries(sourceContracts)) {
+      if (isObject(output) && output.storageLayout !== undefined) {
+        layouts.set(`${sourceName}:${contractName}`, output.storageLayout);
+      }
+    }
+  }
+  return layouts;
+}
+
+/**
+ * Why a file or folder is never read, or null if it should be scanned
+ */
+export function skipReason(path: string, kind: 'file' | 'directory'): string | null {
+  const name = baseName(path);
+  if (name.startsWith('.')) return 'hidden';
+  if (kind === 'directory') {
+    if (name === 'node_modules') return 'node_modules';
+    return null;
+  }
+  if (name.endsWith('.dbg.json')) return 'debug file';
+  if (!/\.(json|abi)$/.test(name)) return 'not JSON';
+  return null;
+}
+
+/**
+ * Run the loaders over one file. Returns null when no loader recognises it.
+ */
+export function loadArtifactFile(file: ArtifactFile, loaders: ArtifactLoader[] = ARTIFACT_LOADERS): LoadedArtifact[] | null {
+  for (const loader of loaders) {
+    const artifacts = loader.load(file);
+    if (artifacts && artifacts.length > 0) return artifacts;
+  }
+  return null;
+}
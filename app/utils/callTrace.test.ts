@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encodeAbiParameters, encodeErrorResult, encodeFunctionData, type Hex, type Transaction } from 'viem';
+import { buildCallTreeFromStructLogs, decodeCallTrace, fetchCallTrace, isTracingUnsupported, type RawCallFrame } from './callTrace';
+import { buildSelectorRegistry } from './selectorRegistry';
+import type { AbiError, AbiFunction, ContractAbi } from '../types';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const ROUTER = '0x2222222222222222222222222222222222222222';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+
+const swap: AbiFunction = {
+  type: 'function',
+  name: 'swap',
+  stateMutability: 'nonpayable',
+  inputs: [{ name: 'amount', type: 'uint256' }],
+  outputs: [],
+};
+const balanceOf: AbiFunction = {
+  type: 'function',
+  name: 'balanceOf',
+  stateMutability: 'view',
+  inputs: [{ name: 'account', type: 'address' }],
+  outputs: [{ name: '', type: 'uint256' }],
+};
+const insufficientBalance: AbiError = { type: 'error', name: 'InsufficientBalance', inputs: [{ name: 'available', type: 'uint256' }] };
+
+const registry = buildSelectorRegistry(new Map<string, ContractAbi>([
+  ['Router', [swap]],
+  ['contracts/Token.sol:Token', [balanceOf, insufficientBalance]],
+]));
+
+const swapInput = encodeFunctionData({ abi: [swap], functionName: 'swap', args: [BigInt(10)] });
+const balanceOfInput = encodeFunctionData({ abi: [balanceOf], functionName: 'balanceOf', args: [ROUTER] });
+
+const transaction = {
+  hash: '0xabc',
+  from: SENDER,
+  to: ROUTER,
+  input: swapInput,
+  value: BigInt(0),
+  gas: BigInt(100000),
+  blockNumber: BigInt(5),
+} as unknown as Transaction;
+
+// Memory as struct loggers report it: 32-byte words without 0x
+function toMemory(data: Hex): string[] {
+  const hex = data.slice(2);
+  const words: string[] = [];
+  for (let i = 0; i < hex.length; i += 64) words.push(hex.slice(i, i + 64).padEnd(64, '0'));
+  return words;
+}
+
+describe('decodeCallTrace', () => {
+  it('decodes calldata, return data and reverts of nested frames', () => {
+    const revertData = encodeErrorResult({ abi: [insufficientBalance] as never, errorName: 'InsufficientBalance', args: [BigInt(3)] } as never);
+    const raw: RawCallFrame = {
+      type: 'CALL',
+      from: SENDER,
+      to: ROUTER,
+      gas: '0x186a0',
+      gasUsed: '0x5208',
+      input: swapInput,
+      output: revertData,
+      error: 'execution reverted',
+      calls: [{
+        type: 'STATICCALL',
+        from: ROUTER,
+        to: TOKEN,
+        gas: '0x1000',
+        gasUsed: '0xa00',
+        input: balanceOfInput,
+        output: encodeAbiParameters([{ type: 'uint256' }], [BigInt(3)]),
+      }],
+    };
+
+    const trace = decodeCallTrace(raw, registry);
+
+    expect(trace.call?.functionName).toBe('swap');
+    expect(trace.gasUsed).toBe(BigInt(21000));
+    expect(trace.revert?.summary).toBe('InsufficientBalance(3)');
+    expect(trace.calls[0]).toMatchObject({
+      type: 'STATICCALL',
+      to: TOKEN,
+      gasUsed: BigInt(0xa00),
+      result: BigInt(3),
+      revert: null,
+      error: null,
+    });
+    expect(trace.calls[0].call?.abiName).toBe('contracts/Token.sol:Token');
+  });
+});
+
+describe('buildCallTreeFromStructLogs', () => {
+  it('rebuilds calls from CALL instructions and their callee frames', () => {
+    const returned = encodeAbiParameters([{ type: 'uint256' }], [BigInt(3)]);
+    const callStack = ['20', '0', (balanceOfInput.length / 2 - 1).toString(16), '0', TOKEN, 'fff'];
+
+    const tree = buildCallTreeFromStructLogs({
+      gas: 30000,
+      failed: false,
+      returnValue: '',
+      structLogs: [
+        { op: 'PUSH1', gas: 90000, gasCost: 3, depth: 1, stack: [] },
+        { op: 'STATICCALL', gas: 89000, gasCost: 2600, depth: 1, stack: callStack, memory: toMemory(balanceOfInput) },
+        { op: 'PUSH1', gas: 4000, gasCost: 3, depth: 2, stack: [] },
+        { op: 'RETURN', gas: 3500, gasCost: 0, depth: 2, stack: ['20', '0'], memory: toMemory(returned) },
+        { op: 'POP', gas: 86000, gasCost: 2, depth: 1, stack: ['1'] },
+        // Precompile call: no callee frame
+        { op: 'STATICCALL', gas: 85000, gasCost: 3000, depth: 1, stack: ['0', '0', '0', '0', '1', 'bb8'] },
+        { op: 'STOP', gas: 82000, gasCost: 0, depth: 1, stack: ['1'] },
+      ],
+    }, transaction);
+
+    expect(tree).toMatchObject({ type: 'CALL', from: SENDER, to: ROUTER, gasUsed: '0x7530', input: swapInput });
+    expect(tree.calls).toHaveLength(2);
+    expect(tree.calls![0]).toMatchObject({
+      type: 'STATICCALL',
+      from: ROUTER,
+      to: TOKEN,
+      gas: '0xfa0',
+      gasUsed: `0x${(89000 - 86000).toString(16)}`,
+      input: balanceOfInput,
+      output: returned,
+    });
+    expect(tree.calls![1]).toMatchObject({
+      to: '0x0000000000000000000000000000000000000001',
+      gasUsed: `0x${(85000 - 82000).toString(16)}`,
+      input: '0x',
+    });
+  });
+});
+
+describe('fetchCallTrace', () => {
+  it('reports nodes without the debug API as unsupported', async () => {
+    const request = vi.fn(async () => {
+      throw Object.assign(new Error('Method not found'), { code: -32601 });
+    });
+
+    const result = await fetchCallTrace({ request } as never, transaction, registry);
+
+    expect(result).toEqual({ supported: false, reason: 'Method not found' });
+    expect(isTracingUnsupported(new Error('the method debug_traceTransaction does not exist/is not available'))).toBe(true);
+  });
+
+  it('falls back to struct logs when the call tracer is missing', async () => {
+    const request = vi.fn(async ({ params }: { params: unknown[] }) => {
+      if ((params[1] as { tracer?: string }).tracer) throw new Error('tracer not supported');
+      return { gas: 21000, failed: false, returnValue: '', structLogs: [] };
+    });
+
+    const result = await fetchCallTrace({ request } as never, transaction, registry);
+
+    expect(result.supported && result.source).toBe('structLogs');
+    expect(result.supported && result.trace.call?.functionName).toBe('swap');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Call traces of mined transactions through `debug_traceTransaction`.
+ *
+ * Nodes with geth's `callTracer` (geth, anvil, reth, erigon) return the call tree
+ * directly. Nodes that only implement the default struct logger (e.g. hardhat) are
+ * traced opcode by opcode and the call tree is rebuilt from the CALL/CREATE
+ * instructions. Each frame is then decoded with the loaded ABIs.
+ */
+
+import { decodeFunctionResult, type Hash, type Hex, type PublicClient, type Transaction } from 'viem';
+import type { DecodedFunctionData } from '../types';
+import { decodeCalldataWithRegistry, type SelectorRegistry } from './selectorRegistry';
+import { decodeRevertData, type DecodedRevert } from './revertDecoder';
+
+export type CallType = 'CALL' | 'STATICCALL' | 'DELEGATECALL' | 'CALLCODE' | 'CREATE' | 'CREATE2' | 'SELFDESTRUCT';
+
+// A frame as returned by callTracer: quantities are hex strings
+export interface RawCallFrame {
+  type: CallType;
+  from: Hex;
+  to?: Hex;
+  value?: Hex;
+  gas: Hex;
+  gasUsed: Hex;
+  input: Hex;
+  output?: Hex;
+  error?: string;
+  calls?: RawCallFrame[];
+}
+
+export interface CallFrame {
+  type: CallType;
+  from: Hex;
+  to: Hex | null;
+  value: bigint;
+  gas: bigint;
+  gasUsed: bigint;
+  input: Hex;
+  output: Hex;
+  error: string | null;
+  call: DecodedFunctionData | null; // Input decoded with any loaded ABI
+  result: unknown; // Return data decoded with the same declaration, if it succeeded
+  revert: DecodedRevert | null;
+  calls: CallFrame[];
+}
+
+export type CallTraceResult =
+  | { supported: true; trace: CallFrame; source: 'callTracer' | 'structLogs' }
+  | { supported: false; reason: string };
+
+interface StructLog {
+  op: string;
+  gas: number;
+  gasCost: number;
+  depth: number;
+  stack?: string[];
+  memory?: string[];
+  error?: string;
+}
+
+interface StructLogTrace {
+  gas: number;
+  failed: boolean;
+  returnValue: string;
+  structLogs: StructLog[];
+}
+
+// The subset of a viem public client used here
+type TraceClient = Pick<PublicClient, 'request'>;
+type UntypedRequest = (args: { method: string; params: unknown[] }) => Promise<unknown>;
+
+const CALL_OPS = new Set(['CALL', 'CALLCODE', 'DELEGATECALL', 'STATICCALL', 'CREATE', 'CREATE2']);
+// JSON-RPC "method not found" and EIP-1474 "method not supported"
+const UNSUPPORTED_CODES = new Set([-32601, -32004]);
+const UNSUPPORTED_MESSAGE = /method .*(not found|not supported|does not exist|not available)|not (enabled|supported)|unsupported/i;
+
+/**
+ * Whether an error means the node doesn't offer debug_traceTransaction at all
+ */
+export function isTracingUnsupported(err: unknown): boolean {
+  let current: unknown = err;
+  for (let depth = 0; current && typeof current === 'object' && depth < 10; depth++) {
+    const candidate = current as { code?: unknown; message?: unknown; details?: unknown; cause?: unknown };
+    if (typeof candidate.code === 'number' && UNSUPPORTED_CODES.has(candidate.code)) return true;
+    if (typeof candidate.details === 'string' && UNSUPPORTED_MESSAGE.test(candidate.details)) return true;
+    current = candidate.cause;
+  }
+  return err instanceof Error && UNSUPPORTED_MESSAGE.test(err.message);
+}
+
+function word(value: string): bigint {
+  return BigInt(value.startsWith('0x') ? value : `0x${value}`);
+}
+
+function toHexQuantity(value: bigint | number): Hex {
+  return `0x${value.toString(16)}`;
+}
+
+function addressFromWord(value: string): Hex {
+  return `0x${word(value).toString(16).padStart(40, '0').slice(-40)}`;
+}
+
+// Stack entries counted from the top
+function stackItem(log: StructLog, index: number): string {
+  const stack = log.stack ?? [];
+  return stack[stack.length - 1 - index] ?? '0';
+}
+
+function readMemory(log: StructLog, offset: bigint, length: bigint): Hex {
+  if (length === BigInt(0)) return '0x';
+  const memory = (log.memory ?? []).map((chunk) => chunk.replace(/^0x/, '')).join('');
+  const start = Number(offset) * 2;
+  const end = start + Number(length) * 2;
+  return `0x${memory.slice(start, end).padEnd(end - start, '0')}`;
+}
+
+// Contract creations only learn their address when they return
+const PENDING_ADDRESS: Hex = '0x';
+
+// The address a frame's code runs as: delegate calls keep the caller's
+function contextAddress(frame: RawCallFrame): Hex {
+  if (frame.type === 'DELEGATECALL' || frame.type === 'CALLCODE') return frame.from;
+  return frame.to ?? PENDING_ADDRESS;
+}
+
+function assignPendingSender(frame: RawCallFrame, address: Hex) {
+  for (const child of frame.calls ?? []) {
+    if (child.from !== PENDING_ADDRESS) continue;
+    child.from = address;
+    assignPendingSender(child, address);
+  }
+}
+
+/**
+ * Rebuild the call tree from an opcode-level trace. Gas per frame is what the calling
+ * instruction cost the caller, including the call overhead.
+ */
+export function buildCallTreeFromStructLogs(trace: StructLogTrace, transaction: Transaction): RawCallFrame {
+  const root: RawCallFrame = {
+    type: transaction.to ? 'CALL' : 'CREATE',
+    from: transaction.from,
+    to: transaction.to ?? undefined,
+    value: toHexQuantity(transaction.value),
+    gas: toHexQuantity(transaction.gas),
+    gasUsed: toHexQuantity(trace.gas),
+    input: transaction.input,
+    output: trace.returnValue ? (`0x${trace.returnValue.replace(/^0x/, '')}` as Hex) : '0x',
+    error: trace.failed ? 'execution reverted' : undefined,
+    calls: [],
+  };
+
+  const logs = trace.structLogs;
+  // Frames currently executing, indexed by depth - 1, with the log index of the call creating them
+  const open: { frame: RawCallFrame; callIndex: number }[] = [{ frame: root, callIndex: -1 }];
+
+  const close = (returnIndex: number) => {
+    const { frame, callIndex } = open.pop()!;
+    const callLog = logs[callIndex];
+    const lastLog = logs[returnIndex - 1];
+    const returnLog = logs[returnIndex];
+    frame.gasUsed = toHexQuantity(returnLog ? callLog.gas - returnLog.gas : callLog.gasCost);
+
+    if (lastLog && lastLog.depth === callLog.depth + 1) {
+      if (lastLog.op === 'RETURN' || lastLog.op === 'REVERT') {
+        frame.output = readMemory(lastLog, word(stackItem(lastLog, 0)), word(stackItem(lastLog, 1)));
+      }
+      if (lastLog.op === 'REVERT') frame.error = 'execution reverted';
+      else if (lastLog.error) frame.error = lastLog.error;
+    }
+    if (frame.type === 'CREATE' || frame.type === 'CREATE2') {
+      const created = returnLog ? stackItem(returnLog, 0) : '0';
+      if (word(created) !== BigInt(0)) {
+        frame.to = addressFromWord(created);
+        assignPendingSender(frame, frame.to);
+      }
+    }
+  };
+
+  for (let i = 0; i < logs.length; i++) {
+    const log = logs[i];
+    while (open.length > log.depth) close(i);
+
+    if (!CALL_OPS.has(log.op)) continue;
+
+    const type = log.op as CallType;
+    const parent = open[open.length - 1].frame;
+    const isCreate = type === 'CREATE' || type === 'CREATE2';
+    const hasValue = type === 'CALL' || type === 'CALLCODE';
+    const argsAt = isCreate ? 1 : hasValue ? 3 : 2;
+
+    const next = logs[i + 1];
+    const frame: RawCallFrame = {
+      type,
+      from: contextAddress(parent),
+      to: isCreate ? undefined : addressFromWord(stackItem(log, 1)),
+      value: hasValue ? toHexQuantity(word(stackItem(log, 2))) : isCreate ? toHexQuantity(word(stackItem(log, 0))) : undefined,
+      gas: toHexQuantity(isCreate ? 0 : word(stackItem(log, 0))),
+      gasUsed: '0x0',
+      input: readMemory(log, word(stackItem(log, argsAt)), word(stackItem(log, argsAt + 1))),
+      output: '0x',
+      calls: [],
+    };
+    parent.calls!.push(frame);
+
+    if (next?.depth === log.depth + 1) {
+      // Gas actually available to the callee, after the 63/64 rule
+      frame.gas = toHexQuantity(next.gas);
+      open.push({ frame, callIndex: i });
+    } else {
+      // No code ran: an account without code, a precompile or a failed call
+      frame.gasUsed = toHexQuantity(log.gas - (logs[i + 1]?.gas ?? log.gas - log.gasCost));
+    }
+  }
+  while (open.length > 1) close(logs.length);
+
+  return root;
+}
+
+function decodeFrame(raw: RawCallFrame, registry: SelectorRegistry): CallFrame {
+  const output = raw.output ?? '0x';
+  const isCreate = raw.type === 'CREATE' || raw.type === 'CREATE2';
+  const call = isCreate ? null : decodeCalldataWithRegistry(registry, raw.input);
+
+  let result: unknown = undefined;
+  if (call && !raw.error && output !== '0x') {
+    const entry = registry.functions.get(raw.input.slice(0, 10).toLowerCase() as Hex)
+      ?.find((candidate) => candidate.item.name === call.functionName);
+    try {
+      result = entry ? decodeFunctionResult({ abi: [entry.item] as Parameters<typeof decodeFunctionResult>[0]['abi'], functionName: call.functionName, data: output }) : undefined;
+    } catch {
+      result = undefined;
+    }
+  }
+
+  return {
+    type: raw.type,
+    from: raw.from,
+    to: raw.to ?? null,
+    value: raw.value ? BigInt(raw.value) : BigInt(0),
+    gas: BigInt(raw.gas),
+    gasUsed: BigInt(raw.gasUsed),
+    input: raw.input,
+    output,
+    error: raw.error ?? null,
+    call,
+    result,
+    revert: raw.error && output !== '0x' ? decodeRevertData(output, registry) : null,
+    calls: (raw.calls ?? []).map((child) => decodeFrame(child, registry)),
+  };
+}
+
+/**
+ * Decode the calldata, return data and reverts of a call tree with the loaded ABIs
+ */
+export function decodeCallTrace(raw: RawCallFrame, registry: SelectorRegistry): CallFrame {
+  return decodeFrame(raw, registry);
+}
+
+/**
+ * Trace a mined transaction. Resolves with `supported: false` when the node doesn't
+ * offer debug tracing; other failures (e.g. an unreachable node) are thrown.
+ */
+export async function fetchCallTrace(
+  client: TraceClient,
+  transaction: Transaction,
+  registry: SelectorRegistry
+): Promise<CallTraceResult> {
+  const request = client.request as unknown as UntypedRequest;
+  const hash: Hash = transaction.hash;
+
+  try {
+    const raw = await request({ method: 'debug_traceTransaction', params: [hash, { tracer: 'callTracer' }] });
+    // Some nodes ignore the tracer option and answer with struct logs
+    if (raw && typeof raw === 'object' && 'structLogs' in raw) {
+      const tree = buildCallTreeFromStructLogs(raw as StructLogTrace, transaction);
+      return { supported: true, trace: decodeCallTrace(tree, registry), source: 'structLogs' };
+    }
+    return { supported: true, trace: decodeCallTrace(raw as RawCallFrame, registry), source: 'callTracer' };
+  } catch (err) {
+    if (isTracingUnsupported(err) && !(err instanceof Error && /tracer/i.test(err.message))) {
+      return { supported: false, reason: err instanceof Error ? err.message : 'debug_traceTransaction is not available' };
+    }
+  }
+
+  // The method exists but not the call tracer: fall back to the default struct logger
+  try {
+    const trace = await request({
+      method: 'debug_traceTransaction',
+      params: [hash, { disableStorage: true, enableMemory: true }],
+    }) as StructLogTrace;
+    const raw = buildCallTreeFromStructLogs(trace, transaction);
+    return { supported: true, trace: decodeCallTrace(raw, registry), source: 'structLogs' };
+  } catch (err) {
+    if (isTracingUnsupported(err)) {
+      return { supported: false, reason: err instanceof Error ? err.message : 'debug_traceTransaction is not available' };
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CHAIN_PRESETS,
+  GENLAYER_TESTNET_CONFIG,
+  getNetworkNameForChainId,
+  parseChainRegistry,
+  resolveChainConfig,
+  type ChainConfig,
+} from './chainRegistry';
+
+const CUSTOM_CHAIN: ChainConfig = {
+  chainId: 1337,
+  name: 'Devnet',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrl: 'http://localhost:9545',
+  wsUrl: '',
+  blockExplorerUrl: '',
+};
+
+describe('getNetworkNameForChainId', () => {
+  it('maps known chain ids to preset network names', () => {
+    expect(getNetworkNameForChainId(1)).toBe('mainnet');
+    expect(getNetworkNameForChainId(11155111)).toBe('sepolia');
+    expect(getNetworkNameForChainId(4221)).toBe('genlayer-testnet');
+  });
+
+  it('falls back to chain-<id> for unknown chains', () => {
+    expect(getNetworkNameForChainId(99999)).toBe('chain-99999');
+  });
+});
+
+describe('resolveChainConfig', () => {
+  it('prefers the registry entry over presets', () => {
+    expect(resolveChainConfig({ sepolia: CUSTOM_CHAIN }, 'sepolia')).toBe(CUSTOM_CHAIN);
+  });
+
+  it('uses the preset matching the network name', () => {
+    expect(resolveChainConfig({}, 'sepolia')).toBe(CHAIN_PRESETS.sepolia);
+  });
+
+  it('takes the chain id from chain-<id> network names', () => {
+    const config = resolveChainConfig({}, 'chain-99999', CUSTOM_CHAIN);
+    expect(config.chainId).toBe(99999);
+    expect(config.rpcUrl).toBe(CUSTOM_CHAIN.rpcUrl);
+  });
+
+  it('falls back for unknown or empty networks', () => {
+    expect(resolveChainConfig({}, 'testnet')).toBe(GENLAYER_TESTNET_CONFIG);
+    expect(resolveChainConfig({}, '', CUSTOM_CHAIN)).toBe(CUSTOM_CHAIN);
+  });
+});
+
+describe('parseChainRegistry', () => {
+  it('keeps valid entries and drops malformed ones', () => {
+    const json = JSON.stringify({ devnet: CUSTOM_CHAIN, broken: { chainId: 'x' } });
+    expect(parseChainRegistry(json)).toEqual({ devnet: CUSTOM_CHAIN });
+  });
+
+  it('returns an empty registry for missing or invalid JSON', () => {
+    expect(parseChainRegistry(null)).toEqual({});
+    expect(parseChainRegistry('{not json')).toEqual({});
+  });
+});
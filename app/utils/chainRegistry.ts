@@ -0,0 +1,147 @@
+/**
+ * Per-network chain registry: maps each deployments-file network name to the
+ * chain it lives on (chain id, native currency, RPC/WS URLs, block explorer).
+ *
+ * Resolution order for a network:
+ * 1. User-edited entry in the registry
+ * 2. Built-in preset whose name matches the network (e.g. "sepolia")
+ * 3. The fallback chain (GenLayer Testnet with the user's default RPC URLs)
+ */
+
+import type { Chain } from 'viem';
+import {
+  mainnet,
+  sepolia,
+  holesky,
+  optimism,
+  polygon,
+  arbitrum,
+  base,
+  baseSepolia,
+  zksync,
+  zksyncSepoliaTestnet,
+  foundry,
+} from 'viem/chains';
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  rpcUrl: string;
+  wsUrl: string;
+  blockExplorerUrl: string;
+}
+
+export type ChainRegistry = Record<string, ChainConfig>; // network name -> chain config
+
+// Default RPC endpoints
+export const DEFAULT_RPC_URL = 'https://zksync-os-testnet-genlayer.zksync.dev';
+export const DEFAULT_WS_URL = 'wss://zksync-os-testnet-genlayer.zksync.dev/ws';
+
+export const GENLAYER_TESTNET_CONFIG: ChainConfig = {
+  chainId: 4221,
+  name: 'GenLayer Testnet',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'GenLayer',
+    symbol: 'GEN',
+  },
+  rpcUrl: DEFAULT_RPC_URL,
+  wsUrl: DEFAULT_WS_URL,
+  blockExplorerUrl: 'https://genlayer-testnet.explorer.caldera.xyz',
+};
+
+/**
+ * Convert a viem chain definition into a registry entry
+ */
+export function chainConfigFromViemChain(chain: Chain): ChainConfig {
+  return {
+    chainId: chain.id,
+    name: chain.name,
+    nativeCurrency: { ...chain.nativeCurrency },
+    rpcUrl: chain.rpcUrls.default.http[0] ?? '',
+    wsUrl: chain.rpcUrls.default.webSocket?.[0] ?? '',
+    blockExplorerUrl: chain.blockExplorers?.default.url ?? '',
+  };
+}
+
+// Built-in presets, keyed by the network name used in deployments files
+export const CHAIN_PRESETS: ChainRegistry = {
+  'mainnet': chainConfigFromViemChain(mainnet),
+  'sepolia': chainConfigFromViemChain(sepolia),
+  'holesky': chainConfigFromViemChain(holesky),
+  'optimism': chainConfigFromViemChain(optimism),
+  'polygon': chainConfigFromViemChain(polygon),
+  'arbitrum': chainConfigFromViemChain(arbitrum),
+  'base': chainConfigFromViemChain(base),
+  'base-sepolia': chainConfigFromViemChain(baseSepolia),
+  'zksync': chainConfigFromViemChain(zksync),
+  'zksync-sepolia': chainConfigFromViemChain(zksyncSepoliaTestnet),
+  'localhost': { ...chainConfigFromViemChain(foundry), name: 'Localhost' },
+  'genlayer-testnet': GENLAYER_TESTNET_CONFIG,
+};
+
+/**
+ * Network name for a chain id, e.g. 11155111 -> "sepolia".
+ * Unknown chains fall back to `chain-<id>`.
+ */
+export function getNetworkNameForChainId(chainId: number): string {
+  const preset = Object.entries(CHAIN_PRESETS).find(([, config]) => config.chainId === chainId);
+  return preset ? preset[0] : `chain-${chainId}`;
+}
+
+/**
+ * Resolve the chain config for a network: registry entry, then preset, then fallback
+ */
+export function resolveChainConfig(
+  registry: ChainRegistry,
+  network: string,
+  fallback: ChainConfig = GENLAYER_TESTNET_CONFIG
+): ChainConfig {
+  if (!network) return fallback;
+  if (registry[network]) return registry[network];
+  if (CHAIN_PRESETS[network]) return CHAIN_PRESETS[network];
+
+  const chainIdMatch = network.match(/^chain-(\d+)$/);
+  if (chainIdMatch) {
+    return { ...fallback, chainId: parseInt(chainIdMatch[1]), name: network, blockExplorerUrl: '' };
+  }
+  return fallback;
+}
+
+/**
+ * Parse a registry persisted as JSON, dropping malformed entries
+ */
+export function parseChainRegistry(json: string | null): ChainRegistry {
+  if (!json) return {};
+
+  try {
+    const data = JSON.parse(json) as Record<string, Partial<ChainConfig>>;
+    const registry: ChainRegistry = {};
+    for (const [network, config] of Object.entries(data)) {
+      if (
+        config &&
+        typeof config.chainId === 'number' &&
+        typeof config.name === 'string' &&
+        typeof config.rpcUrl === 'string' &&
+        config.nativeCurrency
+      ) {
+        registry[network] = {
+          chainId: config.chainId,
+          name: config.name,
+          nativeCurrency: config.nativeCurrency,
+          rpcUrl: config.rpcUrl,
+          wsUrl: config.wsUrl ?? '',
+          blockExplorerUrl: config.blockExplorerUrl ?? '',
+        };
+      }
+    }
+    return registry;
+  } catch {
+    return {};
+  }
+}
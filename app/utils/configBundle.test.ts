@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createConfigBundle, parseConfigBundle, CONFIG_BUNDLE_FORMAT } from './configBundle';
+import { GENLAYER_TESTNET_CONFIG } from './chainRegistry';
+import { findBestAbiMatch, getAbiPin } from './abiMatcher';
+import type { ContractAbi } from '../types';
+import type { StorageLayout } from './storageLayout';
+
+const TOKEN_ABI = [
+  { type: 'function', name: 'totalSupply', inputs: [], outputs: [{ name: '', type: 'uint256' }], stateMutability: 'view' },
+] as ContractAbi;
+
+const source = {
+  deploymentsFile: { testnet: { v1: { Token: '0x0000000000000000000000000000000000000001' } } },
+  abiCache: new Map<string, ContractAbi>([['IToken', TOKEN_ABI], ['Unused', []]]),
+  storageLayouts: new Map<string, StorageLayout>([
+    ['IToken', { storage: [{ label: 'totalSupply', offset: 0, slot: '0', type: 't_uint256' }], types: {} }],
+    ['Unused', { storage: [], types: {} }],
+  ]),
+  defaultRpcUrl: 'https://rpc.example.com',
+  defaultWsUrl: '',
+  chainRegistry: { testnet: GENLAYER_TESTNET_CONFIG },
+  adHocContracts: [],
+};
+
+describe('createConfigBundle', () => {
+  it('includes only the ABIs resolved for listed contracts', () => {
+    const bundle = createConfigBundle(source);
+    expect(bundle.format).toBe(CONFIG_BUNDLE_FORMAT);
+    expect(Object.keys(bundle.abis)).toEqual(['IToken']);
+    expect(Object.keys(bundle.storageLayouts)).toEqual(['IToken']);
+    expect(bundle.chains.registry.testnet.chainId).toBe(GENLAYER_TESTNET_CONFIG.chainId);
+  });
+});
+
+describe('parseConfigBundle', () => {
+  it('round-trips an exported bundle', () => {
+    const bundle = createConfigBundle(source);
+    expect(parseConfigBundle(JSON.stringify(bundle))).toEqual(bundle);
+  });
+
+  it('rejects files that are not bundles', () => {
+    expect(() => parseConfigBundle('{"testnet":{}}')).toThrow('not an explorer config bundle');
+    expect(() => parseConfigBundle('nope')).toThrow('not valid JSON');
+  });
+
+  it('reads bundles exported without storage layouts', () => {
+    const bundle = { ...createConfigBundle(source), storageLayouts: undefined };
+    expect(parseConfigBundle(JSON.stringify(bundle)).storageLayouts).toEqual({});
+  });
+
+  it('reads bundles exported without ABI pins', () => {
+    const bundle = { ...createConfigBundle(source), abiPins: undefined };
+    expect(parseConfigBundle(JSON.stringify(bundle)).abiPins).toEqual({});
+  });
+
+  it('keeps pins that fuzzy matching would resolve differently', () => {
+    const bundle = createConfigBundle({
+      ...source,
+      deploymentsFile: {
+        testnet: {
+          v1: {
+            Staking: '0x0000000000000000000000000000000000000002',
+            IGenLayerStaking: '0x0000000000000000000000000000000000000003',
+          },
+        },
+      },
+      abiCache: new Map<string, ContractAbi>([['StakingImpl', TOKEN_ABI], ['IGenLayerStaking', TOKEN_ABI]]),
+      abiPins: { testnet: { v1: { Staking: 'StakingImpl' } } },
+    });
+    const imported = parseConfigBundle(JSON.stringify(bundle));
+
+    expect(imported.abiPins).toEqual({ testnet: { v1: { Staking: 'StakingImpl' } } });
+    const abiNames = new Set(Object.keys(imported.abis));
+    expect(findBestAbiMatch('Staking', abiNames)?.abiName).toBe('IGenLayerStaking');
+    const pinned = getAbiPin(imported.abiPins, 'testnet', 'v1', 'Staking');
+    expect(findBestAbiMatch('Staking', abiNames, pinned)?.abiName).toBe('StakingImpl');
+  });
+
+  it('rejects newer bundle versions', () => {
+    const bundle = { ...createConfigBundle(source), version: 99 };
+    expect(() => parseConfigBundle(JSON.stringify(bundle))).toThrow('Unsupported bundle version');
+  });
+});
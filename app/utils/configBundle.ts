@@ -0,0 +1,193 @@
+/**
+ * Config bundles: one self-contained JSON file with everything needed to reproduce
+ * an explorer setup on another machine, without picking files or folders.
+ *
+ * A bundle holds:
+ * - The deployments map
+ * - The resolved ABI of every contract listed in it (keyed by ABI name, so lookups match as before)
+ * - The storage layouts of those ABIs' artifacts, where known
+ * - The ABI pins, so pinned contracts resolve to the same ABI after import
+ * - The chain registry and the default RPC/WS URLs
+ * - Address labels (the ad-hoc contracts: a name and ABI for an address)
+ */
+
+import type { ContractAbi, DeploymentsFile } from '../types';
+import type { AdHocContract } from './adHocContracts';
+import { findBestAbiMatch, getAbiPin, setAbiPin, type AbiPins } from './abiMatcher';
+import { parseChainRegistry, type ChainRegistry } from './chainRegistry';
+import { parseStorageLayout, type StorageLayout } from './storageLayout';
+
+export const CONFIG_BUNDLE_FORMAT = 'genlayer-explorer-bundle';
+export const CONFIG_BUNDLE_VERSION = 1;
+
+export interface ConfigBundle {
+  format: typeof CONFIG_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  deployments: DeploymentsFile;
+  abis: Record<string, ContractAbi>;
+  storageLayouts: Record<string, StorageLayout>; // Keyed by ABI name
+  abiPins: AbiPins;
+  chains: {
+    defaultRpcUrl: string;
+    defaultWsUrl: string;
+    registry: ChainRegistry;
+  };
+  addressLabels: AdHocContract[];
+}
+
+export interface ConfigBundleSource {
+  deploymentsFile: DeploymentsFile;
+  abiCache: Map<string, ContractAbi>;
+  storageLayouts?: Map<string, StorageLayout>;
+  defaultRpcUrl: string;
+  defaultWsUrl: string;
+  chainRegistry: ChainRegistry;
+  adHocContracts: AdHocContract[];
+  abiPins?: AbiPins;
+}
+
+/**
+ * Build a bundle from the current state. Only the ABIs used by the deployments are included.
+ */
+export function createConfigBundle(source: ConfigBundleSource): ConfigBundle {
+  const abiNames = new Set(source.abiCache.keys());
+  const abis: Record<string, ContractAbi> = {};
+
+  for (const [network, deployments] of Object.entries(source.deploymentsFile)) {
+    for (const [deployment, contracts] of Object.entries(deployments)) {
+      for (const contractName of Object.keys(contracts)) {
+        // Ambiguous names keep all candidates, so the importer sees the same choice
+        const pinned = source.abiPins ? getAbiPin(source.abiPins, network, deployment, contractName) : null;
+        const match = findBestAbiMatch(contractName, abiNames, pinned);
+        for (const abiName of match?.candidates ?? (match ? [match.abiName] : [])) {
+          abis[abiName] = source.abiCache.get(abiName)!;
+        }
+      }
+    }
+  }
+
+  const storageLayouts: Record<string, StorageLayout> = {};
+  for (const abiName of Object.keys(abis)) {
+    const layout = source.storageLayouts?.get(abiName);
+    if (layout) storageLayouts[abiName] = layout;
+  }
+
+  // Pins to ABIs left out of the bundle would be dropped on lookup anyway
+  let abiPins: AbiPins = {};
+  for (const [network, deployments] of Object.entries(source.abiPins ?? {})) {
+    for (const [deployment, contracts] of Object.entries(deployments)) {
+      for (const [contractName, abiName] of Object.entries(contracts)) {
+        if (abiName in abis) abiPins = setAbiPin(abiPins, network, deployment, contractName, abiName);
+      }
+    }
+  }
+
+  return {
+    format: CONFIG_BUNDLE_FORMAT,
+    version: CONFIG_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    deployments: source.deploymentsFile,
+    abis,
+    storageLayouts,
+    abiPins,
+    chains: {
+      defaultRpcUrl: source.defaultRpcUrl,
+      defaultWsUrl: source.defaultWsUrl,
+      registry: source.chainRegistry,
+    },
+    addressLabels: source.adHocContracts,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse and validate a bundle file. Throws with a readable message when it isn't a bundle.
+ */
+export function parseConfigBundle(text: string): ConfigBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== CONFIG_BUNDLE_FORMAT) {
+    throw new Error('File is not an explorer config bundle');
+  }
+  if (typeof data.version !== 'number' || data.version > CONFIG_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version: ${String(data.version)}`);
+  }
+  if (!isRecord(data.deployments)) {
+    throw new Error('Bundle has no deployments');
+  }
+
+  const abis: Record<string, ContractAbi> = {};
+  if (isRecord(data.abis)) {
+    for (const [name, abi] of Object.entries(data.abis)) {
+      if (Array.isArray(abi)) abis[name] = abi as ContractAbi;
+    }
+  }
+
+  // Bundles exported before layouts were included have none
+  const storageLayouts: Record<string, StorageLayout> = {};
+  if (isRecord(data.storageLayouts)) {
+    for (const [name, value] of Object.entries(data.storageLayouts)) {
+      const layout = parseStorageLayout(value);
+      if (layout) storageLayouts[name] = layout;
+    }
+  }
+
+  // Bundles exported before pins were included have none
+  let abiPins: AbiPins = {};
+  if (isRecord(data.abiPins)) {
+    for (const [network, deployments] of Object.entries(data.abiPins)) {
+      if (!isRecord(deployments)) continue;
+      for (const [deployment, contracts] of Object.entries(deployments)) {
+        if (!isRecord(contracts)) continue;
+        for (const [contractName, abiName] of Object.entries(contracts)) {
+          if (typeof abiName === 'string') abiPins = setAbiPin(abiPins, network, deployment, contractName, abiName);
+        }
+      }
+    }
+  }
+
+  const chains = isRecord(data.chains) ? data.chains : {};
+  const addressLabels = Array.isArray(data.addressLabels)
+    ? (data.addressLabels as AdHocContract[]).filter(
+        (label) => isRecord(label) && typeof label.name === 'string' && typeof label.address === 'string' && Array.isArray(label.abi)
+      )
+    : [];
+
+  return {
+    format: CONFIG_BUNDLE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    deployments: data.deployments as DeploymentsFile,
+    abis,
+    storageLayouts,
+    abiPins,
+    chains: {
+      defaultRpcUrl: typeof chains.defaultRpcUrl === 'string' ? chains.defaultRpcUrl : '',
+      defaultWsUrl: typeof chains.defaultWsUrl === 'string' ? chains.defaultWsUrl : '',
+      registry: parseChainRegistry(JSON.stringify(chains.registry ?? {})),
+    },
+    addressLabels,
+  };
+}
+
+/**
+ * Save a bundle through a download link
+ */
+export function downloadConfigBundle(bundle: ConfigBundle, fileName: string): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
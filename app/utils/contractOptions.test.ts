@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { listContractOptions, filterContractOptions } from './contractOptions';
+import { findBestAbiMatch } from './abiMatcher';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const VAULT = '0x2222222222222222222222222222222222222222';
+
+describe('listContractOptions', () => {
+  const abis = new Set(['Token', 'a/Vault.sol:Vault', 'b/Vault.sol:Vault']);
+  const matchAbi = (name: string) => findBestAbiMatch(name, abis);
+
+  it('lists every contract with the reason it cannot be used', () => {
+    const options = listContractOptions(
+      { Broken: 'pending', Token: TOKEN, Orphan: TOKEN, Vault: VAULT },
+      matchAbi
+    );
+
+    expect(options.map((option) => [option.name, option.issue])).toEqual([
+      ['Token', null],
+      ['Broken', 'malformed-address'],
+      ['Orphan', 'no-abi'],
+      ['Vault', 'ambiguous-abi'],
+    ]);
+    expect(options[0].abiMatch).toEqual({ abiName: 'Token', score: 1 });
+  });
+
+  it('accepts addresses regardless of checksum casing', () => {
+    const [option] = listContractOptions({ Token: '0xABCDEFabcdef0123456789012345678901234567' }, matchAbi);
+    expect(option.issue).toBeNull();
+  });
+});
+
+describe('filterContractOptions', () => {
+  const options = listContractOptions({ Token: TOKEN, Vault: VAULT }, () => null);
+
+  it('matches names and addresses case-insensitively', () => {
+    expect(filterContractOptions(options, 'tok').map((option) => option.name)).toEqual(['Token']);
+    expect(filterContractOptions(options, '0x2222').map((option) => option.name)).toEqual(['Vault']);
+    expect(filterContractOptions(options, '  ')).toHaveLength(2);
+  });
+});
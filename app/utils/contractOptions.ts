@@ -0,0 +1,63 @@
+/**
+ * Entries of the contract selector: every contract of a deployment, including the
+ * ones that can't be used, with the reason why.
+ */
+
+import { isAddress } from 'viem';
+import type { Deployment } from '../types';
+import { isAmbiguousMatch, type AbiMatch } from './abiMatcher';
+
+export type ContractIssue = 'malformed-address' | 'no-abi' | 'ambiguous-abi';
+
+export interface ContractOption {
+  name: string;
+  address: string;
+  abiMatch: AbiMatch | null;
+  issue: ContractIssue | null;
+}
+
+export const CONTRACT_ISSUE_LABELS: Record<ContractIssue, string> = {
+  'malformed-address': 'malformed address',
+  'no-abi': 'no ABI match',
+  'ambiguous-abi': 'ambiguous ABI match',
+};
+
+/**
+ * Describe every contract of a deployment. Usable contracts come first; both groups
+ * keep the order of the deployments file.
+ */
+export function listContractOptions(
+  deployment: Deployment,
+  matchAbi: (contractName: string) => AbiMatch | null
+): ContractOption[] {
+  const options = Object.entries(deployment).map(([name, address]): ContractOption => {
+    const abiMatch = matchAbi(name);
+
+    let issue: ContractIssue | null = null;
+    if (typeof address !== 'string' || !isAddress(address, { strict: false })) {
+      issue = 'malformed-address';
+    } else if (!abiMatch) {
+      issue = 'no-abi';
+    } else if (isAmbiguousMatch(abiMatch)) {
+      issue = 'ambiguous-abi';
+    }
+
+    return { name, address: typeof address === 'string' ? address : String(address), abiMatch, issue };
+  });
+
+  return [
+    ...options.filter((option) => option.issue === null),
+    ...options.filter((option) => option.issue !== null),
+  ];
+}
+
+/**
+ * Case-insensitive search on contract name and address
+ */
+export function filterContractOptions(options: ContractOption[], query: string): ContractOption[] {
+  const term = query.trim().toLowerCase();
+  if (!term) return options;
+  return options.filter((option) =>
+    option.name.toLowerCase().includes(term) || option.address.toLowerCase().includes(term)
+  );
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffDeployments,
+  diffDeploymentsFiles,
+  formatDeploymentsFileChange,
+  formatDeploymentsFileChanges,
+  diffAbis,
+  formatAbiSignature,
+  compareBytecode,
+} from './deploymentDiff';
+import type { ContractAbi } from '../types';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const VAULT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const STAKING = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+describe('diffDeployments', () => {
+  it('classifies added, removed, moved and unchanged contracts', () => {
+    const left = { Token: TOKEN, Vault: VAULT, Old: STAKING };
+    const right = { Token: TOKEN.toLowerCase(), Vault: STAKING, New: VAULT };
+
+    expect(diffDeployments(left, right)).toEqual([
+      { name: 'New', change: 'added', leftAddress: null, rightAddress: VAULT },
+      { name: 'Old', change: 'removed', leftAddress: STAKING, rightAddress: null },
+      { name: 'Token', change: 'unchanged', leftAddress: TOKEN, rightAddress: TOKEN.toLowerCase() },
+      { name: 'Vault', change: 'moved', leftAddress: VAULT, rightAddress: STAKING },
+    ]);
+  });
+});
+
+describe('diffDeploymentsFiles', () => {
+  it('reports changed contracts across networks and deployments', () => {
+    const prev = { testnet: { v1: { Token: TOKEN, Vault: VAULT } } };
+    const next = { testnet: { v1: { Token: TOKEN, Vault: STAKING } }, mainnet: { v1: { Token: TOKEN } } };
+
+    const changes = diffDeploymentsFiles(prev, next);
+
+    expect(changes.map(formatDeploymentsFileChange)).toEqual([
+      'mainnet/v1 Token: added at 0x5FbD…0aa3',
+      'testnet/v1 Vault: 0xe7f1…0512 → 0x9fE4…a6e0',
+    ]);
+  });
+
+  it('returns nothing for identical files', () => {
+    const file = { testnet: { v1: { Token: TOKEN } } };
+    expect(diffDeploymentsFiles(file, file)).toEqual([]);
+  });
+
+  it('summarizes changes beyond the limit', () => {
+    const changes = diffDeploymentsFiles({}, { testnet: { v1: { Token: TOKEN, Vault: VAULT, Staking: STAKING } } });
+    expect(formatDeploymentsFileChanges(changes, 2)).toBe(
+      'testnet/v1 Staking: added at 0x9fE4…a6e0\ntestnet/v1 Token: added at 0x5FbD…0aa3\n…and 1 more'
+    );
+  });
+});
+
+describe('formatAbiSignature', () => {
+  it('expands tuples and includes mutability and outputs', () => {
+    expect(formatAbiSignature({
+      type: 'function',
+      name: 'getPosition',
+      stateMutability: 'view',
+      inputs: [{ name: 'ids', type: 'uint256[]' }],
+      outputs: [{
+        name: '',
+        type: 'tuple[]',
+        components: [{ name: 'owner', type: 'address' }, { name: 'amount', type: 'uint256' }],
+      }],
+    })).toBe('getPosition(uint256[]) view returns ((address,uint256)[])');
+  });
+
+  it('marks indexed event parameters', () => {
+    expect(formatAbiSignature({
+      type: 'event',
+      name: 'Transfer',
+      inputs: [
+        { name: 'from', type: 'address', indexed: true },
+        { name: 'value', type: 'uint256' },
+      ],
+    })).toBe('Transfer(address indexed,uint256)');
+  });
+});
+
+describe('diffAbis', () => {
+  const left: ContractAbi = [
+    { type: 'function', name: 'stake', stateMutability: 'payable', inputs: [], outputs: [] },
+    { type: 'function', name: 'unstake', stateMutability: 'nonpayable', inputs: [], outputs: [] },
+    { type: 'event', name: 'Staked', inputs: [{ name: 'amount', type: 'uint256' }] },
+  ];
+  const right: ContractAbi = [
+    { type: 'function', name: 'stake', stateMutability: 'payable', inputs: [{ name: 'validator', type: 'address' }], outputs: [] },
+    { type: 'event', name: 'Staked', inputs: [{ name: 'amount', type: 'uint256' }] },
+    { type: 'error', name: 'NotValidator', inputs: [] },
+  ];
+
+  it('reports added, removed and changed entries', () => {
+    expect(diffAbis(left, right)).toEqual([
+      { kind: 'error', name: 'NotValidator', change: 'added', leftSignatures: [], rightSignatures: ['NotValidator()'] },
+      {
+        kind: 'function',
+        name: 'stake',
+        change: 'changed',
+        leftSignatures: ['stake() payable'],
+        rightSignatures: ['stake(address) payable'],
+      },
+      { kind: 'function', name: 'unstake', change: 'removed', leftSignatures: ['unstake()'], rightSignatures: [] },
+    ]);
+  });
+
+  it('returns nothing for identical ABIs', () => {
+    expect(diffAbis(left, left)).toEqual([]);
+  });
+});
+
+describe('compareBytecode', () => {
+  it('compares runtime code', () => {
+    expect(compareBytecode('0x6080', '0x6080')).toBe('identical');
+    expect(compareBytecode('0x6080', '0x6081')).toBe('different');
+    expect(compareBytecode('0x6080', '0x')).toBe('missing');
+    expect(compareBytecode(undefined, '0x6080')).toBe('missing');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Compare two deployments: which contracts were added, removed or moved to a
+ * new address, how their ABIs differ, and whether their on-chain bytecode matches.
+ */
+
+import type { Hex } from 'viem';
+import type { AbiItem, AbiParameter, ContractAbi, Deployment, DeploymentsFile } from '../types';
+
+export type ContractChange = 'added' | 'removed' | 'moved' | 'unchanged';
+
+export interface ContractDiff {
+  name: string;
+  change: ContractChange;
+  leftAddress: string | null;
+  rightAddress: string | null;
+}
+
+// A contract change somewhere in a deployments file
+export interface DeploymentsFileChange extends ContractDiff {
+  network: string;
+  deployment: string;
+}
+
+export type AbiEntryKind = 'function' | 'event' | 'error';
+
+export interface AbiEntryDiff {
+  kind: AbiEntryKind;
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+  leftSignatures: string[];
+  rightSignatures: string[];
+}
+
+export type BytecodeComparison = 'identical' | 'different' | 'missing';
+
+/**
+ * Diff the contracts of two deployments by name. Addresses are compared case-insensitively.
+ */
+export function diffDeployments(left: Deployment, right: Deployment): ContractDiff[] {
+  const names = new Set([...Object.keys(left), ...Object.keys(right)]);
+
+  return Array.from(names).sort().map((name) => {
+    const leftAddress = left[name] ?? null;
+    const rightAddress = right[name] ?? null;
+
+    let change: ContractChange;
+    if (leftAddress === null) {
+      change = 'added';
+    } else if (rightAddress === null) {
+      change = 'removed';
+    } else if (leftAddress.toLowerCase() !== rightAddress.toLowerCase()) {
+      change = 'moved';
+    } else {
+      change = 'unchanged';
+    }
+
+    return { name, change, leftAddress, rightAddress };
+  });
+}
+
+/**
+ * Changed contracts between two versions of a deployments file, across all networks and deployments
+ */
+export function diffDeploymentsFiles(prev: DeploymentsFile, next: DeploymentsFile): DeploymentsFileChange[] {
+  const changes: DeploymentsFileChange[] = [];
+  const networks = new Set([...Object.keys(prev), ...Object.keys(next)]);
+
+  for (const network of Array.from(networks).sort()) {
+    const deployments = new Set([...Object.keys(prev[network] ?? {}), ...Object.keys(next[network] ?? {})]);
+
+    for (const deployment of Array.from(deployments).sort()) {
+      const diffs = diffDeployments(prev[network]?.[deployment] ?? {}, next[network]?.[deployment] ?? {});
+      for (const diff of diffs) {
+        if (diff.change !== 'unchanged') changes.push({ ...diff, network, deployment });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * One-line description of a change, e.g. "testnet/v1 Token: 0x1234…abcd → 0x5678…ef01"
+ */
+export function formatDeploymentsFileChange(change: DeploymentsFileChange): string {
+  const label = `${change.network}/${change.deployment} ${change.name}`;
+  switch (change.change) {
+    case 'added':
+      return `${label}: added at ${shortAddress(change.rightAddress!)}`;
+    case 'removed':
+      return `${label}: removed`;
+    default:
+      return `${label}: ${shortAddress(change.leftAddress!)} → ${shortAddress(change.rightAddress!)}`;
+  }
+}
+
+/**
+ * One line per change, the rest summarized, e.g. for a change notification
+ */
+export function formatDeploymentsFileChanges(changes: DeploymentsFileChange[], limit = 5): string {
+  const lines = changes.slice(0, limit).map(formatDeploymentsFileChange);
+  if (changes.length > limit) lines.push(`…and ${changes.length - limit} more`);
+  return lines.join('\n');
+}
+
+// Canonical type of a parameter, expanding tuples into their components
+function formatParameterType(param: AbiParameter): string {
+  if (param.type.startsWith('tuple')) {
+    const components = (param.components ?? []).map(formatParameterType).join(',');
+    return `(${components})${param.type.slice('tuple'.length)}`;
+  }
+  return param.type;
+}
+
+/**
+ * Human-readable signature of a function, event or error. Includes everything that
+ * changes how callers interact with it: mutability and outputs for functions,
+ * indexed parameters for events.
+ */
+export function formatAbiSignature(item: AbiItem): string | null {
+  switch (item.type) {
+    case 'function': {
+      const inputs = item.inputs.map(formatParameterType).join(',');
+      const outputs = item.outputs.map(formatParameterType).join(',');
+      const mutability = item.stateMutability === 'nonpayable' ? '' : ` ${item.stateMutability}`;
+      return `${item.name}(${inputs})${mutability}${outputs ? ` returns (${outputs})` : ''}`;
+    }
+    case 'event': {
+      const inputs = item.inputs
+        .map((input) => `${formatParameterType(input)}${input.indexed ? ' indexed' : ''}`)
+        .join(',');
+      return `${item.name}(${inputs})${item.anonymous ? ' anonymous' : ''}`;
+    }
+    case 'error':
+      return `${item.name}(${item.inputs.map(formatParameterType).join(',')})`;
+    default:
+      return null;
+  }
+}
+
+// Group signatures by "kind:name" so overloads are compared together
+function groupSignatures(abi: ContractAbi): Map<string, Set<string>> {
+  const groups = new Map<string, Set<string>>();
+  for (const item of abi) {
+    const signature = formatAbiSignature(item);
+    if (!signature || !('name' in item)) continue;
+
+    const key = `${item.type}:${item.name}`;
+    const group = groups.get(key) ?? new Set<string>();
+    group.add(signature);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+/**
+ * Diff the functions, events and errors of two ABIs. An entry whose name exists on
+ * both sides with different signatures is reported once as "changed".
+ */
+export function diffAbis(left: ContractAbi, right: ContractAbi): AbiEntryDiff[] {
+  const leftGroups = groupSignatures(left);
+  const rightGroups = groupSignatures(right);
+  const keys = new Set([...leftGroups.keys(), ...rightGroups.keys()]);
+  const diffs: AbiEntryDiff[] = [];
+
+  for (const key of Array.from(keys).sort()) {
+    const [kind, name] = key.split(':') as [AbiEntryKind, string];
+    const leftSignatures = Array.from(leftGroups.get(key) ?? []);
+    const rightSignatures = Array.from(rightGroups.get(key) ?? []);
+    const removed = leftSignatures.filter((sig) => !rightSignatures.includes(sig));
+    const added = rightSignatures.filter((sig) => !leftSignatures.includes(sig));
+
+    if (removed.length === 0 && added.length === 0) continue;
+
+    let change: AbiEntryDiff['change'] = 'changed';
+    if (leftSignatures.length === 0) change = 'added';
+    else if (rightSignatures.length === 0) change = 'removed';
+
+    diffs.push({ kind, name, change, leftSignatures: removed, rightSignatures: added });
+  }
+
+  return diffs;
+}
+
+/**
+ * Compare the runtime bytecode of two contracts ('0x' or undefined means no code)
+ */
+export function compareBytecode(leftCode: Hex | undefined, rightCode: Hex | undefined): BytecodeComparison {
+  if (!leftCode || leftCode === '0x' || !rightCode || rightCode === '0x') {
+    return 'missing';
+  }
+  return leftCode.toLowerCase() === rightCode.toLowerCase() ? 'identical' : 'different';
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectDeploymentsFormat,
+  importDeployments,
+  importFoundryBroadcast,
+  importIgnitionAddresses,
+} from './deploymentImporters';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const VAULT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+const foundryBroadcast = {
+  transactions: [
+    { transactionType: 'CREATE', contractName: 'Token', contractAddress: TOKEN },
+    { transactionType: 'CALL', contractName: 'Token', contractAddress: TOKEN },
+    { transactionType: 'CREATE2', contractName: 'Vault', contractAddress: VAULT },
+    { transactionType: 'CREATE', contractName: null, contractAddress: VAULT },
+  ],
+  receipts: [],
+  chain: 31337,
+};
+
+const ignitionAddresses = {
+  'TokenModule#Token': TOKEN,
+  'VaultModule#Vault': VAULT,
+};
+
+describe('detectDeploymentsFormat', () => {
+  it('detects Foundry broadcast files', () => {
+    expect(detectDeploymentsFormat(foundryBroadcast)).toBe('foundry-broadcast');
+  });
+
+  it('detects Hardhat Ignition files', () => {
+    expect(detectDeploymentsFormat(ignitionAddresses)).toBe('hardhat-ignition');
+  });
+
+  it('detects native deployments files', () => {
+    expect(detectDeploymentsFormat({ testnet: { v1: { Token: TOKEN } } })).toBe('deployments');
+  });
+
+  it('returns null for unrelated JSON', () => {
+    expect(detectDeploymentsFormat([1, 2, 3])).toBeNull();
+    expect(detectDeploymentsFormat({ testnet: 'nope' })).toBeNull();
+  });
+});
+
+describe('importFoundryBroadcast', () => {
+  it('keeps only named CREATE/CREATE2 transactions', () => {
+    expect(importFoundryBroadcast(foundryBroadcast)).toEqual({
+      localhost: { broadcast: { Token: TOKEN, Vault: VAULT } },
+    });
+  });
+
+  it('uses the deployment name from the options', () => {
+    const result = importFoundryBroadcast(foundryBroadcast, { deploymentName: 'v2' });
+    expect(Object.keys(result.localhost)).toEqual(['v2']);
+  });
+});
+
+describe('importIgnitionAddresses', () => {
+  it('groups contracts by module', () => {
+    expect(importIgnitionAddresses(ignitionAddresses, { chainId: 11155111 })).toEqual({
+      sepolia: {
+        TokenModule: { Token: TOKEN },
+        VaultModule: { Vault: VAULT },
+      },
+    });
+  });
+
+  it('falls back to the "ignition" network without a chain id', () => {
+    expect(Object.keys(importIgnitionAddresses(ignitionAddresses))).toEqual(['ignition']);
+  });
+});
+
+describe('importDeployments', () => {
+  it('passes native deployments through unchanged', () => {
+    const data = { testnet: { v1: { Token: TOKEN } } };
+    expect(importDeployments(data)).toEqual({ format: 'deployments', deployments: data });
+  });
+
+  it('skips non-address values of native deployments', () => {
+    const data = { testnet: { v1: { Token: TOKEN, deployedAt: 1234, meta: { commit: 'abc' } } } };
+    expect(importDeployments(data).deployments).toEqual({ testnet: { v1: { Token: TOKEN } } });
+  });
+
+  it('throws for unrecognized files', () => {
+    expect(() => importDeployments({ foo: 1 })).toThrow(/Unrecognized deployments file/);
+  });
+});
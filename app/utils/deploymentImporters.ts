@@ -0,0 +1,185 @@
+/**
+ * Deployment importers: convert the output of common deploy toolchains into
+ * the `network -> deployment -> ContractName -> address` DeploymentsFile shape.
+ *
+ * Supported formats:
+ * 1. Native DeploymentsFile JSON (passed through unchanged)
+ * 2. Foundry broadcast output (`broadcast/<Script>/<chainId>/run-latest.json`)
+ * 3. Hardhat Ignition `deployed_addresses.json` (`"Module#Contract": "0x..."`)
+ *
+ * The format is detected from the file contents, so callers never need to ask
+ * the user which toolchain produced the file.
+ */
+
+import type { DeploymentsFile, Deployment } from '../types';
+import { getNetworkNameForChainId } from './chainRegistry';
+
+export type DeploymentsFormat = 'deployments' | 'foundry-broadcast' | 'hardhat-ignition';
+
+export interface ImportOptions {
+  /** Chain id to use when the file itself doesn't carry one (Ignition) */
+  chainId?: number;
+  /** Deployment name to use for formats without a natural one (Foundry) */
+  deploymentName?: string;
+}
+
+export interface ImportResult {
+  format: DeploymentsFormat;
+  deployments: DeploymentsFile;
+}
+
+export const DEFAULT_FOUNDRY_NETWORK_NAME = 'foundry';
+export const DEFAULT_FOUNDRY_DEPLOYMENT_NAME = 'broadcast';
+export const DEFAULT_IGNITION_NETWORK_NAME = 'ignition';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+interface FoundryTransaction {
+  transactionType?: string;
+  contractName?: string | null;
+  contractAddress?: string | null;
+}
+
+interface FoundryBroadcast {
+  transactions: FoundryTransaction[];
+  chain?: number;
+}
+
+function isFoundryBroadcast(data: unknown): data is FoundryBroadcast {
+  return isRecord(data) && Array.isArray(data.transactions) && ('receipts' in data || 'chain' in data);
+}
+
+function isIgnitionAddresses(data: unknown): data is Record<string, string> {
+  if (!isRecord(data)) return false;
+  const entries = Object.entries(data);
+  return entries.length > 0 && entries.every(
+    ([key, value]) => key.includes('#') && typeof value === 'string'
+  );
+}
+
+type NativeDeployments = Record<string, Record<string, Record<string, unknown>>>;
+
+// Deployments may hold metadata (block numbers, nested objects) next to the addresses
+function isNativeDeployments(data: unknown): data is NativeDeployments {
+  if (!isRecord(data)) return false;
+  return Object.values(data).every(
+    (network) => isRecord(network) && Object.values(network).every(isRecord)
+  );
+}
+
+/**
+ * Detect which toolchain produced a parsed JSON file.
+ * Returns null when the contents match none of the supported formats.
+ */
+export function detectDeploymentsFormat(data: unknown): DeploymentsFormat | null {
+  if (isFoundryBroadcast(data)) return 'foundry-broadcast';
+  if (isIgnitionAddresses(data)) return 'hardhat-ignition';
+  if (isNativeDeployments(data)) return 'deployments';
+  return null;
+}
+
+/**
+ * Convert a Foundry `run-latest.json` into a DeploymentsFile.
+ * Every CREATE/CREATE2 transaction contributes one contract; when the same
+ * contract is deployed twice the later address wins, matching what the
+ * script itself would consider "the" deployment.
+ */
+export function importFoundryBroadcast(
+  data: FoundryBroadcast,
+  options: ImportOptions = {}
+): DeploymentsFile {
+  const chainId = data.chain ?? options.chainId;
+  const network = chainId !== undefined ? getNetworkNameForChainId(chainId) : DEFAULT_FOUNDRY_NETWORK_NAME;
+  const deploymentName = options.deploymentName || DEFAULT_FOUNDRY_DEPLOYMENT_NAME;
+
+  const deployment: Deployment = {};
+  for (const tx of data.transactions) {
+    if (tx.transactionType !== 'CREATE' && tx.transactionType !== 'CREATE2') continue;
+    if (!tx.contractName || !tx.contractAddress || !ADDRESS_PATTERN.test(tx.contractAddress)) continue;
+    deployment[tx.contractName] = tx.contractAddress;
+  }
+
+  return { [network]: { [deploymentName]: deployment } };
+}
+
+/**
+ * Convert a Hardhat Ignition `deployed_addresses.json` into a DeploymentsFile.
+ * Keys look like `Module#Contract`; each Ignition module becomes a deployment.
+ * The file carries no chain id (Ignition keeps it in the `chain-<id>` folder
+ * name), so without one in the options the network is named "ignition".
+ */
+export function importIgnitionAddresses(
+  data: Record<string, string>,
+  options: ImportOptions = {}
+): DeploymentsFile {
+  const network = options.chainId !== undefined
+    ? getNetworkNameForChainId(options.chainId)
+    : DEFAULT_IGNITION_NETWORK_NAME;
+
+  const deployments: Record<string, Deployment> = {};
+  for (const [futureId, address] of Object.entries(data)) {
+    const separator = futureId.indexOf('#');
+    const moduleId = futureId.slice(0, separator);
+    const contractName = futureId.slice(separator + 1);
+    if (!contractName) continue;
+
+    deployments[moduleId] = { ...deployments[moduleId], [contractName]: address };
+  }
+
+  return { [network]: deployments };
+}
+
+/**
+ * Keep the string values of a native deployments map, dropping the metadata around them
+ */
+export function importNativeDeployments(data: NativeDeployments): DeploymentsFile {
+  const deploymentsFile: DeploymentsFile = {};
+  for (const [network, deployments] of Object.entries(data)) {
+    deploymentsFile[network] = {};
+    for (const [deploymentName, contracts] of Object.entries(deployments)) {
+      const deployment: Deployment = {};
+      for (const [contractName, address] of Object.entries(contracts)) {
+        if (typeof address === 'string') deployment[contractName] = address;
+      }
+      deploymentsFile[network][deploymentName] = deployment;
+    }
+  }
+  return deploymentsFile;
+}
+
+/**
+ * Detect the format of a parsed JSON file and convert it to a DeploymentsFile.
+ * Throws when the contents don't match any supported format.
+ */
+export function importDeployments(data: unknown, options: ImportOptions = {}): ImportResult {
+  const format = detectDeploymentsFormat(data);
+
+  switch (format) {
+    case 'foundry-broadcast':
+      return { format, deployments: importFoundryBroadcast(data as FoundryBroadcast, options) };
+    case 'hardhat-ignition':
+      return { format, deployments: importIgnitionAddresses(data as Record<string, string>, options) };
+    case 'deployments':
+      return { format, deployments: importNativeDeployments(data as NativeDeployments) };
+    default:
+      throw new Error(
+        'Unrecognized deployments file: expected a deployments map, a Foundry broadcast run-*.json or a Hardhat Ignition deployed_addresses.json'
+      );
+  }
+}
+
+/**
+ * Read a deployments file from disk, whatever toolchain produced it
+ */
+export async function readDeploymentsFile(
+  handle: FileSystemFileHandle,
+  options: ImportOptions = {}
+): Promise<ImportResult> {
+  const file = await handle.getFile();
+  const text = await file.text();
+  return importDeployments(JSON.parse(text), options);
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { toFunctionSelector } from 'viem';
+import { readDiamondFacets, resolveDiamondFacets, DIAMOND_LOUPE_INTERFACE_ID } from './diamond';
+import type { AbiFunction, ContractAbi } from '../types';
+
+const DIAMOND = '0x1111111111111111111111111111111111111111';
+const OWNERSHIP_FACET = '0x2222222222222222222222222222222222222222';
+const TOKEN_FACET = '0x3333333333333333333333333333333333333333';
+
+function fn(name: string, inputs: string[] = []): AbiFunction {
+  return {
+    type: 'function',
+    name,
+    stateMutability: 'view',
+    inputs: inputs.map((type, i) => ({ name: `arg${i}`, type })),
+    outputs: [],
+  };
+}
+
+const owner = fn('owner');
+const balanceOf = fn('balanceOf', ['address']);
+const totalSupply = fn('totalSupply');
+const selector = (item: AbiFunction) => toFunctionSelector(item as Parameters<typeof toFunctionSelector>[0]);
+
+describe('readDiamondFacets', () => {
+  it('reads facets from diamonds implementing the loupe', async () => {
+    const readContract = vi.fn(async ({ functionName, args }: { functionName: string; args?: unknown[] }) => {
+      if (functionName === 'supportsInterface') return args![0] === DIAMOND_LOUPE_INTERFACE_ID;
+      return [{ facetAddress: OWNERSHIP_FACET.toLowerCase(), functionSelectors: ['0x8DA5CB5B'] }];
+    });
+
+    const facets = await readDiamondFacets({ readContract } as never, DIAMOND);
+
+    expect(facets).toEqual([{ address: OWNERSHIP_FACET, selectors: ['0x8da5cb5b'] }]);
+  });
+
+  it('returns null without ERC-165 support', async () => {
+    const readContract = vi.fn(async () => { throw new Error('execution reverted'); });
+    expect(await readDiamondFacets({ readContract } as never, DIAMOND)).toBeNull();
+  });
+});
+
+describe('resolveDiamondFacets', () => {
+  const abiCache = new Map<string, ContractAbi>([
+    ['OwnershipFacet', [owner]],
+    ['contracts/Token.sol:Token', [balanceOf, totalSupply]],
+  ]);
+
+  it('explains selectors with the loaded ABIs and reports the rest', () => {
+    const [ownership, token] = resolveDiamondFacets([
+      { address: OWNERSHIP_FACET, selectors: [selector(owner), '0xdeadbeef'] },
+      { address: TOKEN_FACET, selectors: [selector(balanceOf), selector(totalSupply)] },
+    ], abiCache);
+
+    expect(ownership.name).toBe('OwnershipFacet');
+    expect(ownership.functions).toEqual([owner]);
+    expect(ownership.unknownSelectors).toEqual(['0xdeadbeef']);
+    expect(token.name).toBe('contracts/Token.sol:Token');
+    expect(token.functions.map((item) => item.name)).toEqual(['balanceOf', 'totalSupply']);
+  });
+
+  it('prefers the deployment contract at the facet address', () => {
+    const renamed = { ...balanceOf, inputs: [{ name: 'account', type: 'address' }] };
+    const [facet] = resolveDiamondFacets(
+      [{ address: TOKEN_FACET, selectors: [selector(balanceOf)] }],
+      abiCache,
+      new Map([[TOKEN_FACET.toLowerCase(), 'TokenFacet']]),
+      (name) => name === 'TokenFacet' ? [renamed] : null
+    );
+
+    expect(facet.name).toBe('TokenFacet');
+    expect(facet.functions).toEqual([renamed]);
+  });
+});
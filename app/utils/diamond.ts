@@ -0,0 +1,134 @@
+/**
+ * EIP-2535 diamonds: one address whose functions live in many facet contracts.
+ *
+ * The facets and their selectors are read through the IDiamondLoupe interface, then
+ * each selector is explained by a loaded ABI. A facet listed in the deployment is
+ * resolved with its own ABI first; other selectors are looked up in every loaded ABI.
+ */
+
+import { getAddress, toFunctionSelector, type Address, type Hex, type PublicClient } from 'viem';
+import type { AbiFunction, ContractAbi } from '../types';
+
+// type(IDiamondLoupe).interfaceId
+export const DIAMOND_LOUPE_INTERFACE_ID = '0x48e2b093';
+
+const LOUPE_ABI = [
+  {
+    type: 'function',
+    name: 'supportsInterface',
+    stateMutability: 'view',
+    inputs: [{ name: 'interfaceId', type: 'bytes4' }],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+  {
+    type: 'function',
+    name: 'facets',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{
+      name: 'facets_',
+      type: 'tuple[]',
+      components: [
+        { name: 'facetAddress', type: 'address' },
+        { name: 'functionSelectors', type: 'bytes4[]' },
+      ],
+    }],
+  },
+] as const;
+
+export interface DiamondFacet {
+  address: Address;
+  selectors: Hex[];
+}
+
+export interface ResolvedFacet {
+  address: Address;
+  name: string | null; // Deployment contract at the facet address, else the ABI explaining most selectors
+  functions: AbiFunction[];
+  unknownSelectors: Hex[];
+}
+
+// The subset of a viem public client used here
+type DiamondClient = Pick<PublicClient, 'readContract'>;
+
+/**
+ * Read the facets of a diamond. Returns null for contracts that don't implement the loupe.
+ */
+export async function readDiamondFacets(client: DiamondClient, address: Address): Promise<DiamondFacet[] | null> {
+  try {
+    const supported = await client.readContract({
+      address,
+      abi: LOUPE_ABI,
+      functionName: 'supportsInterface',
+      args: [DIAMOND_LOUPE_INTERFACE_ID],
+    });
+    if (!supported) return null;
+  } catch {
+    // No ERC-165: not a diamond (the reference implementations all register the loupe)
+    return null;
+  }
+
+  const facets = await client.readContract({ address, abi: LOUPE_ABI, functionName: 'facets' });
+  return facets.map((facet) => ({
+    address: getAddress(facet.facetAddress),
+    selectors: facet.functionSelectors.map((selector) => selector.toLowerCase() as Hex),
+  }));
+}
+
+function functionSelectors(abi: ContractAbi): Map<Hex, AbiFunction> {
+  const selectors = new Map<Hex, AbiFunction>();
+  for (const item of abi) {
+    if (item.type !== 'function') continue;
+    selectors.set(toFunctionSelector(item as Parameters<typeof toFunctionSelector>[0]), item);
+  }
+  return selectors;
+}
+
+/**
+ * Explain the selectors of each facet with the loaded ABIs.
+ *
+ * @param facetNames - Contract name by lowercase address, e.g. the contracts of the deployment
+ * @param lookupAbi - ABI of such a contract
+ */
+export function resolveDiamondFacets(
+  facets: DiamondFacet[],
+  abiCache: Map<string, ContractAbi>,
+  facetNames: Map<string, string> = new Map(),
+  lookupAbi: (contractName: string) => ContractAbi | null = () => null
+): ResolvedFacet[] {
+  // Every loaded ABI's selectors, in cache order
+  const index = new Map<Hex, { abiName: string; item: AbiFunction }>();
+  for (const [abiName, abi] of abiCache) {
+    for (const [selector, item] of functionSelectors(abi)) {
+      if (!index.has(selector)) index.set(selector, { abiName, item });
+    }
+  }
+
+  return facets.map((facet) => {
+    const deploymentName = facetNames.get(facet.address.toLowerCase()) ?? null;
+    const ownAbi = deploymentName ? functionSelectors(lookupAbi(deploymentName) ?? []) : new Map<Hex, AbiFunction>();
+    const functions: AbiFunction[] = [];
+    const unknownSelectors: Hex[] = [];
+    const abiCounts = new Map<string, number>();
+
+    for (const selector of facet.selectors) {
+      const own = ownAbi.get(selector);
+      const indexed = index.get(selector);
+      if (own) {
+        functions.push(own);
+      } else if (indexed) {
+        functions.push(indexed.item);
+        abiCounts.set(indexed.abiName, (abiCounts.get(indexed.abiName) ?? 0) + 1);
+      } else {
+        unknownSelectors.push(selector);
+      }
+    }
+
+    let name = deploymentName;
+    if (!name && abiCounts.size > 0) {
+      name = Array.from(abiCounts).sort((a, b) => b[1] - a[1])[0][0];
+    }
+
+    return { address: facet.address, name, functions, unknownSelectors };
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createVirtualDirectoryHandle,
+  createVirtualAbisDirectoryHandle,
+  createVirtualFileHandle,
+  isVirtualHandle,
+} from './fileFallback';
+import { parseHardhatDeployFolder } from './hardhatDeploy';
+import { createAbiFolderWatcher } from './abiFolderWatcher';
+import type { ContractAbi } from '../types';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TOKEN_ABI = [{ type: 'function', name: 'totalSupply', stateMutability: 'view', inputs: [], outputs: [] }];
+
+function jsonFile(name: string, data: unknown): File {
+  return new File([JSON.stringify(data)], name, { type: 'application/json' });
+}
+
+describe('createVirtualDirectoryHandle', () => {
+  it('builds a folder tree from relative paths', async () => {
+    const dir = createVirtualDirectoryHandle('artifacts', [
+      { path: 'Token.sol/Token.json', file: jsonFile('Token.json', { abi: TOKEN_ABI }) },
+      { path: 'README.md', file: new File(['hi'], 'README.md') },
+    ]);
+
+    const solDir = await dir.getDirectoryHandle('Token.sol');
+    const file = await (await solDir.getFileHandle('Token.json')).getFile();
+    expect(JSON.parse(await file.text())).toEqual({ abi: TOKEN_ABI });
+    await expect(dir.getFileHandle('missing.json')).rejects.toThrow(/not found/);
+  });
+
+  it('works with the existing folder parsers', async () => {
+    const dir = createVirtualDirectoryHandle('deployments', [
+      { path: 'sepolia/Token.json', file: jsonFile('Token.json', { address: TOKEN, abi: TOKEN_ABI }) },
+    ]);
+
+    const { deployments, abis } = await parseHardhatDeployFolder(dir);
+    expect(Object.keys(deployments)).toEqual(['sepolia']);
+    expect(abis.get('Token')).toEqual(TOKEN_ABI);
+  });
+});
+
+describe('createVirtualAbisDirectoryHandle', () => {
+  it('lays out parsed ABIs so a scan restores the same keys', async () => {
+    const abis = new Map([
+      ['Token', TOKEN_ABI as ContractAbi],
+      ['contracts/token/Vault.sol:Vault', TOKEN_ABI as ContractAbi],
+    ]);
+    const dir = createVirtualAbisDirectoryHandle('artifacts', abis);
+
+    const scan = await createAbiFolderWatcher(dir).scan();
+    expect(Array.from(scan.abis.keys()).sort()).toEqual(['Token', 'contracts/token/Vault.sol:Vault']);
+  });
+});
+
+describe('isVirtualHandle', () => {
+  it('tells virtual handles apart from others', () => {
+    expect(isVirtualHandle(createVirtualFileHandle(new File([''], 'a.json')))).toBe(true);
+    expect(isVirtualHandle({ kind: 'file', name: 'a.json' } as FileSystemHandle)).toBe(false);
+    expect(isVirtualHandle(null)).toBe(false);
+  });
+});
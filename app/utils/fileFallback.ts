@@ -0,0 +1,248 @@
+/**
+ * Fallback file loading for browsers without the File System Access API (Firefox, Safari).
+ *
+ * Files picked through `<input type="file">` (with `webkitdirectory` for folders) or
+ * dropped onto the page are wrapped in read-only "virtual" handles that implement the
+ * subset of FileSystemFileHandle / FileSystemDirectoryHandle the app uses
+ * (`name`, `kind`, `getFile`, `values`, `getFileHandle`, `getDirectoryHandle`),
+ * so the existing parsers work unchanged.
+ *
+ * Virtual handles can't be stored in IndexedDB or re-read later, so the parsed
+ * result is persisted instead (see saveUploadedSource in storage.ts).
+ */
+
+import type { ContractAbi, DeploymentsFile } from '../types';
+
+export interface VirtualFileEntry {
+  path: string; // relative to the picked folder, e.g. "Token.sol/Token.json"
+  file: File;
+}
+
+// Virtual handles are tracked here so they can be told apart from real ones
+const virtualHandles = new WeakSet<object>();
+
+/**
+ * Whether the browser supports showOpenFilePicker / showDirectoryPicker
+ */
+export function supportsFileSystemAccess(): boolean {
+  return typeof window !== 'undefined'
+    && 'showOpenFilePicker' in window
+    && 'showDirectoryPicker' in window;
+}
+
+/**
+ * Whether a handle wraps picked or dropped files rather than a real file system entry
+ */
+export function isVirtualHandle(handle: FileSystemHandle | null): boolean {
+  return handle !== null && virtualHandles.has(handle);
+}
+
+function notFound(name: string): DOMException {
+  return new DOMException(`"${name}" not found`, 'NotFoundError');
+}
+
+/**
+ * Wrap a File in a read-only FileSystemFileHandle
+ */
+export function createVirtualFileHandle(file: File): FileSystemFileHandle {
+  const handle = {
+    kind: 'file',
+    name: file.name,
+    getFile: async () => file,
+  };
+  virtualHandles.add(handle);
+  return handle as unknown as FileSystemFileHandle;
+}
+
+/**
+ * Build a read-only FileSystemDirectoryHandle from files with relative paths
+ */
+export function createVirtualDirectoryHandle(name: string, entries: VirtualFileEntry[]): FileSystemDirectoryHandle {
+  const files = new Map<string, FileSystemFileHandle>();
+  const subdirectories = new Map<string, VirtualFileEntry[]>();
+
+  for (const entry of entries) {
+    const [first, ...rest] = entry.path.split('/').filter(Boolean);
+    if (!first) continue;
+
+    if (rest.length === 0) {
+      files.set(first, createVirtualFileHandle(entry.file));
+    } else {
+      const children = subdirectories.get(first) ?? [];
+      children.push({ path: rest.join('/'), file: entry.file });
+      subdirectories.set(first, children);
+    }
+  }
+
+  const directories = new Map<string, FileSystemDirectoryHandle>();
+  for (const [dirName, children] of subdirectories) {
+    directories.set(dirName, createVirtualDirectoryHandle(dirName, children));
+  }
+
+  const handle = {
+    kind: 'directory',
+    name,
+    async *values() {
+      yield* directories.values();
+      yield* files.values();
+    },
+    async getFileHandle(fileName: string) {
+      const file = files.get(fileName);
+      if (!file) throw notFound(fileName);
+      return file;
+    },
+    async getDirectoryHandle(dirName: string) {
+      const directory = directories.get(dirName);
+      if (!directory) throw notFound(dirName);
+      return directory;
+    },
+  };
+  virtualHandles.add(handle);
+  return handle as unknown as FileSystemDirectoryHandle;
+}
+
+/**
+ * Build a virtual file handle holding JSON, used to restore an uploaded deployments file
+ */
+export function createVirtualJsonFileHandle(name: string, data: DeploymentsFile): FileSystemFileHandle {
+  return createVirtualFileHandle(new File([JSON.stringify(data)], name, { type: 'application/json' }));
+}
+
+/**
+ * Build a virtual ABIs folder from parsed ABIs, used to restore an uploaded ABIs folder.
+ * Fully-qualified keys become Hardhat-style artifacts (`<source>/<Name>.json`) so the
+ * artifact loaders restore the same keys; bare names become `<Name>.json` ABI files.
+ */
+export function createVirtualAbisDirectoryHandle(name: string, abis: Map<string, ContractAbi>): FileSystemDirectoryHandle {
+  const entries = Array.from(abis, ([key, abi]) => {
+    const separator = key.lastIndexOf(':');
+    if (separator === -1) {
+      return {
+        path: `${key}.json`,
+        file: new File([JSON.stringify(abi)], `${key}.json`, { type: 'application/json' }),
+      };
+    }
+
+    const sourceName = key.slice(0, separator);
+    const contractName = key.slice(separator + 1);
+    const artifact = { _format: 'hh-sol-artifact-1', contractName, sourceName, abi };
+    return {
+      path: `${sourceName}/${contractName}.json`,
+      file: new File([JSON.stringify(artifact)], `${contractName}.json`, { type: 'application/json' }),
+    };
+  });
+  return createVirtualDirectoryHandle(name, entries);
+}
+
+/**
+ * Open a native file input. Rejects with an AbortError when the dialog is cancelled.
+ */
+function pickWithInput(options: { accept?: string; directory?: boolean }): Promise<File[]> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    if (options.accept) input.accept = options.accept;
+    if (options.directory) input.webkitdirectory = true;
+
+    input.addEventListener('change', () => {
+      const files = Array.from(input.files ?? []);
+      if (files.length === 0) {
+        reject(new DOMException('No file selected', 'AbortError'));
+      } else {
+        resolve(files);
+      }
+    });
+    input.addEventListener('cancel', () => reject(new DOMException('The user aborted a request.', 'AbortError')));
+    input.click();
+  });
+}
+
+/**
+ * Pick a JSON file: File System Access API when available, file input otherwise
+ */
+export async function openJsonFile(): Promise<FileSystemFileHandle> {
+  if (supportsFileSystemAccess()) {
+    // @ts-expect-error - File System Access API
+    const [handle] = await window.showOpenFilePicker({
+      types: [{
+        description: 'JSON Files',
+        accept: { 'application/json': ['.json'] }
+      }],
+      multiple: false
+    });
+    return handle;
+  }
+
+  const [file] = await pickWithInput({ accept: '.json,application/json' });
+  return createVirtualFileHandle(file);
+}
+
+/**
+ * Pick a folder: File System Access API when available, `webkitdirectory` input otherwise
+ */
+export async function openDirectory(): Promise<FileSystemDirectoryHandle> {
+  if (supportsFileSystemAccess()) {
+    // @ts-expect-error - File System Access API
+    return await window.showDirectoryPicker();
+  }
+
+  const files = await pickWithInput({ directory: true });
+  // webkitRelativePath starts with the picked folder's name
+  const rootName = files[0].webkitRelativePath.split('/')[0] || 'folder';
+  const entries = files.map((file) => ({
+    path: file.webkitRelativePath.split('/').slice(1).join('/') || file.name,
+    file,
+  }));
+  return createVirtualDirectoryHandle(rootName, entries);
+}
+
+// Recursively collect the files below a dropped directory entry
+async function readEntryFiles(entry: FileSystemEntry, prefix: string): Promise<VirtualFileEntry[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: `${prefix}${entry.name}`, file }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it returns an empty array
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+
+  const nested = await Promise.all(children.map((child) => readEntryFiles(child, `${prefix}${entry.name}/`)));
+  return nested.flat();
+}
+
+/**
+ * Turn the first item of a drop event into a handle. Chromium provides real handles
+ * (which can be persisted); other browsers get virtual ones.
+ */
+export async function handleFromDrop(dataTransfer: DataTransfer): Promise<FileSystemHandle | null> {
+  const item = Array.from(dataTransfer.items).find((candidate) => candidate.kind === 'file');
+  if (!item) return null;
+
+  const withHandle = item as DataTransferItem & { getAsFileSystemHandle?: () => Promise<FileSystemHandle | null> };
+  if (typeof withHandle.getAsFileSystemHandle === 'function') {
+    return withHandle.getAsFileSystemHandle();
+  }
+
+  const entry = item.webkitGetAsEntry();
+  if (!entry) {
+    const file = item.getAsFile();
+    return file ? createVirtualFileHandle(file) : null;
+  }
+
+  if (entry.isFile) {
+    const [{ file }] = await readEntryFiles(entry, '');
+    return createVirtualFileHandle(file);
+  }
+
+  const files = await readEntryFiles(entry, '');
+  return createVirtualDirectoryHandle(
+    entry.name,
+    files.map(({ path, file }) => ({ path: path.slice(entry.name.length + 1), file }))
+  );
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { createHardhatDeployWatcher, parseHardhatDeployFolder, HARDHAT_DEPLOY_DEPLOYMENT_NAME } from './hardhatDeploy';
+import { findBestAbiMatch, isAmbiguousMatch } from './abiMatcher';
+
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const VAULT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TOKEN_ABI = [{ type: 'function', name: 'totalSupply', stateMutability: 'view', inputs: [], outputs: [] }];
+
+type Tree = { [name: string]: Tree | string };
+
+// Minimal in-memory stand-in for a FileSystemDirectoryHandle
+function mockDirectory(name: string, tree: Tree): FileSystemDirectoryHandle {
+  return {
+    kind: 'directory',
+    name,
+    async *values() {
+      for (const [entryName, value] of Object.entries(tree)) {
+        if (typeof value === 'string') {
+          yield {
+            kind: 'file',
+            name: entryName,
+            getFile: async () => ({ text: async () => value }),
+          };
+        } else {
+          yield mockDirectory(entryName, value);
+        }
+      }
+    },
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+describe('parseHardhatDeployFolder', () => {
+  it('reads addresses and ABIs from every network folder', async () => {
+    const folder = mockDirectory('deployments', {
+      sepolia: {
+        '.chainId': '11155111',
+        'Token.json': JSON.stringify({ address: TOKEN, abi: TOKEN_ABI }),
+        solcInputs: { 'abc.json': '{}' },
+      },
+    });
+
+    const { deployments, abis } = await parseHardhatDeployFolder(folder);
+
+    expect(deployments).toEqual({ sepolia: { [HARDHAT_DEPLOY_DEPLOYMENT_NAME]: { Token: TOKEN } } });
+    expect(abis.get('Token')).toEqual(TOKEN_ABI);
+  });
+
+  it('keys ABIs per network when a contract differs between networks', async () => {
+    const upgradedAbi = [...TOKEN_ABI, { type: 'function', name: 'mint', stateMutability: 'nonpayable', inputs: [], outputs: [] }];
+    const folder = mockDirectory('deployments', {
+      mainnet: {
+        'Token.json': JSON.stringify({ address: TOKEN, abi: TOKEN_ABI }),
+        'Vault.json': JSON.stringify({ address: VAULT, abi: TOKEN_ABI }),
+      },
+      sepolia: {
+        'Token.json': JSON.stringify({ address: TOKEN, abi: upgradedAbi }),
+        'Vault.json': JSON.stringify({ address: VAULT, abi: TOKEN_ABI }),
+      },
+    });
+
+    const { abis } = await parseHardhatDeployFolder(folder);
+
+    expect([...abis.keys()].sort()).toEqual(['Vault', 'mainnet:Token', 'sepolia:Token']);
+    expect(abis.get('mainnet:Token')).toEqual(TOKEN_ABI);
+    expect(abis.get('sepolia:Token')).toEqual(upgradedAbi);
+    expect(isAmbiguousMatch(findBestAbiMatch('Token', new Set(abis.keys())))).toBe(true);
+  });
+
+  it('skips files without an address or ABI and malformed JSON', async () => {
+    const folder = mockDirectory('deployments', {
+      localhost: {
+        'NoAddress.json': JSON.stringify({ abi: TOKEN_ABI }),
+        'Broken.json': '{not json',
+      },
+    });
+
+    const { deployments, abis } = await parseHardhatDeployFolder(folder);
+
+    expect(deployments).toEqual({});
+    expect(abis.size).toBe(0);
+  });
+});
+
+describe('createHardhatDeployWatcher', () => {
+  // Files with a modification time, counting how often each one is read
+  function watchedFolder(files: Record<string, { text: string; lastModified: number }>, reads: string[]) {
+    return {
+      kind: 'directory',
+      name: 'deployments',
+      async *values() {
+        yield {
+          kind: 'directory',
+          name: 'sepolia',
+          async *values() {
+            for (const name of Object.keys(files)) {
+              yield {
+                kind: 'file',
+                name,
+                getFile: async () => {
+                  const { text, lastModified } = files[name];
+                  const read = async () => {
+                    reads.push(name);
+                    return text;
+                  };
+                  return { size: text.length, lastModified, text: read };
+                },
+              };
+            }
+          },
+        };
+      },
+    } as unknown as FileSystemDirectoryHandle;
+  }
+
+  it('only reads changed files and reports what changed', async () => {
+    const reads: string[] = [];
+    const files = {
+      'Token.json': { text: JSON.stringify({ address: TOKEN, abi: TOKEN_ABI }), lastModified: 1 },
+      'Vault.json': { text: JSON.stringify({ address: VAULT, abi: TOKEN_ABI }), lastModified: 1 },
+    };
+    const watcher = createHardhatDeployWatcher(watchedFolder(files, reads));
+
+    const first = await watcher.scan();
+    expect(first.deploymentChanges.map(({ name, change }) => `${name} ${change}`)).toEqual(['Token added', 'Vault added']);
+
+    reads.length = 0;
+    const unchanged = await watcher.scan();
+    expect(reads).toEqual([]);
+    expect(unchanged.deployments).toBe(first.deployments);
+    expect(unchanged.deploymentChanges).toEqual([]);
+    expect(unchanged.abiChanges).toEqual([]);
+
+    files['Vault.json'] = { text: JSON.stringify({ address: TOKEN, abi: [] }), lastModified: 2 };
+    const changed = await watcher.scan();
+    expect(reads).toEqual(['Vault.json']);
+    expect(changed.deploymentChanges.map(({ name, change }) => `${name} ${change}`)).toEqual(['Vault moved']);
+    expect(changed.abiChanges).toEqual([{ name: 'Vault', change: 'changed' }]);
+    expect(changed.abis.get('Token')).toBe(first.abis.get('Token'));
+  });
+
+  it('reports nothing when the folder matches the baseline', async () => {
+    const files = { 'Token.json': { text: JSON.stringify({ address: TOKEN, abi: TOKEN_ABI }), lastModified: 1 } };
+    const baseline = await parseHardhatDeployFolder(watchedFolder(files, []));
+
+    const { deploymentChanges, abiChanges, deployments } = await createHardhatDeployWatcher(watchedFolder(files, []), baseline).scan();
+
+    expect(deploymentChanges).toEqual([]);
+    expect(abiChanges).toEqual([]);
+    expect(deployments).toBe(baseline.deployments);
+  });
+});
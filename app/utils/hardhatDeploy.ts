@@ -0,0 +1,218 @@
+/**
+ * hardhat-deploy folder support: a single `deployments/` directory provides
+ * both contract addresses and ABIs.
+ *
+ * Expected layout:
+ *   deployments/
+ *   ├── <network>/
+ *   │   ├── .chainId
+ *   │   ├── <Contract>.json   ({ "address": "0x...", "abi": [...] })
+ *   │   └── solcInputs/       (ignored)
+ *   └── ...
+ *
+ * Each network folder becomes a network with a single deployment named
+ * HARDHAT_DEPLOY_DEPLOYMENT_NAME, since hardhat-deploy has no deployment
+ * concept of its own.
+ *
+ * ABIs are keyed by contract name. A contract whose ABI differs between networks is
+ * keyed per network instead ("sepolia:Token"), so looking up "Token" is an ambiguous
+ * match the user can pin (see abiMatcher.ts) rather than whichever network came last.
+ */
+
+import type { ContractAbi, DeploymentsFile, Deployment } from '../types';
+import { diffAbiCaches, isSameAbi, type AbiChange } from './abiFolderWatcher';
+import { diffDeploymentsFiles, type DeploymentsFileChange } from './deploymentDiff';
+import { isSameStorageLayouts, parseStorageLayout, type StorageLayout } from './storageLayout';
+
+export const HARDHAT_DEPLOY_DEPLOYMENT_NAME = 'hardhat-deploy';
+
+export interface HardhatDeployArtifact {
+  address?: string;
+  abi?: ContractAbi;
+  [key: string]: unknown;
+}
+
+export interface HardhatDeployContents {
+  deployments: DeploymentsFile;
+  abis: Map<string, ContractAbi>;
+  storageLayouts: Map<string, StorageLayout>; // only for deployments saved with their storage layout
+}
+
+export interface HardhatDeployScan extends HardhatDeployContents {
+  deploymentChanges: DeploymentsFileChange[];
+  abiChanges: AbiChange[];
+}
+
+export interface HardhatDeployWatcher {
+  handle: FileSystemDirectoryHandle;
+  scan: () => Promise<HardhatDeployScan>;
+}
+
+interface WatchedDeployFile {
+  size: number;
+  lastModified: number;
+  deployed: HardhatDeployFile | null; // null when the file isn't a deployment
+}
+
+type AsyncIterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+};
+
+// One `<network>/<Contract>.json` deployment file
+export interface HardhatDeployFile {
+  network: string;
+  contractName: string;
+  address: string;
+  abi: ContractAbi;
+  storageLayout: StorageLayout | null;
+}
+
+/**
+ * Read a parsed `<Contract>.json`; null when the file isn't a hardhat-deploy artifact
+ */
+export function readHardhatDeployArtifact(
+  network: string,
+  contractName: string,
+  artifact: HardhatDeployArtifact
+): HardhatDeployFile | null {
+  if (typeof artifact.address !== 'string' || !Array.isArray(artifact.abi)) {
+    return null;
+  }
+  return {
+    network,
+    contractName,
+    address: artifact.address,
+    abi: artifact.abi,
+    storageLayout: parseStorageLayout(artifact.storageLayout),
+  };
+}
+
+/**
+ * Combine deployment files into addresses, ABIs and storage layouts
+ */
+export function buildHardhatDeployContents(files: HardhatDeployFile[]): HardhatDeployContents {
+  const contents: HardhatDeployContents = { deployments: {}, abis: new Map(), storageLayouts: new Map() };
+  const byName = new Map<string, HardhatDeployFile[]>();
+
+  for (const file of files) {
+    const networkDeployments = contents.deployments[file.network] ?? {};
+    const deployment: Deployment = networkDeployments[HARDHAT_DEPLOY_DEPLOYMENT_NAME] ?? {};
+    deployment[file.contractName] = file.address;
+    networkDeployments[HARDHAT_DEPLOY_DEPLOYMENT_NAME] = deployment;
+    contents.deployments[file.network] = networkDeployments;
+
+    byName.set(file.contractName, [...byName.get(file.contractName) ?? [], file]);
+  }
+
+  for (const [contractName, named] of byName) {
+    const perNetwork = named.some((file) => !isSameAbi(file.abi, named[0].abi));
+    for (const file of named) {
+      const key = perNetwork ? `${file.network}:${contractName}` : contractName;
+      if (!contents.abis.has(key)) contents.abis.set(key, file.abi);
+      if (file.storageLayout && !contents.storageLayouts.has(key)) contents.storageLayouts.set(key, file.storageLayout);
+    }
+  }
+
+  return contents;
+}
+
+// Every `<network>/<Contract>.json` below the folder, in a stable order
+async function collectDeployFiles(
+  dirHandle: FileSystemDirectoryHandle
+): Promise<{ path: string; network: string; contractName: string; handle: FileSystemFileHandle }[]> {
+  const files: { path: string; network: string; contractName: string; handle: FileSystemFileHandle }[] = [];
+
+  for await (const networkEntry of (dirHandle as AsyncIterableDirectoryHandle).values()) {
+    if (networkEntry.kind !== 'directory' || networkEntry.name.startsWith('.')) continue;
+    const network = networkEntry.name;
+
+    for await (const entry of (networkEntry as AsyncIterableDirectoryHandle).values()) {
+      if (entry.kind !== 'file' || entry.name.startsWith('.') || !entry.name.endsWith('.json')) continue;
+      files.push({
+        path: `${network}/${entry.name}`,
+        network,
+        contractName: entry.name.replace(/\.json$/, ''),
+        handle: entry as FileSystemFileHandle,
+      });
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+async function readDeployFile(network: string, contractName: string, file: File): Promise<HardhatDeployFile | null> {
+  try {
+    return readHardhatDeployArtifact(network, contractName, JSON.parse(await file.text()) as HardhatDeployArtifact);
+  } catch {
+    return null; // Malformed file (e.g. being rewritten), skip
+  }
+}
+
+/**
+ * Watch a hardhat-deploy folder. Like the ABIs folder watcher, each file's `lastModified`
+ * and size are remembered and only changed files are read again; a scan without changes
+ * returns the previous contents. `baseline` is what is already loaded for this folder.
+ */
+export function createHardhatDeployWatcher(
+  handle: FileSystemDirectoryHandle,
+  baseline: HardhatDeployContents = { deployments: {}, abis: new Map(), storageLayouts: new Map() }
+): HardhatDeployWatcher {
+  let files = new Map<string, WatchedDeployFile>();
+  let contents = baseline;
+  let scanned = false;
+
+  const scan = async (): Promise<HardhatDeployScan> => {
+    const nextFiles = new Map<string, WatchedDeployFile>();
+    let changed = !scanned;
+
+    for (const { path, network, contractName, handle: fileHandle } of await collectDeployFiles(handle)) {
+      let file: File;
+      try {
+        file = await fileHandle.getFile();
+      } catch {
+        continue; // Unreadable file, skip
+      }
+
+      const previous = files.get(path);
+      if (previous && previous.size === file.size && previous.lastModified === file.lastModified) {
+        nextFiles.set(path, previous);
+        continue;
+      }
+      nextFiles.set(path, { size: file.size, lastModified: file.lastModified, deployed: await readDeployFile(network, contractName, file) });
+      changed = true;
+    }
+
+    changed ||= nextFiles.size !== files.size;
+    files = nextFiles;
+    scanned = true;
+    if (!changed) return { ...contents, deploymentChanges: [], abiChanges: [] };
+
+    const next = buildHardhatDeployContents(
+      Array.from(nextFiles.values()).flatMap((watched) => watched.deployed ? [watched.deployed] : [])
+    );
+    // Keep the previous object for unchanged ABIs so consumers can compare by identity
+    for (const [key, abi] of next.abis) {
+      const existing = contents.abis.get(key);
+      if (existing && isSameAbi(existing, abi)) next.abis.set(key, existing);
+    }
+
+    const deploymentChanges = diffDeploymentsFiles(contents.deployments, next.deployments);
+    const abiChanges = diffAbiCaches(contents.abis, next.abis);
+    if (deploymentChanges.length > 0 || abiChanges.length > 0 || !isSameStorageLayouts(contents.storageLayouts, next.storageLayouts)) {
+      contents = next;
+    }
+    return { ...contents, deploymentChanges, abiChanges };
+  };
+
+  return { handle, scan };
+}
+
+/**
+ * Scan a hardhat-deploy `deployments/` folder into a DeploymentsFile and an ABI map
+ */
+export async function parseHardhatDeployFolder(
+  dirHandle: FileSystemDirectoryHandle
+): Promise<HardhatDeployContents> {
+  const { deployments, abis, storageLayouts } = await createHardhatDeployWatcher(dirHandle).scan();
+  return { deployments, abis, storageLayouts };
+}
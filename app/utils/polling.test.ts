@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { startPolling } from './polling';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// Minimal document with a settable hidden flag
+function stubDocument(hidden: boolean) {
+  const listeners = new Set<() => void>();
+  const doc = {
+    hidden,
+    addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+    removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener),
+  };
+  vi.stubGlobal('document', doc);
+  return {
+    setHidden: (value: boolean) => {
+      doc.hidden = value;
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+describe('startPolling', () => {
+  it('polls at the interval while visible', async () => {
+    vi.useFakeTimers();
+    stubDocument(false);
+    const poll = vi.fn(async () => {});
+    const stop = startPolling(poll, { interval: 1000, maxHiddenInterval: 8000 });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(poll).toHaveBeenCalledTimes(3);
+    stop();
+  });
+
+  it('backs off while hidden and polls immediately when visible again', async () => {
+    vi.useFakeTimers();
+    const visibility = stubDocument(true);
+    const poll = vi.fn(async () => {});
+    const stop = startPolling(poll, { interval: 1000, maxHiddenInterval: 4000 });
+
+    // Polls at 1s, then waits 2s, 4s, 4s...
+    await vi.advanceTimersByTimeAsync(11000);
+    expect(poll).toHaveBeenCalledTimes(4);
+
+    visibility.setHidden(false);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(poll).toHaveBeenCalledTimes(5);
+    stop();
+  });
+
+  it('stops polling', async () => {
+    vi.useFakeTimers();
+    stubDocument(false);
+    const poll = vi.fn(async () => {});
+    startPolling(poll, { interval: 1000, maxHiddenInterval: 8000 })();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(poll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Polling that backs off while the tab is hidden: the delay doubles after every poll
+ * in a hidden tab (up to `maxHiddenInterval`), and becoming visible polls right away
+ * and resets it.
+ */
+
+export interface PollingOptions {
+  interval: number;
+  maxHiddenInterval: number;
+}
+
+function isHidden(): boolean {
+  return typeof document !== 'undefined' && document.hidden;
+}
+
+/**
+ * Start polling; returns a function that stops it. Polls never overlap.
+ */
+export function startPolling(poll: () => Promise<void>, options: PollingOptions): () => void {
+  let delay = options.interval;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let running = false;
+  let stopped = false;
+
+  const tick = async () => {
+    timer = null;
+    running = true;
+    try {
+      await poll();
+    } finally {
+      running = false;
+    }
+    if (stopped) return;
+
+    delay = isHidden() ? Math.min(delay * 2, options.maxHiddenInterval) : options.interval;
+    timer = setTimeout(tick, delay);
+  };
+
+  const handleVisibilityChange = () => {
+    if (isHidden() || stopped) return;
+    delay = options.interval;
+    // A running poll reschedules itself with the reset delay
+    if (running) return;
+    if (timer) clearTimeout(timer);
+    tick();
+  };
+
+  timer = setTimeout(tick, delay);
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { keccak256, toHex, type Hex } from 'viem';
+import { detectProxy, fetchUpgradeHistory, mergeProxyAbi, slotToAddress, PROXY_SLOTS } from './proxyDetection';
+import type { AbiEvent, AbiFunction, ContractAbi } from '../types';
+
+const PROXY = '0x1111111111111111111111111111111111111111';
+const IMPLEMENTATION = '0x2222222222222222222222222222222222222222';
+const ADMIN = '0x3333333333333333333333333333333333333333';
+const BEACON = '0x4444444444444444444444444444444444444444';
+
+function word(address: string): Hex {
+  return `0x${address.slice(2).padStart(64, '0')}`;
+}
+
+// Fake client answering storage reads from a slot -> value table
+function fakeClient(slots: Record<string, Hex>, callResult: Hex = '0x') {
+  return {
+    getStorageAt: vi.fn(async ({ slot }: { slot: Hex }) => slots[slot] ?? word('0x0')),
+    call: vi.fn(async () => ({ data: callResult })),
+    getLogs: vi.fn(),
+  } as unknown as Parameters<typeof detectProxy>[0];
+}
+
+describe('PROXY_SLOTS', () => {
+  it('are derived as the standards specify', () => {
+    const minusOne = (label: string) => toHex(BigInt(keccak256(toHex(label))) - BigInt(1), { size: 32 });
+    expect(PROXY_SLOTS.eip1967Implementation).toBe(minusOne('eip1967.proxy.implementation'));
+    expect(PROXY_SLOTS.eip1967Admin).toBe(minusOne('eip1967.proxy.admin'));
+    expect(PROXY_SLOTS.eip1967Beacon).toBe(minusOne('eip1967.proxy.beacon'));
+    expect(PROXY_SLOTS.eip1822Proxiable).toBe(keccak256(toHex('PROXIABLE')));
+    expect(PROXY_SLOTS.ozImplementation).toBe(keccak256(toHex('org.zeppelinos.proxy.implementation')));
+  });
+});
+
+describe('slotToAddress', () => {
+  it('reads the low 20 bytes and treats zero as empty', () => {
+    expect(slotToAddress(word(IMPLEMENTATION))).toBe(IMPLEMENTATION);
+    expect(slotToAddress(word('0x0'))).toBeNull();
+    expect(slotToAddress('0x')).toBeNull();
+  });
+});
+
+describe('detectProxy', () => {
+  it('detects EIP-1967 proxies with their admin', async () => {
+    const client = fakeClient({
+      [PROXY_SLOTS.eip1967Implementation]: word(IMPLEMENTATION),
+      [PROXY_SLOTS.eip1967Admin]: word(ADMIN),
+    });
+    expect(await detectProxy(client, PROXY)).toEqual({
+      kind: 'eip1967',
+      implementation: IMPLEMENTATION,
+      admin: ADMIN,
+      beacon: null,
+    });
+  });
+
+  it('resolves beacon proxies through the beacon', async () => {
+    const client = fakeClient({ [PROXY_SLOTS.eip1967Beacon]: word(BEACON) }, word(IMPLEMENTATION));
+    const info = await detectProxy(client, PROXY);
+    expect(info).toMatchObject({ kind: 'eip1967-beacon', implementation: IMPLEMENTATION, beacon: BEACON });
+  });
+
+  it('falls back to EIP-1822 and OpenZeppelin legacy slots', async () => {
+    expect(await detectProxy(fakeClient({ [PROXY_SLOTS.eip1822Proxiable]: word(IMPLEMENTATION) }), PROXY))
+      .toMatchObject({ kind: 'eip1822', implementation: IMPLEMENTATION });
+    expect(await detectProxy(fakeClient({
+      [PROXY_SLOTS.ozImplementation]: word(IMPLEMENTATION),
+      [PROXY_SLOTS.ozAdmin]: word(ADMIN),
+    }), PROXY)).toMatchObject({ kind: 'openzeppelin-legacy', implementation: IMPLEMENTATION, admin: ADMIN });
+  });
+
+  it('returns null for regular contracts', async () => {
+    expect(await detectProxy(fakeClient({}), PROXY)).toBeNull();
+  });
+});
+
+describe('mergeProxyAbi', () => {
+  const upgradeTo: AbiFunction = { type: 'function', name: 'upgradeTo', stateMutability: 'nonpayable', inputs: [{ name: 'impl', type: 'address' }], outputs: [] };
+  const balanceOf: AbiFunction = { type: 'function', name: 'balanceOf', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }], outputs: [{ name: '', type: 'uint256' }] };
+  const upgraded: AbiEvent = { type: 'event', name: 'Upgraded', inputs: [{ name: 'implementation', type: 'address', indexed: true }] };
+
+  it('adds the proxy entries the implementation lacks and drops constructors', () => {
+    const proxyAbi: ContractAbi = [{ type: 'constructor', stateMutability: 'nonpayable', inputs: [] }, upgradeTo, upgraded];
+    const implementationAbi: ContractAbi = [balanceOf, { ...upgraded, inputs: [{ name: 'newImpl', type: 'address', indexed: true }] }];
+
+    const merged = mergeProxyAbi(proxyAbi, implementationAbi);
+
+    expect(merged.map((item) => item.type === 'constructor' ? 'constructor' : ('name' in item ? item.name : item.type)))
+      .toEqual(['balanceOf', 'Upgraded', 'upgradeTo']);
+    // The implementation's version of a shared entry wins
+    expect((merged[1] as AbiEvent).inputs[0].name).toBe('newImpl');
+  });
+});
+
+describe('fetchUpgradeHistory', () => {
+  it('returns upgrade events oldest first', async () => {
+    const client = {
+      getBlockNumber: vi.fn(async () => BigInt(100)),
+      getCode: vi.fn(async () => '0x6080'),
+      getLogs: vi.fn(async () => [
+        { eventName: 'Upgraded', args: { implementation: IMPLEMENTATION }, blockNumber: BigInt(20), transactionHash: '0xbb', logIndex: 0 },
+        { eventName: 'AdminChanged', args: { previousAdmin: ADMIN, newAdmin: PROXY }, blockNumber: BigInt(10), transactionHash: '0xaa', logIndex: 1 },
+        { eventName: 'Upgraded', args: { implementation: ADMIN }, blockNumber: BigInt(10), transactionHash: '0xaa', logIndex: 0 },
+      ]),
+    } as unknown as Parameters<typeof fetchUpgradeHistory>[0];
+
+    const history = await fetchUpgradeHistory(client, PROXY);
+
+    expect(history.map((event) => [event.kind, event.address])).toEqual([
+      ['Upgraded', ADMIN],
+      ['AdminChanged', PROXY],
+      ['Upgraded', IMPLEMENTATION],
+    ]);
+    expect(history[1].previousAdmin).toBe(ADMIN);
+  });
+
+  it('pages the range from the deployment block and halves pages the node rejects', async () => {
+    const latest = BigInt(120000);
+    const client = {
+      getBlockNumber: vi.fn(async () => latest),
+      // Deployed at block 30000
+      getCode: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => (blockNumber >= BigInt(30000) ? '0x6080' : undefined)),
+      getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) => {
+        if (toBlock - fromBlock >= BigInt(40000)) throw new Error('exceed maximum block range: 40000');
+        return [];
+      }),
+    } as unknown as Parameters<typeof fetchUpgradeHistory>[0];
+
+    await fetchUpgradeHistory(client, PROXY);
+
+    const ranges = vi.mocked(client.getLogs).mock.calls.map(([args]) => [args?.fromBlock, args?.toBlock]);
+    expect(ranges[0]).toEqual([BigInt(30000), BigInt(79999)]);
+    expect(ranges.slice(1)).toEqual([
+      [BigInt(30000), BigInt(54999)],
+      [BigInt(55000), BigInt(79999)],
+      [BigInt(80000), BigInt(104999)],
+      [BigInt(105000), latest],
+    ]);
+  });
+
+  it('reports a range the node never accepts instead of the node error', async () => {
+    const client = {
+      getBlockNumber: vi.fn(async () => BigInt(5000)),
+      getCode: vi.fn(async () => { throw new Error('missing trie node'); }),
+      getLogs: vi.fn(async () => { throw new Error('query returned more than 10000 results'); }),
+    } as unknown as Parameters<typeof fetchUpgradeHistory>[0];
+
+    await expect(fetchUpgradeHistory(client, PROXY)).rejects.toThrow(/^Block range too large/);
+    expect(vi.mocked(client.getLogs).mock.calls[0][0]).toMatchObject({ fromBlock: BigInt(0) });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Proxy detection: reads the well-known storage slots where upgradeable proxies keep
+ * their implementation, admin and beacon addresses.
+ *
+ * Supported layouts, checked in this order:
+ * - EIP-1967 (transparent and UUPS proxies): implementation, admin and beacon slots
+ * - EIP-1822 (UUPS predecessor): keccak256("PROXIABLE")
+ * - OpenZeppelin legacy (zos): keccak256("org.zeppelinos.proxy.implementation" / ".admin")
+ *
+ * Beacon proxies are resolved by calling `implementation()` on the beacon.
+ */
+
+import { getAddress, toEventSelector, toFunctionSelector, type Address, type Hex, type PublicClient } from 'viem';
+import type { AbiItem, ContractAbi } from '../types';
+
+export const PROXY_SLOTS = {
+  eip1967Implementation: '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc',
+  eip1967Admin: '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103',
+  eip1967Beacon: '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50',
+  eip1822Proxiable: '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7',
+  ozImplementation: '0x7050c9e0f4ca769c69bd3a8ef740bc37934f8e2c036e5a723fd8ee048ed3f8c3',
+  ozAdmin: '0x10d6a54a4754c8869d6886b5f5d7fbfa5b4522237ea5c60d11bc4e7a1ff9390b',
+} as const satisfies Record<string, Hex>;
+
+// implementation() on an EIP-1967 beacon
+const BEACON_IMPLEMENTATION_SELECTOR = '0x5c60da1b';
+
+export type ProxyKind = 'eip1967' | 'eip1967-beacon' | 'eip1822' | 'openzeppelin-legacy';
+
+export const PROXY_KIND_LABELS: Record<ProxyKind, string> = {
+  'eip1967': 'EIP-1967 proxy',
+  'eip1967-beacon': 'EIP-1967 beacon proxy',
+  'eip1822': 'EIP-1822 (UUPS) proxy',
+  'openzeppelin-legacy': 'OpenZeppelin legacy proxy',
+};
+
+export interface ProxyInfo {
+  kind: ProxyKind;
+  implementation: Address;
+  admin: Address | null;
+  beacon: Address | null;
+}
+
+export type UpgradeEventKind = 'Upgraded' | 'BeaconUpgraded' | 'AdminChanged';
+
+export interface UpgradeEvent {
+  kind: UpgradeEventKind;
+  blockNumber: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+  address: Address; // New implementation, beacon or admin
+  previousAdmin?: Address;
+}
+
+// The subset of a viem public client used here
+type ProxyClient = Pick<PublicClient, 'getStorageAt' | 'call' | 'getLogs' | 'getCode' | 'getBlockNumber'>;
+
+// Upgrade events are queried in block ranges of this size, halved while the node rejects them
+const LOG_PAGE_SIZE = 50000;
+const MIN_LOG_PAGE_SIZE = 1000;
+
+// How nodes word a log query spanning too many blocks or matching too many logs
+const RANGE_TOO_LARGE_PATTERN = /block range|too large|too wide|too many|more than|exceed|limit/i;
+
+const UPGRADE_EVENTS = [
+  { type: 'event', name: 'Upgraded', inputs: [{ name: 'implementation', type: 'address', indexed: true }] },
+  { type: 'event', name: 'BeaconUpgraded', inputs: [{ name: 'beacon', type: 'address', indexed: true }] },
+  {
+    type: 'event',
+    name: 'AdminChanged',
+    inputs: [
+      { name: 'previousAdmin', type: 'address', indexed: false },
+      { name: 'newAdmin', type: 'address', indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * Address stored in the low 20 bytes of a storage word, or null for an empty slot
+ */
+export function slotToAddress(value: Hex | undefined): Address | null {
+  if (!value || value === '0x') return null;
+  const word = value.slice(2).padStart(64, '0');
+  const address = word.slice(24);
+  if (/^0+$/.test(address)) return null;
+  return getAddress(`0x${address}`);
+}
+
+async function readSlotAddress(client: ProxyClient, address: Address, slot: Hex): Promise<Address | null> {
+  return slotToAddress(await client.getStorageAt({ address, slot }));
+}
+
+/**
+ * Detect whether a contract is a proxy. Returns null for regular contracts.
+ */
+export async function detectProxy(client: ProxyClient, address: Address): Promise<ProxyInfo | null> {
+  const [implementation, admin, beacon] = await Promise.all([
+    readSlotAddress(client, address, PROXY_SLOTS.eip1967Implementation),
+    readSlotAddress(client, address, PROXY_SLOTS.eip1967Admin),
+    readSlotAddress(client, address, PROXY_SLOTS.eip1967Beacon),
+  ]);
+
+  if (implementation) {
+    return { kind: 'eip1967', implementation, admin, beacon };
+  }
+
+  if (beacon) {
+    const { data } = await client.call({ to: beacon, data: BEACON_IMPLEMENTATION_SELECTOR });
+    const beaconImplementation = slotToAddress(data);
+    if (beaconImplementation) {
+      return { kind: 'eip1967-beacon', implementation: beaconImplementation, admin, beacon };
+    }
+  }
+
+  const proxiable = await readSlotAddress(client, address, PROXY_SLOTS.eip1822Proxiable);
+  if (proxiable) {
+    return { kind: 'eip1822', implementation: proxiable, admin: null, beacon: null };
+  }
+
+  const [ozImplementation, ozAdmin] = await Promise.all([
+    readSlotAddress(client, address, PROXY_SLOTS.ozImplementation),
+    readSlotAddress(client, address, PROXY_SLOTS.ozAdmin),
+  ]);
+  if (ozImplementation) {
+    return { kind: 'openzeppelin-legacy', implementation: ozImplementation, admin: ozAdmin, beacon: null };
+  }
+
+  return null;
+}
+
+// Identity of an ABI entry for merging: selector for functions/errors, topic for events
+function abiItemKey(item: AbiItem): string {
+  switch (item.type) {
+    case 'function':
+    case 'error':
+      return `${item.type}:${toFunctionSelector(item as Parameters<typeof toFunctionSelector>[0])}`;
+    case 'event':
+      return `event:${toEventSelector(item as Parameters<typeof toEventSelector>[0])}`;
+    default:
+      return item.type;
+  }
+}
+
+/**
+ * ABI to interact with a proxy: the implementation ABI plus the proxy's own entries
+ * (upgradeTo, admin functions, events) that the implementation doesn't declare.
+ * The proxy constructor is dropped; on conflicts the implementation entry wins.
+ */
+export function mergeProxyAbi(proxyAbi: ContractAbi, implementationAbi: ContractAbi): ContractAbi {
+  const merged = implementationAbi.filter((item) => item.type !== 'constructor');
+  const keys = new Set(merged.map(abiItemKey));
+
+  for (const item of proxyAbi) {
+    if (item.type === 'constructor') continue;
+    const key = abiItemKey(item);
+    if (keys.has(key)) continue;
+    keys.add(key);
+    merged.push(item);
+  }
+
+  return merged;
+}
+
+/**
+ * First block at which the address has code, found by binary search. Nodes that can't
+ * read code at old blocks (non-archive nodes) get the search from block 0.
+ */
+export async function findDeploymentBlock(
+  client: Pick<PublicClient, 'getCode'>,
+  address: Address,
+  latest: bigint
+): Promise<bigint> {
+  let low = BigInt(0);
+  let high = latest;
+  try {
+    while (low < high) {
+      const middle = (low + high) / BigInt(2);
+      const code = await client.getCode({ address, blockNumber: middle });
+      if (code && code !== '0x') {
+        high = middle;
+      } else {
+        low = middle + BigInt(1);
+      }
+    }
+    return low;
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/**
+ * Upgraded, BeaconUpgraded and AdminChanged events of a proxy, oldest first. Logs are
+ * queried from the proxy's deployment on, page by page, so nodes that limit the block
+ * range of eth_getLogs can answer.
+ */
+export async function fetchUpgradeHistory(client: ProxyClient, address: Address): Promise<UpgradeEvent[]> {
+  const latest = await client.getBlockNumber();
+  const logs = [];
+  let pageSize = BigInt(LOG_PAGE_SIZE);
+
+  for (let fromBlock = await findDeploymentBlock(client, address, latest); fromBlock <= latest;) {
+    const toBlock = fromBlock + pageSize - BigInt(1) < latest ? fromBlock + pageSize - BigInt(1) : latest;
+    try {
+      logs.push(...await client.getLogs({ address, events: UPGRADE_EVENTS, fromBlock, toBlock }));
+      fromBlock = toBlock + BigInt(1);
+    } catch (err) {
+      if (!(err instanceof Error) || !RANGE_TOO_LARGE_PATTERN.test(err.message)) throw err;
+      if (pageSize <= BigInt(MIN_LOG_PAGE_SIZE)) {
+        throw new Error(`Block range too large: the RPC node rejects log queries spanning ${MIN_LOG_PAGE_SIZE} blocks`);
+      }
+      pageSize /= BigInt(2);
+    }
+  }
+
+  return logs
+    .map((log): UpgradeEvent => {
+      const base = {
+        kind: log.eventName,
+        blockNumber: log.blockNumber ?? BigInt(0),
+        transactionHash: log.transactionHash ?? '0x',
+        logIndex: log.logIndex ?? 0,
+      };
+      switch (log.eventName) {
+        case 'Upgraded':
+          return { ...base, address: log.args.implementation! };
+        case 'BeaconUpgraded':
+          return { ...base, address: log.args.beacon! };
+        default:
+          return { ...base, address: log.args.newAdmin!, previousAdmin: log.args.previousAdmin };
+      }
+    })
+    .sort((a, b) => (a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber ? -1 : 1));
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getRemoteConfigParams, fetchRemoteJson, loadRemoteConfig } from './remoteConfig';
+
+const PAGE_URL = 'https://explorer.example.com/functions?abis=x';
+const TOKEN_ABI = [{ type: 'function', name: 'totalSupply', inputs: [], outputs: [], stateMutability: 'view' }];
+
+// Serve JSON bodies from a url -> body table
+function mockFiles(files: Record<string, unknown>) {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    if (!(url in files)) return new Response('not found', { status: 404 });
+    const body = files[url];
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status: 200 });
+  }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('getRemoteConfigParams', () => {
+  it('returns null without remote parameters', () => {
+    expect(getRemoteConfigParams(new URLSearchParams('network=testnet'))).toBeNull();
+  });
+
+  it('collects the remote URLs', () => {
+    expect(getRemoteConfigParams(new URLSearchParams('deployments=/d.json'))).toEqual({
+      config: null,
+      deployments: '/d.json',
+      abis: null,
+    });
+  });
+});
+
+describe('fetchRemoteJson', () => {
+  it('reports network and CORS failures', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    await expect(fetchRemoteJson('https://a.example.com/x.json')).rejects.toThrow(/CORS/);
+  });
+
+  it('reports HTTP errors and invalid JSON', async () => {
+    mockFiles({ 'https://a.example.com/bad.json': '{nope' });
+    await expect(fetchRemoteJson('https://a.example.com/missing.json')).rejects.toThrow('HTTP 404');
+    await expect(fetchRemoteJson('https://a.example.com/bad.json')).rejects.toThrow('not valid JSON');
+  });
+});
+
+describe('loadRemoteConfig', () => {
+  it('loads deployments and an ABI manifest with relative URLs', async () => {
+    mockFiles({
+      'https://explorer.example.com/build/config.json': { deployments: 'deployments.json', abis: 'abis/manifest.json' },
+      'https://explorer.example.com/build/deployments.json': { testnet: { v1: { Token: '0x01' } } },
+      'https://explorer.example.com/build/abis/manifest.json': { Token: 'Token.json', Inline: TOKEN_ABI },
+      'https://explorer.example.com/build/abis/Token.json': { abi: TOKEN_ABI },
+    });
+
+    const config = await loadRemoteConfig({ config: '/build/config.json', deployments: null, abis: null }, PAGE_URL);
+
+    expect(config.deployments).toEqual({ testnet: { v1: { Token: '0x01' } } });
+    expect(Array.from(config.abis!.keys())).toEqual(['Token', 'Inline']);
+    expect(config.abis!.get('Token')).toEqual(TOKEN_ABI);
+  });
+
+  it('names ABIs of a URL list after their files', async () => {
+    mockFiles({
+      'https://explorer.example.com/abis.json': ['out/Token.sol/Token.json'],
+      'https://explorer.example.com/out/Token.sol/Token.json': TOKEN_ABI,
+    });
+
+    const config = await loadRemoteConfig({ config: null, deployments: null, abis: '/abis.json' }, PAGE_URL);
+    expect(Array.from(config.abis!.keys())).toEqual(['Token']);
+    expect(config.deployments).toBeNull();
+  });
+
+  it('rejects artifacts without an ABI', async () => {
+    mockFiles({ 'https://explorer.example.com/abis.json': { Token: { bytecode: '0x' } } });
+    await expect(
+      loadRemoteConfig({ config: null, deployments: null, abis: '/abis.json' }, PAGE_URL)
+    ).rejects.toThrow('neither an ABI array');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Remote configuration from query parameters, so a hosted explorer can be linked
+ * already configured for a build:
+ *
+ * - `?config=<url>`: a config bundle (see configBundle.ts), or `{ "deployments": ..., "abis": ... }`
+ *   where each value is inline data or a URL
+ * - `?deployments=<url>`: a deployments file in any supported format
+ * - `?abis=<url>`: an ABI manifest
+ *
+ * An ABI manifest maps contract names to an ABI array, an artifact with an `abi` field,
+ * or the URL of either. A plain array of URLs is also accepted, naming each ABI after
+ * its file. Relative URLs resolve against the file that contains them.
+ */
+
+import type { ContractAbi, DeploymentsFile } from '../types';
+import { importDeployments } from './deploymentImporters';
+import { CONFIG_BUNDLE_FORMAT, parseConfigBundle, type ConfigBundle } from './configBundle';
+
+export interface RemoteConfigParams {
+  config: string | null;
+  deployments: string | null;
+  abis: string | null;
+}
+
+export interface RemoteConfig {
+  deployments: DeploymentsFile | null;
+  abis: Map<string, ContractAbi> | null;
+  bundle: ConfigBundle | null;
+}
+
+/**
+ * Remote config URLs from the query string, or null when there are none
+ */
+export function getRemoteConfigParams(searchParams: URLSearchParams | null): RemoteConfigParams | null {
+  const params = {
+    config: searchParams?.get('config') || null,
+    deployments: searchParams?.get('deployments') || null,
+    abis: searchParams?.get('abis') || null,
+  };
+  return params.config || params.deployments || params.abis ? params : null;
+}
+
+/**
+ * Fetch and parse JSON, with errors that tell CORS/network failures apart from bad responses
+ */
+export async function fetchRemoteJson(url: string, signal?: AbortSignal): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') throw err;
+    // fetch only rejects on network errors, which includes responses blocked by CORS
+    throw new Error(
+      `Could not fetch ${url}: the server is unreachable or does not allow cross-origin requests (CORS)`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(`Could not fetch ${url}: HTTP ${response.status}`);
+  }
+
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new Error(`${url} is not valid JSON: ${err instanceof Error ? err.message : 'parse error'}`);
+  }
+}
+
+function resolveUrl(url: string, baseUrl: string): string {
+  return new URL(url, baseUrl).toString();
+}
+
+// "https://host/out/Token.sol/Token.json" -> "Token"
+function nameFromUrl(url: string): string {
+  const fileName = new URL(url).pathname.split('/').pop() ?? url;
+  return fileName.replace(/\.(abi\.)?json$/, '').replace(/\.abi$/, '');
+}
+
+/**
+ * File name of a remote source, shown in place of a picked file or folder name
+ */
+export function remoteSourceName(url: string | null, pageUrl: string): string {
+  if (!url) return 'remote';
+  return new URL(url, pageUrl).pathname.split('/').pop() || url;
+}
+
+function toAbi(data: unknown, source: string): ContractAbi {
+  if (Array.isArray(data)) return data as ContractAbi;
+  const abi = (data as { abi?: unknown } | null)?.abi;
+  if (Array.isArray(abi)) return abi as ContractAbi;
+  throw new Error(`${source} is neither an ABI array nor an artifact with an "abi" field`);
+}
+
+/**
+ * Resolve an ABI manifest into an ABI cache, fetching referenced files in parallel
+ */
+export async function loadAbiManifest(
+  manifest: unknown,
+  baseUrl: string,
+  signal?: AbortSignal
+): Promise<Map<string, ContractAbi>> {
+  let entries: [string, unknown][];
+  if (Array.isArray(manifest) && manifest.every((entry) => typeof entry === 'string')) {
+    entries = (manifest as string[]).map((url) => [nameFromUrl(resolveUrl(url, baseUrl)), url]);
+  } else if (typeof manifest === 'object' && manifest !== null && !Array.isArray(manifest)) {
+    entries = Object.entries(manifest);
+  } else {
+    throw new Error('ABI manifest must be an object of contract names or an array of URLs');
+  }
+
+  const abis = await Promise.all(entries.map(async ([name, value]) => {
+    if (typeof value === 'string') {
+      const url = resolveUrl(value, baseUrl);
+      return [name, toAbi(await fetchRemoteJson(url, signal), url)] as const;
+    }
+    return [name, toAbi(value, `ABI "${name}"`)] as const;
+  }));
+
+  return new Map(abis);
+}
+
+async function loadDeployments(value: unknown, baseUrl: string, signal?: AbortSignal): Promise<DeploymentsFile> {
+  const data = typeof value === 'string'
+    ? await fetchRemoteJson(resolveUrl(value, baseUrl), signal)
+    : value;
+  return importDeployments(data).deployments;
+}
+
+async function loadAbis(value: unknown, baseUrl: string, signal?: AbortSignal): Promise<Map<string, ContractAbi>> {
+  if (typeof value === 'string') {
+    const url = resolveUrl(value, baseUrl);
+    return loadAbiManifest(await fetchRemoteJson(url, signal), url, signal);
+  }
+  return loadAbiManifest(value, baseUrl, signal);
+}
+
+/**
+ * Load everything the query parameters point to. `deployments` / `abis` override the
+ * matching part of `config`.
+ */
+export async function loadRemoteConfig(
+  params: RemoteConfigParams,
+  pageUrl: string,
+  signal?: AbortSignal
+): Promise<RemoteConfig> {
+  const result: RemoteConfig = { deployments: null, abis: null, bundle: null };
+
+  if (params.config) {
+    const configUrl = resolveUrl(params.config, pageUrl);
+    const data = await fetchRemoteJson(configUrl, signal) as Record<string, unknown> | null;
+
+    if (data?.format === CONFIG_BUNDLE_FORMAT) {
+      result.bundle = parseConfigBundle(JSON.stringify(data));
+      result.deployments = result.bundle.deployments;
+      result.abis = new Map(Object.entries(result.bundle.abis));
+    } else if (data && (data.deployments || data.abis)) {
+      if (data.deployments) result.deployments = await loadDeployments(data.deployments, configUrl, signal);
+      if (data.abis) result.abis = await loadAbis(data.abis, configUrl, signal);
+    } else {
+      throw new Error(`${configUrl} is neither a config bundle nor an object with "deployments" / "abis"`);
+    }
+  }
+
+  if (params.deployments) {
+    result.deployments = await loadDeployments(params.deployments, pageUrl, signal);
+  }
+  if (params.abis) {
+    result.abis = await loadAbis(params.abis, pageUrl, signal);
+  }
+
+  return result;
+}
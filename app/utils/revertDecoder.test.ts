@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encodeErrorResult, type Hex, type Transaction } from 'viem';
+import { decodeRevertData, decodeRevertError, extractRevertData, fetchRevertData } from './revertDecoder';
+import { buildSelectorRegistry } from './selectorRegistry';
+import type { AbiError, ContractAbi } from '../types';
+
+const errorString: AbiError = { type: 'error', name: 'Error', inputs: [{ name: 'message', type: 'string' }] };
+const panic: AbiError = { type: 'error', name: 'Panic', inputs: [{ name: 'code', type: 'uint256' }] };
+const insufficientBalance: AbiError = {
+  type: 'error',
+  name: 'InsufficientBalance',
+  inputs: [{ name: 'available', type: 'uint256' }, { name: 'required', type: 'uint256' }],
+};
+const unauthorized: AbiError = { type: 'error', name: 'Unauthorized', inputs: [] };
+
+const encode = (error: AbiError, args: unknown[] = []) =>
+  encodeErrorResult({ abi: [error] as never, errorName: error.name, args } as never);
+
+describe('decodeRevertData', () => {
+  it('decodes Error(string) reasons', () => {
+    const revert = decodeRevertData(encode(errorString, ['Ownable: caller is not the owner']));
+    expect(revert).toMatchObject({ kind: 'reason', name: 'Error', summary: 'Ownable: caller is not the owner' });
+  });
+
+  it('explains panic codes', () => {
+    const revert = decodeRevertData(encode(panic, [BigInt(0x11)]));
+    expect(revert).toMatchObject({ kind: 'panic', args: [BigInt(0x11)], summary: 'Panic 0x11: arithmetic overflow or underflow' });
+  });
+
+  it('decodes custom errors of the contract ABI first, then of any loaded ABI', () => {
+    const data = encode(insufficientBalance, [BigInt(1), BigInt(5)]);
+
+    expect(decodeRevertData(data, undefined, [insufficientBalance])).toMatchObject({
+      kind: 'custom',
+      name: 'InsufficientBalance',
+      signature: 'InsufficientBalance(uint256,uint256)',
+      args: [BigInt(1), BigInt(5)],
+      summary: 'InsufficientBalance(1, 5)',
+      abiName: undefined,
+    });
+
+    const registry = buildSelectorRegistry(new Map<string, ContractAbi>([['contracts/Vault.sol:Vault', [insufficientBalance]]]));
+    expect(decodeRevertData(data, registry)).toMatchObject({
+      kind: 'custom',
+      summary: 'InsufficientBalance(1, 5)',
+      abiName: 'contracts/Vault.sol:Vault',
+      alternatives: [],
+    });
+  });
+
+  it('reports empty and unknown revert data', () => {
+    expect(decodeRevertData('0x').kind).toBe('empty');
+    expect(decodeRevertData(encode(unauthorized))).toMatchObject({ kind: 'unknown', summary: 'Unknown error 0x82b42900' });
+  });
+});
+
+describe('extractRevertData', () => {
+  it('finds revert data in nested causes', () => {
+    const data = encode(unauthorized);
+    expect(extractRevertData({ message: 'execution reverted', cause: { cause: { data } } })).toBe(data);
+    expect(extractRevertData({ cause: { raw: data } })).toBe(data);
+    // Wallets nest the data one level deeper
+    expect(extractRevertData({ code: -32603, data: { data } })).toBe(data);
+  });
+
+  it('ignores errors without revert data', () => {
+    expect(extractRevertData(new Error('User rejected the request'))).toBeUndefined();
+    expect(decodeRevertError(new Error('network error'))).toBeNull();
+  });
+});
+
+describe('fetchRevertData', () => {
+  const transaction = {
+    hash: '0xabc',
+    from: '0x1111111111111111111111111111111111111111',
+    to: '0x2222222222222222222222222222222222222222',
+    input: '0x12345678',
+    value: BigInt(0),
+    gas: BigInt(100000),
+    blockNumber: BigInt(100),
+  } as unknown as Transaction;
+
+  it('replays the transaction on the state before its block', async () => {
+    const data: Hex = encode(errorString, ['nope']);
+    const call = vi.fn(async () => { throw { cause: { data } }; });
+
+    expect(await fetchRevertData({ call } as never, transaction)).toBe(data);
+    expect(call).toHaveBeenCalledWith(expect.objectContaining({
+      account: transaction.from,
+      to: transaction.to,
+      data: '0x12345678',
+      blockNumber: BigInt(99),
+    }));
+  });
+
+  it('returns null when the replay succeeds', async () => {
+    const call = vi.fn(async () => ({ data: '0x' }));
+    expect(await fetchRevertData({ call } as never, transaction)).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Decoding of revert data: `Error(string)` reasons, `Panic(uint256)` codes and custom
+ * errors declared by the contract's ABI or any other loaded ABI.
+ *
+ * Failed mined transactions carry no revert data in their receipt, so they are
+ * replayed with `eth_call` to recover it.
+ */
+
+import { decodeAbiParameters, decodeErrorResult, isHex, type Hex, type PublicClient, type Transaction } from 'viem';
+import { isAbiError, type AbiError, type ContractAbi } from '../types';
+import type { SelectorRegistry } from './selectorRegistry';
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+// Solidity panic codes, see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+export const PANIC_REASONS: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'conversion to an invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop() on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'too much memory allocated',
+  0x51: 'call to a zero-initialized internal function',
+};
+
+export interface DecodedRevert {
+  kind: 'reason' | 'panic' | 'custom' | 'unknown' | 'empty';
+  data: Hex;
+  name?: string; // Error name, e.g. Error, Panic or InsufficientBalance
+  signature?: string;
+  args?: readonly unknown[];
+  summary: string; // One line for toasts and alerts
+  abiName?: string; // Loaded ABI declaring a custom error that the contract ABI doesn't
+  alternatives?: string[]; // Other custom errors with the same selector that also decode it
+}
+
+// The subset of a viem public client used here
+type ReplayClient = Pick<PublicClient, 'call'>;
+
+function describeArgs(args: readonly unknown[]): string {
+  return args.map((arg) => (typeof arg === 'bigint' ? arg.toString() : JSON.stringify(arg))).join(', ');
+}
+
+function decodeCustomError(data: Hex, abiErrors: AbiError[], abiName?: string): DecodedRevert | null {
+  try {
+    const decoded = decodeErrorResult({ abi: abiErrors as Parameters<typeof decodeErrorResult>[0]['abi'], data });
+    const args = (decoded.args ?? []) as readonly unknown[];
+    const item = decoded.abiItem as AbiError;
+    return {
+      kind: 'custom',
+      data,
+      name: decoded.errorName,
+      signature: `${item.name}(${item.inputs.map((input) => input.type).join(',')})`,
+      args,
+      summary: `${decoded.errorName}(${describeArgs(args)})`,
+      abiName,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Explain revert data. The contract ABI is tried first, then every loaded ABI.
+ */
+export function decodeRevertData(data: Hex, registry?: SelectorRegistry, contractAbi: ContractAbi = []): DecodedRevert {
+  if (data === '0x') {
+    return { kind: 'empty', data, summary: 'Reverted without a reason' };
+  }
+
+  const selector = data.slice(0, 10).toLowerCase();
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [reason] = decodeAbiParameters([{ type: 'string' }], `0x${data.slice(10)}`);
+      return { kind: 'reason', data, name: 'Error', signature: 'Error(string)', args: [reason], summary: reason };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const [code] = decodeAbiParameters([{ type: 'uint256' }], `0x${data.slice(10)}`);
+      const reason = PANIC_REASONS[Number(code)] ?? 'unknown panic code';
+      return {
+        kind: 'panic',
+        data,
+        name: 'Panic',
+        signature: 'Panic(uint256)',
+        args: [code],
+        summary: `Panic 0x${code.toString(16).padStart(2, '0')}: ${reason}`,
+      };
+    }
+  } catch {
+    // Malformed payload behind a standard selector: fall through to custom errors
+  }
+
+  const own = decodeCustomError(data, contractAbi.filter(isAbiError));
+  if (own) return own;
+
+  const matches: DecodedRevert[] = [];
+  for (const entry of registry?.errors.get(selector as Hex) ?? []) {
+    const decoded = decodeCustomError(data, [entry.item], entry.abiNames[0]);
+    if (decoded) matches.push({ ...decoded, signature: entry.signature });
+  }
+  if (matches.length > 0) {
+    const [best, ...others] = matches;
+    return { ...best, alternatives: others.map((other) => other.signature!) };
+  }
+
+  return { kind: 'unknown', data, summary: `Unknown error ${selector}` };
+}
+
+/**
+ * Find the revert data in a viem or wallet error, walking its causes.
+ * Returns undefined when the error isn't a revert or the node didn't return the data.
+ */
+export function extractRevertData(err: unknown): Hex | undefined {
+  let current: unknown = err;
+  for (let depth = 0; current && typeof current === 'object' && depth < 10; depth++) {
+    const candidate = current as { raw?: unknown; data?: unknown; cause?: unknown };
+    if (isHex(candidate.raw)) return candidate.raw;
+    if (isHex(candidate.data)) return candidate.data;
+    const nested = (candidate.data as { data?: unknown } | undefined)?.data;
+    if (isHex(nested)) return nested;
+    current = candidate.cause;
+  }
+  return undefined;
+}
+
+/**
+ * Decode the revert behind a failed call, if the error carries revert data
+ */
+export function decodeRevertError(err: unknown, registry?: SelectorRegistry, contractAbi?: ContractAbi): DecodedRevert | null {
+  const data = extractRevertData(err);
+  return data ? decodeRevertData(data, registry, contractAbi) : null;
+}
+
+/**
+ * Replay a failed transaction with eth_call to recover its revert data. The call runs
+ * on the state before the transaction's block: earlier transactions of the same block
+ * aren't applied, which rarely changes whether and how it reverts.
+ *
+ * Returns null when the replay doesn't revert or the node returns no revert data.
+ */
+export async function fetchRevertData(client: ReplayClient, transaction: Transaction): Promise<Hex | null> {
+  if (!transaction.to || transaction.blockNumber === null) return null;
+
+  try {
+    await client.call({
+      account: transaction.from,
+      to: transaction.to,
+      data: transaction.input,
+      value: transaction.value,
+      gas: transaction.gas,
+      blockNumber: transaction.blockNumber > BigInt(0) ? transaction.blockNumber - BigInt(1) : transaction.blockNumber,
+    });
+    return null;
+  } catch (err) {
+    return extractRevertData(err) ?? null;
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { checkRpcEndpoint, isChainIdMismatch, UNKNOWN_RPC_STATUS } from './rpcStatus';
+
+const RPC_URL = 'https://rpc.example.com';
+
+// Answer JSON-RPC requests from a method -> result/error table
+function mockRpc(responses: Record<string, unknown>) {
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { method } = JSON.parse(init.body as string) as { method: string };
+    const response = responses[method];
+    const body = response instanceof Error
+      ? { jsonrpc: '2.0', id: 1, error: { code: -32601, message: response.message } }
+      : { jsonrpc: '2.0', id: 1, result: response };
+    return new Response(JSON.stringify(body), { status: 200 });
+  }));
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('checkRpcEndpoint', () => {
+  it('reports chain id, head block and net_version', async () => {
+    mockRpc({ eth_chainId: '0x107d', eth_blockNumber: '0x2a', net_version: '4221' });
+
+    const status = await checkRpcEndpoint(RPC_URL);
+
+    expect(status.url).toBe(RPC_URL);
+    expect(status.connected).toBe(true);
+    expect(status.chainId).toBe(4221);
+    expect(status.headBlock).toBe(BigInt(42));
+    expect(status.netVersion).toBe('4221');
+    expect(status.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(status.error).toBeNull();
+  });
+
+  it('stays connected when net_version is not supported', async () => {
+    mockRpc({ eth_chainId: '0x1', eth_blockNumber: '0x1', net_version: new Error('Method not found') });
+
+    const status = await checkRpcEndpoint(RPC_URL);
+
+    expect(status.connected).toBe(true);
+    expect(status.netVersion).toBeNull();
+  });
+
+  it('reports failures of required methods as disconnected', async () => {
+    mockRpc({ eth_chainId: new Error('Method not found'), eth_blockNumber: '0x1' });
+
+    const status = await checkRpcEndpoint(RPC_URL);
+
+    expect(status.connected).toBe(false);
+    expect(status.error).toMatch(/eth_chainId/);
+  });
+
+  it('reports a missing URL without making requests', async () => {
+    const status = await checkRpcEndpoint('');
+    expect(status.connected).toBe(false);
+    expect(status.error).toBe('No RPC URL configured');
+  });
+});
+
+describe('isChainIdMismatch', () => {
+  const connected = { ...UNKNOWN_RPC_STATUS, url: RPC_URL, connected: true, chainId: 1 };
+
+  it('flags a connected endpoint on another chain', () => {
+    expect(isChainIdMismatch(connected, 4221, RPC_URL)).toBe(true);
+    expect(isChainIdMismatch(connected, 1, RPC_URL)).toBe(false);
+  });
+
+  it('ignores endpoints that are not connected', () => {
+    expect(isChainIdMismatch(UNKNOWN_RPC_STATUS, 4221, RPC_URL)).toBe(false);
+  });
+
+  it('ignores a status checked against another URL', () => {
+    expect(isChainIdMismatch(connected, 4221, 'https://other.example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * RPC endpoint health checks: verify that an RPC URL answers and which chain it serves.
+ *
+ * `eth_chainId` and `eth_blockNumber` are required for an endpoint to count as
+ * connected. `net_version` is optional — some nodes don't implement it — and is
+ * only reported as a capability.
+ */
+
+export interface RpcStatus {
+  url: string | null; // endpoint the status was checked against
+  connected: boolean;
+  chainId: number | null;
+  headBlock: bigint | null;
+  netVersion: string | null;
+  latencyMs: number | null;
+  error: string | null;
+}
+
+export const UNKNOWN_RPC_STATUS: RpcStatus = {
+  url: null,
+  connected: false,
+  chainId: null,
+  headBlock: null,
+  netVersion: null,
+  latencyMs: null,
+  error: null,
+};
+
+interface JsonRpcResponse {
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Send a single JSON-RPC request and return its result
+ */
+async function rpcRequest(url: string, method: string, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+
+  const body = await response.json() as JsonRpcResponse;
+  if (body.error) {
+    throw new Error(`${method}: ${body.error.message}`);
+  }
+  return body.result;
+}
+
+/**
+ * Query eth_chainId, eth_blockNumber and net_version and report the endpoint's status.
+ * Never throws except for aborts; failures are reported through `error`.
+ */
+export async function checkRpcEndpoint(url: string, signal?: AbortSignal): Promise<RpcStatus> {
+  if (!url) {
+    return { ...UNKNOWN_RPC_STATUS, url, error: 'No RPC URL configured' };
+  }
+
+  const startedAt = performance.now();
+  try {
+    const [chainIdHex, blockNumberHex, netVersion] = await Promise.all([
+      rpcRequest(url, 'eth_chainId', signal),
+      rpcRequest(url, 'eth_blockNumber', signal),
+      rpcRequest(url, 'net_version', signal).catch((err) => {
+        if ((err as Error).name === 'AbortError') throw err;
+        return null;
+      }),
+    ]);
+    const latencyMs = Math.round(performance.now() - startedAt);
+
+    if (typeof chainIdHex !== 'string' || typeof blockNumberHex !== 'string') {
+      throw new Error('Unexpected response from eth_chainId or eth_blockNumber');
+    }
+
+    return {
+      url,
+      connected: true,
+      chainId: Number(BigInt(chainIdHex)),
+      headBlock: BigInt(blockNumberHex),
+      netVersion: netVersion === null ? null : String(netVersion),
+      latencyMs,
+      error: null,
+    };
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') throw err;
+    return {
+      ...UNKNOWN_RPC_STATUS,
+      url,
+      error: err instanceof Error ? err.message : 'Unknown error',
+    };
+  }
+}
+
+/**
+ * Whether a connected endpoint serves a different chain than expected. A status
+ * checked against another URL (e.g. the previous network's) never counts.
+ */
+export function isChainIdMismatch(status: RpcStatus, expectedChainId: number, rpcUrl: string): boolean {
+  return status.url === rpcUrl && status.connected && status.chainId !== null && status.chainId !== expectedChainId;
+}
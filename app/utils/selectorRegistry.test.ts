@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { encodeAbiParameters, encodeFunctionData, pad, toEventSelector, toFunctionSelector, type Hex } from 'viem';
+import { buildSelectorRegistry, decodeCalldataWithRegistry, decodeLogWithRegistry } from './selectorRegistry';
+import type { AbiError, AbiEvent, AbiFunction, ContractAbi } from '../types';
+
+const ALICE = '0x1111111111111111111111111111111111111111';
+const BOB = '0x2222222222222222222222222222222222222222';
+
+const transfer: AbiFunction = {
+  type: 'function',
+  name: 'transfer',
+  stateMutability: 'nonpayable',
+  inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+  outputs: [{ name: '', type: 'bool' }],
+};
+// Both hash to 0x42966c68
+const burn: AbiFunction = {
+  type: 'function',
+  name: 'burn',
+  stateMutability: 'nonpayable',
+  inputs: [{ name: 'amount', type: 'uint256' }],
+  outputs: [],
+};
+const collatePropagateStorage: AbiFunction = {
+  type: 'function',
+  name: 'collate_propagate_storage',
+  stateMutability: 'nonpayable',
+  inputs: [{ name: '', type: 'bytes16' }],
+  outputs: [],
+};
+const erc20Transfer: AbiEvent = {
+  type: 'event',
+  name: 'Transfer',
+  inputs: [
+    { name: 'from', type: 'address', indexed: true },
+    { name: 'to', type: 'address', indexed: true },
+    { name: 'value', type: 'uint256' },
+  ],
+};
+const erc721Transfer: AbiEvent = {
+  type: 'event',
+  name: 'Transfer',
+  inputs: [
+    { name: 'from', type: 'address', indexed: true },
+    { name: 'to', type: 'address', indexed: true },
+    { name: 'tokenId', type: 'uint256', indexed: true },
+  ],
+};
+const insufficientBalance: AbiError = {
+  type: 'error',
+  name: 'InsufficientBalance',
+  inputs: [{ name: 'available', type: 'uint256' }],
+};
+
+const abiCache = new Map<string, ContractAbi>([
+  ['contracts/Token.sol:Token', [transfer, erc20Transfer, insufficientBalance]],
+  ['contracts/Vault.sol:Vault', [transfer, erc20Transfer, burn]],
+  ['NFT', [erc721Transfer]],
+  ['Odd', [collatePropagateStorage]],
+]);
+
+describe('buildSelectorRegistry', () => {
+  const registry = buildSelectorRegistry(abiCache);
+
+  it('merges the same declaration found in several ABIs', () => {
+    const entries = registry.functions.get(toFunctionSelector('transfer(address,uint256)'));
+    expect(entries).toHaveLength(1);
+    expect(entries![0].signature).toBe('transfer(address,uint256)');
+    expect(entries![0].abiNames).toEqual(['contracts/Token.sol:Token', 'contracts/Vault.sol:Vault']);
+  });
+
+  it('keeps colliding declarations, the most common first', () => {
+    const events = registry.events.get(toEventSelector('Transfer(address,address,uint256)'));
+    expect(events!.map((entry) => entry.abiNames)).toEqual([
+      ['contracts/Token.sol:Token', 'contracts/Vault.sol:Vault'],
+      ['NFT'],
+    ]);
+
+    const functions = registry.functions.get('0x42966c68');
+    expect(functions!.map((entry) => entry.signature)).toEqual(['burn(uint256)', 'collate_propagate_storage(bytes16)']);
+  });
+
+  it('indexes errors', () => {
+    const entries = registry.errors.get(toFunctionSelector('InsufficientBalance(uint256)'));
+    expect(entries![0].item).toBe(insufficientBalance);
+  });
+});
+
+describe('decodeCalldataWithRegistry', () => {
+  const registry = buildSelectorRegistry(abiCache);
+
+  it('decodes calldata with any loaded ABI', () => {
+    const data = encodeFunctionData({ abi: [transfer], functionName: 'transfer', args: [BOB, BigInt(5)] });
+
+    expect(decodeCalldataWithRegistry(registry, data)).toEqual({
+      functionName: 'transfer',
+      args: [BOB, BigInt(5)],
+      signature: 'transfer(address to, uint256 amount)',
+      abiName: 'contracts/Token.sol:Token',
+      alternatives: [],
+    });
+  });
+
+  it('reports other declarations that decode the same calldata', () => {
+    const data = encodeFunctionData({ abi: [burn], functionName: 'burn', args: [BigInt(1)] });
+    const match = decodeCalldataWithRegistry(registry, data);
+
+    expect(match?.functionName).toBe('burn');
+    expect(match?.alternatives).toEqual(['collate_propagate_storage(bytes16)']);
+  });
+
+  it('returns null for unknown selectors', () => {
+    expect(decodeCalldataWithRegistry(registry, '0xdeadbeef')).toBeNull();
+    expect(decodeCalldataWithRegistry(registry, '0x')).toBeNull();
+  });
+});
+
+describe('decodeLogWithRegistry', () => {
+  const registry = buildSelectorRegistry(abiCache);
+  const topic0 = toEventSelector('Transfer(address,address,uint256)');
+
+  it('picks the declaration matching the indexed parameters', () => {
+    const erc20 = decodeLogWithRegistry(registry, {
+      topics: [topic0, pad(ALICE), pad(BOB)],
+      data: encodeAbiParameters([{ type: 'uint256' }], [BigInt(7)]),
+    });
+    expect(erc20).toEqual({
+      eventName: 'Transfer',
+      args: { from: ALICE, to: BOB, value: BigInt(7) },
+      abiName: 'contracts/Token.sol:Token',
+      alternatives: [],
+    });
+
+    const erc721 = decodeLogWithRegistry(registry, {
+      topics: [topic0, pad(ALICE), pad(BOB), pad('0x07')],
+      data: '0x',
+    });
+    expect(erc721?.abiName).toBe('NFT');
+    expect(erc721?.args).toEqual({ from: ALICE, to: BOB, tokenId: BigInt(7) });
+  });
+
+  it('returns null for unknown topics and anonymous logs', () => {
+    expect(decodeLogWithRegistry(registry, { topics: [pad('0x01') as Hex], data: '0x' })).toBeNull();
+    expect(decodeLogWithRegistry(registry, { topics: [], data: '0x' })).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Registry of every function selector, error selector and event topic0 declared by
+ * the loaded ABIs, so calldata and logs can be decoded without knowing which contract
+ * produced them.
+ *
+ * The same declaration found in several ABIs (e.g. ERC-20 `Transfer`) is one entry
+ * listing all of them. Different declarations sharing a selector are kept side by
+ * side: decoding tries each, and the ones that also fit are reported as alternatives.
+ */
+
+import {
+  decodeEventLog,
+  decodeFunctionData,
+  toEventSelector,
+  toFunctionSelector,
+  type Hex,
+} from 'viem';
+import { formatAbiItem } from 'viem/utils';
+import type { AbiError, AbiEvent, AbiFunction, AbiParameter, ContractAbi, DecodedFunctionData } from '../types';
+
+export interface RegistryEntry<T> {
+  item: T;
+  signature: string; // Canonical signature, e.g. transfer(address,uint256)
+  abiNames: string[]; // Every loaded ABI declaring it, in cache order
+}
+
+export interface SelectorRegistry {
+  functions: Map<Hex, RegistryEntry<AbiFunction>[]>;
+  errors: Map<Hex, RegistryEntry<AbiError>[]>;
+  events: Map<Hex, RegistryEntry<AbiEvent>[]>; // Keyed by topic0; anonymous events have none
+}
+
+export interface RegistryFunctionMatch extends DecodedFunctionData {
+  abiName: string;
+  alternatives: string[]; // Signatures of other declarations that decode the same calldata
+}
+
+export interface RegistryEventMatch {
+  eventName: string;
+  args: Record<string, unknown> | readonly unknown[];
+  abiName: string;
+  alternatives: string[];
+}
+
+type SelectorItem = AbiFunction | AbiError | AbiEvent;
+
+function describeParameters(inputs: AbiParameter[]): string {
+  return inputs.map((input) => `${input.type}${input.name ? ` ${input.name}` : ''}`).join(', ');
+}
+
+// Events that only differ in which parameters are indexed share a topic0 but decode differently
+function declarationKey(item: SelectorItem): string {
+  const signature = formatAbiItem(item as Parameters<typeof formatAbiItem>[0]);
+  if (item.type !== 'event') return signature;
+  return `${signature}:${item.inputs.map((input) => (input.indexed ? 1 : 0)).join('')}`;
+}
+
+function addEntry<T extends SelectorItem>(
+  map: Map<Hex, RegistryEntry<T>[]>,
+  selector: Hex,
+  item: T,
+  abiName: string
+) {
+  const entries = map.get(selector) ?? [];
+  const key = declarationKey(item);
+  const existing = entries.find((entry) => declarationKey(entry.item) === key);
+
+  if (existing) {
+    if (!existing.abiNames.includes(abiName)) existing.abiNames.push(abiName);
+  } else {
+    entries.push({
+      item,
+      signature: formatAbiItem(item as Parameters<typeof formatAbiItem>[0]),
+      abiNames: [abiName],
+    });
+    map.set(selector, entries);
+  }
+}
+
+/**
+ * Index every function, error and event of the loaded ABIs by selector. Declarations
+ * found in more ABIs come first among those sharing a selector.
+ */
+export function buildSelectorRegistry(abiCache: Map<string, ContractAbi>): SelectorRegistry {
+  const registry: SelectorRegistry = { functions: new Map(), errors: new Map(), events: new Map() };
+
+  for (const [abiName, abi] of abiCache) {
+    for (const item of abi) {
+      try {
+        if (item.type === 'function') {
+          addEntry(registry.functions, toFunctionSelector(item as Parameters<typeof toFunctionSelector>[0]), item, abiName);
+        } else if (item.type === 'error') {
+          // toFunctionSelector only takes function items, but errors hash the same way
+          addEntry(registry.errors, toFunctionSelector(formatAbiItem(item as Parameters<typeof formatAbiItem>[0])), item, abiName);
+        } else if (item.type === 'event' && !item.anonymous) {
+          addEntry(registry.events, toEventSelector(item as Parameters<typeof toEventSelector>[0]), item, abiName);
+        }
+      } catch {
+        // Malformed declaration in an artifact: it can't explain anything
+        continue;
+      }
+    }
+  }
+
+  for (const map of [registry.functions, registry.errors, registry.events] as Map<Hex, RegistryEntry<SelectorItem>[]>[]) {
+    for (const entries of map.values()) {
+      entries.sort((a, b) => b.abiNames.length - a.abiNames.length);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Decode calldata with whichever loaded declaration fits its selector
+ */
+export function decodeCalldataWithRegistry(registry: SelectorRegistry, data: Hex): RegistryFunctionMatch | null {
+  if (data.length < 10) return null;
+  const entries = registry.functions.get(data.slice(0, 10).toLowerCase() as Hex) ?? [];
+
+  const matches: { entry: RegistryEntry<AbiFunction>; args: readonly unknown[] }[] = [];
+  for (const entry of entries) {
+    try {
+      const decoded = decodeFunctionData({ abi: [entry.item], data });
+      matches.push({ entry, args: decoded.args ?? [] });
+    } catch {
+      continue;
+    }
+  }
+  if (matches.length === 0) return null;
+
+  const [{ entry, args }, ...others] = matches;
+  return {
+    functionName: entry.item.name,
+    args,
+    signature: `${entry.item.name}(${describeParameters(entry.item.inputs)})`,
+    abiName: entry.abiNames[0],
+    alternatives: others.map((other) => other.entry.signature),
+  };
+}
+
+/**
+ * Decode a log with whichever loaded event declaration fits its topic0
+ */
+export function decodeLogWithRegistry(
+  registry: SelectorRegistry,
+  log: { topics: readonly Hex[]; data: Hex }
+): RegistryEventMatch | null {
+  const [topic0] = log.topics;
+  if (!topic0) return null;
+  const entries = registry.events.get(topic0.toLowerCase() as Hex) ?? [];
+
+  const matches: { entry: RegistryEntry<AbiEvent>; args: Record<string, unknown> | readonly unknown[] }[] = [];
+  for (const entry of entries) {
+    try {
+      const decoded = decodeEventLog({
+        abi: [entry.item],
+        data: log.data,
+        topics: log.topics as [Hex, ...Hex[]],
+      });
+      matches.push({ entry, args: decoded.args as Record<string, unknown> | readonly unknown[] });
+    } catch {
+      continue;
+    }
+  }
+  if (matches.length === 0) return null;
+
+  const [{ entry, args }, ...others] = matches;
+  return {
+    eventName: entry.item.name,
+    args,
+    abiName: entry.abiNames[0],
+    alternatives: others.map((other) => other.entry.signature),
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { hashFileStamps, collectFileStamps, fingerprintSources } from './sourceFingerprint';
+
+type Tree = { [name: string]: Tree | { size: number; lastModified: number } };
+
+// Minimal in-memory stand-in for file system handles that only exposes file metadata
+function mockHandle(name: string, node: Tree | { size: number; lastModified: number }): FileSystemHandle {
+  if ('size' in node && typeof node.size === 'number') {
+    return { kind: 'file', name, getFile: async () => node } as unknown as FileSystemHandle;
+  }
+  return {
+    kind: 'directory',
+    name,
+    async *values() {
+      for (const [entryName, child] of Object.entries(node as Tree)) {
+        yield mockHandle(entryName, child);
+      }
+    },
+  } as unknown as FileSystemHandle;
+}
+
+describe('hashFileStamps', () => {
+  it('does not depend on the order of the stamps', () => {
+    const a = { path: 'a.json', size: 1, lastModified: 10 };
+    const b = { path: 'b.json', size: 2, lastModified: 20 };
+    expect(hashFileStamps([a, b])).toBe(hashFileStamps([b, a]));
+  });
+
+  it('changes when a file is modified', () => {
+    const before = hashFileStamps([{ path: 'a.json', size: 1, lastModified: 10 }]);
+    const after = hashFileStamps([{ path: 'a.json', size: 1, lastModified: 11 }]);
+    expect(before).not.toBe(after);
+  });
+});
+
+describe('collectFileStamps', () => {
+  it('walks folders recursively and skips dotfiles', async () => {
+    const folder = mockHandle('artifacts', {
+      'Token.sol': { 'Token.json': { size: 100, lastModified: 1 } },
+      '.DS_Store': { size: 5, lastModified: 1 },
+    });
+
+    expect(await collectFileStamps(folder)).toEqual([
+      { path: 'artifacts/Token.sol/Token.json', size: 100, lastModified: 1 },
+    ]);
+  });
+});
+
+describe('fingerprintSources', () => {
+  it('combines all sources and ignores missing ones', async () => {
+    const file = mockHandle('deployments.json', { size: 10, lastModified: 1 });
+    const folder = mockHandle('artifacts', { 'Token.sol': { 'Token.json': { size: 100, lastModified: 1 } } });
+
+    const fingerprint = await fingerprintSources([file, folder, null]);
+    expect(fingerprint).toMatch(/^2-[0-9a-f]{8}$/);
+    expect(await fingerprintSources([folder, file])).toBe(fingerprint);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Source fingerprints: a cheap hash of the names, sizes and modification times of
+ * every file in the deployments file / ABIs folder, used to tell whether a saved
+ * snapshot is still current without parsing anything.
+ */
+
+export interface FileStamp {
+  path: string;
+  size: number;
+  lastModified: number;
+}
+
+type AsyncIterableDirectoryHandle = FileSystemDirectoryHandle & {
+  values(): AsyncIterableIterator<FileSystemHandle>;
+};
+
+/**
+ * Hash file stamps into a short hex string (FNV-1a), independent of their order
+ */
+export function hashFileStamps(stamps: FileStamp[]): string {
+  const text = stamps
+    .map((stamp) => `${stamp.path}:${stamp.size}:${stamp.lastModified}`)
+    .sort()
+    .join('\n');
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${stamps.length}-${hash.toString(16).padStart(8, '0')}`;
+}
+
+/**
+ * Collect stamps for a file, or recursively for every file in a folder (dotfiles skipped)
+ */
+export async function collectFileStamps(handle: FileSystemHandle, prefix = ''): Promise<FileStamp[]> {
+  const path = `${prefix}${handle.name}`;
+
+  if (handle.kind === 'file') {
+    const file = await (handle as FileSystemFileHandle).getFile();
+    return [{ path, size: file.size, lastModified: file.lastModified }];
+  }
+
+  const stamps: FileStamp[] = [];
+  for await (const entry of (handle as AsyncIterableDirectoryHandle).values()) {
+    if (entry.name.startsWith('.')) continue;
+    stamps.push(...await collectFileStamps(entry, `${path}/`));
+  }
+  return stamps;
+}
+
+/**
+ * Fingerprint all configured sources. Throws when a source can't be read,
+ * e.g. because permission hasn't been granted.
+ */
+export async function fingerprintSources(handles: (FileSystemHandle | null)[]): Promise<string> {
+  const stamps: FileStamp[] = [];
+  for (const handle of handles) {
+    if (handle) stamps.push(...await collectFileStamps(handle));
+  }
+  return hashFileStamps(stamps);
+}
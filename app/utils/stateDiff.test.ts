@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { pad, type Hex } from 'viem';
+import { computeStateDiff, fetchStateDiff, labelStorageChanges } from './stateDiff';
+import { addressMappingKeys, parseStorageLayout, type StorageLayout } from './storageLayout';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const TOKEN = '0x3333333333333333333333333333333333333333';
+const CREATED = '0x4444444444444444444444444444444444444444';
+
+const word = (value: number): Hex => pad(`0x${value.toString(16)}`, { size: 32 });
+
+const raw = {
+  pre: {
+    [SENDER]: { balance: '0xde0b6b3a7640000', nonce: 4 },
+    [TOKEN]: { balance: '0x0', nonce: 1, code: '0x6080', storage: { [word(0)]: word(7), [word(1)]: word(9) } },
+  },
+  post: {
+    [SENDER]: { balance: '0xddd2935029d8000', nonce: 5 },
+    // Slot 1 was cleared, slot 2 was set
+    [TOKEN]: { storage: { [word(0)]: word(8), [word(2)]: word(1) } },
+    [CREATED]: { balance: '0x0', nonce: 1, code: '0x6001' },
+  },
+} as const;
+
+describe('computeStateDiff', () => {
+  it('compares pre and post states field by field', () => {
+    const [sender, token, created] = computeStateDiff(raw as never);
+
+    expect(sender).toMatchObject({
+      address: SENDER,
+      balance: { before: BigInt('1000000000000000000'), after: BigInt('999000000000000000') },
+      nonce: { before: 4, after: 5 },
+      code: null,
+      storage: [],
+    });
+    expect(token).toMatchObject({ balance: null, nonce: null, code: null, created: false, destroyed: false });
+    expect(token.storage).toEqual([
+      { slot: word(0), before: word(7), after: word(8), variables: [] },
+      { slot: word(1), before: word(9), after: word(0), variables: [] },
+      { slot: word(2), before: word(0), after: word(1), variables: [] },
+    ]);
+    expect(created).toMatchObject({ created: true, nonce: { before: 0, after: 1 }, code: { before: '0x', after: '0x6001' } });
+  });
+
+  it('names changed slots with the storage layout', () => {
+    const layout = parseStorageLayout({
+      storage: [{ label: 'totalSupply', offset: 0, slot: '0', type: 't_uint256' }],
+      types: { t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' } },
+    }) as StorageLayout;
+
+    const token = labelStorageChanges(computeStateDiff(raw as never)[1], layout, addressMappingKeys([SENDER]));
+
+    expect(token.storage[0].variables).toEqual([{ name: 'totalSupply', type: 'uint256', offset: 0, size: 32 }]);
+    expect(token.storage[1].variables).toEqual([]);
+  });
+});
+
+describe('fetchStateDiff', () => {
+  it('asks for the prestate tracer in diff mode', async () => {
+    const request = vi.fn(async () => raw);
+
+    const result = await fetchStateDiff({ request } as never, '0xabc');
+
+    expect(result.supported && result.accounts).toHaveLength(3);
+    expect(request).toHaveBeenCalledWith({
+      method: 'debug_traceTransaction',
+      params: ['0xabc', { tracer: 'prestateTracer', tracerConfig: { diffMode: true } }],
+    });
+  });
+
+  it('reports nodes without the tracer as unsupported', async () => {
+    const request = vi.fn(async () => {
+      throw Object.assign(new Error('Method not found'), { code: -32601 });
+    });
+    expect(await fetchStateDiff({ request } as never, '0xabc')).toEqual({ supported: false, reason: 'Method not found' });
+
+    const structLogs = vi.fn(async () => ({ gas: 21000, failed: false, returnValue: '', structLogs: [] }));
+    expect((await fetchStateDiff({ request: structLogs } as never, '0xabc')).supported).toBe(false);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * State changes of a mined transaction through `debug_traceTransaction` with geth's
+ * `prestateTracer` in diff mode (geth, anvil, reth, erigon).
+ *
+ * In diff mode the tracer returns the touched accounts before (`pre`) and after
+ * (`post`) the transaction, each limited to the fields that changed. Accounts
+ * missing from `post` were self-destructed, accounts missing from `pre` were
+ * created, and storage slots missing from either side are zero.
+ */
+
+import type { Hash, Hex, PublicClient } from 'viem';
+import { isTracingUnsupported } from './callTrace';
+import { findSlotVariables, type StorageLayout, type StorageMappingKey, type StorageSlotVariable } from './storageLayout';
+
+export interface PrestateAccount {
+  balance?: Hex;
+  nonce?: number;
+  code?: Hex;
+  storage?: Record<Hex, Hex>;
+}
+
+export interface RawStateDiff {
+  pre: Record<Hex, PrestateAccount>;
+  post: Record<Hex, PrestateAccount>;
+}
+
+export interface Change<T> {
+  before: T;
+  after: T;
+}
+
+export interface StorageChange extends Change<Hex> {
+  slot: Hex;
+  variables: StorageSlotVariable[]; // From the contract's storage layout, when known
+}
+
+export interface AccountDiff {
+  address: Hex;
+  created: boolean;
+  destroyed: boolean;
+  balance: Change<bigint> | null;
+  nonce: Change<number> | null;
+  code: Change<Hex> | null;
+  storage: StorageChange[];
+}
+
+export type StateDiffResult =
+  | { supported: true; accounts: AccountDiff[] }
+  | { supported: false; reason: string };
+
+// The subset of a viem public client used here
+type TraceClient = Pick<PublicClient, 'request'>;
+type UntypedRequest = (args: { method: string; params: unknown[] }) => Promise<unknown>;
+
+const ZERO_WORD: Hex = `0x${'0'.repeat(64)}`;
+
+function normalizeWord(value: Hex): Hex {
+  return `0x${value.replace(/^0x/, '').padStart(64, '0')}`;
+}
+
+function change<T>(before: T, after: T): Change<T> | null {
+  return before === after ? null : { before, after };
+}
+
+/**
+ * Turn the tracer output into one diff per touched account, sorted by address.
+ * Unchanged fields are null and unchanged slots are left out.
+ */
+export function computeStateDiff(raw: RawStateDiff): AccountDiff[] {
+  const addresses = new Set<Hex>([...Object.keys(raw.pre), ...Object.keys(raw.post)].map((address) => address.toLowerCase() as Hex));
+
+  const accounts: AccountDiff[] = [];
+  for (const address of [...addresses].sort()) {
+    const preEntry = Object.entries(raw.pre).find(([key]) => key.toLowerCase() === address)?.[1];
+    const postEntry = Object.entries(raw.post).find(([key]) => key.toLowerCase() === address)?.[1];
+    const created = !preEntry;
+    const destroyed = !postEntry;
+    const pre: PrestateAccount = preEntry ?? {};
+    // Fields missing from a surviving account's post state are unchanged
+    const post: PrestateAccount = postEntry ? { ...pre, ...postEntry, storage: postEntry.storage ?? {} } : {};
+
+    const slots = new Set<Hex>([...Object.keys(pre.storage ?? {}), ...Object.keys(post.storage ?? {})] as Hex[]);
+    const storage: StorageChange[] = [];
+    for (const slot of [...slots].sort()) {
+      const before = normalizeWord(pre.storage?.[slot] ?? ZERO_WORD);
+      const after = normalizeWord(post.storage?.[slot] ?? ZERO_WORD);
+      if (before !== after) storage.push({ slot: normalizeWord(slot), before, after, variables: [] });
+    }
+
+    const diff: AccountDiff = {
+      address,
+      created,
+      destroyed,
+      balance: change(BigInt(pre.balance ?? '0x0'), BigInt(post.balance ?? '0x0')),
+      nonce: change(pre.nonce ?? 0, post.nonce ?? 0),
+      code: change<Hex>(pre.code ?? '0x', post.code ?? '0x'),
+      storage,
+    };
+    if (diff.created || diff.destroyed || diff.balance || diff.nonce || diff.code || diff.storage.length > 0) {
+      accounts.push(diff);
+    }
+  }
+  return accounts;
+}
+
+/**
+ * Name the changed slots of an account with its contract's storage layout
+ */
+export function labelStorageChanges(account: AccountDiff, layout: StorageLayout, keys: StorageMappingKey[]): AccountDiff {
+  return {
+    ...account,
+    storage: account.storage.map((slot) => ({ ...slot, variables: findSlotVariables(layout, slot.slot, keys) })),
+  };
+}
+
+/**
+ * Trace the state changes of a mined transaction. Resolves with `supported: false`
+ * when the node doesn't offer debug tracing or the prestate tracer; other failures
+ * (e.g. an unreachable node) are thrown.
+ */
+export async function fetchStateDiff(client: TraceClient, hash: Hash): Promise<StateDiffResult> {
+  const request = client.request as unknown as UntypedRequest;
+
+  try {
+    const raw = await request({
+      method: 'debug_traceTransaction',
+      params: [hash, { tracer: 'prestateTracer', tracerConfig: { diffMode: true } }],
+    });
+    // Nodes without the tracer may ignore the option and answer with struct logs
+    if (!raw || typeof raw !== 'object' || !('pre' in raw) || !('post' in raw)) {
+      return { supported: false, reason: 'The node has no prestateTracer with diffMode' };
+    }
+    return { supported: true, accounts: computeStateDiff(raw as RawStateDiff) };
+  } catch (err) {
+    if (isTracingUnsupported(err) || (err instanceof Error && /tracer/i.test(err.message))) {
+      return { supported: false, reason: err instanceof Error ? err.message : 'debug_traceTransaction is not available' };
+    }
+    throw err;
+  }
+}
@@ -4,11 +4,41 @@
  * so we use IndexedDB which supports structured cloning of these objects.
  */
 
+import type { AdHocContract } from './adHocContracts';
+import type { AbiPins } from './abiMatcher';
+import type { ContractAbi, DeploymentsFile } from '../types';
+import type { StorageLayout } from './storageLayout';
+import {
+  workspaceKey,
+  workspaceKeyPrefix,
+  type WorkspaceList,
+} from './workspaces';
+
 const DB_NAME = 'genlayer-explorer-db';
 const DB_VERSION = 1;
 const STORE_NAME = 'config';
 const FOLDER_HANDLE_KEY = 'abisFolderHandle';
 const FILE_HANDLE_KEY = 'deploymentsFileHandle';
+const HARDHAT_DEPLOY_HANDLE_KEY = 'hardhatDeployFolderHandle';
+const ADHOC_CONTRACTS_KEY = 'adHocContracts';
+const ABI_PINS_KEY = 'abiPins';
+const UPLOADED_SOURCE_KEY_PREFIX = 'uploaded:';
+const CONFIG_SNAPSHOT_KEY = 'configSnapshot';
+const WORKSPACES_KEY = 'workspaces';
+
+// Everything but the workspace list is stored per workspace. The workspace is passed
+// by the caller so a save that finishes after a workspace switch still lands in its own workspace.
+
+// Sources that can be loaded from picked/dropped files instead of a persistent handle
+export type UploadedSourceKind = 'deploymentsFile' | 'abisFolder' | 'hardhatDeployFolder';
+
+// Parsed contents of an uploaded source, persisted because its files can't be re-read
+export interface UploadedSource {
+  name: string;
+  deployments?: DeploymentsFile;
+  abis?: Map<string, ContractAbi>;
+  storageLayouts?: Map<string, StorageLayout>;
+}
 
 /**
  * Opens or creates the IndexedDB database
@@ -30,16 +60,14 @@ function openDB(): Promise<IDBDatabase> {
 }
 
 /**
- * Saves the folder handle to IndexedDB
+ * Stores a value under the given key in the config store
  */
-export async function saveFolderHandle(
-  handle: FileSystemDirectoryHandle
-): Promise<void> {
+async function putConfigValue(key: string, value: unknown): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(handle, FOLDER_HANDLE_KEY);
+    const request = store.put(value, key);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve();
@@ -47,42 +75,66 @@ export async function saveFolderHandle(
 }
 
 /**
- * Retrieves the folder handle from IndexedDB
+ * Reads the value stored under the given key, or null if there is none
  */
-export async function getFolderHandle(): Promise<FileSystemDirectoryHandle | null> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(FOLDER_HANDLE_KEY);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        resolve(request.result || null);
-      };
-    });
-  } catch (error) {
-    console.error('Error getting folder handle:', error);
-    return null;
-  }
+async function getConfigValue<T>(key: string): Promise<T | null> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const request = store.get(key);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      resolve(request.result || null);
+    };
+  });
 }
 
 /**
- * Clears the saved folder handle
+ * Deletes the value stored under the given key
  */
-export async function clearFolderHandle(): Promise<void> {
+async function deleteConfigValue(key: string): Promise<void> {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(FOLDER_HANDLE_KEY);
+    const request = store.delete(key);
 
     request.onerror = () => reject(request.error);
     request.onsuccess = () => resolve();
   });
 }
 
+/**
+ * Saves the folder handle to IndexedDB
+ */
+export async function saveFolderHandle(
+  workspaceId: string,
+  handle: FileSystemDirectoryHandle
+): Promise<void> {
+  return putConfigValue(workspaceKey(workspaceId, FOLDER_HANDLE_KEY), handle);
+}
+
+/**
+ * Retrieves the folder handle from IndexedDB
+ */
+export async function getFolderHandle(workspaceId: string): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return await getConfigValue<FileSystemDirectoryHandle>(workspaceKey(workspaceId, FOLDER_HANDLE_KEY));
+  } catch (error) {
+    console.error('Error getting folder handle:', error);
+    return null;
+  }
+}
+
+/**
+ * Clears the saved folder handle
+ */
+export async function clearFolderHandle(workspaceId: string): Promise<void> {
+  return deleteConfigValue(workspaceKey(workspaceId, FOLDER_HANDLE_KEY));
+}
+
 /**
  * Requests permission for a saved folder handle
  * Returns true if permission granted, false otherwise
@@ -107,39 +159,38 @@ export async function requestFolderPermission(
   }
 }
 
+/**
+ * Checks whether read permission for a saved handle is already granted, without prompting
+ */
+export async function hasHandlePermission(
+  handle: FileSystemHandle
+): Promise<boolean> {
+  try {
+    // @ts-expect-error - File System Access API
+    const permission = await handle.queryPermission({ mode: 'read' });
+    return permission === 'granted';
+  } catch (error) {
+    console.error('Error querying permission:', error);
+    return false;
+  }
+}
+
 /**
  * Saves the deployments file handle to IndexedDB
  */
 export async function saveFileHandle(
+  workspaceId: string,
   handle: FileSystemFileHandle
 ): Promise<void> {
-  const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.put(handle, FILE_HANDLE_KEY);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-  });
+  return putConfigValue(workspaceKey(workspaceId, FILE_HANDLE_KEY), handle);
 }
 
 /**
  * Retrieves the deployments file handle from IndexedDB
  */
-export async function getFileHandle(): Promise<FileSystemFileHandle | null> {
+export async function getFileHandle(workspaceId: string): Promise<FileSystemFileHandle | null> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(FILE_HANDLE_KEY);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => {
-        resolve(request.result || null);
-      };
-    });
+    return await getConfigValue<FileSystemFileHandle>(workspaceKey(workspaceId, FILE_HANDLE_KEY));
   } catch (error) {
     console.error('Error getting file handle:', error);
     return null;
@@ -149,15 +200,178 @@ export async function getFileHandle(): Promise<FileSystemFileHandle | null> {
 /**
  * Clears the saved file handle
  */
-export async function clearFileHandle(): Promise<void> {
+export async function clearFileHandle(workspaceId: string): Promise<void> {
+  return deleteConfigValue(workspaceKey(workspaceId, FILE_HANDLE_KEY));
+}
+
+/**
+ * Saves the hardhat-deploy `deployments/` folder handle to IndexedDB
+ */
+export async function saveHardhatDeployHandle(
+  workspaceId: string,
+  handle: FileSystemDirectoryHandle
+): Promise<void> {
+  return putConfigValue(workspaceKey(workspaceId, HARDHAT_DEPLOY_HANDLE_KEY), handle);
+}
+
+/**
+ * Retrieves the hardhat-deploy folder handle from IndexedDB
+ */
+export async function getHardhatDeployHandle(workspaceId: string): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return await getConfigValue<FileSystemDirectoryHandle>(workspaceKey(workspaceId, HARDHAT_DEPLOY_HANDLE_KEY));
+  } catch (error) {
+    console.error('Error getting hardhat-deploy folder handle:', error);
+    return null;
+  }
+}
+
+/**
+ * Clears the saved hardhat-deploy folder handle
+ */
+export async function clearHardhatDeployHandle(workspaceId: string): Promise<void> {
+  return deleteConfigValue(workspaceKey(workspaceId, HARDHAT_DEPLOY_HANDLE_KEY));
+}
+
+// Parsed deployments and ABIs, used to start without re-reading (or re-granting access to) the sources
+export interface ConfigSnapshot {
+  deployments: DeploymentsFile;
+  abis: Map<string, ContractAbi>;
+  storageLayouts?: Map<string, StorageLayout>; // Missing in snapshots saved before layouts were loaded
+  savedAt: number; // ms since epoch
+  fingerprint: string; // see sourceFingerprint.ts
+}
+
+/**
+ * Saves the snapshot of the parsed deployments and ABIs to IndexedDB
+ */
+export async function saveConfigSnapshot(workspaceId: string, snapshot: ConfigSnapshot): Promise<void> {
+  return putConfigValue(workspaceKey(workspaceId, CONFIG_SNAPSHOT_KEY), snapshot);
+}
+
+/**
+ * Retrieves the snapshot of the parsed deployments and ABIs from IndexedDB
+ */
+export async function getConfigSnapshot(workspaceId: string): Promise<ConfigSnapshot | null> {
+  try {
+    return await getConfigValue<ConfigSnapshot>(workspaceKey(workspaceId, CONFIG_SNAPSHOT_KEY));
+  } catch (error) {
+    console.error('Error getting config snapshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Clears the saved snapshot
+ */
+export async function clearConfigSnapshot(workspaceId: string): Promise<void> {
+  return deleteConfigValue(workspaceKey(workspaceId, CONFIG_SNAPSHOT_KEY));
+}
+
+/**
+ * Saves the parsed contents of an uploaded file or folder to IndexedDB
+ */
+export async function saveUploadedSource(workspaceId: string, kind: UploadedSourceKind, source: UploadedSource): Promise<void> {
+  return putConfigValue(workspaceKey(workspaceId, UPLOADED_SOURCE_KEY_PREFIX + kind), source);
+}
+
+/**
+ * Retrieves the parsed contents of an uploaded file or folder from IndexedDB
+ */
+export async function getUploadedSource(workspaceId: string, kind: UploadedSourceKind): Promise<UploadedSource | null> {
+  try {
+    return await getConfigValue<UploadedSource>(workspaceKey(workspaceId, UPLOADED_SOURCE_KEY_PREFIX + kind));
+  } catch (error) {
+    console.error('Error getting uploaded source:', error);
+    return null;
+  }
+}
+
+/**
+ * Clears the saved contents of an uploaded file or folder
+ */
+export async function clearUploadedSource(workspaceId: string, kind: UploadedSourceKind): Promise<void> {
+  return deleteConfigValue(workspaceKey(workspaceId, UPLOADED_SOURCE_KEY_PREFIX + kind));
+}
+
+/**
+ * Saves the ad-hoc contracts (address + ABI entries) to IndexedDB
+ */
+export async function saveAdHocContracts(workspaceId: string, contracts: AdHocContract[]): Promise<void> {
+  return putConfigValue(workspaceKey(workspaceId, ADHOC_CONTRACTS_KEY), contracts);
+}
+
+/**
+ * Retrieves the saved ad-hoc contracts from IndexedDB
+ */
+export async function getAdHocContracts(workspaceId: string): Promise<AdHocContract[]> {
+  try {
+    return (await getConfigValue<AdHocContract[]>(workspaceKey(workspaceId, ADHOC_CONTRACTS_KEY))) ?? [];
+  } catch (error) {
+    console.error('Error getting ad-hoc contracts:', error);
+    return [];
+  }
+}
+
+/**
+ * Saves the ABIs pinned for deployment contracts to IndexedDB
+ */
+export async function saveAbiPins(workspaceId: string, pins: AbiPins): Promise<void> {
+  return putConfigValue(workspaceKey(workspaceId, ABI_PINS_KEY), pins);
+}
+
+/**
+ * Retrieves the pinned ABIs from IndexedDB
+ */
+export async function getAbiPins(workspaceId: string): Promise<AbiPins> {
+  try {
+    return (await getConfigValue<AbiPins>(workspaceKey(workspaceId, ABI_PINS_KEY))) ?? {};
+  } catch (error) {
+    console.error('Error getting ABI pins:', error);
+    return {};
+  }
+}
+
+/**
+ * Saves the list of workspaces and the active one to IndexedDB
+ */
+export async function saveWorkspaceList(list: WorkspaceList): Promise<void> {
+  return putConfigValue(WORKSPACES_KEY, list);
+}
+
+/**
+ * Retrieves the saved workspace list from IndexedDB
+ */
+export async function getWorkspaceList(): Promise<WorkspaceList | null> {
+  try {
+    return await getConfigValue<WorkspaceList>(WORKSPACES_KEY);
+  } catch (error) {
+    console.error('Error getting workspaces:', error);
+    return null;
+  }
+}
+
+/**
+ * Deletes everything stored for a workspace (handles, snapshot, uploaded sources, pins, ad-hoc contracts)
+ */
+export async function clearWorkspaceData(workspaceId: string): Promise<void> {
+  const prefix = workspaceKeyPrefix(workspaceId);
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, 'readwrite');
     const store = transaction.objectStore(STORE_NAME);
-    const request = store.delete(FILE_HANDLE_KEY);
+    const request = store.getAllKeys();
 
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
+    request.onsuccess = () => {
+      for (const key of request.result) {
+        if (typeof key === 'string' && key.startsWith(prefix)) {
+          store.delete(key);
+        }
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
@@ -184,14 +398,3 @@ export async function requestFilePermission(
     return false;
   }
 }
-
-/**
- * Reads and parses JSON from a file handle
- */
-export async function readJsonFile<T = Record<string, unknown>>(
-  handle: FileSystemFileHandle
-): Promise<T> {
-  const file = await handle.getFile();
-  const text = await file.text();
-  return JSON.parse(text) as T;
-}
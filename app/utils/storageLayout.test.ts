@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { concat, keccak256, pad, toHex, type Hex } from 'viem';
+import {
+  addressMappingKeys,
+  findSlotVariables,
+  formatStorageValue,
+  parseStorageLayout,
+  sliceStorageWord,
+  type StorageLayout,
+} from './storageLayout';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const SPENDER = '0x2222222222222222222222222222222222222222';
+
+// contract Vault { address owner; bool paused; uint64 fee; mapping(address => uint256) balances;
+//   mapping(address => mapping(address => uint256)) allowance; Config config; uint256[] items; string name; }
+const layout = parseStorageLayout({
+  storage: [
+    { astId: 1, contract: 'src/Vault.sol:Vault', label: 'owner', offset: 0, slot: '0', type: 't_address' },
+    { astId: 2, contract: 'src/Vault.sol:Vault', label: 'paused', offset: 20, slot: '0', type: 't_bool' },
+    { astId: 3, contract: 'src/Vault.sol:Vault', label: 'fee', offset: 21, slot: '0', type: 't_uint64' },
+    { astId: 4, contract: 'src/Vault.sol:Vault', label: 'balances', offset: 0, slot: '1', type: 't_mapping(t_address,t_uint256)' },
+    { astId: 5, contract: 'src/Vault.sol:Vault', label: 'allowance', offset: 0, slot: '2', type: 't_mapping(t_address,t_mapping(t_address,t_uint256))' },
+    { astId: 6, contract: 'src/Vault.sol:Vault', label: 'config', offset: 0, slot: '3', type: 't_struct(Config)1_storage' },
+    { astId: 7, contract: 'src/Vault.sol:Vault', label: 'items', offset: 0, slot: '5', type: 't_array(t_uint256)dyn_storage' },
+    { astId: 8, contract: 'src/Vault.sol:Vault', label: 'name', offset: 0, slot: '6', type: 't_string_storage' },
+  ],
+  types: {
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+    t_uint64: { encoding: 'inplace', label: 'uint64', numberOfBytes: '8' },
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    t_string_storage: { encoding: 'bytes', label: 'string', numberOfBytes: '32' },
+    't_mapping(t_address,t_uint256)': {
+      encoding: 'mapping', label: 'mapping(address => uint256)', numberOfBytes: '32', key: 't_address', value: 't_uint256',
+    },
+    't_mapping(t_address,t_mapping(t_address,t_uint256))': {
+      encoding: 'mapping',
+      label: 'mapping(address => mapping(address => uint256))',
+      numberOfBytes: '32',
+      key: 't_address',
+      value: 't_mapping(t_address,t_uint256)',
+    },
+    't_struct(Config)1_storage': {
+      encoding: 'inplace',
+      label: 'struct Vault.Config',
+      numberOfBytes: '64',
+      members: [
+        { astId: 9, contract: 'src/Vault.sol:Vault', label: 'limit', offset: 0, slot: '0', type: 't_uint256' },
+        { astId: 10, contract: 'src/Vault.sol:Vault', label: 'admin', offset: 0, slot: '1', type: 't_address' },
+      ],
+    },
+    't_array(t_uint256)dyn_storage': { encoding: 'dynamic_array', label: 'uint256[]', numberOfBytes: '32', base: 't_uint256' },
+  },
+}) as StorageLayout;
+
+const slotWord = (slot: number | bigint) => pad(toHex(slot), { size: 32 });
+const mappingSlot = (key: Hex, slot: Hex) => keccak256(concat([pad(key, { size: 32 }), slot]));
+const names = (slot: Hex | bigint) => findSlotVariables(layout, slot, addressMappingKeys([OWNER, SPENDER])).map((v) => v.name);
+
+describe('parseStorageLayout', () => {
+  it('accepts solc layouts and rejects anything else', () => {
+    expect(layout.storage).toHaveLength(8);
+    expect(parseStorageLayout({ storage: [], types: null })).toEqual({ storage: [], types: {} });
+    expect(parseStorageLayout(undefined)).toBeNull();
+    expect(parseStorageLayout({ storage: [{ label: 'x' }], types: {} })).toBeNull();
+  });
+});
+
+describe('findSlotVariables', () => {
+  it('finds packed variables and struct members', () => {
+    expect(findSlotVariables(layout, slotWord(0))).toEqual([
+      { name: 'owner', type: 'address', offset: 0, size: 20 },
+      { name: 'paused', type: 'bool', offset: 20, size: 1 },
+      { name: 'fee', type: 'uint64', offset: 21, size: 8 },
+    ]);
+    expect(names(BigInt(4))).toEqual(['config.admin']);
+  });
+
+  it('finds mapping entries for candidate keys, including nested mappings', () => {
+    expect(names(mappingSlot(SPENDER, slotWord(1)))).toEqual([`balances[${SPENDER}]`]);
+    expect(names(mappingSlot(SPENDER, mappingSlot(OWNER, slotWord(2))))).toEqual([`allowance[${OWNER}][${SPENDER}]`]);
+    // Keys that weren't tried can't be found
+    expect(findSlotVariables(layout, mappingSlot(SPENDER, slotWord(1)))).toEqual([]);
+  });
+
+  it('finds dynamic array elements and long string data', () => {
+    const itemsStart = BigInt(keccak256(slotWord(5)));
+    expect(names(BigInt(5))).toEqual(['items.length']);
+    expect(names(itemsStart + BigInt(7))).toEqual(['items[7]']);
+    expect(names(BigInt(keccak256(slotWord(6))) + BigInt(1))).toEqual(['name (data chunk 1)']);
+  });
+});
+
+describe('formatStorageValue', () => {
+  it('decodes packed value types from their offset', () => {
+    const word: Hex = `0x000000${'00'.repeat(7)}2a01${OWNER.slice(2)}`;
+
+    expect(sliceStorageWord(word, { offset: 20, size: 1 })).toBe('0x01');
+    expect(formatStorageValue(word, { type: 'address', offset: 0, size: 20 })).toBe(OWNER);
+    expect(formatStorageValue(word, { type: 'bool', offset: 20, size: 1 })).toBe('true');
+    expect(formatStorageValue(word, { type: 'uint64', offset: 21, size: 8 })).toBe('42');
+    expect(formatStorageValue(`0x${'ff'.repeat(32)}`, { type: 'int256', offset: 0, size: 32 })).toBe('-1');
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Solidity storage layouts, as emitted by solc's `storageLayout` output (foundry
+ * artifacts, hardhat-deploy deployments with `storageLayout` enabled).
+ *
+ * A layout lists the state variables with their slot and byte offset, and the types
+ * they use. Given a slot number, the variable(s) stored in it can be found by walking
+ * the layout: structs and static arrays occupy consecutive slots, dynamic arrays and
+ * long strings start at `keccak256(slot)`, and mapping values live at
+ * `keccak256(key . slot)`. Mapping keys can't be recovered from a hash, so they are
+ * tried from a list of candidates (e.g. the addresses a transaction touched).
+ */
+
+import { concat, hexToBigInt, keccak256, pad, toHex, type Hex } from 'viem';
+import type { LoadedArtifact } from './artifactLoaders';
+
+export interface StorageLayoutEntry {
+  label: string;
+  slot: string; // decimal
+  offset: number; // bytes from the right of the slot
+  type: string; // key into the layout's types
+  contract?: string;
+}
+
+export interface StorageLayoutType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string; // e.g. "uint256", "mapping(address => uint256)"
+  numberOfBytes: string;
+  key?: string; // mappings
+  value?: string; // mappings
+  base?: string; // arrays
+  members?: StorageLayoutEntry[]; // structs
+}
+
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType>;
+}
+
+// A variable (or part of one) stored in a slot
+export interface StorageSlotVariable {
+  name: string; // e.g. "owner", "balances[0x12…]", "config.fee", "items[3]"
+  type: string;
+  offset: number;
+  size: number; // bytes
+}
+
+// Candidate mapping key: the 32-byte word it is hashed as, and how to print it
+export interface StorageMappingKey {
+  word: Hex;
+  label: string;
+}
+
+// Dynamic arrays and long strings longer than this aren't matched
+const MAX_DYNAMIC_LENGTH = BigInt(2 ** 32);
+// Mapping levels tried with every candidate key
+const MAX_MAPPING_DEPTH = 2;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isLayoutEntry(value: unknown): value is StorageLayoutEntry {
+  return isObject(value)
+    && typeof value.label === 'string'
+    && typeof value.slot === 'string'
+    && typeof value.offset === 'number'
+    && typeof value.type === 'string';
+}
+
+/**
+ * Validate a `storageLayout` field of an artifact. Returns null when it is missing
+ * or not in solc's format.
+ */
+export function parseStorageLayout(value: unknown): StorageLayout | null {
+  if (!isObject(value) || !Array.isArray(value.storage) || !value.storage.every(isLayoutEntry)) return null;
+  // Contracts without state variables have `types: null`
+  if (value.types !== null && !isObject(value.types)) return null;
+
+  return { storage: value.storage, types: (value.types ?? {}) as Record<string, StorageLayoutType> };
+}
+
+/**
+ * Storage layouts of scanned artifacts, by the same (fully-qualified) keys as the ABIs
+ */
+export function storageLayoutsOf(artifacts: Map<string, LoadedArtifact>): Map<string, StorageLayout> {
+  const layouts = new Map<string, StorageLayout>();
+  for (const [key, artifact] of artifacts) {
+    const layout = parseStorageLayout(artifact.metadata.storageLayout);
+    if (layout) layouts.set(key, layout);
+  }
+  return layouts;
+}
+
+/**
+ * Whether two scans found the same layouts. Layouts of unchanged artifact files keep
+ * their parsed objects, so this compares by reference.
+ */
+export function isSameStorageLayouts(a: Map<string, StorageLayout>, b: Map<string, StorageLayout>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [key, layout] of b) {
+    if (a.get(key)?.storage !== layout.storage) return false;
+  }
+  return true;
+}
+
+// A slot number as the 32-byte word it is hashed as
+export function slotWord(slot: bigint): Hex {
+  return pad(toHex(slot), { size: 32 });
+}
+
+// Slots a value of the type takes in place
+export function slotsOf(type: StorageLayoutType): bigint {
+  return (BigInt(type.numberOfBytes) + BigInt(31)) / BigInt(32);
+}
+
+// Length of a static array, from its label, e.g. "uint256[3]"
+export function staticLength(type: StorageLayoutType): bigint {
+  const match = /\[(\d+)\]$/.exec(type.label);
+  return match ? BigInt(match[1]) : BigInt(0);
+}
+
+/**
+ * Candidate mapping keys for addresses, as mappings keyed by `address` hash them
+ */
+export function addressMappingKeys(addresses: string[]): StorageMappingKey[] {
+  const unique = new Set(addresses.map((address) => address.toLowerCase()));
+  return [...unique].map((address) => ({ word: pad(address as Hex, { size: 32 }), label: address }));
+}
+
+interface Walk {
+  target: bigint;
+  types: Record<string, StorageLayoutType>;
+  keys: StorageMappingKey[];
+  found: StorageSlotVariable[];
+}
+
+// Elements of an array starting at `start`, as far as they cover the target slot
+function visitElements(walk: Walk, name: string, baseType: string, start: bigint, length: bigint | null) {
+  const element = walk.types[baseType];
+  if (!element || walk.target < start) return;
+
+  const elementBytes = Number(element.numberOfBytes);
+  const relative = walk.target - start;
+
+  if (elementBytes <= 16) {
+    // Several elements packed per slot
+    const perSlot = BigInt(Math.floor(32 / elementBytes));
+    const first = relative * perSlot;
+    for (let index = first; index < first + perSlot && (length === null || index < length); index++) {
+      const offset = Number(index - first) * elementBytes;
+      walk.found.push({ name: `${name}[${index}]`, type: element.label, offset, size: elementBytes });
+    }
+    return;
+  }
+
+  const span = slotsOf(element);
+  const index = relative / span;
+  if (length !== null && index >= length) return;
+  visit(walk, `${name}[${index}]`, baseType, start + index * span, 0);
+}
+
+function visit(walk: Walk, name: string, typeId: string, slot: bigint, offset: number, depth = 0) {
+  const type = walk.types[typeId];
+  if (!type) return;
+
+  switch (type.encoding) {
+    case 'inplace': {
+      if (walk.target < slot || walk.target >= slot + slotsOf(type)) return;
+      if (type.members) {
+        for (const member of type.members) {
+          visit(walk, `${name}.${member.label}`, member.type, slot + BigInt(member.slot), member.offset, depth);
+        }
+      } else if (type.base) {
+        visitElements(walk, name, type.base, slot, staticLength(type));
+      } else {
+        walk.found.push({ name, type: type.label, offset, size: Number(type.numberOfBytes) });
+      }
+      return;
+    }
+    case 'bytes': {
+      if (walk.target === slot) {
+        walk.found.push({ name, type: type.label, offset: 0, size: 32 });
+        return;
+      }
+      // Long values are stored from keccak256(slot), the slot itself holds the length
+      const start = BigInt(keccak256(slotWord(slot)));
+      const chunk = walk.target - start;
+      if (chunk >= BigInt(0) && chunk < MAX_DYNAMIC_LENGTH) {
+        walk.found.push({ name: `${name} (data chunk ${chunk})`, type: type.label, offset: 0, size: 32 });
+      }
+      return;
+    }
+    case 'dynamic_array': {
+      if (walk.target === slot) {
+        walk.found.push({ name: `${name}.length`, type: 'uint256', offset: 0, size: 32 });
+        return;
+      }
+      const start = BigInt(keccak256(slotWord(slot)));
+      if (type.base && walk.target >= start && walk.target - start < MAX_DYNAMIC_LENGTH) {
+        visitElements(walk, name, type.base, start, null);
+      }
+      return;
+    }
+    case 'mapping': {
+      const keyType = type.key ? walk.types[type.key] : undefined;
+      // String and bytes keys are hashed unpadded, only value-type keys can be tried
+      if (!type.value || !keyType || keyType.encoding !== 'inplace' || depth >= MAX_MAPPING_DEPTH) return;
+      for (const key of walk.keys) {
+        const valueSlot = BigInt(keccak256(concat([key.word, slotWord(slot)])));
+        visit(walk, `${name}[${key.label}]`, type.value, valueSlot, 0, depth + 1);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Variables stored in a slot. Packed slots return several variables, ordered as
+ * declared. Slots of mappings are only found for the candidate keys.
+ */
+export function findSlotVariables(
+  layout: StorageLayout,
+  slot: Hex | bigint,
+  keys: StorageMappingKey[] = []
+): StorageSlotVariable[] {
+  const walk: Walk = { target: BigInt(slot), types: layout.types, keys, found: [] };
+  for (const entry of layout.storage) {
+    visit(walk, entry.label, entry.type, BigInt(entry.slot), entry.offset);
+  }
+  return walk.found;
+}
+
+/**
+ * Extract the bytes of a variable from a storage word, e.g. a packed uint64
+ */
+export function sliceStorageWord(value: Hex, variable: Pick<StorageSlotVariable, 'offset' | 'size'>): Hex {
+  const hex = value.replace(/^0x/, '').padStart(64, '0');
+  const size = Math.min(variable.size, 32 - variable.offset);
+  const end = 64 - variable.offset * 2;
+  return `0x${hex.slice(end - size * 2, end)}`;
+}
+
+/**
+ * Format the value of a value-type variable read from its slot. Other types (and
+ * the slots of strings, arrays and mappings) are shown as hex.
+ */
+export function formatStorageValue(value: Hex, variable: Pick<StorageSlotVariable, 'type' | 'offset' | 'size'>): string {
+  const bytes = sliceStorageWord(value, variable);
+  const type = variable.type;
+
+  if (type === 'bool') return hexToBigInt(bytes) === BigInt(0) ? 'false' : 'true';
+  if (type === 'address' || type === 'address payable' || type.startsWith('contract ')) {
+    return `0x${bytes.slice(2).padStart(40, '0').slice(-40)}`;
+  }
+  if (/^uint\d*$/.test(type) || type.startsWith('enum ')) return hexToBigInt(bytes).toString();
+  if (/^int\d*$/.test(type)) return hexToBigInt(bytes, { signed: true }).toString();
+  return bytes;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { concat, keccak256, pad, stringToHex, toHex, type Hex } from 'viem';
+import { parseStorageLayout, type StorageLayout } from './storageLayout';
+import {
+  createStorageReader,
+  mappingEntrySlot,
+  readMappingEntry,
+  readStorageVariables,
+  type MappingStorageValue,
+  type StorageSlotReader,
+} from './storageReader';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const SPENDER = '0x2222222222222222222222222222222222222222';
+
+// contract Vault { address owner; bool paused; uint64 fee; string name; string description;
+//   uint8[3] flags; Config config; uint256[] items; mapping(address => mapping(address => uint256)) allowance; }
+const layout = parseStorageLayout({
+  storage: [
+    { label: 'owner', offset: 0, slot: '0', type: 't_address' },
+    { label: 'paused', offset: 20, slot: '0', type: 't_bool' },
+    { label: 'fee', offset: 21, slot: '0', type: 't_uint64' },
+    { label: 'name', offset: 0, slot: '1', type: 't_string_storage' },
+    { label: 'description', offset: 0, slot: '2', type: 't_string_storage' },
+    { label: 'flags', offset: 0, slot: '3', type: 't_array(t_uint8)3_storage' },
+    { label: 'config', offset: 0, slot: '4', type: 't_struct(Config)_storage' },
+    { label: 'items', offset: 0, slot: '6', type: 't_array(t_uint256)dyn_storage' },
+    { label: 'allowance', offset: 0, slot: '7', type: 't_mapping(t_address,t_mapping(t_address,t_uint256))' },
+  ],
+  types: {
+    t_address: { encoding: 'inplace', label: 'address', numberOfBytes: '20' },
+    t_bool: { encoding: 'inplace', label: 'bool', numberOfBytes: '1' },
+    t_uint8: { encoding: 'inplace', label: 'uint8', numberOfBytes: '1' },
+    t_uint64: { encoding: 'inplace', label: 'uint64', numberOfBytes: '8' },
+    t_int128: { encoding: 'inplace', label: 'int128', numberOfBytes: '16' },
+    t_uint256: { encoding: 'inplace', label: 'uint256', numberOfBytes: '32' },
+    t_string_storage: { encoding: 'bytes', label: 'string', numberOfBytes: '32' },
+    't_array(t_uint8)3_storage': { encoding: 'inplace', label: 'uint8[3]', numberOfBytes: '32', base: 't_uint8' },
+    't_array(t_uint256)dyn_storage': { encoding: 'dynamic_array', label: 'uint256[]', numberOfBytes: '32', base: 't_uint256' },
+    't_struct(Config)_storage': {
+      encoding: 'inplace',
+      label: 'struct Vault.Config',
+      numberOfBytes: '64',
+      members: [
+        { label: 'limit', offset: 0, slot: '0', type: 't_uint256' },
+        { label: 'delta', offset: 0, slot: '1', type: 't_int128' },
+      ],
+    },
+    't_mapping(t_address,t_uint256)': {
+      encoding: 'mapping', label: 'mapping(address => uint256)', numberOfBytes: '32', key: 't_address', value: 't_uint256',
+    },
+    't_mapping(t_address,t_mapping(t_address,t_uint256))': {
+      encoding: 'mapping',
+      label: 'mapping(address => mapping(address => uint256))',
+      numberOfBytes: '32',
+      key: 't_address',
+      value: 't_mapping(t_address,t_uint256)',
+    },
+  },
+}) as StorageLayout;
+
+const word = (value: bigint | number): Hex => pad(toHex(value), { size: 32 });
+const dataStart = (slot: number) => BigInt(keccak256(word(slot)));
+
+const longDescription = 'A vault whose description takes more than one slot';
+const descriptionHex = stringToHex(longDescription).slice(2).padEnd(128, '0');
+
+const storage = new Map<bigint, Hex>([
+  // fee = 42, paused = true, owner
+  [BigInt(0), `0x000000${'00'.repeat(7)}2a01${OWNER.slice(2)}`],
+  // Short string: data left-aligned, length * 2 in the last byte
+  [BigInt(1), `${stringToHex('Vault').padEnd(64, '0')}0a` as Hex],
+  [BigInt(2), word(longDescription.length * 2 + 1)],
+  [dataStart(2), `0x${descriptionHex.slice(0, 64)}`],
+  [dataStart(2) + BigInt(1), `0x${descriptionHex.slice(64)}`],
+  // flags = [1, 2, 3], packed from the right
+  [BigInt(3), word(0x030201)],
+  [BigInt(4), word(1000)],
+  [BigInt(5), `0x${'00'.repeat(16)}${'ff'.repeat(16)}`],
+  [BigInt(6), word(2)],
+  [dataStart(6), word(7)],
+  [dataStart(6) + BigInt(1), word(8)],
+  [BigInt(keccak256(concat([pad(SPENDER), keccak256(concat([pad(OWNER), word(7)]))]))), word(500)],
+]);
+const read: StorageSlotReader = async (slot) => storage.get(slot) ?? word(0);
+
+describe('readStorageVariables', () => {
+  it('decodes packed values, strings, arrays and structs', async () => {
+    const [owner, paused, fee, name, description, flags, config, items, allowance] = await readStorageVariables(read, layout);
+
+    expect(owner.value).toMatchObject({ kind: 'value', display: OWNER });
+    expect(paused.value).toMatchObject({ kind: 'value', display: 'true', offset: 20 });
+    expect(fee.value).toMatchObject({ kind: 'value', display: '42', type: 'uint64' });
+    expect(name.value).toMatchObject({ kind: 'bytes', display: 'Vault', length: BigInt(5) });
+    expect(description.value).toMatchObject({ kind: 'bytes', display: longDescription, truncated: false });
+    expect(flags.value.kind === 'array' && flags.value.elements.map((element) => element.value)).toMatchObject([
+      { display: '1' }, { display: '2' }, { display: '3' },
+    ]);
+    expect(config.value.kind === 'struct' && config.value.members).toMatchObject([
+      { name: 'limit', value: { display: '1000' } },
+      { name: 'delta', value: { display: '-1', slot: BigInt(5) } },
+    ]);
+    expect(items.value).toMatchObject({ kind: 'array', length: BigInt(2), elements: [{ name: '[0]', value: { display: '7' } }, { name: '[1]' }] });
+    expect(allowance.value).toMatchObject({ kind: 'mapping', keyType: 'address', slot: BigInt(7) });
+  });
+});
+
+describe('readMappingEntry', () => {
+  it('reads nested mapping entries key by key', async () => {
+    const [allowance] = (await readStorageVariables(read, layout)).slice(-1);
+
+    const byOwner = await readMappingEntry(read, layout, allowance.value as MappingStorageValue, OWNER);
+    expect(byOwner).toMatchObject({ name: `[${OWNER}]`, value: { kind: 'mapping', keyType: 'address' } });
+
+    const entry = await readMappingEntry(read, layout, byOwner.value as MappingStorageValue, SPENDER);
+    expect(entry.value).toMatchObject({ kind: 'value', display: '500' });
+  });
+
+  it('hashes string keys unpadded', () => {
+    expect(mappingEntrySlot('string', 'abc', BigInt(3))).toBe(BigInt(keccak256(concat([stringToHex('abc'), word(3)]))));
+    expect(mappingEntrySlot('uint256', BigInt(1), BigInt(3))).toBe(BigInt(keccak256(concat([word(1), word(3)]))));
+  });
+});
+
+describe('createStorageReader', () => {
+  it('reads each slot once at the chosen block', async () => {
+    const getStorageAt = vi.fn(async () => word(9));
+    const reader = createStorageReader({ getStorageAt } as never, OWNER, BigInt(12));
+
+    await Promise.all([reader(BigInt(1)), reader(BigInt(1))]);
+
+    expect(getStorageAt).toHaveBeenCalledTimes(1);
+    expect(getStorageAt).toHaveBeenCalledWith({ address: OWNER, slot: word(1), blockNumber: BigInt(12) });
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Read the state variables of a contract from its storage layout with
+ * `eth_getStorageAt`, including private state the ABI doesn't expose.
+ *
+ * Values are decoded following solc's storage rules: value types are packed
+ * right-to-left within a slot, structs and static arrays take consecutive slots,
+ * strings and bytes up to 31 bytes share their slot with their length, longer ones
+ * and dynamic array elements start at `keccak256(slot)`. Mappings can't be listed,
+ * their entries are read for a given key.
+ */
+
+import { concat, encodeAbiParameters, hexToBigInt, hexToString, keccak256, pad, toHex, type Hex, type PublicClient } from 'viem';
+import { formatStorageValue, slotsOf, slotWord, staticLength, type StorageLayout, type StorageLayoutType } from './storageLayout';
+
+export type StorageValue =
+  | { kind: 'value'; type: string; slot: bigint; offset: number; raw: Hex; display: string }
+  | { kind: 'bytes'; type: string; slot: bigint; length: bigint; raw: Hex; display: string; truncated: boolean }
+  | { kind: 'struct'; type: string; slot: bigint; members: StorageNode[] }
+  | { kind: 'array'; type: string; slot: bigint; length: bigint; elements: StorageNode[] }
+  | { kind: 'mapping'; type: string; slot: bigint; typeId: string; keyType: string };
+
+export type MappingStorageValue = Extract<StorageValue, { kind: 'mapping' }>;
+
+export interface StorageNode {
+  name: string;
+  value: StorageValue;
+}
+
+// Reads one slot as a 32-byte word
+export type StorageSlotReader = (slot: bigint) => Promise<Hex>;
+
+// The subset of a viem public client used here
+type StorageClient = Pick<PublicClient, 'getStorageAt'>;
+
+// Elements of dynamic and static arrays read per array
+export const MAX_ARRAY_ELEMENTS = 20;
+// Bytes of a string or bytes value read at most
+const MAX_BYTES_LENGTH = 1024;
+
+const ZERO_WORD: Hex = `0x${'0'.repeat(64)}`;
+
+/**
+ * A slot reader for a contract at a block (latest when omitted). Each slot is
+ * fetched once, so packed variables share a request.
+ */
+export function createStorageReader(client: StorageClient, address: Hex, blockNumber?: bigint): StorageSlotReader {
+  const cache = new Map<bigint, Promise<Hex>>();
+  return (slot) => {
+    let word = cache.get(slot);
+    if (!word) {
+      word = client
+        .getStorageAt({ address, slot: slotWord(slot), ...(blockNumber !== undefined ? { blockNumber } : {}) })
+        .then((value) => (value ? pad(value, { size: 32 }) : ZERO_WORD));
+      cache.set(slot, word);
+    }
+    return word;
+  };
+}
+
+/**
+ * The ABI type a mapping key is given as, e.g. "address" for `contract IERC20` keys
+ */
+export function mappingKeyType(layout: StorageLayout, typeId: string): string {
+  const keyLabel = layout.types[layout.types[typeId]?.key ?? '']?.label ?? 'bytes32';
+  if (keyLabel.startsWith('contract ') || keyLabel === 'address payable') return 'address';
+  if (keyLabel.startsWith('enum ')) return 'uint8';
+  return keyLabel;
+}
+
+/**
+ * Slot of a mapping entry: `keccak256(key . slot)`, with value-type keys padded to
+ * 32 bytes and string or bytes keys hashed as they are
+ */
+export function mappingEntrySlot(keyType: string, key: unknown, slot: bigint): bigint {
+  const encodedKey = keyType === 'string'
+    ? toHex(key as string)
+    : keyType === 'bytes'
+    ? (key as Hex)
+    : encodeAbiParameters([{ type: keyType }], [key]);
+  return hexToBigInt(keccak256(concat([encodedKey, slotWord(slot)])));
+}
+
+// Position of an array element: elements of 16 bytes or less are packed
+function elementPosition(element: StorageLayoutType, start: bigint, index: bigint): { slot: bigint; offset: number } {
+  const elementBytes = Number(element.numberOfBytes);
+  if (elementBytes <= 16) {
+    const perSlot = BigInt(Math.floor(32 / elementBytes));
+    return { slot: start + index / perSlot, offset: Number(index % perSlot) * elementBytes };
+  }
+  return { slot: start + index * slotsOf(element), offset: 0 };
+}
+
+async function readElements(
+  read: StorageSlotReader,
+  layout: StorageLayout,
+  baseType: string,
+  start: bigint,
+  length: bigint
+): Promise<StorageNode[]> {
+  const element = layout.types[baseType];
+  if (!element) return [];
+
+  const count = length < BigInt(MAX_ARRAY_ELEMENTS) ? Number(length) : MAX_ARRAY_ELEMENTS;
+  return Promise.all(Array.from({ length: count }, async (_, i) => {
+    const { slot, offset } = elementPosition(element, start, BigInt(i));
+    return { name: `[${i}]`, value: await readValue(read, layout, baseType, slot, offset) };
+  }));
+}
+
+async function readBytes(read: StorageSlotReader, type: StorageLayoutType, slot: bigint): Promise<StorageValue> {
+  const word = await read(slot);
+  const value = hexToBigInt(word);
+
+  let length: bigint;
+  let raw: Hex;
+  let truncated = false;
+  if ((value & BigInt(1)) === BigInt(0)) {
+    // Short: data in the high-order bytes, length * 2 in the lowest byte
+    length = (value & BigInt(0xff)) / BigInt(2);
+    raw = `0x${word.slice(2, 2 + Number(length) * 2)}`;
+  } else {
+    length = (value - BigInt(1)) / BigInt(2);
+    const readLength = length < BigInt(MAX_BYTES_LENGTH) ? Number(length) : MAX_BYTES_LENGTH;
+    truncated = readLength < length;
+    const start = hexToBigInt(keccak256(slotWord(slot)));
+    const chunks = await Promise.all(
+      Array.from({ length: Math.ceil(readLength / 32) }, (_, i) => read(start + BigInt(i)))
+    );
+    raw = `0x${chunks.map((chunk) => chunk.slice(2)).join('').slice(0, readLength * 2)}`;
+  }
+
+  let display: string = raw;
+  if (type.label === 'string') {
+    try {
+      display = hexToString(raw);
+    } catch {
+      display = raw;
+    }
+  }
+  return { kind: 'bytes', type: type.label, slot, length, raw, display, truncated };
+}
+
+async function readValue(
+  read: StorageSlotReader,
+  layout: StorageLayout,
+  typeId: string,
+  slot: bigint,
+  offset: number
+): Promise<StorageValue> {
+  const type = layout.types[typeId];
+  if (!type) {
+    const raw = await read(slot);
+    return { kind: 'value', type: typeId, slot, offset, raw, display: raw };
+  }
+
+  switch (type.encoding) {
+    case 'mapping':
+      return { kind: 'mapping', type: type.label, slot, typeId, keyType: mappingKeyType(layout, typeId) };
+    case 'bytes':
+      return readBytes(read, type, slot);
+    case 'dynamic_array': {
+      const length = hexToBigInt(await read(slot));
+      const start = hexToBigInt(keccak256(slotWord(slot)));
+      const elements = type.base ? await readElements(read, layout, type.base, start, length) : [];
+      return { kind: 'array', type: type.label, slot, length, elements };
+    }
+    case 'inplace': {
+      if (type.members) {
+        const members = await Promise.all(type.members.map(async (member) => ({
+          name: member.label,
+          value: await readValue(read, layout, member.type, slot + BigInt(member.slot), member.offset),
+        })));
+        return { kind: 'struct', type: type.label, slot, members };
+      }
+      if (type.base) {
+        const length = staticLength(type);
+        return { kind: 'array', type: type.label, slot, length, elements: await readElements(read, layout, type.base, slot, length) };
+      }
+      const raw = await read(slot);
+      const variable = { type: type.label, offset, size: Number(type.numberOfBytes) };
+      return { kind: 'value', type: type.label, slot, offset, raw, display: formatStorageValue(raw, variable) };
+    }
+  }
+}
+
+/**
+ * Read and decode every state variable of a layout, in declaration order
+ */
+export async function readStorageVariables(read: StorageSlotReader, layout: StorageLayout): Promise<StorageNode[]> {
+  return Promise.all(layout.storage.map(async (entry) => ({
+    name: entry.label,
+    value: await readValue(read, layout, entry.type, BigInt(entry.slot), entry.offset),
+  })));
+}
+
+/**
+ * Read the entry of a mapping for a key, already parsed for the mapping's key type.
+ * Nested mappings return a mapping value to look up further.
+ */
+export async function readMappingEntry(
+  read: StorageSlotReader,
+  layout: StorageLayout,
+  mapping: MappingStorageValue,
+  key: unknown
+): Promise<StorageNode> {
+  const valueType = layout.types[mapping.typeId]?.value;
+  if (!valueType) throw new Error(`Unknown value type of ${mapping.type}`);
+
+  const slot = mappingEntrySlot(mapping.keyType, key, mapping.slot);
+  return { name: `[${String(key)}]`, value: await readValue(read, layout, valueType, slot, 0) };
+}
@@ -4,7 +4,8 @@
 
 import { decodeFunctionData, decodeEventLog, Transaction, TransactionReceipt, Hash } from 'viem';
 import type { DecodedEventLog, DecodedFunctionData, AbiFunction, AbiEvent, ContractAbi, DeploymentsFile } from '../types';
-import { findBestAbiMatch } from './abiMatcher';
+import { findBestAbiMatch, getAbiPin, isAmbiguousMatch, type AbiPins } from './abiMatcher';
+import { decodeCalldataWithRegistry, decodeLogWithRegistry, type SelectorRegistry } from './selectorRegistry';
 
 // Utility function to convert BigInts to strings for JSON display
 export function serializeBigInts(obj: unknown): unknown {
@@ -53,22 +54,27 @@ export function findContractByAddress(
 }
 
 /**
- * Load ABI for a specific contract from the ABIs folder
+ * Load ABI for a specific contract from the ABIs folder. A pinned ABI name takes
+ * precedence over the contract name.
  */
 export async function loadAbiForContract(
   contractName: string,
   abisFolderHandle: FileSystemDirectoryHandle | null,
   availableAbis?: Set<string>,
-  abiCache?: Map<string, ContractAbi>
+  abiCache?: Map<string, ContractAbi>,
+  pinnedAbiName?: string | null
 ): Promise<ContractAbi | null> {
   // Fast path: look up from in-memory cache
   if (abiCache) {
+    const pinned = pinnedAbiName ? abiCache.get(pinnedAbiName) : undefined;
+    if (pinned) return pinned;
+
     const direct = abiCache.get(contractName);
     if (direct) return direct;
 
     if (availableAbis) {
       const match = findBestAbiMatch(contractName, availableAbis);
-      if (match) return abiCache.get(match.abiName) ?? null;
+      if (match && !isAmbiguousMatch(match)) return abiCache.get(match.abiName) ?? null;
     }
     return null;
   }
@@ -79,16 +85,21 @@ export async function loadAbiForContract(
 
   try {
     // Resolve the actual ABI name via fuzzy matching when exact match isn't available
-    let resolvedName = contractName;
-    if (availableAbis && !availableAbis.has(contractName)) {
-      const match = findBestAbiMatch(contractName, availableAbis);
+    let resolvedName = pinnedAbiName || contractName;
+    if (availableAbis && !availableAbis.has(resolvedName)) {
+      const match = findBestAbiMatch(contractName, availableAbis, pinnedAbiName);
+      if (isAmbiguousMatch(match)) return null;
       if (match) {
         resolvedName = match.abiName;
       }
     }
 
-    const solDir = await abisFolderHandle.getDirectoryHandle(`${resolvedName}.sol`);
-    const jsonFile = await solDir.getFileHandle(`${resolvedName}.json`);
+    // "<File>.sol/<Contract>.json" below the folder, e.g. "Tokens.sol/TokenA.json" for "src/Tokens.sol:TokenA"
+    const separator = resolvedName.lastIndexOf(':');
+    const name = separator === -1 ? resolvedName : resolvedName.slice(separator + 1);
+    const sourceFile = separator === -1 ? `${name}.sol` : resolvedName.slice(0, separator).split('/').pop()!;
+    const solDir = await abisFolderHandle.getDirectoryHandle(sourceFile);
+    const jsonFile = await solDir.getFileHandle(`${name}.json`);
     const file = await jsonFile.getFile();
     const text = await file.text();
 
@@ -114,12 +125,15 @@ export async function loadAbiForContract(
 }
 
 /**
- * Decode transaction input and events with a given ABI
+ * Decode transaction input and events with a given ABI. With a selector registry,
+ * input and logs the ABI can't explain (e.g. events of other contracts) are decoded
+ * with any loaded ABI that can.
  */
 export async function decodeTransactionWithAbi(
   transaction: Transaction,
   receipt: TransactionReceipt,
-  abi: ContractAbi
+  abi: ContractAbi,
+  registry?: SelectorRegistry
 ): Promise<{
   decodedInput: DecodedFunctionData | { error: string } | null;
   decodedEvents: DecodedEventLog[];
@@ -145,7 +159,8 @@ export async function decodeTransactionWithAbi(
         signature: matchingFunction ? `${matchingFunction.name}(${matchingFunction.inputs.map((input) => `${input.type} ${input.name}`).join(', ')})` : decoded.functionName
       };
     } catch {
-      decodedInput = { error: 'Failed to decode input data. The ABI might not match this transaction.' };
+      decodedInput = (registry && decodeCalldataWithRegistry(registry, transaction.input))
+        ?? { error: 'Failed to decode input data. The ABI might not match this transaction.' };
     }
   }
 
@@ -178,6 +193,22 @@ export async function decodeTransactionWithAbi(
               continue;
             }
           }
+
+          const match = registry && decodeLogWithRegistry(registry, log);
+          if (match) {
+            return {
+              index,
+              blockNumber: log.blockNumber,
+              transactionHash: log.transactionHash,
+              logIndex: log.logIndex,
+              address: log.address,
+              eventName: match.eventName,
+              args: match.args,
+              decoded: true,
+              abiName: match.abiName,
+              alternatives: match.alternatives,
+            };
+          }
         }
 
         return {
@@ -202,21 +233,25 @@ export async function decodeTransactionWithAbi(
 }
 
 /**
- * Get list of available contracts from the current deployment that have ABIs
+ * Get list of available contracts from the current deployment that have ABIs,
+ * either pinned or found by fuzzy matching
  */
 export function getAvailableContracts(
   deploymentsFile: DeploymentsFile,
   selectedNetwork: string,
   selectedDeployment: string,
-  availableAbis: Set<string>
+  availableAbis: Set<string>,
+  abiPins: AbiPins = {}
 ): string[] {
   if (!selectedNetwork || !selectedDeployment) return [];
 
   return Object.keys(deploymentsFile[selectedNetwork]?.[selectedDeployment] || {}).filter(
     (key) => {
       const hasAddress = deploymentsFile[selectedNetwork][selectedDeployment][key]?.startsWith('0x');
-      const hasAbi = findBestAbiMatch(key, availableAbis) !== null;
-      return hasAddress && hasAbi;
+      const pinned = getAbiPin(abiPins, selectedNetwork, selectedDeployment, key);
+      // Ambiguous matches can't be decoded until one of the candidates is pinned
+      const match = findBestAbiMatch(key, availableAbis, pinned);
+      return hasAddress && match !== null && !isAmbiguousMatch(match);
     }
   );
 }
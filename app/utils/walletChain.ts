@@ -0,0 +1,39 @@
+/**
+ * Wallet chain switching for chains that aren't part of the static wagmi config.
+ * Uses the EIP-3326 / EIP-3085 wallet RPC methods directly, so any chain from the
+ * chain registry can be used for writes.
+ */
+
+import type { Chain } from 'viem';
+
+interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+// Error code wallets return for wallet_switchEthereumChain when the chain is unknown
+const UNRECOGNIZED_CHAIN_ERROR_CODE = 4902;
+
+/**
+ * Ask the wallet to switch to the given chain, adding it first if the wallet
+ * doesn't know it yet
+ */
+export async function switchWalletChain(provider: Eip1193Provider, chain: Chain): Promise<void> {
+  const chainId = `0x${chain.id.toString(16)}`;
+
+  try {
+    await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (err) {
+    if ((err as { code?: number }).code !== UNRECOGNIZED_CHAIN_ERROR_CODE) throw err;
+
+    await provider.request({
+      method: 'wallet_addEthereumChain',
+      params: [{
+        chainId,
+        chainName: chain.name,
+        nativeCurrency: chain.nativeCurrency,
+        rpcUrls: chain.rpcUrls.default.http,
+        blockExplorerUrls: chain.blockExplorers ? [chain.blockExplorers.default.url] : undefined,
+      }],
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_WORKSPACE_ID,
+  DEFAULT_WORKSPACE_LIST,
+  normalizeWorkspaceList,
+  workspaceKey,
+} from './workspaces';
+
+describe('workspaceKey', () => {
+  it('keeps unprefixed keys for the default workspace', () => {
+    expect(workspaceKey(DEFAULT_WORKSPACE_ID, 'rpcUrl')).toBe('rpcUrl');
+  });
+
+  it('prefixes keys of other workspaces', () => {
+    expect(workspaceKey('k3x9', 'rpcUrl')).toBe('workspace:k3x9:rpcUrl');
+  });
+});
+
+describe('normalizeWorkspaceList', () => {
+  it('falls back to the default list', () => {
+    expect(normalizeWorkspaceList(null)).toEqual(DEFAULT_WORKSPACE_LIST);
+  });
+
+  it('restores a missing default workspace and an unknown active id', () => {
+    const list = normalizeWorkspaceList({
+      workspaces: [{ id: 'a', name: 'Staging' }],
+      activeWorkspaceId: 'gone',
+    });
+
+    expect(list.workspaces.map((workspace) => workspace.id)).toEqual([DEFAULT_WORKSPACE_ID, 'a']);
+    expect(list.activeWorkspaceId).toBe(DEFAULT_WORKSPACE_ID);
+  });
+
+  it('keeps a valid active workspace', () => {
+    const list = normalizeWorkspaceList({
+      workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Default' }, { id: 'a', name: 'Staging' }],
+      activeWorkspaceId: 'a',
+    });
+    expect(list.activeWorkspaceId).toBe('a');
+  });
+});
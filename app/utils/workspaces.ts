@@ -0,0 +1,59 @@
+/**
+ * Named workspaces: each one keeps its own deployments file / ABIs folder handles,
+ * snapshot, RPC settings and last selection.
+ *
+ * Workspace data lives under prefixed keys (IndexedDB and localStorage). The default
+ * workspace uses the unprefixed keys, so configurations saved before workspaces
+ * existed become the default workspace.
+ */
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+export interface WorkspaceList {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export const DEFAULT_WORKSPACE_LIST: WorkspaceList = {
+  workspaces: [{ id: DEFAULT_WORKSPACE_ID, name: 'Default' }],
+  activeWorkspaceId: DEFAULT_WORKSPACE_ID,
+};
+
+/**
+ * Storage key of a workspace-scoped value, e.g. "workspace:k3x9:rpcUrl"
+ */
+export function workspaceKey(workspaceId: string, key: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? key : `${workspaceKeyPrefix(workspaceId)}${key}`;
+}
+
+export function workspaceKeyPrefix(workspaceId: string): string {
+  return `workspace:${workspaceId}:`;
+}
+
+/**
+ * New unique workspace id
+ */
+export function createWorkspaceId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Make sure a loaded list is usable: the default workspace exists and the active one is known
+ */
+export function normalizeWorkspaceList(list: WorkspaceList | null): WorkspaceList {
+  if (!list || !Array.isArray(list.workspaces)) return DEFAULT_WORKSPACE_LIST;
+
+  const workspaces = list.workspaces.some((workspace) => workspace.id === DEFAULT_WORKSPACE_ID)
+    ? list.workspaces
+    : [...DEFAULT_WORKSPACE_LIST.workspaces, ...list.workspaces];
+  const activeWorkspaceId = workspaces.some((workspace) => workspace.id === list.activeWorkspaceId)
+    ? list.activeWorkspaceId
+    : DEFAULT_WORKSPACE_ID;
+
+  return { workspaces, activeWorkspaceId };
+}
@@ -1,73 +1,52 @@
-import { defineChain } from 'viem'
+import { defineChain, type Chain } from 'viem'
 import { mainnet } from 'viem/chains'
 import { http, createConfig } from 'wagmi'
 import { injected } from 'wagmi/connectors'
+import {
+  GENLAYER_TESTNET_CONFIG,
+  DEFAULT_RPC_URL,
+  DEFAULT_WS_URL,
+  type ChainConfig,
+} from './utils/chainRegistry'
 
 // Re-export mainnet for use in tests
 export { mainnet }
 
 // Default RPC endpoints
-export const DEFAULT_RPC_URL = 'https://zksync-os-testnet-genlayer.zksync.dev';
-export const DEFAULT_WS_URL = 'wss://zksync-os-testnet-genlayer.zksync.dev/ws';
+export { DEFAULT_RPC_URL, DEFAULT_WS_URL }
 
-// Define GenLayer Testnet with default RPC
-export const genlayerTestnet = defineChain({
-  id: 4221,
-  name: 'GenLayer Testnet',
-  network: 'genlayer-testnet',
-  nativeCurrency: {
-    decimals: 18,
-    name: 'GenLayer',
-    symbol: 'GEN',
-  },
-  rpcUrls: {
-    default: {
-      http: [DEFAULT_RPC_URL],
-      webSocket: [DEFAULT_WS_URL],
-    },
-    public: {
-      http: [DEFAULT_RPC_URL],
-      webSocket: [DEFAULT_WS_URL],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'Explorer',
-      url: 'https://genlayer-testnet.explorer.caldera.xyz',
-    },
-  },
-})
+// Create a chain definition from a chain registry entry
+export function createChainFromConfig(config: ChainConfig, network?: string): Chain {
+  const rpcUrls = {
+    http: [config.rpcUrl],
+    ...(config.wsUrl ? { webSocket: [config.wsUrl] } : {}),
+  }
 
-// Create a GenLayer chain definition with custom RPC URLs
-export function createGenlayerChain(rpcUrl: string, wsUrl: string) {
   return defineChain({
-    id: 4221,
-    name: 'GenLayer Testnet',
-    network: 'genlayer-testnet',
-    nativeCurrency: {
-      decimals: 18,
-      name: 'GenLayer',
-      symbol: 'GEN',
-    },
+    id: config.chainId,
+    name: config.name,
+    network: network || config.name.toLowerCase().replace(/\s+/g, '-'),
+    nativeCurrency: config.nativeCurrency,
     rpcUrls: {
-      default: {
-        http: [rpcUrl],
-        webSocket: [wsUrl],
-      },
-      public: {
-        http: [rpcUrl],
-        webSocket: [wsUrl],
-      },
-    },
-    blockExplorers: {
-      default: {
-        name: 'Explorer',
-        url: 'https://genlayer-testnet.explorer.caldera.xyz',
-      },
+      default: rpcUrls,
+      public: rpcUrls,
     },
+    ...(config.blockExplorerUrl
+      ? {
+          blockExplorers: {
+            default: {
+              name: 'Explorer',
+              url: config.blockExplorerUrl,
+            },
+          },
+        }
+      : {}),
   })
 }
 
+// Define GenLayer Testnet with default RPC
+export const genlayerTestnet = createChainFromConfig(GENLAYER_TESTNET_CONFIG, 'genlayer-testnet')
+
 export const config = createConfig({
   chains: [genlayerTestnet, mainnet],
   connectors: [